@@ -0,0 +1,102 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ThemeToggle } from '@/components/theme-toggle';
+import { getCurrentUser } from '@/lib/auth';
+import { acceptInvite, getInvite, setCurrentWorkspaceId, WorkspaceInvite } from '@/lib/workspaces';
+
+export default function InvitePage() {
+  const params = useParams<{ token: string }>();
+  const token = params.token;
+  const router = useRouter();
+
+  const [invite, setInvite] = useState<WorkspaceInvite | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Invites are accepted by the signed-in user they were sent to
+  useEffect(() => {
+    let isMounted = true;
+
+    const load = async () => {
+      try {
+        const currentUser = await getCurrentUser();
+        if (!currentUser) {
+          router.replace(`/login?next=${encodeURIComponent(`/invites/${token}`)}`);
+          return;
+        }
+
+        const loaded = await getInvite(token);
+        if (isMounted) setInvite(loaded);
+      } catch (error) {
+        console.error('Error loading invite:', error);
+        if (isMounted) setError(error instanceof Error ? error.message : 'Failed to load invite');
+      }
+    };
+
+    load();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [token, router]);
+
+  // Handle accepting, then open the workspace's library
+  const handleAccept = async () => {
+    try {
+      setIsSubmitting(true);
+      setError(null);
+
+      const workspace = await acceptInvite(token);
+      setCurrentWorkspaceId(workspace.id);
+      router.replace('/recordings');
+    } catch (error) {
+      console.error('Error accepting invite:', error);
+      setError(error instanceof Error ? error.message : 'Failed to accept invite');
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-screen p-4">
+      <div className="w-full max-w-md space-y-8">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <h1 className="text-4xl font-bold">Clipz</h1>
+          <ThemeToggle />
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Users className="h-5 w-5" />
+              Workspace invite
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {invite && (
+              <p className="text-sm">
+                You are invited to join <span className="font-medium">{invite.workspace?.name}</span> as{' '}
+                {invite.role === 'admin' ? 'an admin' : `a ${invite.role}`}.
+              </p>
+            )}
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+
+            {!invite && !error && <p className="text-sm text-muted-foreground">Loading...</p>}
+
+            {invite && (
+              <Button className="w-full" onClick={handleAccept} disabled={isSubmitting}>
+                Join workspace
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
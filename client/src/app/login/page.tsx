@@ -0,0 +1,40 @@
+"use client";
+
+import { Suspense } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import AuthForm from '@/components/AuthForm';
+import { ThemeToggle } from '@/components/theme-toggle';
+
+function LoginContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+
+  // Only redirect to paths within the app
+  const next = searchParams.get('next');
+  const redirectTo = next && next.startsWith('/') && !next.startsWith('//') ? next : '/';
+
+  return <AuthForm onAuthenticated={() => router.replace(redirectTo)} />;
+}
+
+export default function LoginPage() {
+  return (
+    <div className="flex flex-col items-center justify-center min-h-screen p-4">
+      <div className="w-full max-w-md space-y-8">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="space-y-2">
+            <h1 className="text-4xl font-bold">Clipz</h1>
+            <p className="text-muted-foreground">
+              Video calling and recording made simple
+            </p>
+          </div>
+          <ThemeToggle />
+        </div>
+
+        <Suspense>
+          <LoginContent />
+        </Suspense>
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,8 @@
-import { Button } from "@/components/ui/button";
-import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import JoinRoomForm from "@/components/JoinRoomForm";
 import { ThemeToggle } from "@/components/theme-toggle";
-import Link from "next/link";
+import UserMenu from "@/components/UserMenu";
+import RecoverRecordings from "@/components/RecoverRecordings";
 
 export default function Home() {
   return (
@@ -16,9 +16,15 @@ export default function Home() {
               Video calling and recording made simple
             </p>
           </div>
-          <ThemeToggle />
+          <div className="flex items-center gap-4">
+            <UserMenu />
+            <ThemeToggle />
+          </div>
         </div>
 
+        {/* Recordings left behind by a crash or failed upload */}
+        <RecoverRecordings />
+
         {/* Main content */}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           {/* Features */}
@@ -70,18 +76,13 @@ export default function Home() {
               </CardHeader>
               <CardContent className="space-y-4">
                 <ol className="list-decimal list-inside space-y-2 text-sm">
-                  <li>Enter a room ID or generate a random one</li>
+                  <li>Create a room or enter the ID of an existing one</li>
                   <li>Share the room ID with others to join</li>
                   <li>Enable your camera and microphone</li>
                   <li>Start recording when ready</li>
                   <li>Download or upload your recording when finished</li>
                 </ol>
               </CardContent>
-              <CardFooter>
-                <Button asChild className="w-full">
-                  <Link href="/room/demo">Try Demo Room</Link>
-                </Button>
-              </CardFooter>
             </Card>
           </div>
         </div>
@@ -0,0 +1,300 @@
+"use client";
+
+import { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { ArrowLeft } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import RecordingPlayer from '@/components/RecordingPlayer';
+import RecordingComments from '@/components/RecordingComments';
+import ShareDialog from '@/components/ShareDialog';
+import ClipDialog from '@/components/ClipDialog';
+import TranscriptPanel from '@/components/TranscriptPanel';
+import RecordingChat from '@/components/RecordingChat';
+import UserMenu from '@/components/UserMenu';
+import { ThemeToggle } from '@/components/theme-toggle';
+import { getCurrentUser, User } from '@/lib/auth';
+import { formatDuration, getRecording, Recording } from '@/lib/recordings';
+
+const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 1.75, 2];
+
+// Seconds skipped by the arrow keys and by J/L
+const SHORT_SKIP_SECONDS = 5;
+const LONG_SKIP_SECONDS = 10;
+
+const SHORTCUTS: { keys: string; action: string }[] = [
+  { keys: 'Space / K', action: 'Play or pause' },
+  { keys: '← / →', action: `Back or forward ${SHORT_SKIP_SECONDS}s` },
+  { keys: 'J / L', action: `Back or forward ${LONG_SKIP_SECONDS}s` },
+  { keys: '< / >', action: 'Slower or faster' },
+  { keys: 'M', action: 'Mute' },
+  { keys: 'F', action: 'Fullscreen' },
+];
+
+const selectClassName =
+  'h-9 rounded-md border border-input bg-background px-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2';
+
+export default function RecordingPage() {
+  const params = useParams<{ id: string }>();
+  const recordingId = params.id;
+  const router = useRouter();
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  const [user, setUser] = useState<User | null>(null);
+  const [recording, setRecording] = useState<Recording | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [playbackRate, setPlaybackRate] = useState(1);
+  const [captions, setCaptions] = useState<{ url: string; language: string | null } | null>(null);
+
+  // Load the user and the recording
+  useEffect(() => {
+    let isMounted = true;
+
+    const load = async () => {
+      try {
+        const currentUser = await getCurrentUser();
+        if (!currentUser) {
+          router.replace(`/login?next=${encodeURIComponent(`/recordings/${recordingId}`)}`);
+          return;
+        }
+        if (!isMounted) return;
+        setUser(currentUser);
+
+        const loaded = await getRecording(recordingId);
+        if (isMounted) setRecording(loaded);
+      } catch (error) {
+        console.error('Error loading recording:', error);
+        if (isMounted) setError(error instanceof Error ? error.message : 'Failed to load recording');
+      }
+    };
+
+    load();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [recordingId, router]);
+
+  // Start at ?t=<seconds>, e.g. when opened from a transcript search result
+  useEffect(() => {
+    const video = videoRef.current;
+    const start = Number(new URLSearchParams(window.location.search).get('t'));
+    if (!recording || !video || !start) return;
+
+    const seek = () => {
+      video.currentTime = start;
+    };
+
+    if (video.readyState >= HTMLMediaElement.HAVE_METADATA) {
+      seek();
+    } else {
+      video.addEventListener('loadedmetadata', seek, { once: true });
+      return () => video.removeEventListener('loadedmetadata', seek);
+    }
+  }, [recording]);
+
+  // Seek the player, e.g. from a comment
+  const seekTo = (time: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    video.currentTime = time;
+    video.play().catch(() => undefined);
+  };
+
+  // Keyboard shortcuts, ignored while typing
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const video = videoRef.current;
+      const target = event.target as HTMLElement;
+      if (
+        !video ||
+        event.ctrlKey ||
+        event.metaKey ||
+        event.altKey ||
+        ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) ||
+        target.isContentEditable
+      ) {
+        return;
+      }
+
+      const skip = (seconds: number) => {
+        video.currentTime = Math.max(0, video.currentTime + seconds);
+      };
+      const changeRate = (step: number) => {
+        const index = PLAYBACK_RATES.indexOf(video.playbackRate);
+        const next = PLAYBACK_RATES[Math.min(Math.max(index + step, 0), PLAYBACK_RATES.length - 1)];
+        if (next !== undefined) setPlaybackRate(next);
+      };
+
+      switch (event.key) {
+        case ' ':
+        case 'k':
+          if (video.paused) {
+            video.play().catch(() => undefined);
+          } else {
+            video.pause();
+          }
+          break;
+        case 'ArrowLeft':
+          skip(-SHORT_SKIP_SECONDS);
+          break;
+        case 'ArrowRight':
+          skip(SHORT_SKIP_SECONDS);
+          break;
+        case 'j':
+          skip(-LONG_SKIP_SECONDS);
+          break;
+        case 'l':
+          skip(LONG_SKIP_SECONDS);
+          break;
+        case '<':
+          changeRate(-1);
+          break;
+        case '>':
+          changeRate(1);
+          break;
+        case 'm':
+          video.muted = !video.muted;
+          break;
+        case 'f':
+          if (document.fullscreenElement) {
+            document.exitFullscreen().catch(() => undefined);
+          } else {
+            video.requestFullscreen().catch(() => undefined);
+          }
+          break;
+        default:
+          return;
+      }
+
+      event.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  return (
+    <div className="flex flex-col items-center min-h-screen p-4">
+      <div className="w-full max-w-6xl space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-4 min-w-0">
+            <Button asChild variant="ghost" size="icon" title="All recordings">
+              <Link href="/recordings">
+                <ArrowLeft className="h-5 w-5" />
+              </Link>
+            </Button>
+            <h1 className="text-2xl font-bold truncate">{recording?.filename ?? 'Recording'}</h1>
+          </div>
+          <div className="flex items-center gap-4">
+            <UserMenu />
+            <ThemeToggle />
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {recording && user && (
+          <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+            <div className="space-y-4 lg:col-span-2">
+              <RecordingPlayer
+                recordingId={recording.id}
+                videoRef={videoRef}
+                playbackRate={playbackRate}
+                captions={captions}
+              />
+
+              <div className="flex flex-wrap items-center justify-between gap-4">
+                <p className="text-sm text-muted-foreground">
+                  {new Date(recording.uploadedAt).toLocaleString()}
+                  {recording.sourceRecordingId && (
+                    <>
+                      {' · '}
+                      <Link
+                        href={`/recordings/${recording.sourceRecordingId}`}
+                        className="underline underline-offset-2"
+                      >
+                        Clipped from the original
+                        {recording.clipStart !== null &&
+                          recording.clipEnd !== null &&
+                          ` (${formatDuration(recording.clipStart)}–${formatDuration(recording.clipEnd)})`}
+                      </Link>
+                    </>
+                  )}
+                </p>
+                <div className="flex items-center gap-4">
+                  {recording.processingStatus === 'ready' && (
+                    <ClipDialog
+                      recording={recording}
+                      getCurrentTime={() => videoRef.current?.currentTime ?? 0}
+                    />
+                  )}
+                  {recording.canManage && <ShareDialog recordingId={recording.id} />}
+                  <label className="flex items-center gap-2 text-sm">
+                    Speed
+                    <select
+                      value={playbackRate}
+                      onChange={(e) => setPlaybackRate(Number(e.target.value))}
+                      className={selectClassName}
+                    >
+                      {PLAYBACK_RATES.map((rate) => (
+                        <option key={rate} value={rate}>
+                          {rate}×
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                </div>
+              </div>
+
+              {recording.description && (
+                <p className="text-sm whitespace-pre-wrap">{recording.description}</p>
+              )}
+
+              {recording.processingStatus === 'ready' && (
+                <TranscriptPanel
+                  recordingId={recording.id}
+                  filename={recording.filename}
+                  canManage={!!recording.canManage}
+                  getCurrentTime={() => videoRef.current?.currentTime ?? 0}
+                  onSeek={seekTo}
+                  onCaptionsChange={setCaptions}
+                />
+              )}
+
+              {/* Keyboard shortcuts */}
+              <div className="grid grid-cols-2 gap-x-6 gap-y-1 text-xs text-muted-foreground sm:grid-cols-3">
+                {SHORTCUTS.map((shortcut) => (
+                  <p key={shortcut.keys}>
+                    <span className="font-mono text-foreground">{shortcut.keys}</span> {shortcut.action}
+                  </p>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-6">
+              <RecordingComments
+                recordingId={recording.id}
+                currentUserId={user.id}
+                canModerate={recording.canManage}
+                getCurrentTime={() => videoRef.current?.currentTime ?? 0}
+                onSeek={seekTo}
+              />
+
+              {/* Chat sent in the call while this was recorded */}
+              {recording.roomId && (
+                <RecordingChat
+                  recordingId={recording.id}
+                  getCurrentTime={() => videoRef.current?.currentTime ?? 0}
+                  onSeek={seekTo}
+                />
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
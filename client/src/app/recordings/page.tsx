@@ -0,0 +1,128 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { ArrowLeft, Mail } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import RecordingLibrary from '@/components/RecordingLibrary';
+import WorkspaceSwitcher from '@/components/WorkspaceSwitcher';
+import UserMenu from '@/components/UserMenu';
+import { ThemeToggle } from '@/components/theme-toggle';
+import { getCurrentUser } from '@/lib/auth';
+import {
+  getCurrentWorkspaceId,
+  listMyInvites,
+  listWorkspaces,
+  ReceivedInvite,
+  setCurrentWorkspaceId,
+  Workspace,
+} from '@/lib/workspaces';
+
+export default function RecordingsPage() {
+  const router = useRouter();
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [workspaceId, setWorkspaceId] = useState<string | null>(null);
+  const [invites, setInvites] = useState<ReceivedInvite[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // The library requires a logged in user; load their workspaces and invites
+  useEffect(() => {
+    let isMounted = true;
+
+    const load = async () => {
+      try {
+        const currentUser = await getCurrentUser();
+        if (!currentUser) {
+          router.replace(`/login?next=${encodeURIComponent('/recordings')}`);
+          return;
+        }
+
+        const [loadedWorkspaces, loadedInvites] = await Promise.all([listWorkspaces(), listMyInvites()]);
+        if (!isMounted) return;
+
+        // Reopen the last workspace, unless the user has since left it
+        const storedId = getCurrentWorkspaceId();
+        const current =
+          loadedWorkspaces.find((workspace) => workspace.id === storedId) ?? loadedWorkspaces[0];
+
+        setWorkspaces(loadedWorkspaces);
+        setInvites(loadedInvites);
+        setWorkspaceId(current.id);
+        setCurrentWorkspaceId(current.id);
+      } catch (error) {
+        console.error('Error loading workspaces:', error);
+        if (isMounted) setError(error instanceof Error ? error.message : 'Failed to load workspaces');
+      }
+    };
+
+    load();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [router]);
+
+  // Switch workspace; new recordings are uploaded to it too
+  const selectWorkspace = (id: string) => {
+    setWorkspaceId(id);
+    setCurrentWorkspaceId(id);
+  };
+
+  return (
+    <div className="flex flex-col items-center min-h-screen p-4">
+      <div className="w-full max-w-6xl space-y-8">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Button asChild variant="ghost" size="icon" title="Home">
+              <Link href="/">
+                <ArrowLeft className="h-5 w-5" />
+              </Link>
+            </Button>
+            <h1 className="text-3xl font-bold">Recordings</h1>
+          </div>
+          <div className="flex items-center gap-4">
+            <UserMenu />
+            <ThemeToggle />
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {/* Invites to other workspaces; they are accepted from the link that was sent */}
+        {invites.map((invite) => (
+          <div key={invite.id} className="flex items-center gap-4 rounded-md border p-3 text-sm">
+            <p className="flex items-center gap-2">
+              <Mail className="h-4 w-4 text-muted-foreground" />
+              You are invited to join <span className="font-medium">{invite.workspace?.name}</span> as{' '}
+              {invite.role === 'admin' ? 'an admin' : `a ${invite.role}`}. Open the invite link you were
+              sent to join.
+            </p>
+          </div>
+        ))}
+
+        {workspaceId ? (
+          <div className="space-y-6">
+            <WorkspaceSwitcher
+              workspaces={workspaces}
+              currentId={workspaceId}
+              onSelect={selectWorkspace}
+              onCreated={(workspace) => {
+                setWorkspaces((current) => [...current, workspace]);
+                selectWorkspace(workspace.id);
+              }}
+            />
+            <RecordingLibrary
+              key={workspaceId}
+              workspaceId={workspaceId}
+              role={workspaces.find((workspace) => workspace.id === workspaceId)?.role ?? 'viewer'}
+            />
+          </div>
+        ) : (
+          !error && <p className="text-center text-sm text-muted-foreground">Loading...</p>
+        )}
+      </div>
+    </div>
+  );
+}
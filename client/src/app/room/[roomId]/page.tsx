@@ -1,49 +1,66 @@
 "use client";
 
 import { useEffect, useState } from 'react';
-import { useParams } from 'next/navigation';
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useParams, useRouter } from 'next/navigation';
+import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
 import VideoPlayer from '@/components/VideoPlayer';
 import CallControls from '@/components/CallControls';
 import RecordingIndicator from '@/components/RecordingIndicator';
 import Recorder from '@/components/Recorder';
+import LiveCaptions from '@/components/LiveCaptions';
+import ChatPanel from '@/components/ChatPanel';
+import FileShare from '@/components/FileShare';
+import HostControls from '@/components/HostControls';
+import WaitingRoom from '@/components/WaitingRoom';
 import { ThemeToggle } from '@/components/theme-toggle';
+import { MessageSquare } from 'lucide-react';
 import { useAppStore } from '@/lib/store';
-import { createPeerConnection, addStreamToPeerConnection } from '@/lib/webrtc';
 import { createCanvasPiP } from '@/lib/media';
+import { getCurrentUser, User } from '@/lib/auth';
+import { closeRoom, getParticipantName, getRoom, Room } from '@/lib/rooms';
 
 export default function RoomPage() {
   // Get room ID from URL
   const params = useParams<{ roomId: string }>();
   const roomId = params.roomId;
+  const router = useRouter();
 
   // Local state
   const [isInitializing, setIsInitializing] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [room, setRoom] = useState<Room | null>(null);
+  const [isOwner, setIsOwner] = useState(false);
+  const [currentUser, setCurrentUser] = useState<User | null>(null);
 
   // Global state
   const {
     cameraEnabled,
-    micEnabled,
     screenShareEnabled,
     cameraStream,
     screenStream,
     canvasStream,
-    remoteStream,
+    remoteStreams,
+    participantNames,
     isRecording,
-    recordingStartTime,
     recordedBlob,
+    streamingUpload,
     isConnected,
-    isConnecting,
     connectionError,
+    captionsEnabled,
+    isChatOpen,
+    unreadChatCount,
+    fileChannels,
+    isWaitingForAdmission,
     toggleCamera,
-    toggleMic,
     toggleScreenShare,
     setMediaStream,
+    setStreamingUpload,
+    setCaptionsEnabled,
+    setChatOpen,
     startRecording,
     stopRecording,
-    setRecordedBlob,
     joinRoom,
     leaveRoom,
   } = useAppStore();
@@ -60,6 +77,27 @@ export default function RoomPage() {
         setIsInitializing(true);
         setError(null);
 
+        // Calls require a logged in user
+        const user = await getCurrentUser();
+        if (!user) {
+          router.replace(`/login?next=${encodeURIComponent(`/room/${roomId}`)}`);
+          return;
+        }
+        if (!isMounted) return;
+        setCurrentUser(user);
+
+        // Load room details; unknown or closed rooms cannot be joined
+        const roomDetails = await getRoom(roomId);
+        if (!isMounted) return;
+        setRoom(roomDetails);
+        setIsOwner(roomDetails.ownerId === user.id);
+
+        if (roomDetails.endedAt) {
+          setError('This room has been closed');
+          setIsInitializing(false);
+          return;
+        }
+
         // Enable camera by default if not already enabled
         if (!cameraEnabled) {
           await toggleCamera();
@@ -102,6 +140,18 @@ export default function RoomPage() {
     }
   }, [isConnected, connectionError]);
 
+  // Close the room for everyone (owner only)
+  const handleCloseRoom = async () => {
+    try {
+      await closeRoom(roomId);
+      await leaveRoom();
+      router.push('/');
+    } catch (error) {
+      console.error('Error closing room:', error);
+      setError(`Failed to close room: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
   // Handle recording with canvas PiP
   const handleStartRecording = async () => {
     try {
@@ -129,6 +179,16 @@ export default function RoomPage() {
     }
   };
 
+  // Size the grid to the number of participants, including ourselves
+  const remoteEntries = Object.entries(remoteStreams);
+  const participantCount = remoteEntries.length + 1;
+  const gridClassName =
+    participantCount <= 1
+      ? 'grid-cols-1'
+      : participantCount <= 4
+        ? 'grid-cols-1 md:grid-cols-2'
+        : 'grid-cols-1 md:grid-cols-2 lg:grid-cols-3';
+
   // Handle stop recording
   const handleStopRecording = () => {
     stopRecording();
@@ -140,19 +200,41 @@ export default function RoomPage() {
         {/* Header */}
         <div className="flex items-center justify-between">
           <div>
-            <h1 className="text-2xl font-bold">Room: {roomId}</h1>
+            <h1 className="text-2xl font-bold">{room?.title || 'Room'}</h1>
             <p className="text-sm text-muted-foreground">
-              Share this room ID with others to join the call
+              Share this room ID with others to join the call: {roomId}
             </p>
           </div>
 
           <div className="flex items-center gap-4">
             {/* Recording indicator */}
             {isRecording && (
-              <RecordingIndicator
-                isRecording={isRecording}
-                startTime={recordingStartTime}
-              />
+              <RecordingIndicator />
+            )}
+
+            {/* Chat, with a count of messages not seen yet */}
+            {!isInitializing && !isWaitingForAdmission && currentUser && (
+              <Button
+                variant="outline"
+                onClick={() => setChatOpen(!isChatOpen)}
+                className="relative"
+                aria-label={unreadChatCount > 0 ? `Chat, ${unreadChatCount} unread` : 'Chat'}
+              >
+                <MessageSquare className="h-4 w-4" />
+                Chat
+                {unreadChatCount > 0 && (
+                  <span className="absolute -right-2 -top-2 flex h-5 min-w-5 items-center justify-center rounded-full bg-destructive px-1 text-xs text-white">
+                    {unreadChatCount > 99 ? '99+' : unreadChatCount}
+                  </span>
+                )}
+              </Button>
+            )}
+
+            {/* Close room for everyone */}
+            {isOwner && !room?.endedAt && (
+              <Button variant="destructive" onClick={handleCloseRoom}>
+                End for all
+              </Button>
             )}
 
             {/* Theme toggle */}
@@ -176,40 +258,97 @@ export default function RoomPage() {
               <p className="text-muted-foreground">Initializing call...</p>
             </CardContent>
           </Card>
+        ) : isWaitingForAdmission ? (
+          // The lobby, until the host lets us in
+          <WaitingRoom roomTitle={room?.title} hostName={room?.owner?.name} />
         ) : (
-          <>
-            {/* Video grid */}
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              {/* Local video */}
-              <VideoPlayer
-                stream={canvasStream || screenStream || cameraStream}
-                muted
-                label="You"
-                fallbackText="Your camera is off"
-                className="aspect-video"
-              />
+          // The chat opens beside the call on wide screens
+          <div className={isChatOpen ? 'grid gap-6 lg:grid-cols-[1fr_20rem]' : ''}>
+            <div className="space-y-6">
+              {/* Video grid, with live captions over it */}
+              <div className="relative">
+                <div className={`grid ${gridClassName} gap-4`}>
+                  {/* Local video */}
+                  <VideoPlayer
+                    stream={canvasStream || screenStream || cameraStream}
+                    muted
+                    label="You"
+                    fallbackText="Your camera is off"
+                    className="aspect-video"
+                  />
 
-              {/* Remote video (placeholder for now) */}
-              <VideoPlayer
-                stream={remoteStream}
-                label="Remote"
-                fallbackText="Waiting for others to join..."
-                className="aspect-video"
+                  {/* One tile per remote participant */}
+                  {remoteEntries.map(([userId, stream]) => (
+                    <VideoPlayer
+                      key={userId}
+                      stream={stream}
+                      label={getParticipantName(participantNames, userId)}
+                      fallbackText="Connecting..."
+                      className="aspect-video"
+                    />
+                  ))}
+                </div>
+
+                {currentUser && <LiveCaptions user={currentUser} />}
+              </div>
+
+              {remoteEntries.length === 0 && (
+                <p className="text-center text-sm text-muted-foreground">
+                  Waiting for others to join...
+                </p>
+              )}
+
+              {/* Call controls */}
+              <CallControls
+                onStartRecording={handleStartRecording}
+                onStopRecording={handleStopRecording}
+                className="bg-card rounded-lg"
               />
-            </div>
 
-            {/* Call controls */}
-            <CallControls
-              onStartRecording={handleStartRecording}
-              onStopRecording={handleStopRecording}
-              className="bg-card rounded-lg"
-            />
+              {/* Upload mode, fixed once recording starts */}
+              <div className="flex items-center justify-center gap-2">
+                <Switch
+                  id="streamingUpload"
+                  checked={streamingUpload}
+                  onCheckedChange={setStreamingUpload}
+                  disabled={isRecording}
+                />
+                <label htmlFor="streamingUpload" className="text-sm text-muted-foreground">
+                  Upload while recording
+                </label>
 
-            {/* Recorder (shows when recording or has recording) */}
-            {(isRecording || recordedBlob) && (
-              <Recorder className="mt-4" />
+                {/* Captions are shared with the room and saved with recordings */}
+                <Switch
+                  id="liveCaptions"
+                  checked={captionsEnabled}
+                  onCheckedChange={setCaptionsEnabled}
+                  className="ml-4"
+                />
+                <label htmlFor="liveCaptions" className="text-sm text-muted-foreground">
+                  Live captions for everyone
+                </label>
+              </div>
+
+              {/* Host controls, for the room owner */}
+              {isOwner && <HostControls />}
+
+              {/* File sharing, once someone else is in the call */}
+              {Object.keys(fileChannels).length > 0 && <FileShare />}
+
+              {/* Recorder (shows when recording or has recording) */}
+              {(isRecording || recordedBlob) && (
+                <Recorder roomId={roomId} className="mt-4" />
+              )}
+            </div>
+
+            {isChatOpen && currentUser && (
+              <ChatPanel
+                currentUserId={currentUser.id}
+                onClose={() => setChatOpen(false)}
+                className="h-[70vh] lg:sticky lg:top-4"
+              />
             )}
-          </>
+          </div>
         )}
       </div>
     </div>
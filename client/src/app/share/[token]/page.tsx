@@ -0,0 +1,179 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { Lock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import RecordingPlayer, { PlaybackSources } from '@/components/RecordingPlayer';
+import { ThemeToggle } from '@/components/theme-toggle';
+import { formatDuration } from '@/lib/recordings';
+import { getShareLinkInfo, openShareLink, SharedRecording } from '@/lib/shareLinks';
+
+const inputClassName =
+  'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50';
+
+/**
+ * Check whether a shared recording's playback URLs are still valid
+ * @param shared Shared recording
+ * @returns True if none of the URLs have expired
+ */
+function isFresh(shared: SharedRecording): boolean {
+  const expiries = [shared.playback.expiresAt, shared.stream?.expiresAt].filter(Boolean) as string[];
+  return expiries.every((expiresAt) => new Date(expiresAt).getTime() > Date.now());
+}
+
+export default function SharePage() {
+  const params = useParams<{ token: string }>();
+  const token = params.token;
+  const router = useRouter();
+
+  const [shared, setShared] = useState<SharedRecording | null>(null);
+  const [needsPassword, setNeedsPassword] = useState(false);
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // The latest URLs and the password that unlocked them, for refreshing expired URLs
+  const latestRef = useRef<SharedRecording | null>(null);
+  const passwordRef = useRef<string | undefined>(undefined);
+
+  // Open the link, keeping the result for the player
+  const unlock = async (candidate?: string) => {
+    const opened = await openShareLink(token, candidate);
+    passwordRef.current = candidate;
+    latestRef.current = opened;
+    setShared(opened);
+    setNeedsPassword(false);
+  };
+
+  // Check the link, then open it straight away unless it needs a password
+  useEffect(() => {
+    let isMounted = true;
+
+    const load = async () => {
+      try {
+        const info = await getShareLinkInfo(token);
+        if (!isMounted) return;
+
+        if (!info.isOpen) {
+          setError('This link has expired or been revoked');
+          return;
+        }
+        if (info.requiresLogin) {
+          router.replace(`/login?next=${encodeURIComponent(`/share/${token}`)}`);
+          return;
+        }
+        if (info.requiresPassword) {
+          setNeedsPassword(true);
+          return;
+        }
+
+        await unlock();
+      } catch (error) {
+        console.error('Error opening share link:', error);
+        if (isMounted) setError(error instanceof Error ? error.message : 'Failed to open link');
+      }
+    };
+
+    load();
+
+    return () => {
+      isMounted = false;
+    };
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [token, router]);
+
+  // Reuse the URLs from opening the link until they expire, then open it again
+  const sources = useMemo<PlaybackSources>(() => {
+    const open = async () => {
+      if (!latestRef.current || !isFresh(latestRef.current)) {
+        latestRef.current = await openShareLink(token, passwordRef.current);
+      }
+      return latestRef.current;
+    };
+
+    return {
+      stream: async () => (await open()).stream,
+      file: async () => (await open()).playback,
+    };
+  }, [token]);
+
+  // Handle the password form
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!password) return;
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      await unlock(password);
+    } catch (error) {
+      console.error('Error opening share link:', error);
+      setError(error instanceof Error ? error.message : 'Failed to open link');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center min-h-screen p-4">
+      <div className="w-full max-w-4xl space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between gap-4">
+          <h1 className="text-2xl font-bold truncate">{shared?.recording.filename ?? 'Clipz'}</h1>
+          <ThemeToggle />
+        </div>
+
+        {needsPassword && (
+          <Card className="mx-auto w-full max-w-md">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Lock className="h-5 w-5" />
+                Password required
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSubmit} className="space-y-3">
+                <input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder="Password"
+                  aria-label="Password"
+                  autoFocus
+                  className={inputClassName}
+                />
+                {error && <p className="text-sm text-destructive">{error}</p>}
+                <Button type="submit" className="w-full" disabled={isSubmitting || !password}>
+                  View recording
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        )}
+
+        {error && !needsPassword && (
+          <p className="text-center text-sm text-destructive">{error}</p>
+        )}
+
+        {!shared && !needsPassword && !error && (
+          <p className="text-center text-sm text-muted-foreground">Loading...</p>
+        )}
+
+        {shared && (
+          <div className="space-y-4">
+            <RecordingPlayer recordingId={shared.recording.id} sources={sources} />
+            <p className="text-sm text-muted-foreground">
+              {new Date(shared.recording.uploadedAt).toLocaleString()}
+              {shared.recording.duration !== null && ` · ${formatDuration(shared.recording.duration)}`}
+            </p>
+            {shared.recording.description && (
+              <p className="text-sm whitespace-pre-wrap">{shared.recording.description}</p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,409 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { ArrowLeft, Check, Copy, LogOut, Trash2, UserPlus, Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import UserMenu from '@/components/UserMenu';
+import { ThemeToggle } from '@/components/theme-toggle';
+import { getCurrentUser, User } from '@/lib/auth';
+import {
+  AssignableRole,
+  cancelWorkspaceInvite,
+  getCurrentWorkspaceId,
+  getInviteUrl,
+  getWorkspace,
+  hasRole,
+  inviteToWorkspace,
+  listWorkspaceInvites,
+  listWorkspaceMembers,
+  removeWorkspaceMember,
+  renameWorkspace,
+  setCurrentWorkspaceId,
+  updateWorkspaceMemberRole,
+  Workspace,
+  WorkspaceInvite,
+  WorkspaceMember,
+  WorkspaceRole,
+} from '@/lib/workspaces';
+
+const inputClassName =
+  'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50';
+
+const ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  member: 'Member',
+  viewer: 'Viewer',
+};
+
+const ROLE_DESCRIPTIONS: Record<AssignableRole, string> = {
+  admin: 'Manages members and every recording',
+  member: 'Uploads and manages their own recordings',
+  viewer: 'Watches and comments',
+};
+
+/**
+ * Get the roles a user may give to members
+ * @param role The user's own role
+ * @returns Assignable roles, highest first
+ */
+function getAssignableRoles(role: WorkspaceRole): AssignableRole[] {
+  // Only the owner manages admins
+  return role === 'owner' ? ['admin', 'member', 'viewer'] : ['member', 'viewer'];
+}
+
+export default function WorkspacePage() {
+  const params = useParams<{ id: string }>();
+  const workspaceId = params.id;
+  const router = useRouter();
+
+  const [user, setUser] = useState<User | null>(null);
+  const [workspace, setWorkspace] = useState<Workspace | null>(null);
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [invites, setInvites] = useState<WorkspaceInvite[]>([]);
+  const [name, setName] = useState('');
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<AssignableRole>('member');
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the workspace, its members and, for admins, its invites
+  useEffect(() => {
+    let isMounted = true;
+
+    const load = async () => {
+      try {
+        const currentUser = await getCurrentUser();
+        if (!currentUser) {
+          router.replace(`/login?next=${encodeURIComponent(`/workspaces/${workspaceId}`)}`);
+          return;
+        }
+
+        const [loadedWorkspace, loadedMembers] = await Promise.all([
+          getWorkspace(workspaceId),
+          listWorkspaceMembers(workspaceId),
+        ]);
+        const loadedInvites = hasRole(loadedWorkspace.role, 'admin')
+          ? await listWorkspaceInvites(workspaceId)
+          : [];
+        if (!isMounted) return;
+
+        setUser(currentUser);
+        setWorkspace(loadedWorkspace);
+        setName(loadedWorkspace.name);
+        setMembers(loadedMembers);
+        setInvites(loadedInvites);
+      } catch (error) {
+        console.error('Error loading workspace:', error);
+        if (isMounted) setError(error instanceof Error ? error.message : 'Failed to load workspace');
+      }
+    };
+
+    load();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [workspaceId, router]);
+
+  // Run a change, reporting failures inline
+  const submit = async (action: () => Promise<void>) => {
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      await action();
+    } catch (error) {
+      console.error('Error updating workspace:', error);
+      setError(error instanceof Error ? error.message : 'Failed to update workspace');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Handle renaming the workspace
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    submit(async () => {
+      setWorkspace(await renameWorkspace(workspaceId, name.trim()));
+    });
+  };
+
+  // Handle a role change
+  const handleRoleChange = (member: WorkspaceMember, role: AssignableRole) => {
+    submit(async () => {
+      const updated = await updateWorkspaceMemberRole(workspaceId, member.userId, role);
+      setMembers((current) =>
+        current.map((item) => (item.id === member.id ? { ...item, role: updated.role } : item))
+      );
+    });
+  };
+
+  // Handle removing a member
+  const handleRemove = (member: WorkspaceMember) => {
+    if (!window.confirm(`Remove ${member.user.name} from this workspace?`)) return;
+
+    submit(async () => {
+      await removeWorkspaceMember(workspaceId, member.userId);
+      setMembers((current) => current.filter((item) => item.id !== member.id));
+    });
+  };
+
+  // Handle leaving the workspace
+  const handleLeave = () => {
+    if (!user || !window.confirm('Leave this workspace? You will lose access to its recordings.')) return;
+
+    submit(async () => {
+      await removeWorkspaceMember(workspaceId, user.id);
+      if (getCurrentWorkspaceId() === workspaceId) {
+        setCurrentWorkspaceId(null);
+      }
+      router.replace('/recordings');
+    });
+  };
+
+  // Handle sending an invite
+  const handleInvite = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!inviteEmail.trim()) return;
+
+    submit(async () => {
+      const invite = await inviteToWorkspace(workspaceId, inviteEmail.trim(), inviteRole);
+      setInvites((current) => [invite, ...current]);
+      setInviteEmail('');
+    });
+  };
+
+  // Handle copying an invite link
+  const handleCopy = async (invite: WorkspaceInvite) => {
+    try {
+      await navigator.clipboard.writeText(getInviteUrl(invite.token));
+      setCopiedId(invite.id);
+      setTimeout(() => setCopiedId((current) => (current === invite.id ? null : current)), 2000);
+    } catch (error) {
+      console.error('Error copying invite link:', error);
+      setError('Failed to copy link');
+    }
+  };
+
+  // Handle cancelling an invite
+  const handleCancelInvite = (invite: WorkspaceInvite) => {
+    submit(async () => {
+      await cancelWorkspaceInvite(workspaceId, invite.id);
+      setInvites((current) => current.filter((item) => item.id !== invite.id));
+    });
+  };
+
+  const isAdmin = !!workspace && hasRole(workspace.role, 'admin');
+
+  // Whether the current user may change or remove a member
+  const canManage = (member: WorkspaceMember) =>
+    !!workspace &&
+    isAdmin &&
+    member.userId !== user?.id &&
+    member.role !== 'owner' &&
+    (workspace.role === 'owner' || member.role !== 'admin');
+
+  return (
+    <div className="flex flex-col items-center min-h-screen p-4">
+      <div className="w-full max-w-3xl space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-4 min-w-0">
+            <Button asChild variant="ghost" size="icon" title="Recordings">
+              <Link href="/recordings">
+                <ArrowLeft className="h-5 w-5" />
+              </Link>
+            </Button>
+            <h1 className="text-2xl font-bold truncate">{workspace?.name ?? 'Workspace'}</h1>
+          </div>
+          <div className="flex items-center gap-4">
+            <UserMenu />
+            <ThemeToggle />
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {workspace && (
+          <>
+            {isAdmin && (
+              <form onSubmit={handleRename} className="flex gap-2">
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  aria-label="Workspace name"
+                  maxLength={100}
+                  className={inputClassName}
+                />
+                <Button
+                  type="submit"
+                  variant="outline"
+                  disabled={isSubmitting || !name.trim() || name.trim() === workspace.name}
+                >
+                  Rename
+                </Button>
+              </form>
+            )}
+
+            {/* Members */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Users className="h-5 w-5" />
+                  Members
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {members.map((member) => (
+                  <div
+                    key={member.id}
+                    className="flex items-center justify-between gap-4 rounded-md border p-2"
+                  >
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">
+                        {member.user.name}
+                        {member.userId === user?.id && ' (you)'}
+                      </p>
+                      <p className="text-xs text-muted-foreground truncate">{member.user.email}</p>
+                    </div>
+                    <div className="flex shrink-0 items-center gap-1">
+                      {canManage(member) ? (
+                        <>
+                          <select
+                            value={member.role}
+                            onChange={(e) => handleRoleChange(member, e.target.value as AssignableRole)}
+                            aria-label={`Role of ${member.user.name}`}
+                            disabled={isSubmitting}
+                            className={`${inputClassName} h-9 w-auto`}
+                          >
+                            {getAssignableRoles(workspace.role).map((role) => (
+                              <option key={role} value={role}>
+                                {ROLE_LABELS[role]}
+                              </option>
+                            ))}
+                          </select>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleRemove(member)}
+                            title="Remove member"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </>
+                      ) : (
+                        <span className="text-sm text-muted-foreground">{ROLE_LABELS[member.role]}</span>
+                      )}
+                    </div>
+                  </div>
+                ))}
+
+                {workspace.role !== 'owner' && (
+                  <Button variant="outline" size="sm" onClick={handleLeave} disabled={isSubmitting}>
+                    <LogOut className="h-4 w-4" />
+                    Leave workspace
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Invites */}
+            {isAdmin && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <UserPlus className="h-5 w-5" />
+                    Invite people
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <form onSubmit={handleInvite} className="space-y-2">
+                    <div className="flex flex-col gap-2 sm:flex-row">
+                      <input
+                        type="email"
+                        value={inviteEmail}
+                        onChange={(e) => setInviteEmail(e.target.value)}
+                        placeholder="Email address"
+                        aria-label="Email address"
+                        required
+                        className={inputClassName}
+                      />
+                      <select
+                        value={inviteRole}
+                        onChange={(e) => setInviteRole(e.target.value as AssignableRole)}
+                        aria-label="Role"
+                        className={`${inputClassName} sm:w-40`}
+                      >
+                        {getAssignableRoles(workspace.role).map((role) => (
+                          <option key={role} value={role}>
+                            {ROLE_LABELS[role]}
+                          </option>
+                        ))}
+                      </select>
+                      <Button type="submit" disabled={isSubmitting || !inviteEmail.trim()}>
+                        Invite
+                      </Button>
+                    </div>
+                    <p className="text-xs text-muted-foreground">{ROLE_DESCRIPTIONS[inviteRole]}</p>
+                  </form>
+
+                  {invites.length > 0 && (
+                    <div className="space-y-2">
+                      <p className="text-sm font-medium">Pending invites</p>
+                      <p className="text-xs text-muted-foreground">
+                        Send the link to the person invited. They join after signing in with that email.
+                      </p>
+                      {invites.map((invite) => (
+                        <div
+                          key={invite.id}
+                          className="flex items-center justify-between gap-4 rounded-md border p-2"
+                        >
+                          <div className="min-w-0">
+                            <p className="text-sm truncate">{invite.email}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {ROLE_LABELS[invite.role]} · expires{' '}
+                              {new Date(invite.expiresAt).toLocaleDateString()}
+                            </p>
+                          </div>
+                          <div className="flex shrink-0 gap-1">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => handleCopy(invite)}
+                              title="Copy invite link"
+                            >
+                              {copiedId === invite.id ? (
+                                <Check className="h-4 w-4" />
+                              ) : (
+                                <Copy className="h-4 w-4" />
+                              )}
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => handleCancelInvite(invite)}
+                              title="Cancel invite"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+/**
+ * AuthForm component for logging in or creating an account
+ */
+"use client";
+
+import { useState, FormEvent } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { login, signup, User } from '@/lib/auth';
+
+interface AuthFormProps {
+  onAuthenticated?: (user: User) => void;
+}
+
+const inputClassName =
+  'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50';
+
+export default function AuthForm({ onAuthenticated }: AuthFormProps) {
+  const [mode, setMode] = useState<'login' | 'signup'>('login');
+  const [email, setEmail] = useState('');
+  const [name, setName] = useState('');
+  const [password, setPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isSignup = mode === 'signup';
+
+  // Handle form submission
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const user = isSignup
+        ? await signup(email, name, password)
+        : await login(email, password);
+
+      if (onAuthenticated) {
+        onAuthenticated(user);
+      }
+    } catch (error) {
+      console.error('Error authenticating:', error);
+      setError(error instanceof Error ? error.message : 'Authentication failed');
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader>
+        <CardTitle>{isSignup ? 'Create an Account' : 'Log In'}</CardTitle>
+        <CardDescription>
+          {isSignup
+            ? 'Sign up to start calls and save your recordings'
+            : 'Log in to join calls and access your recordings'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form id="auth-form" onSubmit={handleSubmit} className="space-y-4">
+          {isSignup && (
+            <div className="space-y-2">
+              <label htmlFor="name" className="text-sm font-medium">
+                Name
+              </label>
+              <input
+                id="name"
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Your name"
+                required
+                className={inputClassName}
+              />
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <label htmlFor="email" className="text-sm font-medium">
+              Email
+            </label>
+            <input
+              id="email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="you@example.com"
+              required
+              className={inputClassName}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <label htmlFor="password" className="text-sm font-medium">
+              Password
+            </label>
+            <input
+              id="password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder={isSignup ? 'At least 8 characters' : 'Your password'}
+              minLength={isSignup ? 8 : undefined}
+              required
+              className={inputClassName}
+            />
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </form>
+      </CardContent>
+      <CardFooter className="flex flex-col gap-2">
+        <Button
+          type="submit"
+          form="auth-form"
+          disabled={isLoading}
+          className="w-full"
+        >
+          {isLoading ? 'Please wait...' : isSignup ? 'Sign Up' : 'Log In'}
+        </Button>
+        <Button
+          type="button"
+          variant="link"
+          onClick={() => {
+            setMode(isSignup ? 'login' : 'signup');
+            setError(null);
+          }}
+        >
+          {isSignup ? 'Already have an account? Log in' : "Don't have an account? Sign up"}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
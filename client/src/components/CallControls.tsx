@@ -16,6 +16,8 @@ import {
   PhoneOff,
   CircleDot,
   StopCircle,
+  Pause,
+  Play,
   Upload,
 } from "lucide-react";
 
@@ -44,12 +46,16 @@ export default function CallControls({
     micEnabled,
     screenShareEnabled,
     isRecording,
+    isPaused,
     recordedBlob,
+    forcedMute,
     toggleCamera,
     toggleMic,
     toggleScreenShare,
     startRecording,
     stopRecording,
+    pauseRecording,
+    resumeRecording,
     leaveRoom,
   } = useAppStore();
 
@@ -90,7 +96,14 @@ export default function CallControls({
         variant={cameraEnabled ? "default" : "outline"}
         size="icon"
         onClick={() => toggleCamera()}
-        title={cameraEnabled ? "Turn off camera" : "Turn on camera"}
+        disabled={!cameraEnabled && forcedMute.video}
+        title={
+          cameraEnabled
+            ? "Turn off camera"
+            : forcedMute.video
+              ? "The host has turned your camera off"
+              : "Turn on camera"
+        }
       >
         {cameraEnabled ? (
           <Video className="h-5 w-5" />
@@ -104,7 +117,14 @@ export default function CallControls({
         variant={micEnabled ? "default" : "outline"}
         size="icon"
         onClick={() => toggleMic()}
-        title={micEnabled ? "Mute microphone" : "Unmute microphone"}
+        disabled={!micEnabled && forcedMute.audio}
+        title={
+          micEnabled
+            ? "Mute microphone"
+            : forcedMute.audio
+              ? "The host has muted you"
+              : "Unmute microphone"
+        }
       >
         {micEnabled ? (
           <Mic className="h-5 w-5" />
@@ -143,6 +163,22 @@ export default function CallControls({
         </Button>
       )}
 
+      {/* Pause / resume, while recording */}
+      {showRecordingControls && isRecording && (
+        <Button
+          variant={isPaused ? "default" : "outline"}
+          size="icon"
+          onClick={isPaused ? resumeRecording : pauseRecording}
+          title={isPaused ? "Resume recording" : "Pause recording"}
+        >
+          {isPaused ? (
+            <Play className="h-5 w-5" />
+          ) : (
+            <Pause className="h-5 w-5" />
+          )}
+        </Button>
+      )}
+
       {/* Upload button */}
       {showUploadButton && recordedBlob && !isRecording && (
         <Button
@@ -0,0 +1,181 @@
+/**
+ * ChatPanel component for text chat during a call, with who is typing
+ */
+"use client";
+
+import { FormEvent, useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { MessageSquare, Send, X } from 'lucide-react';
+import { useAppStore } from '@/lib/store';
+import { splitMessageLinks } from '@/lib/chat';
+
+interface ChatPanelProps {
+  currentUserId: string;
+  onClose: () => void;
+  className?: string;
+}
+
+const inputClassName =
+  'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50';
+
+// Matches the server's limit on message length
+const MAX_MESSAGE_LENGTH = 2000;
+// How long after the last keystroke the user stops counting as typing
+const TYPING_IDLE_MS = 3000;
+
+/**
+ * Format when a message was sent
+ * @param createdAt ISO timestamp
+ * @returns Local time, e.g. "14:05"
+ */
+function formatSentAt(createdAt: string): string {
+  return new Date(createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+export default function ChatPanel({ currentUserId, onClose, className = '' }: ChatPanelProps) {
+  const { chatMessages, typingUsers, sendChatMessage, setTyping } = useAppStore();
+  const [body, setBody] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  const typingTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Keep the newest message in view
+  useEffect(() => {
+    const list = listRef.current;
+    if (list) list.scrollTop = list.scrollHeight;
+  }, [chatMessages.length]);
+
+  // Stop showing as typing when the panel closes
+  useEffect(() => {
+    return () => {
+      if (typingTimeoutRef.current) {
+        clearTimeout(typingTimeoutRef.current);
+        setTyping(false);
+      }
+    };
+  }, [setTyping]);
+
+  // Tell the room we are typing, until the user pauses or sends
+  const stopTyping = () => {
+    if (!typingTimeoutRef.current) return;
+
+    clearTimeout(typingTimeoutRef.current);
+    typingTimeoutRef.current = null;
+    setTyping(false);
+  };
+
+  const handleChange = (value: string) => {
+    setBody(value);
+
+    if (!value.trim()) {
+      stopTyping();
+      return;
+    }
+
+    if (typingTimeoutRef.current) {
+      clearTimeout(typingTimeoutRef.current);
+    } else {
+      setTyping(true);
+    }
+    typingTimeoutRef.current = setTimeout(stopTyping, TYPING_IDLE_MS);
+  };
+
+  // Handle sending a message
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!body.trim()) return;
+
+    try {
+      setIsSending(true);
+      setError(null);
+      stopTyping();
+      const sent = body;
+      await sendChatMessage(sent);
+      // Keep anything typed while the message was on its way
+      setBody((current) => (current === sent ? '' : current));
+    } catch (error) {
+      console.error('Error sending chat message:', error);
+      setError(error instanceof Error ? error.message : 'Failed to send message');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const typingNames = Object.values(typingUsers);
+
+  return (
+    <Card className={`flex flex-col ${className}`}>
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center justify-between gap-2 text-base">
+          <span className="flex items-center gap-2">
+            <MessageSquare className="h-4 w-4" />
+            Chat
+          </span>
+          <Button variant="ghost" size="sm" onClick={onClose} aria-label="Close chat">
+            <X className="h-4 w-4" />
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="flex min-h-0 flex-1 flex-col gap-2">
+        <div ref={listRef} className="min-h-0 flex-1 space-y-3 overflow-y-auto">
+          {chatMessages.length === 0 && (
+            <p className="text-sm text-muted-foreground">No messages yet. Say hello or paste a link.</p>
+          )}
+
+          {chatMessages.map((message) => (
+            <div key={message.id} className="text-sm">
+              <div className="flex items-baseline gap-2">
+                <span className="font-medium">
+                  {message.userId === currentUserId ? 'You' : message.user.name}
+                </span>
+                <span className="text-xs text-muted-foreground">{formatSentAt(message.createdAt)}</span>
+              </div>
+              <p className="whitespace-pre-wrap break-words">
+                {splitMessageLinks(message.body).map((part, index) =>
+                  part.href ? (
+                    <a
+                      key={index}
+                      href={part.href}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-primary underline"
+                    >
+                      {part.text}
+                    </a>
+                  ) : (
+                    <span key={index}>{part.text}</span>
+                  )
+                )}
+              </p>
+            </div>
+          ))}
+        </div>
+
+        <p className="h-4 text-xs text-muted-foreground">
+          {typingNames.length === 1 && `${typingNames[0]} is typing...`}
+          {typingNames.length > 1 && `${typingNames.length} people are typing...`}
+        </p>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <form onSubmit={handleSubmit} className="flex gap-2">
+          <input
+            type="text"
+            value={body}
+            onChange={(e) => handleChange(e.target.value)}
+            onBlur={stopTyping}
+            placeholder="Send a message"
+            aria-label="Message"
+            maxLength={MAX_MESSAGE_LENGTH}
+            className={inputClassName}
+          />
+          <Button type="submit" size="sm" disabled={isSending || !body.trim()} aria-label="Send">
+            <Send className="h-4 w-4" />
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
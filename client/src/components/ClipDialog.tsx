@@ -0,0 +1,188 @@
+/**
+ * ClipDialog component for cutting part of an uploaded recording out as a
+ * new recording
+ */
+"use client";
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Scissors } from 'lucide-react';
+import { createClip, formatDuration, Recording } from '@/lib/recordings';
+
+interface ClipDialogProps {
+  recording: Recording;
+  // Player position in seconds, used to fill in the start and end
+  getCurrentTime: () => number;
+}
+
+const inputClassName =
+  'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50';
+
+// Length of a new clip until the end is chosen
+const DEFAULT_CLIP_SECONDS = 30;
+
+/**
+ * Parse a time typed as seconds, M:SS or H:MM:SS
+ * @param text Time as entered
+ * @returns Time in seconds, or null if it is not a valid time
+ */
+function parseTime(text: string): number | null {
+  const parts = text.trim().split(':');
+  if (parts.length > 3 || parts.some((part) => !/^\d+(\.\d+)?$/.test(part))) return null;
+
+  return parts.reduce((total, part) => total * 60 + Number(part), 0);
+}
+
+export default function ClipDialog({ recording, getCurrentTime }: ClipDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [filename, setFilename] = useState('');
+  const [start, setStart] = useState('');
+  const [end, setEnd] = useState('');
+  const [clip, setClip] = useState<Recording | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start the clip at the player position each time the dialog opens
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (!open) return;
+
+    const position = Math.floor(getCurrentTime());
+    const length = recording.duration ?? position + DEFAULT_CLIP_SECONDS;
+    setStart(formatDuration(position));
+    setEnd(formatDuration(Math.min(position + DEFAULT_CLIP_SECONDS, length)));
+    setFilename('');
+    setClip(null);
+    setError(null);
+  };
+
+  // Handle creating the clip
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const startTime = parseTime(start);
+    const endTime = parseTime(end);
+    if (startTime === null || endTime === null) {
+      setError('Enter times as seconds or M:SS');
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+
+      const created = await createClip(
+        recording.id,
+        { start: startTime, end: endTime },
+        filename.trim() || undefined
+      );
+
+      setClip(created);
+    } catch (error) {
+      console.error('Error creating clip:', error);
+      setError(error instanceof Error ? error.message : 'Failed to create clip');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="flex items-center gap-2">
+          <Scissors className="h-4 w-4" />
+          Create clip
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Create clip</DialogTitle>
+          <DialogDescription>
+            The clip is saved as a new recording in the same folder. It is ready to play once it
+            has been processed.
+          </DialogDescription>
+        </DialogHeader>
+
+        {clip ? (
+          <div className="space-y-3 text-sm">
+            <p>
+              <span className="font-medium">{clip.filename}</span> is being created.
+            </p>
+            <Button asChild>
+              <Link href={`/recordings/${clip.id}`}>Open clip</Link>
+            </Button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-3">
+            <input
+              type="text"
+              value={filename}
+              onChange={(e) => setFilename(e.target.value)}
+              placeholder="Clip name (optional)"
+              aria-label="Clip name"
+              maxLength={255}
+              className={inputClassName}
+            />
+            <div className="grid grid-cols-2 gap-3">
+              <label className="space-y-1 text-sm">
+                <span>Start</span>
+                <div className="flex gap-1">
+                  <input
+                    type="text"
+                    value={start}
+                    onChange={(e) => setStart(e.target.value)}
+                    placeholder="0:00"
+                    className={inputClassName}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setStart(formatDuration(getCurrentTime()))}
+                    title="Use the current position"
+                  >
+                    Now
+                  </Button>
+                </div>
+              </label>
+              <label className="space-y-1 text-sm">
+                <span>End</span>
+                <div className="flex gap-1">
+                  <input
+                    type="text"
+                    value={end}
+                    onChange={(e) => setEnd(e.target.value)}
+                    placeholder="0:30"
+                    className={inputClassName}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setEnd(formatDuration(getCurrentTime()))}
+                    title="Use the current position"
+                  >
+                    Now
+                  </Button>
+                </div>
+              </label>
+            </div>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+            <Button type="submit" disabled={isSubmitting || !start || !end}>
+              Create clip
+            </Button>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,188 @@
+/**
+ * FileShare component for sending files to everyone in the call. Files are
+ * dropped or picked here and go straight to each participant, not through the server.
+ */
+"use client";
+
+import { ChangeEvent, DragEvent, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Download, FileUp, X } from 'lucide-react';
+import { useAppStore } from '@/lib/store';
+import { FileTransfer } from '@/lib/fileTransfer';
+import { getParticipantName } from '@/lib/rooms';
+
+interface FileShareProps {
+  className?: string;
+}
+
+/**
+ * Format file size in human-readable format
+ * @param bytes Size in bytes
+ * @returns Formatted size, e.g. "1.5 MB"
+ */
+function formatFileSize(bytes: number): string {
+  if (bytes === 0) return '0 Bytes';
+
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+}
+
+/**
+ * Describe where a transfer stands
+ * @param transfer The transfer
+ * @returns Status text
+ */
+function describeTransfer(transfer: FileTransfer): string {
+  switch (transfer.status) {
+    case 'transferring':
+      return `${formatFileSize(transfer.transferred)} of ${formatFileSize(transfer.size)}`;
+    case 'complete':
+      return transfer.direction === 'send' ? 'Sent' : 'Received and verified';
+    case 'cancelled':
+      return 'Cancelled';
+    case 'failed':
+      return transfer.error || 'Failed';
+  }
+}
+
+export default function FileShare({ className = '' }: FileShareProps) {
+  const { fileChannels, fileTransfers, participantNames, shareFile, cancelFileTransfer, dismissFileTransfer } =
+    useAppStore();
+  const [isDragging, setIsDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const peerCount = Object.keys(fileChannels).length;
+
+  // Send each file to everyone; failures for one participant show on its transfer
+  const handleFiles = (files: File[]) => {
+    setError(null);
+
+    files.forEach((file) => {
+      shareFile(file).catch((error) => {
+        console.error('Error sharing file:', error);
+        setError(error instanceof Error ? error.message : 'Failed to share file');
+      });
+    });
+  };
+
+  const handleDragOver = (e: DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setIsDragging(true);
+  };
+
+  const handleDrop = (e: DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    handleFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const handleInputChange = (e: ChangeEvent<HTMLInputElement>) => {
+    handleFiles(Array.from(e.target.files ?? []));
+    // Allow picking the same file again
+    e.target.value = '';
+  };
+
+  return (
+    <Card className={`w-full ${className}`}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <FileUp className="h-4 w-4" />
+          Share files
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Drop target, which also opens the file picker */}
+        <div
+          role="button"
+          tabIndex={0}
+          onClick={() => inputRef.current?.click()}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' || e.key === ' ') {
+              e.preventDefault();
+              inputRef.current?.click();
+            }
+          }}
+          onDragOver={handleDragOver}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+          className={`flex cursor-pointer flex-col items-center justify-center gap-1 rounded-lg border-2 border-dashed p-6 text-center text-sm transition-colors ${
+            isDragging ? 'border-primary bg-primary/5' : 'border-input hover:bg-muted/50'
+          }`}
+        >
+          <p className="font-medium">Drop files here or click to choose</p>
+          <p className="text-xs text-muted-foreground">
+            {peerCount === 1 ? 'Sent to 1 participant' : `Sent to ${peerCount} participants`}, directly
+            from your browser. Files never pass through the server.
+          </p>
+          <input
+            ref={inputRef}
+            type="file"
+            multiple
+            onChange={handleInputChange}
+            className="hidden"
+          />
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {fileTransfers.length > 0 && (
+          <ul className="space-y-3">
+            {fileTransfers.map((transfer) => (
+              <li key={`${transfer.peerId}-${transfer.id}`} className="space-y-1 text-sm">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="truncate font-medium">{transfer.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {transfer.direction === 'send' ? 'To' : 'From'} {getParticipantName(participantNames, transfer.peerId)}
+                      {' · '}
+                      <span className={transfer.status === 'failed' ? 'text-destructive' : ''}>
+                        {describeTransfer(transfer)}
+                      </span>
+                    </p>
+                  </div>
+
+                  <div className="flex shrink-0 items-center gap-1">
+                    {transfer.url && (
+                      <Button variant="outline" size="sm" asChild>
+                        <a href={transfer.url} download={transfer.name}>
+                          <Download className="h-4 w-4" />
+                          Save
+                        </a>
+                      </Button>
+                    )}
+                    {transfer.direction === 'send' && transfer.status === 'transferring' ? (
+                      <Button variant="ghost" size="sm" onClick={() => cancelFileTransfer(transfer.id)}>
+                        Cancel
+                      </Button>
+                    ) : (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => dismissFileTransfer(transfer.id)}
+                        aria-label={`Dismiss ${transfer.name}`}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                {transfer.status === 'transferring' && (
+                  <Progress value={transfer.size > 0 ? (transfer.transferred / transfer.size) * 100 : 0} />
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,246 @@
+/**
+ * FolderTree component showing a workspace's nested folders as library
+ * filters, with creating, renaming and deleting folders and dropping
+ * recordings or other folders onto them
+ */
+"use client";
+
+import { useState } from 'react';
+import {
+  ChevronDown,
+  ChevronRight,
+  Folder as FolderIcon,
+  FolderPlus,
+  Inbox,
+  Library,
+  Pencil,
+  Trash2,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { createFolder, deleteFolder, Folder, updateFolder } from '@/lib/folders';
+
+// Drag data types, so drops can tell recordings and folders apart
+export const RECORDING_DRAG_TYPE = 'application/x-clipz-recording-ids';
+const FOLDER_DRAG_TYPE = 'application/x-clipz-folder-id';
+
+interface FolderTreeProps {
+  workspaceId: string;
+  folders: Folder[];
+  // '' for all recordings, 'root' for unfiled ones, or a folder ID
+  selectedId: string;
+  onSelect: (folderId: string) => void;
+  // Called after folders are created, renamed, moved or deleted
+  onFoldersChange: () => void;
+  // Called when recordings are dropped on a folder, or on "Unfiled" with null
+  onDropRecordings: (recordingIds: string[], folderId: string | null) => void;
+  canOrganize: boolean;
+  className?: string;
+}
+
+export default function FolderTree({
+  workspaceId,
+  folders,
+  selectedId,
+  onSelect,
+  onFoldersChange,
+  onDropRecordings,
+  canOrganize,
+  className = '',
+}: FolderTreeProps) {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const children = new Map<string | null, Folder[]>();
+  folders.forEach((folder) => {
+    children.set(folder.parentId, [...(children.get(folder.parentId) ?? []), folder]);
+  });
+
+  // Run a folder change and report failures
+  const runChange = async (change: () => Promise<unknown>, failure: string) => {
+    try {
+      setError(null);
+      await change();
+      onFoldersChange();
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      setError(error instanceof Error ? error.message : failure);
+    }
+  };
+
+  // Handle creating a folder, inside another one when a parent is given
+  const handleCreate = (parentId: string | null) => {
+    const name = window.prompt('Folder name')?.trim();
+    if (!name) return;
+
+    runChange(() => createFolder(workspaceId, name, parentId), 'Failed to create folder');
+    if (parentId) {
+      setCollapsed((current) => new Set([...current].filter((id) => id !== parentId)));
+    }
+  };
+
+  // Handle renaming a folder
+  const handleRename = (folder: Folder) => {
+    const name = window.prompt('Rename folder', folder.name)?.trim();
+    if (!name || name === folder.name) return;
+
+    runChange(() => updateFolder(workspaceId, folder.id, { name }), 'Failed to rename folder');
+  };
+
+  // Handle deleting a folder
+  const handleDelete = (folder: Folder) => {
+    if (!window.confirm(`Delete "${folder.name}"? Its recordings and folders will move up a level.`)) {
+      return;
+    }
+
+    runChange(async () => {
+      await deleteFolder(workspaceId, folder.id);
+      if (selectedId === folder.id) onSelect('');
+    }, 'Failed to delete folder');
+  };
+
+  const toggleCollapsed = (folderId: string) => {
+    setCollapsed((current) => {
+      const next = new Set(current);
+      if (next.has(folderId)) {
+        next.delete(folderId);
+      } else {
+        next.add(folderId);
+      }
+      return next;
+    });
+  };
+
+  // Drop handlers for a target; null is the top level
+  const dropProps = (targetKey: string, folderId: string | null) =>
+    canOrganize
+      ? {
+          onDragOver: (e: React.DragEvent) => {
+            const types = e.dataTransfer.types;
+            if (!types.includes(RECORDING_DRAG_TYPE) && !types.includes(FOLDER_DRAG_TYPE)) return;
+            e.preventDefault();
+            e.dataTransfer.dropEffect = 'move';
+            setDropTarget(targetKey);
+          },
+          onDragLeave: () => setDropTarget((current) => (current === targetKey ? null : current)),
+          onDrop: (e: React.DragEvent) => {
+            e.preventDefault();
+            setDropTarget(null);
+
+            const recordingIds = e.dataTransfer.getData(RECORDING_DRAG_TYPE);
+            if (recordingIds) {
+              onDropRecordings(JSON.parse(recordingIds) as string[], folderId);
+              return;
+            }
+
+            // The server refuses moves into the folder's own subfolders
+            const draggedId = e.dataTransfer.getData(FOLDER_DRAG_TYPE);
+            if (draggedId && draggedId !== folderId) {
+              runChange(
+                () => updateFolder(workspaceId, draggedId, { parentId: folderId }),
+                'Failed to move folder'
+              );
+            }
+          },
+        }
+      : {};
+
+  const itemClassName = (key: string, isSelected: boolean) =>
+    `group flex items-center gap-1 rounded-md px-2 py-1.5 text-sm cursor-pointer ${
+      dropTarget === key
+        ? 'bg-primary/15 ring-1 ring-primary'
+        : isSelected
+          ? 'bg-muted font-medium'
+          : 'hover:bg-muted/50'
+    }`;
+
+  const renderFolders = (parentId: string | null, depth: number): React.ReactNode =>
+    (children.get(parentId) ?? []).map((folder) => {
+      const hasChildren = children.has(folder.id);
+      const isCollapsed = collapsed.has(folder.id);
+
+      return (
+        <li key={folder.id}>
+          <div
+            className={itemClassName(folder.id, selectedId === folder.id)}
+            style={{ paddingLeft: `${0.5 + depth * 1}rem` }}
+            onClick={() => onSelect(folder.id)}
+            draggable={canOrganize}
+            onDragStart={(e) => {
+              e.dataTransfer.setData(FOLDER_DRAG_TYPE, folder.id);
+              e.dataTransfer.effectAllowed = 'move';
+            }}
+            {...dropProps(folder.id, folder.id)}
+          >
+            <button
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation();
+                toggleCollapsed(folder.id);
+              }}
+              aria-label={isCollapsed ? 'Expand folder' : 'Collapse folder'}
+              className={`text-muted-foreground ${hasChildren ? '' : 'invisible'}`}
+            >
+              {isCollapsed ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+            </button>
+            <FolderIcon className="h-4 w-4 shrink-0 text-muted-foreground" />
+            <span className="flex-1 truncate" title={folder.name}>
+              {folder.name}
+            </span>
+            {canOrganize && (
+              <span
+                className="hidden items-center gap-0.5 group-hover:flex"
+                onClick={(e) => e.stopPropagation()}
+              >
+                <button type="button" onClick={() => handleCreate(folder.id)} title="New subfolder">
+                  <FolderPlus className="h-3.5 w-3.5" />
+                </button>
+                <button type="button" onClick={() => handleRename(folder)} title="Rename folder">
+                  <Pencil className="h-3.5 w-3.5" />
+                </button>
+                <button type="button" onClick={() => handleDelete(folder)} title="Delete folder">
+                  <Trash2 className="h-3.5 w-3.5" />
+                </button>
+              </span>
+            )}
+          </div>
+          {hasChildren && !isCollapsed && <ul>{renderFolders(folder.id, depth + 1)}</ul>}
+        </li>
+      );
+    });
+
+  return (
+    <nav className={`space-y-2 ${className}`} aria-label="Folders">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold">Folders</h2>
+        {canOrganize && (
+          <Button variant="ghost" size="icon" onClick={() => handleCreate(null)} title="New folder">
+            <FolderPlus className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      <ul className="space-y-0.5">
+        <li>
+          <div className={itemClassName('', selectedId === '')} onClick={() => onSelect('')}>
+            <Library className="h-4 w-4 text-muted-foreground" />
+            All recordings
+          </div>
+        </li>
+        <li>
+          <div
+            className={itemClassName('root', selectedId === 'root')}
+            onClick={() => onSelect('root')}
+            {...dropProps('root', null)}
+          >
+            <Inbox className="h-4 w-4 text-muted-foreground" />
+            Unfiled
+          </div>
+        </li>
+        {renderFolders(null, 0)}
+      </ul>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </nav>
+  );
+}
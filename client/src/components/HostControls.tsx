@@ -0,0 +1,146 @@
+/**
+ * HostControls component for the room owner to lock the room, run the waiting
+ * room, and mute or remove participants. The server only accepts these from the host.
+ */
+"use client";
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Switch } from '@/components/ui/switch';
+import { Mic, MicOff, ShieldCheck, UserX, Video, VideoOff } from 'lucide-react';
+import { useAppStore } from '@/lib/store';
+import { getParticipantName } from '@/lib/rooms';
+
+interface HostControlsProps {
+  className?: string;
+}
+
+const NO_FORCED_MUTE = { audio: false, video: false };
+
+export default function HostControls({ className = '' }: HostControlsProps) {
+  const {
+    peerConnections,
+    participantNames,
+    roomAccess,
+    forcedMutes,
+    waitingUsers,
+    setRoomAccess,
+    setForcedMute,
+    removeParticipant,
+    admitUser,
+    denyUser,
+  } = useAppStore();
+
+  const participantIds = Object.keys(peerConnections);
+
+  // Host actions are fire-and-forget; their results come back as room state
+  const run = (action: Promise<void>) => {
+    action.catch((error) => console.error('Error running host action:', error));
+  };
+
+  const handleRemove = (userId: string) => {
+    if (!window.confirm("Remove this participant? They won't be able to rejoin this call.")) return;
+    run(removeParticipant(userId));
+  };
+
+  return (
+    <Card className={`w-full ${className}`}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <ShieldCheck className="h-4 w-4" />
+          Host controls
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Room access, saved on the room for later calls too */}
+        <div className="flex flex-wrap items-center gap-x-6 gap-y-2">
+          <div className="flex items-center gap-2">
+            <Switch
+              id="lockRoom"
+              checked={roomAccess.isLocked}
+              onCheckedChange={(isLocked) => run(setRoomAccess({ isLocked }))}
+            />
+            <label htmlFor="lockRoom" className="text-sm text-muted-foreground">
+              Lock room
+            </label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch
+              id="waitingRoom"
+              checked={roomAccess.waitingRoomEnabled}
+              onCheckedChange={(waitingRoomEnabled) => run(setRoomAccess({ waitingRoomEnabled }))}
+            />
+            <label htmlFor="waitingRoom" className="text-sm text-muted-foreground">
+              Waiting room
+            </label>
+          </div>
+        </div>
+
+        {/* People waiting to be let in */}
+        {waitingUsers.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Waiting to join ({waitingUsers.length})</p>
+            <ul className="space-y-1">
+              {waitingUsers.map((user) => (
+                <li key={user.userId} className="flex items-center justify-between gap-2 text-sm">
+                  <span className="truncate">{user.name}</span>
+                  <div className="flex shrink-0 gap-1">
+                    <Button size="sm" onClick={() => run(admitUser(user.userId))}>
+                      Admit
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => run(denyUser(user.userId))}>
+                      Deny
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Participants in the call */}
+        {participantIds.length > 0 ? (
+          <ul className="space-y-1">
+            {participantIds.map((userId) => {
+              const forcedMute = forcedMutes[userId] ?? NO_FORCED_MUTE;
+
+              return (
+                <li key={userId} className="flex items-center justify-between gap-2 text-sm">
+                  <span className="truncate">{getParticipantName(participantNames, userId)}</span>
+                  <div className="flex shrink-0 gap-1">
+                    <Button
+                      variant={forcedMute.audio ? 'secondary' : 'ghost'}
+                      size="sm"
+                      onClick={() => run(setForcedMute(userId, 'audio', !forcedMute.audio))}
+                      title={forcedMute.audio ? 'Let them unmute' : 'Mute'}
+                    >
+                      {forcedMute.audio ? <MicOff className="h-4 w-4" /> : <Mic className="h-4 w-4" />}
+                    </Button>
+                    <Button
+                      variant={forcedMute.video ? 'secondary' : 'ghost'}
+                      size="sm"
+                      onClick={() => run(setForcedMute(userId, 'video', !forcedMute.video))}
+                      title={forcedMute.video ? 'Let them turn their camera on' : 'Turn camera off'}
+                    >
+                      {forcedMute.video ? <VideoOff className="h-4 w-4" /> : <Video className="h-4 w-4" />}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRemove(userId)}
+                      title="Remove from call"
+                    >
+                      <UserX className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground">No one else is in the call yet.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
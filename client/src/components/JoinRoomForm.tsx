@@ -1,5 +1,5 @@
 /**
- * JoinRoomForm component for entering a room ID
+ * JoinRoomForm component for joining an existing room or creating a new one
  */
 "use client";
 
@@ -7,47 +7,91 @@ import { useState, FormEvent } from 'react';
 import { useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Switch } from '@/components/ui/switch';
+import { getCurrentUser } from '@/lib/auth';
+import { createRoom, getRoom } from '@/lib/rooms';
 
 interface JoinRoomFormProps {
   onJoinRoom?: (roomId: string) => void;
 }
 
+const inputClassName =
+  'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50';
+
 export default function JoinRoomForm({ onJoinRoom }: JoinRoomFormProps) {
   const router = useRouter();
   const [roomId, setRoomId] = useState('');
+  const [title, setTitle] = useState('');
+  const [isPrivate, setIsPrivate] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  // Generate a random room ID
-  const generateRoomId = () => {
-    const randomId = Math.random().toString(36).substring(2, 9);
-    setRoomId(randomId);
+  // Rooms require an account, so send logged out users to the login page first
+  const ensureLoggedIn = async (next: string): Promise<boolean> => {
+    const user = await getCurrentUser();
+    if (!user) {
+      router.push(`/login?next=${encodeURIComponent(next)}`);
+      return false;
+    }
+    return true;
   };
 
-  // Handle form submission
-  const handleSubmit = (e: FormEvent) => {
+  // Navigate to a room
+  const goToRoom = (id: string) => {
+    // If onJoinRoom callback is provided, call it
+    if (onJoinRoom) {
+      onJoinRoom(id);
+    }
+
+    router.push(`/room/${id}`);
+  };
+
+  // Handle joining an existing room
+  const handleJoin = async (e: FormEvent) => {
     e.preventDefault();
-    
+
     // Validate room ID
-    if (!roomId.trim()) {
+    const id = roomId.trim();
+    if (!id) {
       setError('Please enter a room ID');
       return;
     }
-    
+
     setIsLoading(true);
     setError(null);
-    
+
     try {
-      // If onJoinRoom callback is provided, call it
-      if (onJoinRoom) {
-        onJoinRoom(roomId);
+      if (!(await ensureLoggedIn(`/room/${id}`))) return;
+
+      // Make sure the room exists and is still open
+      const room = await getRoom(id);
+      if (room.endedAt) {
+        setError('This room has been closed');
+        setIsLoading(false);
+        return;
       }
-      
-      // Navigate to room page
-      router.push(`/room/${roomId}`);
+
+      goToRoom(room.id);
     } catch (error) {
       console.error('Error joining room:', error);
-      setError('Failed to join room. Please try again.');
+      setError(error instanceof Error ? error.message : 'Failed to join room. Please try again.');
+      setIsLoading(false);
+    }
+  };
+
+  // Handle creating a new room
+  const handleCreate = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      if (!(await ensureLoggedIn('/'))) return;
+
+      const room = await createRoom(title.trim() || 'Untitled call', isPrivate);
+      goToRoom(room.id);
+    } catch (error) {
+      console.error('Error creating room:', error);
+      setError(error instanceof Error ? error.message : 'Failed to create room. Please try again.');
       setIsLoading(false);
     }
   };
@@ -60,42 +104,66 @@ export default function JoinRoomForm({ onJoinRoom }: JoinRoomFormProps) {
           Enter a room ID to join an existing call or create a new one
         </CardDescription>
       </CardHeader>
-      <CardContent>
-        <form onSubmit={handleSubmit} className="space-y-4">
-          <div className="space-y-2">
-            <label htmlFor="roomId" className="text-sm font-medium">
-              Room ID
-            </label>
-            <div className="flex gap-2">
-              <input
-                id="roomId"
-                type="text"
-                value={roomId}
-                onChange={(e) => setRoomId(e.target.value)}
-                placeholder="Enter room ID"
-                className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
-              />
-              <Button 
-                type="button" 
-                variant="outline" 
-                onClick={generateRoomId}
-                className="shrink-0"
-              >
-                Generate
-              </Button>
-            </div>
-            {error && <p className="text-sm text-destructive">{error}</p>}
+      <CardContent className="space-y-6">
+        <form onSubmit={handleJoin} className="space-y-2">
+          <label htmlFor="roomId" className="text-sm font-medium">
+            Room ID
+          </label>
+          <div className="flex gap-2">
+            <input
+              id="roomId"
+              type="text"
+              value={roomId}
+              onChange={(e) => setRoomId(e.target.value)}
+              placeholder="Enter room ID"
+              className={inputClassName}
+            />
+            <Button
+              type="submit"
+              disabled={isLoading || !roomId.trim()}
+              className="shrink-0"
+            >
+              Join
+            </Button>
           </div>
         </form>
+
+        <div className="space-y-2">
+          <label htmlFor="roomTitle" className="text-sm font-medium">
+            New room title
+          </label>
+          <input
+            id="roomTitle"
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="Weekly sync"
+            maxLength={100}
+            className={inputClassName}
+          />
+          <div className="flex items-center justify-between">
+            <label htmlFor="roomPrivate" className="text-sm text-muted-foreground">
+              Private (hidden from public room listings)
+            </label>
+            <Switch
+              id="roomPrivate"
+              checked={isPrivate}
+              onCheckedChange={setIsPrivate}
+            />
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
       </CardContent>
       <CardFooter>
-        <Button 
-          type="submit" 
-          onClick={handleSubmit} 
-          disabled={isLoading || !roomId.trim()}
+        <Button
+          type="button"
+          variant="outline"
+          onClick={handleCreate}
+          disabled={isLoading}
           className="w-full"
         >
-          {isLoading ? 'Joining...' : 'Join Room'}
+          {isLoading ? 'Please wait...' : 'Create Room'}
         </Button>
       </CardFooter>
     </Card>
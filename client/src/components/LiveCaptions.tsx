@@ -0,0 +1,90 @@
+/**
+ * LiveCaptions component that captions the user's speech while captions are
+ * on in the room and shows everyone's recent lines as an overlay on the call
+ */
+"use client";
+
+import { useEffect, useState } from 'react';
+import { useAppStore } from '@/lib/store';
+import { sendCaption } from '@/lib/socket';
+import { isCaptioningSupported, startCaptioning } from '@/lib/liveCaptions';
+
+interface LiveCaptionsProps {
+  // The signed-in user, who is named as the speaker of their own lines
+  user: { id: string; name: string };
+  className?: string;
+}
+
+// How long a line stays on screen after it last changed
+const CAPTION_DISPLAY_MS = 6000;
+// Lines shown at once
+const MAX_VISIBLE_LINES = 3;
+
+export default function LiveCaptions({ user, className = '' }: LiveCaptionsProps) {
+  const { roomId, captionsEnabled, micEnabled, captions, addCaption } = useAppStore();
+  const [now, setNow] = useState(() => Date.now());
+  const [error, setError] = useState<string | null>(null);
+
+  // Caption our own speech while captions are on and the microphone is unmuted
+  useEffect(() => {
+    if (!roomId || !captionsEnabled || !micEnabled) return;
+
+    setError(null);
+    const recognizer = startCaptioning(
+      (caption) => {
+        addCaption({ ...caption, userId: user.id, speaker: user.name });
+        sendCaption(roomId, caption).catch((error) => console.error('Error sending caption:', error));
+      },
+      setError
+    );
+
+    return () => recognizer.stop();
+  }, [roomId, captionsEnabled, micEnabled, user.id, user.name, addCaption]);
+
+  // Re-render while lines are on screen, so they fade out once they go quiet
+  useEffect(() => {
+    if (!captionsEnabled) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [captionsEnabled]);
+
+  if (!captionsEnabled) return null;
+
+  const visibleLines = captions
+    .filter((line) => now - line.updatedAt < CAPTION_DISPLAY_MS)
+    .slice(-MAX_VISIBLE_LINES);
+
+  const notice = error
+    ? error
+    : !isCaptioningSupported()
+      ? "Your browser can't caption your speech, but you'll see others' captions"
+      : !micEnabled
+        ? 'Unmute your microphone to caption your speech'
+        : null;
+
+  return (
+    <div
+      className={`pointer-events-none absolute inset-x-0 bottom-4 z-20 flex flex-col items-center gap-1 px-4 ${className}`}
+      aria-live="polite"
+    >
+      {visibleLines.map((line) => (
+        <p
+          key={`${line.userId}-${line.id}`}
+          className={`max-w-3xl rounded bg-black/75 px-3 py-1 text-center text-white ${
+            line.isFinal ? '' : 'opacity-80'
+          }`}
+        >
+          <span className="font-semibold text-yellow-300">
+            {line.userId === user.id ? 'You' : line.speaker}:
+          </span>{' '}
+          {line.text}
+        </p>
+      ))}
+
+      {notice && (
+        <p className="rounded bg-black/60 px-2 py-0.5 text-xs text-white">{notice}</p>
+      )}
+    </div>
+  );
+}
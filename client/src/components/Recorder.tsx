@@ -3,28 +3,81 @@
  */
 "use client";
 
-import { useEffect, useRef, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
-import { Play, Download, Upload } from 'lucide-react';
+import { Play, Download, Scissors, Upload } from 'lucide-react';
 import { useAppStore } from '@/lib/store';
-import { createRecorder, startRecording, stopRecording } from '@/lib/recorder';
+import {
+  createRecorder,
+  startRecording,
+  stopTimeslicedRecording,
+  RECORDING_TIMESLICE_MS,
+} from '@/lib/recorder';
 import { createCanvasPiP } from '@/lib/media';
 import { uploadRecording } from '@/lib/s3';
+import { TimeRange, trimRecording } from '@/lib/recordings';
+import { makeWebmSeekable } from '@/lib/webm';
+import { startChunkedUpload, ChunkedUpload } from '@/lib/chunkedUpload';
+import {
+  appendBufferedChunk,
+  createBufferedRecording,
+  deleteBufferedRecording,
+  setBufferedRecordingSession,
+} from '@/lib/recordingBuffer';
+import TrimEditor from './TrimEditor';
 import UploadProgress from './UploadProgress';
 
 interface RecorderProps {
+  roomId?: string;
   className?: string;
 }
 
-export default function Recorder({ className = '' }: RecorderProps) {
+// Most caption lines the server saves with a recording, and the longest line
+const MAX_SAVED_CAPTIONS = 5000;
+const MAX_SAVED_CAPTION_LENGTH = 500;
+
+/**
+ * Get the captions said in the call while recording, to save with the recording
+ * @returns The captions, or undefined if there were none
+ */
+function getRecordedCaptions() {
+  const { recordedCaptions } = useAppStore.getState();
+  if (recordedCaptions.length === 0) return undefined;
+
+  // Anything past the server's limits would fail the whole upload, so the latest lines are dropped
+  return recordedCaptions.slice(0, MAX_SAVED_CAPTIONS).map((caption) => ({
+    ...caption,
+    text: caption.text.slice(0, MAX_SAVED_CAPTION_LENGTH),
+  }));
+}
+
+export default function Recorder({ roomId, className = '' }: RecorderProps) {
   // Refs
   const recorderRef = useRef<MediaRecorder | null>(null);
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  // Filename is fixed per recording so a retried upload resumes instead of restarting
+  const filenameRef = useRef<string>('');
+  // Streaming upload state for a recording in progress
+  const chunkedUploadRef = useRef<ChunkedUpload | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  // Local IndexedDB copy of the recording, kept until it is uploaded
+  const bufferQueueRef = useRef<Promise<string | null> | null>(null);
+  const bufferIdRef = useRef<string | null>(null);
+  // Duration of the finished recording in seconds
+  const durationRef = useRef<number | undefined>(undefined);
+  // When the finished recording started and stopped, to line up the call's chat
+  const recordedAtRef = useRef<{ from: Date; until: Date } | undefined>(undefined);
 
   // Local state
   const [previewOpen, setPreviewOpen] = useState(false);
+  // Part of the recording to keep; null keeps all of it
+  const [trim, setTrim] = useState<TimeRange | null>(null);
+  // Trim last saved on the uploaded recording
+  const [savedTrim, setSavedTrim] = useState<TimeRange | null>(null);
+  const [isSavingTrim, setIsSavingTrim] = useState(false);
+  const [trimMessage, setTrimMessage] = useState<string | null>(null);
 
   // Global state
   const {
@@ -32,19 +85,21 @@ export default function Recorder({ className = '' }: RecorderProps) {
     screenStream,
     canvasStream,
     isRecording,
+    isPaused,
     recordedBlob,
     recordingStartTime,
     isUploading,
     uploadProgress,
-    uploadedUrl,
+    uploadedRecordingId,
     uploadError,
+    streamingUpload,
     setMediaStream,
     setRecordedBlob,
     startRecording: startRecordingState,
     stopRecording: stopRecordingState,
     startUpload,
     updateUploadProgress,
-    setUploadedUrl,
+    setUploadedRecordingId,
     setUploadError,
   } = useAppStore();
 
@@ -61,57 +116,164 @@ export default function Recorder({ className = '' }: RecorderProps) {
     }
   }, [cameraStream, screenStream, canvasStream, setMediaStream]);
 
+  // Drop the local copy once the recording is safely uploaded
+  const discardLocalCopy = async () => {
+    const bufferId = bufferIdRef.current;
+    if (!bufferId) return;
+
+    bufferIdRef.current = null;
+    await deleteBufferedRecording(bufferId).catch((error) =>
+      console.error('Error clearing local recording buffer:', error)
+    );
+  };
+
   // Start recording when isRecording changes to true
   useEffect(() => {
     if (isRecording && canvasStream && !recorderRef.current) {
       try {
         // Create recorder
         const recorder = createRecorder(canvasStream);
+        const mimeType = recorder.mimeType || 'video/webm';
         recorderRef.current = recorder;
+        filenameRef.current = `recording-${Date.now()}.webm`;
+        chunksRef.current = [];
+        setTrim(null);
+        setSavedTrim(null);
+        setTrimMessage(null);
+
+        // Upload each chunk as it arrives, so a crash loses only the last few seconds
+        const chunkedUpload = streamingUpload
+          ? startChunkedUpload(filenameRef.current, mimeType, updateUploadProgress, roomId)
+          : null;
+        chunkedUploadRef.current = chunkedUpload;
+
+        // Every chunk is also written to IndexedDB, so the recording can be
+        // recovered if the tab closes or the upload fails
+        let bufferQueue = createBufferedRecording(filenameRef.current, mimeType).catch((error) => {
+          console.error('Error creating local recording buffer:', error);
+          return null;
+        });
+        bufferQueueRef.current = bufferQueue;
+
+        // The upload session is kept with the local copy, so an interrupted upload can be resumed
+        if (chunkedUpload) {
+          Promise.all([bufferQueue, chunkedUpload.sessionId])
+            .then(async ([bufferId, sessionId]) => {
+              if (bufferId) await setBufferedRecordingSession(bufferId, sessionId);
+            })
+            .catch((error) => console.error('Error saving upload session with local recording:', error));
+        }
+
+        recorder.addEventListener('dataavailable', (event) => {
+          if (event.data.size === 0) return;
+
+          const index = chunksRef.current.length;
+          const data = event.data;
+          chunksRef.current.push(data);
+          chunkedUpload?.addChunk(data);
+
+          bufferQueue = bufferQueue.then(async (bufferId) => {
+            if (bufferId) {
+              await appendBufferedChunk(bufferId, index, data).catch((error) =>
+                console.error(`Error buffering chunk ${index}:`, error)
+              );
+            }
+            return bufferId;
+          });
+          bufferQueueRef.current = bufferQueue;
+        });
 
         // Start recording
-        startRecording(recorder);
+        startRecording(recorder, RECORDING_TIMESLICE_MS);
       } catch (error) {
         console.error('Error starting recording:', error);
         stopRecordingState();
       }
     } else if (!isRecording && recorderRef.current) {
-      try {
+      const recorder = recorderRef.current;
+      const chunkedUpload = chunkedUploadRef.current;
+      recorderRef.current = null;
+      chunkedUploadRef.current = null;
+
+      const { recordingStartTime: startedAt } = useAppStore.getState();
+      recordedAtRef.current = startedAt
+        ? { from: new Date(startedAt), until: new Date() }
+        : undefined;
+
+      const finishRecording = async () => {
         // Stop recording
-        stopRecording(recorderRef.current).then((blob) => {
-          setRecordedBlob(blob);
-          recorderRef.current = null;
-
-          // Automatically upload the recording when it stops
-          if (blob) {
-            // Small delay to ensure the blob is properly set in state
-            setTimeout(() => {
-              startUpload();
-              uploadRecording(
-                blob,
-                `recording-${Date.now()}.webm`,
-                updateUploadProgress
-              )
-                .then((result) => {
-                  if (result.success && result.url) {
-                    setUploadedUrl(result.url);
-                  } else {
-                    setUploadError(result.error || 'Automatic upload failed');
-                  }
-                })
-                .catch((error) => {
-                  console.error('Error in automatic upload:', error);
-                  setUploadError(`Automatic upload failed: ${error instanceof Error ? error.message : String(error)}`);
-                });
-            }, 100);
-          }
+        const rawBlob = await stopTimeslicedRecording(recorder, chunksRef.current);
+
+        // Rewrite the header so the file is seekable and reports its duration
+        const seekable = await makeWebmSeekable(rawBlob).catch((error) => {
+          console.error('Error making recording seekable:', error);
+          return null;
         });
-      } catch (error) {
-        console.error('Error stopping recording:', error);
-        recorderRef.current = null;
-      }
+        const blob = seekable?.blob ?? rawBlob;
+        setRecordedBlob(blob);
+
+        // Prefer the duration in the file; the store's recorded time, which
+        // excludes pauses, is the fallback
+        const durationMs = seekable?.durationMs ?? useAppStore.getState().recordingDuration;
+        durationRef.current = Math.round(durationMs / 1000);
+
+        // Wait for the last chunks to reach the local buffer
+        bufferIdRef.current = await (bufferQueueRef.current ?? Promise.resolve(null));
+
+        // Streamed chunks are joined on the server as is, so the new header
+        // goes up in place of the start of the first chunk
+        const firstChunk = chunksRef.current[0];
+        if (chunkedUpload && seekable && firstChunk && firstChunk.size >= seekable.originalHeaderSize) {
+          chunkedUpload.replaceChunk(
+            0,
+            new Blob([seekable.header, firstChunk.slice(seekable.originalHeaderSize)])
+          );
+        }
+
+        // Automatically upload the recording when it stops. When streaming,
+        // most of it is already uploaded; send the rest and finalize it.
+        // Captions spoken in the call are saved with it as its transcript
+        startUpload();
+        const captions = getRecordedCaptions();
+        const result = chunkedUpload
+          ? await chunkedUpload.finish(durationRef.current, captions)
+          : await uploadRecording(
+              blob,
+              filenameRef.current,
+              updateUploadProgress,
+              durationRef.current,
+              roomId,
+              undefined,
+              captions,
+              recordedAtRef.current
+            );
+
+        if (result.success && result.recordingId) {
+          setUploadedRecordingId(result.recordingId);
+          await discardLocalCopy();
+        } else {
+          setUploadError(result.error || 'Automatic upload failed');
+        }
+      };
+
+      finishRecording().catch((error) => {
+        console.error('Error in automatic upload:', error);
+        setUploadError(`Automatic upload failed: ${error instanceof Error ? error.message : String(error)}`);
+      });
+    }
+  }, [isRecording, canvasStream, streamingUpload, roomId, setRecordedBlob, stopRecordingState, startUpload, updateUploadProgress, setUploadedRecordingId, setUploadError]);
+
+  // Pause or resume the recorder along with the recording state
+  useEffect(() => {
+    const recorder = recorderRef.current;
+    if (!recorder) return;
+
+    if (isPaused && recorder.state === 'recording') {
+      recorder.pause();
+    } else if (!isPaused && recorder.state === 'paused') {
+      recorder.resume();
     }
-  }, [isRecording, canvasStream, setRecordedBlob, stopRecordingState, startUpload, updateUploadProgress, setUploadedUrl, setUploadError]);
+  }, [isPaused]);
 
   // Handle download recording
   const handleDownload = () => {
@@ -120,7 +282,7 @@ export default function Recorder({ className = '' }: RecorderProps) {
     const url = URL.createObjectURL(recordedBlob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `recording-${Date.now()}.webm`;
+    a.download = filenameRef.current;
     document.body.appendChild(a);
     a.click();
 
@@ -131,21 +293,29 @@ export default function Recorder({ className = '' }: RecorderProps) {
     }, 100);
   };
 
-  // Handle upload recording
+  // Handle upload recording; the trim is applied when the server processes it
   const handleUpload = async () => {
     if (!recordedBlob) return;
 
     try {
       startUpload();
+      setTrimMessage(null);
 
       const result = await uploadRecording(
         recordedBlob,
-        `recording-${Date.now()}.webm`,
-        updateUploadProgress
+        filenameRef.current,
+        updateUploadProgress,
+        durationRef.current,
+        roomId,
+        trim ?? undefined,
+        getRecordedCaptions(),
+        recordedAtRef.current
       );
 
-      if (result.success && result.url) {
-        setUploadedUrl(result.url);
+      if (result.success && result.recordingId) {
+        setUploadedRecordingId(result.recordingId);
+        setSavedTrim(trim);
+        await discardLocalCopy();
       } else {
         setUploadError(result.error || 'Upload failed');
       }
@@ -155,6 +325,39 @@ export default function Recorder({ className = '' }: RecorderProps) {
     }
   };
 
+  // Handle applying the trim to a recording that was already uploaded
+  const handleSaveTrim = async () => {
+    if (!uploadedRecordingId) return;
+
+    try {
+      setIsSavingTrim(true);
+      setTrimMessage(null);
+
+      await trimRecording(uploadedRecordingId, trim);
+
+      setSavedTrim(trim);
+      setTrimMessage('Trim saved. The recording is being processed again.');
+    } catch (error) {
+      console.error('Error trimming recording:', error);
+      setTrimMessage(error instanceof Error ? error.message : 'Failed to trim recording');
+    } finally {
+      setIsSavingTrim(false);
+    }
+  };
+
+  // Preview URL for the trim editor, released when the recording changes
+  const previewUrl = useMemo(
+    () => (recordedBlob ? URL.createObjectURL(recordedBlob) : null),
+    [recordedBlob]
+  );
+  useEffect(() => {
+    return () => {
+      if (previewUrl) URL.revokeObjectURL(previewUrl);
+    };
+  }, [previewUrl]);
+
+  const isTrimSaved = trim?.start === savedTrim?.start && trim?.end === savedTrim?.end;
+
   // If no recording and not recording, don't render
   if (!isRecording && !recordedBlob) {
     return null;
@@ -168,21 +371,29 @@ export default function Recorder({ className = '' }: RecorderProps) {
         </CardHeader>
 
         <CardContent>
-          {recordedBlob && (
-            <video
-              src={URL.createObjectURL(recordedBlob)}
-              controls
-              className="w-full rounded-md"
+          {previewUrl && !isRecording && (
+            <TrimEditor
+              src={previewUrl}
+              duration={durationRef.current ?? 0}
+              value={trim}
+              onChange={setTrim}
             />
           )}
 
+          {trimMessage && <p className="mt-2 text-sm text-muted-foreground">{trimMessage}</p>}
+
           {isRecording && (
-            <div className="flex items-center justify-center h-40 bg-muted rounded-md">
-              <p className="text-muted-foreground">Recording in progress...</p>
+            <div className="flex flex-col items-center justify-center h-40 bg-muted rounded-md">
+              <p className="text-muted-foreground">
+                {isPaused ? 'Recording paused' : 'Recording in progress...'}
+              </p>
+              {streamingUpload && (
+                <p className="text-sm text-muted-foreground">Uploading as you record</p>
+              )}
             </div>
           )}
 
-          {!isRecording && isUploading && !uploadedUrl && !uploadError && (
+          {!isRecording && isUploading && !uploadedRecordingId && !uploadError && (
             <div className="flex items-center justify-center mt-2">
               <p className="text-sm text-muted-foreground">Automatically uploading recording...</p>
             </div>
@@ -202,6 +413,18 @@ export default function Recorder({ className = '' }: RecorderProps) {
               </Button>
 
               <div className="flex gap-2">
+                {uploadedRecordingId && !isTrimSaved && (
+                  <Button
+                    variant="outline"
+                    onClick={handleSaveTrim}
+                    disabled={isSavingTrim}
+                    className="flex items-center gap-2"
+                  >
+                    <Scissors className="h-4 w-4" />
+                    Save trim
+                  </Button>
+                )}
+
                 <Button
                   variant="outline"
                   onClick={handleDownload}
@@ -217,7 +440,7 @@ export default function Recorder({ className = '' }: RecorderProps) {
                   className="flex items-center gap-2"
                 >
                   <Upload className="h-4 w-4" />
-                  {uploadedUrl || uploadError ? 'Re-upload' : 'Upload'}
+                  {uploadedRecordingId || uploadError ? 'Re-upload' : 'Upload'}
                 </Button>
               </div>
             </>
@@ -226,15 +449,15 @@ export default function Recorder({ className = '' }: RecorderProps) {
       </Card>
 
       {/* Upload progress */}
-      {(isUploading || uploadedUrl || uploadError) && (
+      {(isUploading || uploadedRecordingId || uploadError) && (
         <UploadProgress
           isUploading={isUploading}
           progress={uploadProgress}
-          uploadedUrl={uploadedUrl}
+          recordingId={uploadedRecordingId}
           error={uploadError}
           onClose={() => {
             setUploadError(null);
-            setUploadedUrl(null);
+            setUploadedRecordingId(null);
           }}
           className="mt-4"
         />
@@ -0,0 +1,113 @@
+/**
+ * RecordingChat component showing the chat sent in the call while a recording
+ * was made, following playback. Clicking a message's time seeks to when it was sent.
+ */
+"use client";
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { MessagesSquare } from 'lucide-react';
+import { getRecordingChat, RecordingChatMessage, splitMessageLinks } from '@/lib/chat';
+import { formatDuration } from '@/lib/recordings';
+
+interface RecordingChatProps {
+  recordingId: string;
+  // Player position in seconds, to show which messages have been sent so far
+  getCurrentTime: () => number;
+  onSeek: (time: number) => void;
+  className?: string;
+}
+
+// How often to follow the player position
+const POSITION_POLL_INTERVAL_MS = 500;
+
+export default function RecordingChat({
+  recordingId,
+  getCurrentTime,
+  onSeek,
+  className = '',
+}: RecordingChatProps) {
+  const [messages, setMessages] = useState<RecordingChatMessage[]>([]);
+  const [position, setPosition] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the chat when the recording changes
+  useEffect(() => {
+    let isMounted = true;
+
+    getRecordingChat(recordingId)
+      .then((loaded) => {
+        if (isMounted) setMessages(loaded);
+      })
+      .catch((error) => {
+        console.error('Error loading chat:', error);
+        if (isMounted) setError(error instanceof Error ? error.message : 'Failed to load chat');
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [recordingId]);
+
+  // Follow the player, to show the chat as it was at this point
+  useEffect(() => {
+    if (messages.length === 0) return;
+
+    const interval = setInterval(() => setPosition(getCurrentTime()), POSITION_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [messages.length, getCurrentTime]);
+
+  // Recordings without chat, e.g. made outside a call, show nothing
+  if (messages.length === 0 && !error) return null;
+
+  return (
+    <Card className={`w-full ${className}`}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessagesSquare className="h-5 w-5" />
+          Chat from the call
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <div className="max-h-96 space-y-1 overflow-y-auto">
+          {messages.map((message) => (
+            <div
+              key={message.id}
+              className={`flex gap-3 rounded px-2 py-1 text-sm ${
+                message.offset > position ? 'opacity-50' : ''
+              }`}
+            >
+              <button
+                type="button"
+                onClick={() => onSeek(Math.max(0, message.offset))}
+                className="shrink-0 font-mono text-xs text-primary hover:underline pt-0.5"
+              >
+                {formatDuration(Math.max(0, message.offset))}
+              </button>
+              <p className="min-w-0 break-words">
+                <span className="font-medium">{message.user.name}: </span>
+                {splitMessageLinks(message.body).map((part, index) =>
+                  part.href ? (
+                    <a
+                      key={index}
+                      href={part.href}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-primary underline"
+                    >
+                      {part.text}
+                    </a>
+                  ) : (
+                    <span key={index}>{part.text}</span>
+                  )
+                )}
+              </p>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
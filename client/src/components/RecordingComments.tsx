@@ -0,0 +1,293 @@
+/**
+ * RecordingComments component showing threaded comments anchored to points in
+ * a recording. Clicking a comment's timestamp seeks the player.
+ */
+"use client";
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { MessageSquare, Pencil, Reply, Trash2 } from 'lucide-react';
+import {
+  Comment,
+  createComment,
+  deleteComment,
+  listComments,
+  replyToComment,
+  updateComment,
+} from '@/lib/comments';
+import { formatDuration } from '@/lib/recordings';
+
+interface RecordingCommentsProps {
+  recordingId: string;
+  currentUserId: string;
+  // The recording's owner may delete any comment
+  canModerate?: boolean;
+  getCurrentTime: () => number;
+  onSeek: (time: number) => void;
+  className?: string;
+}
+
+const textareaClassName =
+  'flex min-h-[72px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50';
+
+export default function RecordingComments({
+  recordingId,
+  currentUserId,
+  canModerate = false,
+  getCurrentTime,
+  onSeek,
+  className = '',
+}: RecordingCommentsProps) {
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [newBody, setNewBody] = useState('');
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [replyBody, setReplyBody] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editBody, setEditBody] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load comments when the recording changes
+  useEffect(() => {
+    let isMounted = true;
+
+    listComments(recordingId)
+      .then((loaded) => {
+        if (isMounted) setComments(loaded);
+      })
+      .catch((error) => {
+        console.error('Error loading comments:', error);
+        if (isMounted) setError('Failed to load comments');
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [recordingId]);
+
+  // Run a change, reporting failures inline
+  const submit = async (action: () => Promise<void>) => {
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      await action();
+    } catch (error) {
+      console.error('Error saving comment:', error);
+      setError(error instanceof Error ? error.message : 'Failed to save comment');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Keep the list ordered by timestamp, then by creation time
+  const insertComment = (comment: Comment) => {
+    setComments((current) =>
+      [...current, comment].sort(
+        (a, b) => a.timestamp - b.timestamp || a.createdAt.localeCompare(b.createdAt)
+      )
+    );
+  };
+
+  // Handle a new comment at the current playback position
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newBody.trim()) return;
+
+    submit(async () => {
+      insertComment(await createComment(recordingId, newBody.trim(), getCurrentTime()));
+      setNewBody('');
+    });
+  };
+
+  // Handle a reply
+  const handleReply = (parentId: string) => {
+    if (!replyBody.trim()) return;
+
+    submit(async () => {
+      insertComment(await replyToComment(recordingId, parentId, replyBody.trim()));
+      setReplyBody('');
+      setReplyingTo(null);
+    });
+  };
+
+  // Handle an edit
+  const handleEdit = (commentId: string) => {
+    if (!editBody.trim()) return;
+
+    submit(async () => {
+      const updated = await updateComment(recordingId, commentId, editBody.trim());
+      setComments((current) => current.map((comment) => (comment.id === commentId ? updated : comment)));
+      setEditingId(null);
+    });
+  };
+
+  // Handle a delete; replies go with their parent
+  const handleDelete = (commentId: string) => {
+    if (!window.confirm('Delete this comment?')) return;
+
+    submit(async () => {
+      await deleteComment(recordingId, commentId);
+      setComments((current) =>
+        current.filter((comment) => comment.id !== commentId && comment.parentId !== commentId)
+      );
+    });
+  };
+
+  const threads = comments.filter((comment) => !comment.parentId);
+  const repliesTo = (parentId: string) => comments.filter((comment) => comment.parentId === parentId);
+
+  // One comment with its edit and delete actions
+  const renderComment = (comment: Comment) => (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <span className="font-medium text-foreground">{comment.user.name}</span>
+        <span>{new Date(comment.createdAt).toLocaleString()}</span>
+        {comment.updatedAt !== comment.createdAt && <span>(edited)</span>}
+      </div>
+
+      {editingId === comment.id ? (
+        <div className="space-y-2">
+          <textarea
+            value={editBody}
+            onChange={(e) => setEditBody(e.target.value)}
+            aria-label="Edit comment"
+            className={textareaClassName}
+          />
+          <div className="flex gap-2">
+            <Button size="sm" onClick={() => handleEdit(comment.id)} disabled={isSubmitting}>
+              Save
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setEditingId(null)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm whitespace-pre-wrap break-words">{comment.body}</p>
+      )}
+
+      {editingId !== comment.id && (
+        <div className="flex gap-1">
+          {!comment.parentId && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                setReplyingTo(comment.id);
+                setReplyBody('');
+              }}
+            >
+              <Reply className="h-3 w-3" />
+              Reply
+            </Button>
+          )}
+          {comment.userId === currentUserId && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                setEditingId(comment.id);
+                setEditBody(comment.body);
+              }}
+            >
+              <Pencil className="h-3 w-3" />
+              Edit
+            </Button>
+          )}
+          {(comment.userId === currentUserId || canModerate) && (
+            <Button variant="ghost" size="sm" onClick={() => handleDelete(comment.id)}>
+              <Trash2 className="h-3 w-3" />
+              Delete
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <Card className={`w-full ${className}`}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessageSquare className="h-5 w-5" />
+          Comments
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* New comment */}
+        <form onSubmit={handleCreate} className="space-y-2">
+          <textarea
+            value={newBody}
+            onChange={(e) => setNewBody(e.target.value)}
+            placeholder="Comment at the current position"
+            aria-label="New comment"
+            className={textareaClassName}
+          />
+          <Button type="submit" size="sm" disabled={isSubmitting || !newBody.trim()}>
+            Comment
+          </Button>
+        </form>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {threads.length === 0 && (
+          <p className="text-sm text-muted-foreground">No comments yet</p>
+        )}
+
+        {/* Threads */}
+        <div className="space-y-4">
+          {threads.map((thread) => (
+            <div key={thread.id} className="space-y-3">
+              <div className="flex gap-3">
+                <button
+                  type="button"
+                  onClick={() => onSeek(thread.timestamp)}
+                  className="h-fit shrink-0 rounded bg-muted px-1.5 py-0.5 font-mono text-xs hover:bg-primary hover:text-primary-foreground"
+                  title="Jump to this point"
+                >
+                  {formatDuration(thread.timestamp)}
+                </button>
+                <div className="min-w-0 flex-1">{renderComment(thread)}</div>
+              </div>
+
+              {/* Replies */}
+              {(repliesTo(thread.id).length > 0 || replyingTo === thread.id) && (
+                <div className="ml-12 space-y-3 border-l pl-4">
+                  {repliesTo(thread.id).map((reply) => (
+                    <div key={reply.id}>{renderComment(reply)}</div>
+                  ))}
+
+                  {replyingTo === thread.id && (
+                    <div className="space-y-2">
+                      <textarea
+                        value={replyBody}
+                        onChange={(e) => setReplyBody(e.target.value)}
+                        placeholder="Write a reply"
+                        aria-label="Reply"
+                        autoFocus
+                        className={textareaClassName}
+                      />
+                      <div className="flex gap-2">
+                        <Button
+                          size="sm"
+                          onClick={() => handleReply(thread.id)}
+                          disabled={isSubmitting || !replyBody.trim()}
+                        >
+                          Reply
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => setReplyingTo(null)}>
+                          Cancel
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -4,8 +4,8 @@
 "use client";
 
 import { useEffect, useState } from 'react';
-import { CircleDot } from 'lucide-react';
-import { useAppStore } from '@/lib/store';
+import { CircleDot, Pause } from 'lucide-react';
+import { getRecordedTime, useAppStore } from '@/lib/store';
 
 interface RecordingIndicatorProps {
   className?: string;
@@ -14,7 +14,7 @@ interface RecordingIndicatorProps {
 export default function RecordingIndicator({
   className = '',
 }: RecordingIndicatorProps) {
-  const { isRecording, recordingStartTime } = useAppStore();
+  const { isRecording, isPaused, recordingStartTime, pausedAt, pausedDuration } = useAppStore();
   const [duration, setDuration] = useState(0);
   const [blinking, setBlinking] = useState(true);
 
@@ -25,24 +25,30 @@ export default function RecordingIndicator({
     return `${minutes.toString().padStart(2, '0')}:${remainingSeconds.toString().padStart(2, '0')}`;
   };
 
-  // Update duration every second when recording
+  // Update duration every second when recording; paused time is not counted
   useEffect(() => {
     if (!isRecording || !recordingStartTime) {
       setDuration(0);
       return;
     }
 
-    const interval = setInterval(() => {
-      const elapsed = (Date.now() - recordingStartTime) / 1000;
-      setDuration(elapsed);
-    }, 1000);
+    const updateDuration = () => {
+      const recorded = getRecordedTime({ recordingStartTime, pausedAt, pausedDuration }, Date.now());
+      setDuration(recorded / 1000);
+    };
+    updateDuration();
+
+    // The time stands still while paused
+    if (isPaused) return;
+
+    const interval = setInterval(updateDuration, 1000);
 
     return () => clearInterval(interval);
-  }, [isRecording, recordingStartTime]);
+  }, [isRecording, isPaused, recordingStartTime, pausedAt, pausedDuration]);
 
   // Blink effect for recording indicator
   useEffect(() => {
-    if (!isRecording) {
+    if (!isRecording || isPaused) {
       setBlinking(false);
       return;
     }
@@ -52,16 +58,22 @@ export default function RecordingIndicator({
     }, 500);
 
     return () => clearInterval(interval);
-  }, [isRecording]);
+  }, [isRecording, isPaused]);
 
   if (!isRecording) {
     return null;
   }
 
   return (
-    <div className={`flex items-center gap-2 px-3 py-1.5 bg-destructive/90 text-destructive-foreground rounded-full ${className}`}>
-      <CircleDot className={`h-4 w-4 ${blinking ? 'opacity-100' : 'opacity-50'}`} />
-      <span className="text-sm font-medium">Recording {formatDuration(duration)}</span>
+    <div className={`flex items-center gap-2 px-3 py-1.5 ${isPaused ? 'bg-muted text-muted-foreground' : 'bg-destructive/90 text-destructive-foreground'} rounded-full ${className}`}>
+      {isPaused ? (
+        <Pause className="h-4 w-4" />
+      ) : (
+        <CircleDot className={`h-4 w-4 ${blinking ? 'opacity-100' : 'opacity-50'}`} />
+      )}
+      <span className="text-sm font-medium">
+        {isPaused ? 'Paused' : 'Recording'} {formatDuration(duration)}
+      </span>
     </div>
   );
 }
@@ -0,0 +1,520 @@
+/**
+ * RecordingLibrary component listing a workspace's recordings with search,
+ * date range, room, folder and tag filters, sorting and "load more"
+ * pagination. Members can select recordings to tag them or move them into
+ * folders, in bulk or by dragging them onto the folder tree.
+ */
+"use client";
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Search, Tag, X } from 'lucide-react';
+import {
+  formatDuration,
+  listRecordings,
+  listTags,
+  moveRecordings,
+  Recording,
+  RecordingListParams,
+  RecordingSort,
+  tagRecordings,
+  TagCount,
+} from '@/lib/recordings';
+import { Folder, listFolders } from '@/lib/folders';
+import { listRooms, Room } from '@/lib/rooms';
+import { hasRole, WorkspaceRole } from '@/lib/workspaces';
+import FolderTree, { RECORDING_DRAG_TYPE } from './FolderTree';
+import RecordingThumbnail from './RecordingThumbnail';
+
+interface RecordingLibraryProps {
+  workspaceId: string;
+  // The current user's role; viewers can browse but not organize
+  role: WorkspaceRole;
+  className?: string;
+}
+
+const inputClassName =
+  'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50';
+
+// Sort options, as "field:order"
+const SORT_OPTIONS: { value: string; label: string }[] = [
+  { value: 'uploadedAt:desc', label: 'Newest first' },
+  { value: 'uploadedAt:asc', label: 'Oldest first' },
+  { value: 'filename:asc', label: 'Name (A-Z)' },
+  { value: 'filename:desc', label: 'Name (Z-A)' },
+  { value: 'duration:desc', label: 'Longest first' },
+  { value: 'duration:asc', label: 'Shortest first' },
+  { value: 'size:desc', label: 'Largest first' },
+  { value: 'size:asc', label: 'Smallest first' },
+];
+
+// Wait for typing to pause before searching
+const SEARCH_DEBOUNCE_MS = 300;
+
+/**
+ * Format file size
+ * @param bytes Size in bytes
+ * @returns Human-readable size
+ */
+function formatFileSize(bytes: number): string {
+  if (bytes === 0) return '0 Bytes';
+
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+}
+
+/**
+ * Build the full path of each folder, for the "move to" menu
+ * @param folders All folders in the workspace
+ * @returns Folders with their paths, sorted by path
+ */
+function getFolderPaths(folders: Folder[]): { id: string; path: string }[] {
+  const byId = new Map(folders.map((folder) => [folder.id, folder]));
+
+  const pathOf = (folder: Folder): string => {
+    const parent = folder.parentId ? byId.get(folder.parentId) : undefined;
+    return parent ? `${pathOf(parent)} / ${folder.name}` : folder.name;
+  };
+
+  return folders
+    .map((folder) => ({ id: folder.id, path: pathOf(folder) }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+}
+
+export default function RecordingLibrary({
+  workspaceId,
+  role,
+  className = '',
+}: RecordingLibraryProps) {
+  const canOrganize = hasRole(role, 'member');
+
+  // Filters
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [roomId, setRoomId] = useState('');
+  const [folderId, setFolderId] = useState('');
+  const [tag, setTag] = useState('');
+  const [sort, setSort] = useState(SORT_OPTIONS[0].value);
+
+  // Results
+  const [recordings, setRecordings] = useState<Recording[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [rooms, setRooms] = useState<Room[]>([]);
+  const [folders, setFolders] = useState<Folder[]>([]);
+  const [tags, setTags] = useState<TagCount[]>([]);
+
+  // Organizing
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [tagInput, setTagInput] = useState('');
+  const [isUpdating, setIsUpdating] = useState(false);
+  // Bumped after changes so the folders, tags and recordings are reloaded
+  const [reloadKey, setReloadKey] = useState(0);
+
+  // Load the rooms for the room filter
+  useEffect(() => {
+    listRooms('mine')
+      .then(setRooms)
+      .catch((error) => console.error('Error loading rooms:', error));
+  }, []);
+
+  // Load the workspace's folders and tags
+  useEffect(() => {
+    let isMounted = true;
+
+    Promise.all([listFolders(workspaceId), listTags(workspaceId)])
+      .then(([loadedFolders, loadedTags]) => {
+        if (!isMounted) return;
+        setFolders(loadedFolders);
+        setTags(loadedTags);
+      })
+      .catch((error) => console.error('Error loading folders and tags:', error));
+
+    return () => {
+      isMounted = false;
+    };
+  }, [workspaceId, reloadKey]);
+
+  // Debounce the search box
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearch(searchInput.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
+
+  // Build the query for the current filters
+  const buildParams = (cursor?: string): RecordingListParams => {
+    const [sortField, order] = sort.split(':') as [RecordingSort, 'asc' | 'desc'];
+
+    return {
+      q: search || undefined,
+      // Dates are picked in local time and cover whole days
+      from: from ? new Date(`${from}T00:00:00`).toISOString() : undefined,
+      to: to ? new Date(`${to}T23:59:59.999`).toISOString() : undefined,
+      roomId: roomId || undefined,
+      folderId: folderId || undefined,
+      tag: tag || undefined,
+      sort: sortField,
+      order,
+      cursor,
+    };
+  };
+
+  // Reload the first page whenever the filters change
+  useEffect(() => {
+    let isMounted = true;
+
+    setIsLoading(true);
+    setError(null);
+
+    listRecordings(workspaceId, buildParams())
+      .then((page) => {
+        if (!isMounted) return;
+        setRecordings(page.recordings);
+        setNextCursor(page.nextCursor);
+        setSelected(new Set());
+      })
+      .catch((error) => {
+        console.error('Error loading recordings:', error);
+        if (isMounted) setError(error instanceof Error ? error.message : 'Failed to load recordings');
+      })
+      .finally(() => {
+        if (isMounted) setIsLoading(false);
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [workspaceId, search, from, to, roomId, folderId, tag, sort, reloadKey]);
+
+  // Append the next page
+  const handleLoadMore = async () => {
+    if (!nextCursor) return;
+
+    try {
+      setIsLoading(true);
+      const page = await listRecordings(workspaceId, buildParams(nextCursor));
+      setRecordings((current) => [...current, ...page.recordings]);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Error loading recordings:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load recordings');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Run a change to the selected recordings, then reload
+  const runUpdate = async (update: () => Promise<unknown>, failure: string) => {
+    try {
+      setIsUpdating(true);
+      setError(null);
+      await update();
+      setReloadKey((key) => key + 1);
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      setError(error instanceof Error ? error.message : failure);
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  // Handle moving recordings into a folder, or to the top level with null
+  const handleMove = (recordingIds: string[], targetId: string | null) => {
+    runUpdate(() => moveRecordings(recordingIds, targetId), 'Failed to move recordings');
+  };
+
+  // Handle adding or removing the entered tag on the selected recordings
+  const handleTag = (mode: 'add' | 'remove') => {
+    const value = tagInput.trim();
+    if (!value) return;
+
+    runUpdate(async () => {
+      await tagRecordings([...selected], { [mode]: [value] });
+      setTagInput('');
+    }, 'Failed to update tags');
+  };
+
+  const toggleSelected = (recordingId: string) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(recordingId)) {
+        next.delete(recordingId);
+      } else {
+        next.add(recordingId);
+      }
+      return next;
+    });
+  };
+
+  // Dragging a selected recording carries the whole selection with it
+  const handleDragStart = (e: React.DragEvent, recordingId: string) => {
+    const recordingIds = selected.has(recordingId) ? [...selected] : [recordingId];
+    e.dataTransfer.setData(RECORDING_DRAG_TYPE, JSON.stringify(recordingIds));
+    e.dataTransfer.effectAllowed = 'move';
+  };
+
+  const roomTitles = new Map(rooms.map((room) => [room.id, room.title]));
+  const folderPaths = getFolderPaths(folders);
+
+  return (
+    <div className={`grid grid-cols-1 gap-6 md:grid-cols-[14rem_1fr] ${className}`}>
+      {/* Folders and tags */}
+      <aside className="space-y-6">
+        <FolderTree
+          workspaceId={workspaceId}
+          folders={folders}
+          selectedId={folderId}
+          onSelect={setFolderId}
+          onFoldersChange={() => setReloadKey((key) => key + 1)}
+          onDropRecordings={handleMove}
+          canOrganize={canOrganize}
+        />
+
+        {tags.length > 0 && (
+          <div className="space-y-2">
+            <h2 className="text-sm font-semibold">Tags</h2>
+            <div className="flex flex-wrap gap-1.5">
+              {tags.map((item) => (
+                <button
+                  key={item.tag}
+                  type="button"
+                  onClick={() => setTag((current) => (current === item.tag ? '' : item.tag))}
+                  aria-pressed={tag === item.tag}
+                  className={`rounded-full border px-2 py-0.5 text-xs ${
+                    tag === item.tag ? 'bg-primary text-primary-foreground' : 'hover:bg-muted/50'
+                  }`}
+                >
+                  {item.tag} <span className="opacity-60">{item.count}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </aside>
+
+      <div className="min-w-0 space-y-6">
+        {/* Filters */}
+        <div className="grid grid-cols-1 gap-3 md:grid-cols-5">
+          <div className="relative md:col-span-2">
+            <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+            <input
+              type="search"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="Search by name, description, tag or what was said"
+              aria-label="Search recordings"
+              className={`${inputClassName} pl-9`}
+            />
+          </div>
+          <input
+            type="date"
+            value={from}
+            max={to || undefined}
+            onChange={(e) => setFrom(e.target.value)}
+            aria-label="Uploaded from"
+            className={inputClassName}
+          />
+          <input
+            type="date"
+            value={to}
+            min={from || undefined}
+            onChange={(e) => setTo(e.target.value)}
+            aria-label="Uploaded until"
+            className={inputClassName}
+          />
+          <div className="grid grid-cols-2 gap-3 md:col-span-5 md:grid-cols-4">
+            <select
+              value={roomId}
+              onChange={(e) => setRoomId(e.target.value)}
+              aria-label="Room"
+              className={inputClassName}
+            >
+              <option value="">All rooms</option>
+              {rooms.map((room) => (
+                <option key={room.id} value={room.id}>
+                  {room.title}
+                </option>
+              ))}
+            </select>
+            <select
+              value={sort}
+              onChange={(e) => setSort(e.target.value)}
+              aria-label="Sort by"
+              className={inputClassName}
+            >
+              {SORT_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {/* Bulk actions for the selected recordings */}
+        {selected.size > 0 && (
+          <div className="flex flex-wrap items-center gap-2 rounded-md border bg-muted/30 p-2">
+            <span className="px-1 text-sm font-medium">{selected.size} selected</span>
+            <div className="relative">
+              <Tag className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+              <input
+                type="text"
+                value={tagInput}
+                onChange={(e) => setTagInput(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleTag('add');
+                }}
+                placeholder="Tag"
+                aria-label="Tag"
+                maxLength={50}
+                list="recording-library-tags"
+                className={`${inputClassName} w-40 pl-9`}
+              />
+              <datalist id="recording-library-tags">
+                {tags.map((item) => (
+                  <option key={item.tag} value={item.tag} />
+                ))}
+              </datalist>
+            </div>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => handleTag('add')}
+              disabled={isUpdating || !tagInput.trim()}
+            >
+              Add tag
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => handleTag('remove')}
+              disabled={isUpdating || !tagInput.trim()}
+            >
+              Remove tag
+            </Button>
+            <select
+              value=""
+              onChange={(e) =>
+                handleMove([...selected], e.target.value === 'root' ? null : e.target.value)
+              }
+              disabled={isUpdating}
+              aria-label="Move to folder"
+              className={`${inputClassName} w-auto`}
+            >
+              <option value="" disabled>
+                Move to...
+              </option>
+              <option value="root">Unfiled</option>
+              {folderPaths.map((folder) => (
+                <option key={folder.id} value={folder.id}>
+                  {folder.path}
+                </option>
+              ))}
+            </select>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => setSelected(new Set())}
+              title="Clear selection"
+              className="ml-auto"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {/* Results */}
+        {!isLoading && recordings.length === 0 && !error && (
+          <p className="text-center text-sm text-muted-foreground py-12">No recordings found</p>
+        )}
+
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          {recordings.map((recording) => (
+            <div
+              key={recording.id}
+              className="relative"
+              draggable={canOrganize}
+              onDragStart={(e) => handleDragStart(e, recording.id)}
+            >
+              {canOrganize && (
+                <input
+                  type="checkbox"
+                  checked={selected.has(recording.id)}
+                  onChange={() => toggleSelected(recording.id)}
+                  aria-label={`Select ${recording.filename}`}
+                  className="absolute right-2 top-2 z-10 h-4 w-4 cursor-pointer"
+                />
+              )}
+              <Link
+                href={`/recordings/${recording.id}${
+                  recording.transcriptMatches?.length
+                    ? `?t=${Math.floor(recording.transcriptMatches[0].start)}`
+                    : ''
+                }`}
+                draggable={false}
+              >
+                <Card
+                  className={`h-full overflow-hidden py-0 gap-0 transition-colors hover:bg-muted/50 ${
+                    selected.has(recording.id) ? 'ring-2 ring-primary' : ''
+                  }`}
+                >
+                  <RecordingThumbnail recording={recording} className="rounded-none" />
+                  <CardContent className="space-y-1 p-3">
+                    <p className="text-sm font-medium truncate" title={recording.filename}>
+                      {recording.filename}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(recording.uploadedAt).toLocaleString()}
+                      {recording.size !== null && ` · ${formatFileSize(recording.size)}`}
+                    </p>
+                    {recording.roomId && roomTitles.has(recording.roomId) && (
+                      <p className="text-xs text-muted-foreground truncate">
+                        {roomTitles.get(recording.roomId)}
+                      </p>
+                    )}
+                    {recording.transcriptMatches?.[0] && (
+                      <p className="text-xs line-clamp-2">
+                        <span className="font-mono text-muted-foreground">
+                          {formatDuration(recording.transcriptMatches[0].start)}
+                        </span>{' '}
+                        “{recording.transcriptMatches[0].text}”
+                      </p>
+                    )}
+                    {recording.tags.length > 0 && (
+                      <p className="text-xs text-muted-foreground truncate">
+                        {recording.tags.map((item) => `#${item}`).join(' ')}
+                      </p>
+                    )}
+                  </CardContent>
+                </Card>
+              </Link>
+            </div>
+          ))}
+        </div>
+
+        {isLoading && (
+          <p className="text-center text-sm text-muted-foreground">Loading recordings...</p>
+        )}
+
+        {nextCursor && !isLoading && (
+          <div className="flex justify-center">
+            <Button variant="outline" onClick={handleLoadMore}>
+              Load more
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+/**
+ * RecordingPlayer component for playing back an uploaded recording. Plays the
+ * adaptive (HLS) stream once the recording is processed, and the original file otherwise.
+ */
+"use client";
+
+import { RefObject, useCallback, useEffect, useRef, useState } from 'react';
+import { getPlaybackUrl, getStreamUrl, PlaybackUrl } from '@/lib/recordings';
+
+// Native HLS support (Safari, iOS) needs no player library
+const HLS_MIME_TYPE = 'application/vnd.apple.mpegurl';
+
+// Where to fetch signed URLs from, e.g. through a share link instead of as the owner
+export interface PlaybackSources {
+  stream: () => Promise<PlaybackUrl | null>;
+  file: () => Promise<PlaybackUrl>;
+}
+
+interface RecordingPlayerProps {
+  recordingId: string;
+  // Must be stable across renders, or the URLs are fetched again
+  sources?: PlaybackSources;
+  autoPlay?: boolean;
+  // Lets the parent control playback, e.g. to seek or change speed
+  videoRef?: RefObject<HTMLVideoElement | null>;
+  playbackRate?: number;
+  // WebVTT captions track to show, e.g. from the transcript
+  captions?: { url: string; language: string | null } | null;
+  className?: string;
+}
+
+export default function RecordingPlayer({
+  recordingId,
+  sources,
+  autoPlay = false,
+  videoRef: externalVideoRef,
+  playbackRate = 1,
+  captions = null,
+  className = '',
+}: RecordingPlayerProps) {
+  const internalVideoRef = useRef<HTMLVideoElement>(null);
+  const videoRef = externalVideoRef ?? internalVideoRef;
+  const resumeAtRef = useRef<number | null>(null);
+  // Cleared once the stream fails, so later URL refreshes go straight to the file
+  const useStreamRef = useRef(true);
+  const [src, setSrc] = useState<string | null>(null);
+  const [isStream, setIsStream] = useState(false);
+  const [expiresAt, setExpiresAt] = useState<number>(0);
+  const [error, setError] = useState<string | null>(null);
+
+  // Request a fresh signed URL from the server, preferring the adaptive stream
+  const loadPlaybackUrl = useCallback(async () => {
+    try {
+      setError(null);
+
+      if (useStreamRef.current) {
+        const stream = await (sources ? sources.stream() : getStreamUrl(recordingId)).catch(() => null);
+        if (stream) {
+          setSrc(stream.url);
+          setIsStream(true);
+          setExpiresAt(new Date(stream.expiresAt).getTime());
+          return;
+        }
+      }
+
+      const playback = await (sources ? sources.file() : getPlaybackUrl(recordingId));
+      setSrc(playback.url);
+      setIsStream(false);
+      setExpiresAt(new Date(playback.expiresAt).getTime());
+    } catch (error) {
+      console.error('Error loading playback URL:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load recording');
+    }
+  }, [recordingId, sources]);
+
+  // Switch to the original file, keeping the playback position
+  const fallBackToFile = useCallback(() => {
+    useStreamRef.current = false;
+    resumeAtRef.current = videoRef.current?.currentTime || null;
+    loadPlaybackUrl();
+  }, [loadPlaybackUrl, videoRef]);
+
+  // Load the URL when the recording changes
+  useEffect(() => {
+    useStreamRef.current = true;
+    loadPlaybackUrl();
+  }, [loadPlaybackUrl]);
+
+  // Attach the stream: natively where supported, otherwise through hls.js
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !src || !isStream) return;
+
+    if (video.canPlayType(HLS_MIME_TYPE)) {
+      video.src = src;
+      return;
+    }
+
+    let isActive = true;
+    let destroy: (() => void) | null = null;
+
+    import('hls.js')
+      .then(({ default: Hls }) => {
+        if (!isActive) return;
+
+        if (!Hls.isSupported()) {
+          fallBackToFile();
+          return;
+        }
+
+        const hls = new Hls();
+        destroy = () => hls.destroy();
+
+        hls.on(Hls.Events.ERROR, (_event, data) => {
+          if (data.fatal) {
+            console.error('Error playing stream:', data.details);
+            hls.destroy();
+            destroy = null;
+            fallBackToFile();
+          }
+        });
+
+        hls.loadSource(src);
+        hls.attachMedia(video);
+      })
+      .catch((error) => {
+        console.error('Error loading stream player:', error);
+        if (isActive) fallBackToFile();
+      });
+
+    return () => {
+      isActive = false;
+      destroy?.();
+    };
+  }, [src, isStream, fallBackToFile, videoRef]);
+
+  // Apply the playback speed; the default rate also survives a source switch
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    video.defaultPlaybackRate = playbackRate;
+    video.playbackRate = playbackRate;
+  }, [playbackRate, src, videoRef]);
+
+  // Signed URLs expire; if loading fails after expiry, fetch a new one and resume.
+  // A stream that fails for any other reason falls back to the original file.
+  const handleError = () => {
+    if (Date.now() >= expiresAt) {
+      resumeAtRef.current = videoRef.current?.currentTime ?? null;
+      loadPlaybackUrl();
+    } else if (isStream) {
+      fallBackToFile();
+    } else {
+      setError('Failed to play recording');
+    }
+  };
+
+  // Restore the playback position after a URL refresh
+  const handleLoadedMetadata = () => {
+    if (videoRef.current && resumeAtRef.current !== null) {
+      videoRef.current.currentTime = resumeAtRef.current;
+      resumeAtRef.current = null;
+      videoRef.current.play().catch(() => undefined);
+    }
+  };
+
+  if (error) {
+    return (
+      <div className={`flex items-center justify-center min-h-[200px] bg-muted rounded-md ${className}`}>
+        <p className="text-sm text-destructive">{error}</p>
+      </div>
+    );
+  }
+
+  if (!src) {
+    return (
+      <div className={`flex items-center justify-center min-h-[200px] bg-muted rounded-md ${className}`}>
+        <p className="text-sm text-muted-foreground">Loading recording...</p>
+      </div>
+    );
+  }
+
+  return (
+    <video
+      ref={videoRef}
+      src={isStream ? undefined : src}
+      controls
+      autoPlay={autoPlay}
+      playsInline
+      onError={handleError}
+      onLoadedMetadata={handleLoadedMetadata}
+      className={`w-full rounded-md ${className}`}
+    >
+      {captions && (
+        <track
+          key={captions.url}
+          kind="captions"
+          src={captions.url}
+          srcLang={captions.language ?? undefined}
+          label="Transcript"
+          default
+        />
+      )}
+    </video>
+  );
+}
@@ -0,0 +1,93 @@
+/**
+ * RecordingThumbnail component showing a recording's poster frame, which
+ * scrubs through the preview sprite sheet on hover
+ */
+"use client";
+
+import { useState } from 'react';
+import { Film } from 'lucide-react';
+import { formatDuration, Recording } from '@/lib/recordings';
+import { findSpriteCue, loadSpriteCues, SpriteCue } from '@/lib/thumbnails';
+
+interface RecordingThumbnailProps {
+  recording: Recording;
+  className?: string;
+}
+
+export default function RecordingThumbnail({ recording, className = '' }: RecordingThumbnailProps) {
+  const [cues, setCues] = useState<SpriteCue[] | null>(null);
+  const [hoverCue, setHoverCue] = useState<{ cue: SpriteCue; scale: number } | null>(null);
+
+  const canScrub = !!recording.spriteUrl && !!recording.spriteVttUrl;
+
+  // Load the sprite track the first time the pointer enters
+  const handleMouseEnter = () => {
+    if (!canScrub || cues) return;
+
+    loadSpriteCues(recording.id, recording.spriteVttUrl!)
+      .then(setCues)
+      .catch((error) => console.error('Error loading preview sprite:', error));
+  };
+
+  // Show the sprite tile for the hovered point in the recording
+  const handleMouseMove = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (!cues || cues.length === 0) return;
+
+    const rect = event.currentTarget.getBoundingClientRect();
+    const fraction = Math.min(Math.max((event.clientX - rect.left) / rect.width, 0), 1);
+    const cue = findSpriteCue(cues, fraction * cues[cues.length - 1].end);
+
+    if (cue) {
+      setHoverCue({ cue, scale: rect.width / cue.width });
+    }
+  };
+
+  // The full sheet size, so the background scales with the tile
+  const sheetWidth = cues ? Math.max(...cues.map((cue) => cue.x + cue.width)) : 0;
+  const sheetHeight = cues ? Math.max(...cues.map((cue) => cue.y + cue.height)) : 0;
+
+  return (
+    <div
+      className={`relative aspect-video overflow-hidden rounded-md bg-muted ${className}`}
+      onMouseEnter={handleMouseEnter}
+      onMouseMove={handleMouseMove}
+      onMouseLeave={() => setHoverCue(null)}
+    >
+      {recording.thumbnailUrl ? (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img
+          src={recording.thumbnailUrl}
+          alt={recording.filename}
+          className="h-full w-full object-cover"
+        />
+      ) : (
+        <div className="flex h-full w-full items-center justify-center">
+          <Film className="h-8 w-8 text-muted-foreground" />
+        </div>
+      )}
+
+      {hoverCue && (
+        <div
+          className="absolute inset-0"
+          style={{
+            backgroundImage: `url(${recording.spriteUrl})`,
+            backgroundPosition: `-${hoverCue.cue.x * hoverCue.scale}px -${hoverCue.cue.y * hoverCue.scale}px`,
+            backgroundSize: `${sheetWidth * hoverCue.scale}px ${sheetHeight * hoverCue.scale}px`,
+          }}
+        />
+      )}
+
+      {recording.processingStatus !== 'ready' && (
+        <span className="absolute left-2 top-2 rounded bg-black/70 px-1.5 py-0.5 text-xs text-white">
+          {recording.processingStatus === 'failed' ? 'Processing failed' : 'Processing'}
+        </span>
+      )}
+
+      {recording.duration !== null && (
+        <span className="absolute bottom-2 right-2 rounded bg-black/70 px-1.5 py-0.5 text-xs text-white">
+          {formatDuration(recording.duration)}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,252 @@
+/**
+ * RecoverRecordings component listing recordings left in the local buffer
+ * after a crash or failed upload, so they can be previewed, downloaded or uploaded
+ */
+"use client";
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Progress } from '@/components/ui/progress';
+import { Play, Download, Upload, Trash2 } from 'lucide-react';
+import { getCurrentUser } from '@/lib/auth';
+import { createDownloadLink } from '@/lib/recorder';
+import {
+  BufferedRecording,
+  deleteBufferedRecording,
+  getBufferedRecordingBlob,
+  getBufferedRecordingChunks,
+  listBufferedRecordings,
+} from '@/lib/recordingBuffer';
+import { resumeChunkedUpload } from '@/lib/chunkedUpload';
+import { uploadRecording, UploadResult } from '@/lib/s3';
+import { makeWebmSeekable } from '@/lib/webm';
+
+interface RecoverRecordingsProps {
+  className?: string;
+}
+
+export default function RecoverRecordings({ className = '' }: RecoverRecordingsProps) {
+  const [recordings, setRecordings] = useState<BufferedRecording[]>([]);
+  const [preview, setPreview] = useState<{ filename: string; url: string } | null>(null);
+  const [uploadingId, setUploadingId] = useState<string | null>(null);
+  const [uploadPercentage, setUploadPercentage] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load buffered recordings on mount
+  useEffect(() => {
+    let isMounted = true;
+
+    listBufferedRecordings()
+      .then((buffered) => {
+        if (isMounted) setRecordings(buffered);
+      })
+      .catch((error) => console.error('Error loading unsaved recordings:', error));
+
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  // Revoke the preview URL when the dialog closes
+  useEffect(() => {
+    return () => {
+      if (preview) URL.revokeObjectURL(preview.url);
+    };
+  }, [preview]);
+
+  // Read a recording back from the buffer
+  const loadBlob = async (recording: BufferedRecording): Promise<Blob | null> => {
+    const blob = await getBufferedRecordingBlob(recording.id);
+    if (!blob || blob.size === 0) {
+      setError(`${recording.filename} has no recorded data`);
+      return null;
+    }
+    return blob;
+  };
+
+  // Remove a recording from the buffer and the list
+  const discard = async (recording: BufferedRecording) => {
+    await deleteBufferedRecording(recording.id);
+    setRecordings((current) => current.filter((item) => item.id !== recording.id));
+  };
+
+  // Handle preview
+  const handlePreview = async (recording: BufferedRecording) => {
+    setError(null);
+    const blob = await loadBlob(recording);
+    if (blob) {
+      setPreview({ filename: recording.filename, url: URL.createObjectURL(blob) });
+    }
+  };
+
+  // Handle download
+  const handleDownload = async (recording: BufferedRecording) => {
+    setError(null);
+    const blob = await loadBlob(recording);
+    if (blob) {
+      createDownloadLink(blob, recording.filename);
+    }
+  };
+
+  // Handle upload; the local copy is removed once the upload succeeds
+  const handleUpload = async (recording: BufferedRecording) => {
+    setError(null);
+
+    let user;
+    try {
+      user = await getCurrentUser();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to check your session');
+      return;
+    }
+    if (!user) {
+      setError('Log in to upload recordings');
+      return;
+    }
+
+    const rawBlob = await loadBlob(recording);
+    if (!rawBlob) return;
+
+    setUploadingId(recording.id);
+    setUploadPercentage(0);
+
+    // Make the recovered file seekable and read its duration
+    const seekable = await makeWebmSeekable(rawBlob).catch(() => null);
+    const blob = seekable?.blob ?? rawBlob;
+    const duration = seekable ? Math.round(seekable.durationMs / 1000) : undefined;
+
+    const onProgress = (progress: { percentage: number }) => setUploadPercentage(progress.percentage);
+
+    // A streamed upload only needs its missing chunks; if its session is gone, the whole file is sent
+    let result: UploadResult | null = null;
+    const chunks = recording.sessionId ? await getBufferedRecordingChunks(recording.id) : null;
+    if (recording.sessionId && chunks && chunks.length > 0) {
+      // The new header goes up in place of the start of the first chunk, as when recording stops
+      if (seekable && chunks[0].size >= seekable.originalHeaderSize) {
+        chunks[0] = new Blob([seekable.header, chunks[0].slice(seekable.originalHeaderSize)]);
+      }
+
+      result = await resumeChunkedUpload(recording.sessionId, chunks, onProgress, duration);
+    }
+    if (!result?.success) {
+      result = await uploadRecording(blob, recording.filename, onProgress, duration);
+    }
+
+    setUploadingId(null);
+
+    if (result.success) {
+      await discard(recording);
+    } else {
+      setError(result.error || 'Upload failed');
+    }
+  };
+
+  // Handle discard
+  const handleDiscard = async (recording: BufferedRecording) => {
+    if (!window.confirm(`Discard ${recording.filename}? This cannot be undone.`)) {
+      return;
+    }
+
+    setError(null);
+    await discard(recording);
+  };
+
+  // Format file size
+  const formatFileSize = (bytes: number): string => {
+    if (bytes === 0) return '0 Bytes';
+
+    const k = 1024;
+    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+    const i = Math.floor(Math.log(bytes) / Math.log(k));
+
+    return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+  };
+
+  if (recordings.length === 0) {
+    return null;
+  }
+
+  return (
+    <>
+      <Card className={`w-full ${className}`}>
+        <CardHeader>
+          <CardTitle>Recover unsaved recordings</CardTitle>
+          <CardDescription>
+            These recordings were not uploaded. They are stored only in this browser.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {recordings.map((recording) => (
+            <div key={recording.id} className="space-y-2">
+              <div className="flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{recording.filename}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(recording.createdAt).toLocaleString()} · {formatFileSize(recording.size)}
+                  </p>
+                </div>
+
+                <div className="flex gap-2 shrink-0">
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => handlePreview(recording)}
+                    title="Preview"
+                  >
+                    <Play className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => handleDownload(recording)}
+                    title="Download"
+                  >
+                    <Download className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    onClick={() => handleUpload(recording)}
+                    disabled={uploadingId !== null}
+                    title="Upload"
+                  >
+                    <Upload className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleDiscard(recording)}
+                    disabled={uploadingId === recording.id}
+                    title="Discard"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+
+              {uploadingId === recording.id && (
+                <Progress value={uploadPercentage} className="h-2" />
+              )}
+            </div>
+          ))}
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </CardContent>
+      </Card>
+
+      {/* Preview dialog */}
+      <Dialog open={!!preview} onOpenChange={(open) => !open && setPreview(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{preview?.filename}</DialogTitle>
+          </DialogHeader>
+
+          {preview && (
+            <video src={preview.url} controls autoPlay className="w-full rounded-md" />
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,253 @@
+/**
+ * ShareDialog component for creating, copying and revoking a recording's
+ * share links
+ */
+"use client";
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Check, Copy, Link2, Lock, Share2, Trash2 } from 'lucide-react';
+import {
+  createShareLink,
+  getShareUrl,
+  listShareLinks,
+  revokeShareLink,
+  ShareLink,
+  ShareLinkScope,
+} from '@/lib/shareLinks';
+
+interface ShareDialogProps {
+  recordingId: string;
+}
+
+const inputClassName =
+  'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50';
+
+const SCOPE_LABELS: Record<ShareLinkScope, string> = {
+  anyone: 'Anyone with the link',
+  team: 'Workspace members only',
+};
+
+/**
+ * Check whether a link has expired
+ * @param link Share link
+ * @returns True if the link's expiry time has passed
+ */
+function isExpired(link: ShareLink): boolean {
+  return !!link.expiresAt && new Date(link.expiresAt).getTime() <= Date.now();
+}
+
+/**
+ * Describe whether a link can still be opened
+ * @param link Share link
+ * @returns Status text
+ */
+function describeStatus(link: ShareLink): string {
+  if (link.revokedAt) return 'Revoked';
+  if (isExpired(link)) return 'Expired';
+  if (link.expiresAt) return `Expires ${new Date(link.expiresAt).toLocaleString()}`;
+  return 'Never expires';
+}
+
+export default function ShareDialog({ recordingId }: ShareDialogProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [scope, setScope] = useState<ShareLinkScope>('anyone');
+  const [password, setPassword] = useState('');
+  const [expiresAt, setExpiresAt] = useState('');
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the links each time the dialog opens
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let isMounted = true;
+
+    listShareLinks(recordingId)
+      .then((loaded) => {
+        if (isMounted) setLinks(loaded);
+      })
+      .catch((error) => {
+        console.error('Error loading share links:', error);
+        if (isMounted) setError('Failed to load share links');
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [isOpen, recordingId]);
+
+  // Handle creating a link
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+
+      const link = await createShareLink(recordingId, {
+        scope,
+        password: password || undefined,
+        // The picker gives local time
+        expiresAt: expiresAt ? new Date(expiresAt).toISOString() : undefined,
+      });
+
+      setLinks((current) => [link, ...current]);
+      setPassword('');
+      setExpiresAt('');
+    } catch (error) {
+      console.error('Error creating share link:', error);
+      setError(error instanceof Error ? error.message : 'Failed to create share link');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Handle copying a link's URL
+  const handleCopy = async (link: ShareLink) => {
+    try {
+      await navigator.clipboard.writeText(getShareUrl(link.token));
+      setCopiedId(link.id);
+      setTimeout(() => setCopiedId((current) => (current === link.id ? null : current)), 2000);
+    } catch (error) {
+      console.error('Error copying share link:', error);
+      setError('Failed to copy link');
+    }
+  };
+
+  // Handle revoking a link
+  const handleRevoke = async (link: ShareLink) => {
+    if (!window.confirm('Revoke this link? Anyone using it will lose access.')) return;
+
+    try {
+      setError(null);
+      await revokeShareLink(recordingId, link.id);
+      setLinks((current) =>
+        current.map((item) =>
+          item.id === link.id ? { ...item, revokedAt: new Date().toISOString() } : item
+        )
+      );
+    } catch (error) {
+      console.error('Error revoking share link:', error);
+      setError(error instanceof Error ? error.message : 'Failed to revoke share link');
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Share2 className="h-4 w-4" />
+          Share
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Share recording</DialogTitle>
+          <DialogDescription>
+            Create a link to let others watch this recording without access to your library.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* New link */}
+        <form onSubmit={handleCreate} className="space-y-3">
+          <select
+            value={scope}
+            onChange={(e) => setScope(e.target.value as ShareLinkScope)}
+            aria-label="Who can view"
+            className={inputClassName}
+          >
+            {Object.entries(SCOPE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Password (optional)"
+              aria-label="Password"
+              autoComplete="new-password"
+              minLength={8}
+              className={inputClassName}
+            />
+            <input
+              type="datetime-local"
+              value={expiresAt}
+              onChange={(e) => setExpiresAt(e.target.value)}
+              aria-label="Expires at"
+              title="Expires at (optional)"
+              className={inputClassName}
+            />
+          </div>
+          <Button type="submit" size="sm" disabled={isSubmitting}>
+            <Link2 className="h-4 w-4" />
+            Create link
+          </Button>
+        </form>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {/* Existing links */}
+        <div className="space-y-2">
+          {links.length === 0 && (
+            <p className="text-sm text-muted-foreground">No share links yet</p>
+          )}
+          {links.map((link) => {
+            const isActive = !link.revokedAt && !isExpired(link);
+
+            return (
+              <div
+                key={link.id}
+                className={`flex items-center justify-between gap-2 rounded-md border p-2 ${
+                  isActive ? '' : 'opacity-60'
+                }`}
+              >
+                <div className="min-w-0 space-y-0.5">
+                  <p className="flex items-center gap-1 text-sm">
+                    {link.hasPassword && <Lock className="h-3 w-3" aria-label="Password protected" />}
+                    {SCOPE_LABELS[link.scope]}
+                  </p>
+                  <p className="text-xs text-muted-foreground">{describeStatus(link)}</p>
+                </div>
+                {isActive && (
+                  <div className="flex shrink-0 gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleCopy(link)}
+                      title="Copy link"
+                    >
+                      {copiedId === link.id ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleRevoke(link)}
+                      title="Revoke link"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,256 @@
+/**
+ * TranscriptPanel component showing a recording's timed transcript, with
+ * search, click-to-seek, captions on the player and WebVTT/SRT downloads
+ */
+"use client";
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Switch } from '@/components/ui/switch';
+import { Download, FileText, RefreshCw, Search } from 'lucide-react';
+import { formatDuration } from '@/lib/recordings';
+import {
+  CaptionFormat,
+  getCaptions,
+  getTranscript,
+  requestTranscript,
+  Transcript,
+} from '@/lib/transcripts';
+
+interface TranscriptPanelProps {
+  recordingId: string;
+  filename: string;
+  // Whether the user may start transcription again
+  canManage: boolean;
+  // Player position in seconds, used to highlight what is being said
+  getCurrentTime: () => number;
+  onSeek: (time: number) => void;
+  // Called with a WebVTT track for the player, or null to hide captions
+  onCaptionsChange: (captions: { url: string; language: string | null } | null) => void;
+  className?: string;
+}
+
+const inputClassName =
+  'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50';
+
+// How often to check on a transcript that is still being made
+const STATUS_POLL_INTERVAL_MS = 10000;
+// How often to follow the player position
+const POSITION_POLL_INTERVAL_MS = 500;
+
+export default function TranscriptPanel({
+  recordingId,
+  filename,
+  canManage,
+  getCurrentTime,
+  onSeek,
+  onCaptionsChange,
+  className = '',
+}: TranscriptPanelProps) {
+  const [transcript, setTranscript] = useState<Transcript | null>(null);
+  const [search, setSearch] = useState('');
+  const [position, setPosition] = useState(0);
+  const [showCaptions, setShowCaptions] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const isPending = transcript?.status === 'queued' || transcript?.status === 'processing';
+
+  // Load the transcript, and check again while it is being made
+  useEffect(() => {
+    let isMounted = true;
+
+    getTranscript(recordingId)
+      .then((loaded) => {
+        if (!isMounted) return;
+        setTranscript(loaded);
+        setError(loaded.status === 'failed' ? loaded.error ?? 'Transcription failed' : null);
+      })
+      .catch((error) => {
+        if (isMounted) setError(error instanceof Error ? error.message : 'Failed to load transcript');
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [recordingId, reloadKey]);
+
+  useEffect(() => {
+    if (!isPending) return;
+
+    const timeout = setTimeout(() => setReloadKey((key) => key + 1), STATUS_POLL_INTERVAL_MS);
+    return () => clearTimeout(timeout);
+  }, [isPending, transcript]);
+
+  // Follow the player, to highlight the current segment
+  useEffect(() => {
+    if (transcript?.status !== 'ready') return;
+
+    const interval = setInterval(() => setPosition(getCurrentTime()), POSITION_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [transcript?.status, getCurrentTime]);
+
+  // Load the captions track when captions are turned on
+  useEffect(() => {
+    if (!showCaptions || transcript?.status !== 'ready') {
+      onCaptionsChange(null);
+      return;
+    }
+
+    let url: string | null = null;
+    let isMounted = true;
+
+    getCaptions(recordingId, 'vtt')
+      .then((vtt) => {
+        if (!isMounted) return;
+        url = URL.createObjectURL(new Blob([vtt], { type: 'text/vtt' }));
+        onCaptionsChange({ url, language: transcript.language });
+      })
+      .catch((error) => {
+        console.error('Error loading captions:', error);
+        if (isMounted) setError(error instanceof Error ? error.message : 'Failed to load captions');
+      });
+
+    return () => {
+      isMounted = false;
+      if (url) URL.revokeObjectURL(url);
+    };
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [recordingId, showCaptions, transcript?.status, transcript?.updatedAt]);
+
+  // Handle transcribing the recording (again)
+  const handleTranscribe = async () => {
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      await requestTranscript(recordingId);
+      setReloadKey((key) => key + 1);
+    } catch (error) {
+      console.error('Error requesting transcript:', error);
+      setError(error instanceof Error ? error.message : 'Failed to start transcription');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Handle downloading the transcript as a caption file
+  const handleDownload = async (format: CaptionFormat) => {
+    try {
+      setError(null);
+      const contents = await getCaptions(recordingId, format);
+
+      const url = URL.createObjectURL(new Blob([contents], { type: 'text/plain' }));
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${filename.replace(/\.[^.]+$/, '')}.${format}`;
+      document.body.appendChild(a);
+      a.click();
+
+      // Clean up
+      setTimeout(() => {
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+      }, 100);
+    } catch (error) {
+      console.error('Error downloading captions:', error);
+      setError(error instanceof Error ? error.message : 'Failed to download captions');
+    }
+  };
+
+  const query = search.trim().toLowerCase();
+  const segments = (transcript?.segments ?? []).filter(
+    (segment) => !query || segment.text.toLowerCase().includes(query)
+  );
+
+  return (
+    <Card className={`w-full ${className}`}>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <FileText className="h-5 w-5" />
+            Transcript
+          </span>
+          {transcript?.status === 'ready' && (
+            <span className="flex items-center gap-2 text-sm font-normal">
+              <label className="flex items-center gap-2">
+                Captions
+                <Switch checked={showCaptions} onCheckedChange={setShowCaptions} />
+              </label>
+              <Button variant="ghost" size="sm" onClick={() => handleDownload('vtt')}>
+                <Download className="h-3 w-3" />
+                VTT
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => handleDownload('srt')}>
+                <Download className="h-3 w-3" />
+                SRT
+              </Button>
+            </span>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isPending && (
+          <p className="text-sm text-muted-foreground">Transcribing... this can take a few minutes.</p>
+        )}
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {canManage && !isPending && transcript?.status !== 'ready' && (
+          <Button size="sm" variant="outline" onClick={handleTranscribe} disabled={isSubmitting}>
+            <RefreshCw className="h-3 w-3" />
+            {transcript ? 'Try again' : 'Transcribe'}
+          </Button>
+        )}
+
+        {transcript?.status === 'ready' &&
+          (transcript.segments.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No speech was found in this recording</p>
+          ) : (
+            <>
+              <div className="relative">
+                <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                <input
+                  type="search"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Search the transcript"
+                  aria-label="Search the transcript"
+                  className={`${inputClassName} pl-9`}
+                />
+              </div>
+
+              <div className="max-h-96 space-y-1 overflow-y-auto">
+                {segments.map((segment) => {
+                  const isCurrent = position >= segment.start && position < segment.end;
+
+                  return (
+                    <button
+                      key={`${segment.start}-${segment.end}`}
+                      type="button"
+                      onClick={() => onSeek(segment.start)}
+                      className={`flex w-full gap-3 rounded px-2 py-1 text-left text-sm ${
+                        isCurrent ? 'bg-primary/10' : 'hover:bg-muted/50'
+                      }`}
+                    >
+                      <span className="shrink-0 font-mono text-xs text-muted-foreground pt-0.5">
+                        {formatDuration(segment.start)}
+                      </span>
+                      <span>
+                        {segment.speaker && <span className="font-medium">{segment.speaker}: </span>}
+                        {segment.text}
+                      </span>
+                    </button>
+                  );
+                })}
+                {segments.length === 0 && (
+                  <p className="text-sm text-muted-foreground">Not said in this recording</p>
+                )}
+              </div>
+            </>
+          ))}
+      </CardContent>
+    </Card>
+  );
+}
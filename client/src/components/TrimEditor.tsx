@@ -0,0 +1,183 @@
+/**
+ * TrimEditor component for previewing a recording and choosing the part to
+ * keep with in and out handles on a timeline
+ */
+"use client";
+
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { formatDuration, TimeRange } from '@/lib/recordings';
+
+interface TrimEditorProps {
+  src: string;
+  // Length in seconds, used until the video reports its own
+  duration: number;
+  // Null keeps the whole recording
+  value: TimeRange | null;
+  onChange: (range: TimeRange | null) => void;
+  className?: string;
+}
+
+// Matches the shortest range the server accepts
+const MIN_TRIM_SECONDS = 1;
+// How far the arrow keys move a handle
+const KEYBOARD_STEP_SECONDS = 1;
+
+type Handle = 'start' | 'end';
+
+export default function TrimEditor({
+  src,
+  duration,
+  value,
+  onChange,
+  className = '',
+}: TrimEditorProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const trackRef = useRef<HTMLDivElement>(null);
+  const draggingRef = useRef<Handle | null>(null);
+  const [total, setTotal] = useState(duration);
+  const [currentTime, setCurrentTime] = useState(0);
+
+  const range = value ?? { start: 0, end: total };
+
+  // A new recording starts untrimmed at its own length
+  useEffect(() => {
+    setTotal(duration);
+    setCurrentTime(0);
+  }, [src, duration]);
+
+  // Move one handle, keeping the range at least the minimum length
+  const moveHandle = (handle: Handle, time: number) => {
+    const next =
+      handle === 'start'
+        ? { start: Math.max(0, Math.min(time, range.end - MIN_TRIM_SECONDS)), end: range.end }
+        : { start: range.start, end: Math.min(total, Math.max(time, range.start + MIN_TRIM_SECONDS)) };
+
+    // Show the frame at the handle being moved
+    if (videoRef.current) {
+      videoRef.current.currentTime = next[handle];
+    }
+
+    onChange(next.start <= 0 && next.end >= total ? null : next);
+  };
+
+  // Convert a pointer position on the timeline to a time
+  const timeAt = (clientX: number) => {
+    const rect = trackRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return 0;
+    return Math.min(1, Math.max(0, (clientX - rect.left) / rect.width)) * total;
+  };
+
+  // Keep playback inside the kept range
+  const handleTimeUpdate = () => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    if (value && video.currentTime >= value.end) {
+      video.pause();
+      video.currentTime = value.start;
+    }
+    setCurrentTime(video.currentTime);
+  };
+
+  const handlePlay = () => {
+    const video = videoRef.current;
+    if (video && value && (video.currentTime < value.start || video.currentTime >= value.end)) {
+      video.currentTime = value.start;
+    }
+  };
+
+  const handleLoadedMetadata = () => {
+    const videoDuration = videoRef.current?.duration;
+    // Live WebM without a rewritten header reports an infinite duration
+    if (videoDuration && Number.isFinite(videoDuration)) {
+      setTotal(videoDuration);
+    }
+  };
+
+  const percent = (time: number) => (total > 0 ? (time / total) * 100 : 0);
+
+  const renderHandle = (handle: Handle) => (
+    <div
+      role="slider"
+      tabIndex={0}
+      aria-label={handle === 'start' ? 'Trim start' : 'Trim end'}
+      aria-valuemin={0}
+      aria-valuemax={Math.round(total)}
+      aria-valuenow={Math.round(range[handle])}
+      aria-valuetext={formatDuration(range[handle])}
+      onPointerDown={(e) => {
+        e.stopPropagation();
+        draggingRef.current = handle;
+        e.currentTarget.setPointerCapture(e.pointerId);
+      }}
+      onPointerMove={(e) => {
+        if (draggingRef.current === handle) moveHandle(handle, timeAt(e.clientX));
+      }}
+      onPointerUp={() => {
+        draggingRef.current = null;
+      }}
+      onKeyDown={(e) => {
+        if (e.key === 'ArrowLeft') moveHandle(handle, range[handle] - KEYBOARD_STEP_SECONDS);
+        if (e.key === 'ArrowRight') moveHandle(handle, range[handle] + KEYBOARD_STEP_SECONDS);
+      }}
+      className="absolute top-0 h-full w-3 -translate-x-1/2 cursor-ew-resize touch-none rounded-sm bg-primary focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+      style={{ left: `${percent(range[handle])}%` }}
+    />
+  );
+
+  return (
+    <div className={`space-y-3 ${className}`}>
+      <video
+        ref={videoRef}
+        src={src}
+        controls
+        onLoadedMetadata={handleLoadedMetadata}
+        onTimeUpdate={handleTimeUpdate}
+        onPlay={handlePlay}
+        className="w-full rounded-md"
+      />
+
+      {/* Timeline; clicking it seeks, the handles set the kept range */}
+      <div
+        ref={trackRef}
+        onPointerDown={(e) => {
+          if (videoRef.current) videoRef.current.currentTime = timeAt(e.clientX);
+        }}
+        className="relative h-8 cursor-pointer rounded-md bg-muted"
+      >
+        <div
+          className="absolute top-0 h-full bg-primary/20"
+          style={{
+            left: `${percent(range.start)}%`,
+            width: `${percent(range.end - range.start)}%`,
+          }}
+        />
+        <div
+          className="absolute top-0 h-full w-px bg-foreground"
+          style={{ left: `${percent(currentTime)}%` }}
+        />
+        {renderHandle('start')}
+        {renderHandle('end')}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+        <span className="text-muted-foreground">
+          {formatDuration(range.start)} – {formatDuration(range.end)} (
+          {formatDuration(range.end - range.start)})
+        </span>
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={() => moveHandle('start', currentTime)}>
+            Set start
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => moveHandle('end', currentTime)}>
+            Set end
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => onChange(null)} disabled={!value}>
+            Reset
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,16 +3,18 @@
  */
 "use client";
 
+import { useState } from 'react';
 import { Progress } from '@/components/ui/progress';
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Upload, Check, X, ExternalLink } from 'lucide-react';
+import { Upload, Check, X, Play } from 'lucide-react';
 import { UploadProgress as UploadProgressType } from '@/lib/s3';
+import RecordingPlayer from './RecordingPlayer';
 
 interface UploadProgressProps {
   isUploading: boolean;
   progress: UploadProgressType | null;
-  uploadedUrl: string | null;
+  recordingId: string | null;
   error: string | null;
   onClose: () => void;
   className?: string;
@@ -21,11 +23,13 @@ interface UploadProgressProps {
 export default function UploadProgress({
   isUploading,
   progress,
-  uploadedUrl,
+  recordingId,
   error,
   onClose,
   className = '',
 }: UploadProgressProps) {
+  const [showPlayer, setShowPlayer] = useState(false);
+
   // Format file size
   const formatFileSize = (bytes: number): string => {
     if (bytes === 0) return '0 Bytes';
@@ -38,7 +42,7 @@ export default function UploadProgress({
   };
 
   // If no upload in progress and no result, don't render
-  if (!isUploading && !uploadedUrl && !error) {
+  if (!isUploading && !recordingId && !error) {
     return null;
   }
 
@@ -47,7 +51,7 @@ export default function UploadProgress({
       <CardHeader>
         <CardTitle className="flex items-center gap-2">
           <Upload className="h-5 w-5" />
-          {isUploading ? 'Uploading Recording' : uploadedUrl ? 'Upload Complete' : 'Upload Failed'}
+          {isUploading ? 'Uploading Recording' : recordingId ? 'Upload Complete' : 'Upload Failed'}
         </CardTitle>
       </CardHeader>
       
@@ -57,7 +61,12 @@ export default function UploadProgress({
           <div className="space-y-2">
             <Progress value={progress.percentage} className="h-2" />
             <div className="flex justify-between text-sm text-muted-foreground">
-              <span>{progress.percentage}%</span>
+              <span>
+                {progress.percentage}%
+                {progress.partsTotal && progress.partsTotal > 1 && (
+                  <> · Part {progress.partsCompleted ?? 0} of {progress.partsTotal}</>
+                )}
+              </span>
               <span>
                 {formatFileSize(progress.loaded)} / {formatFileSize(progress.total)}
               </span>
@@ -66,12 +75,17 @@ export default function UploadProgress({
         )}
         
         {/* Success message */}
-        {uploadedUrl && (
+        {recordingId && (
           <div className="flex items-center gap-2 text-green-500">
             <Check className="h-5 w-5" />
             <span>Recording uploaded successfully</span>
           </div>
         )}
+
+        {/* Playback through a short-lived signed URL */}
+        {recordingId && showPlayer && (
+          <RecordingPlayer recordingId={recordingId} autoPlay />
+        )}
         
         {/* Error message */}
         {error && (
@@ -84,23 +98,23 @@ export default function UploadProgress({
       
       <CardFooter className="flex justify-between">
         {/* View uploaded file */}
-        {uploadedUrl && (
+        {recordingId && (
           <Button 
             variant="outline" 
-            onClick={() => window.open(uploadedUrl, '_blank')}
+            onClick={() => setShowPlayer((show) => !show)}
             className="flex items-center gap-2"
           >
-            <ExternalLink className="h-4 w-4" />
-            View Recording
+            <Play className="h-4 w-4" />
+            {showPlayer ? 'Hide Recording' : 'View Recording'}
           </Button>
         )}
         
         {/* Close button */}
         <Button 
-          variant={uploadedUrl ? "ghost" : "default"} 
+          variant={recordingId ? "ghost" : "default"} 
           onClick={onClose}
         >
-          {uploadedUrl ? 'Close' : 'Dismiss'}
+          {recordingId ? 'Close' : 'Dismiss'}
         </Button>
       </CardFooter>
     </Card>
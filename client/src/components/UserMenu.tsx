@@ -0,0 +1,74 @@
+/**
+ * UserMenu component showing the logged in user with a logout action
+ */
+"use client";
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Library, LogOut } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { getCurrentUser, logout, User } from '@/lib/auth';
+
+interface UserMenuProps {
+  className?: string;
+}
+
+export default function UserMenu({ className = '' }: UserMenuProps) {
+  const [user, setUser] = useState<User | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Load the current user on mount
+  useEffect(() => {
+    let isMounted = true;
+
+    getCurrentUser()
+      .then((currentUser) => {
+        if (isMounted) setUser(currentUser);
+      })
+      .catch((error) => console.error('Error loading current user:', error))
+      .finally(() => {
+        if (isMounted) setIsLoading(false);
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, []);
+
+  // Handle logout
+  const handleLogout = async () => {
+    await logout();
+    setUser(null);
+  };
+
+  if (isLoading) {
+    return null;
+  }
+
+  if (!user) {
+    return (
+      <Button asChild variant="outline" className={className}>
+        <Link href="/login">Log In</Link>
+      </Button>
+    );
+  }
+
+  return (
+    <div className={`flex items-center gap-2 ${className}`}>
+      <span className="text-sm text-muted-foreground">{user.name}</span>
+      <Button asChild variant="outline" size="icon" title="Recordings">
+        <Link href="/recordings">
+          <Library className="h-5 w-5" />
+        </Link>
+      </Button>
+      <Button
+        variant="outline"
+        size="icon"
+        onClick={handleLogout}
+        title="Log out"
+      >
+        <LogOut className="h-5 w-5" />
+      </Button>
+    </div>
+  );
+}
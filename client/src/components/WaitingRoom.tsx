@@ -0,0 +1,74 @@
+/**
+ * WaitingRoom component shown in place of the call while the host decides
+ * whether to let the user in. The camera can be checked while waiting.
+ */
+"use client";
+
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import VideoPlayer from '@/components/VideoPlayer';
+import { Loader2, Mic, MicOff, Video, VideoOff } from 'lucide-react';
+import { useAppStore } from '@/lib/store';
+
+interface WaitingRoomProps {
+  roomTitle?: string;
+  hostName?: string;
+  className?: string;
+}
+
+export default function WaitingRoom({ roomTitle, hostName, className = '' }: WaitingRoomProps) {
+  const router = useRouter();
+  const { cameraEnabled, micEnabled, cameraStream, toggleCamera, toggleMic, leaveRoom } = useAppStore();
+
+  // Give up waiting
+  const handleLeave = async () => {
+    await leaveRoom();
+    router.push('/');
+  };
+
+  return (
+    <Card className={`mx-auto w-full max-w-xl ${className}`}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Loader2 className="h-5 w-5 animate-spin" />
+          Waiting to be let in
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          {hostName ? `${hostName} will` : 'The host will'} let you into {roomTitle || 'the call'} soon.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <VideoPlayer
+          stream={cameraStream}
+          muted
+          label="You"
+          fallbackText="Your camera is off"
+          className="aspect-video"
+        />
+
+        <div className="flex items-center justify-center gap-2">
+          <Button
+            variant={cameraEnabled ? 'default' : 'outline'}
+            size="icon"
+            onClick={() => toggleCamera()}
+            title={cameraEnabled ? 'Turn off camera' : 'Turn on camera'}
+          >
+            {cameraEnabled ? <Video className="h-5 w-5" /> : <VideoOff className="h-5 w-5" />}
+          </Button>
+          <Button
+            variant={micEnabled ? 'default' : 'outline'}
+            size="icon"
+            onClick={() => toggleMic()}
+            title={micEnabled ? 'Mute microphone' : 'Unmute microphone'}
+          >
+            {micEnabled ? <Mic className="h-5 w-5" /> : <MicOff className="h-5 w-5" />}
+          </Button>
+          <Button variant="outline" onClick={handleLeave}>
+            Leave
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,120 @@
+/**
+ * WorkspaceSwitcher component for choosing the workspace to browse and
+ * upload to, creating a new one, and opening its settings
+ */
+"use client";
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Plus, Settings } from 'lucide-react';
+import { createWorkspace, Workspace } from '@/lib/workspaces';
+
+interface WorkspaceSwitcherProps {
+  workspaces: Workspace[];
+  currentId: string;
+  onSelect: (workspaceId: string) => void;
+  onCreated: (workspace: Workspace) => void;
+  className?: string;
+}
+
+const inputClassName =
+  'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50';
+
+export default function WorkspaceSwitcher({
+  workspaces,
+  currentId,
+  onSelect,
+  onCreated,
+  className = '',
+}: WorkspaceSwitcherProps) {
+  const [isCreating, setIsCreating] = useState(false);
+  const [name, setName] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Handle creating a workspace
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+
+      const workspace = await createWorkspace(name.trim());
+
+      onCreated(workspace);
+      setName('');
+      setIsCreating(false);
+    } catch (error) {
+      console.error('Error creating workspace:', error);
+      setError(error instanceof Error ? error.message : 'Failed to create workspace');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className={`flex items-center gap-2 ${className}`}>
+      <select
+        value={currentId}
+        onChange={(e) => onSelect(e.target.value)}
+        aria-label="Workspace"
+        className={`${inputClassName} w-auto min-w-48`}
+      >
+        {workspaces.map((workspace) => (
+          <option key={workspace.id} value={workspace.id}>
+            {workspace.name}
+          </option>
+        ))}
+      </select>
+
+      <Button asChild variant="outline" size="icon" title="Workspace settings">
+        <Link href={`/workspaces/${currentId}`}>
+          <Settings className="h-4 w-4" />
+        </Link>
+      </Button>
+
+      <Dialog open={isCreating} onOpenChange={setIsCreating}>
+        <DialogTrigger asChild>
+          <Button variant="outline" size="icon" title="New workspace">
+            <Plus className="h-4 w-4" />
+          </Button>
+        </DialogTrigger>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>New workspace</DialogTitle>
+            <DialogDescription>
+              Workspaces hold a shared recording library. Invite your team once it is created.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleCreate} className="space-y-3">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Workspace name"
+              aria-label="Workspace name"
+              maxLength={100}
+              autoFocus
+              className={inputClassName}
+            />
+            {error && <p className="text-sm text-destructive">{error}</p>}
+            <Button type="submit" disabled={isSubmitting || !name.trim()}>
+              Create workspace
+            </Button>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -2,8 +2,21 @@
  * API client utility for making requests to the backend
  */
 
+import { getAuthToken } from './auth';
+
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || '';
 
+// Error for a request the API answered with an error status
+export class ApiRequestError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'ApiRequestError';
+    this.status = status;
+  }
+}
+
 /**
  * Make a request to the API
  * @param endpoint API endpoint path
@@ -14,11 +27,41 @@ export async function apiRequest<T>(
   endpoint: string,
   options: RequestInit = {}
 ): Promise<T> {
+  const response = await apiFetch(endpoint, options);
+
+  // Empty responses (e.g. 204 No Content) have no body to parse
+  if (response.status === 204) {
+    return undefined as T;
+  }
+
+  // Parse and return the response
+  return await response.json();
+}
+
+/**
+ * Make a request to the API for a text response, e.g. a caption file
+ * @param endpoint API endpoint path
+ * @returns Promise with the response text
+ */
+export async function apiRequestText(endpoint: string): Promise<string> {
+  const response = await apiFetch(endpoint);
+  return await response.text();
+}
+
+/**
+ * Send a request to the API with the session token, and fail on error statuses
+ * @param endpoint API endpoint path
+ * @param options Fetch options
+ * @returns Promise with the response
+ */
+async function apiFetch(endpoint: string, options: RequestInit = {}): Promise<Response> {
   const url = `${API_BASE_URL}${endpoint}`;
   
-  // Set default headers
+  // Set default headers, including the session token when logged in
+  const token = getAuthToken();
   const headers = {
     'Content-Type': 'application/json',
+    ...(token ? { Authorization: `Bearer ${token}` } : {}),
     ...options.headers,
   };
 
@@ -31,9 +74,11 @@ export async function apiRequest<T>(
   // Handle errors
   if (!response.ok) {
     const error = await response.json().catch(() => ({}));
-    throw new Error(error.message || `API request failed with status ${response.status}`);
+    throw new ApiRequestError(
+      error.message || `API request failed with status ${response.status}`,
+      response.status
+    );
   }
 
-  // Parse and return the response
-  return await response.json();
-}
\ No newline at end of file
+  return response;
+}
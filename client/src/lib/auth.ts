@@ -1,34 +1,153 @@
 /**
  * Authentication utility functions
  */
+import { apiRequest, ApiRequestError } from './api';
 
-// This is a placeholder - replace with your actual auth implementation
-let currentUserId: string | null = null;
+// Storage key for the session token
+const TOKEN_STORAGE_KEY = 'clipz-auth-token';
+
+// Types for auth
+export interface User {
+  id: string;
+  email: string;
+  name: string;
+}
+
+export interface AuthResponse {
+  token: string;
+  user: User;
+}
+
+// Cached current user
+let currentUser: User | null = null;
 
 /**
- * Get the current user ID
- * @returns Promise with user ID
+ * Get the stored session token
+ * @returns Session token or null if not logged in
  */
-export async function getUserId(): Promise<string> {
-  // If we already have a user ID, return it
-  if (currentUserId) {
-    return currentUserId;
+export function getAuthToken(): string | null {
+  if (typeof window === 'undefined') return null;
+  return window.localStorage.getItem(TOKEN_STORAGE_KEY);
+}
+
+/**
+ * Store or clear the session token
+ * @param token Session token, or null to clear it
+ */
+function setAuthToken(token: string | null): void {
+  if (typeof window === 'undefined') return;
+
+  if (token) {
+    window.localStorage.setItem(TOKEN_STORAGE_KEY, token);
+  } else {
+    window.localStorage.removeItem(TOKEN_STORAGE_KEY);
   }
+}
+
+/**
+ * Close the signaling connection, which was authenticated as whoever was logged in before
+ */
+async function resetSocket(): Promise<void> {
+  const { disconnectSocket } = await import('./socket');
+  disconnectSocket();
+}
 
-  // In a real implementation, this would check localStorage, cookies,
-  // or make an API call to validate the session
+/**
+ * Create an account and log in
+ * @param email Email address
+ * @param name Display name
+ * @param password Password
+ * @returns Promise with the new user
+ */
+export async function signup(email: string, name: string, password: string): Promise<User> {
+  const data = await apiRequest<AuthResponse>('/api/auth/signup', {
+    method: 'POST',
+    body: JSON.stringify({ email, name, password }),
+  });
 
-  // For now, we'll use a placeholder user ID
-  // Replace this with your actual auth implementation
-  currentUserId = "user-" + Math.random().toString(36).substring(2, 9);
+  setAuthToken(data.token);
+  currentUser = data.user;
+  await resetSocket();
 
-  return currentUserId;
+  return data.user;
 }
 
 /**
- * Set the current user ID (for testing)
- * @param userId User ID to set
+ * Log in with email and password
+ * @param email Email address
+ * @param password Password
+ * @returns Promise with the logged in user
  */
-export function setUserId(userId: string): void {
-  currentUserId = userId;
+export async function login(email: string, password: string): Promise<User> {
+  const data = await apiRequest<AuthResponse>('/api/auth/login', {
+    method: 'POST',
+    body: JSON.stringify({ email, password }),
+  });
+
+  setAuthToken(data.token);
+  currentUser = data.user;
+  await resetSocket();
+
+  return data.user;
+}
+
+/**
+ * Log out and end the session on the server
+ */
+export async function logout(): Promise<void> {
+  try {
+    if (getAuthToken()) {
+      await apiRequest<void>('/api/auth/logout', { method: 'POST' });
+    }
+  } catch (error) {
+    console.error('Error logging out:', error);
+  } finally {
+    setAuthToken(null);
+    currentUser = null;
+    await resetSocket();
+  }
+}
+
+/**
+ * Get the currently logged in user
+ * @returns Promise with the user, or null if not logged in
+ * @throws If the session could not be checked, e.g. because the server is unreachable
+ */
+export async function getCurrentUser(): Promise<User | null> {
+  // If we already have a user, return it
+  if (currentUser) {
+    return currentUser;
+  }
+
+  if (!getAuthToken()) {
+    return null;
+  }
+
+  try {
+    currentUser = await apiRequest<User>('/api/auth/me');
+    return currentUser;
+  } catch (error) {
+    // Only a rejected token means logged out; other failures keep it for the next try
+    if (error instanceof ApiRequestError && error.status === 401) {
+      setAuthToken(null);
+      return null;
+    }
+
+    console.error('Error validating session:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get the current user ID
+ * @returns Promise with user ID
+ */
+export async function getUserId(): Promise<string> {
+  const user = await getCurrentUser();
+
+  if (!user) {
+    throw new Error('Not logged in');
+  }
+
+  return user.id;
 }
@@ -0,0 +1,49 @@
+/**
+ * Call chat types and API functions. Messages are sent and received over the
+ * socket during a call; recordings made in a room can list the chat sent meanwhile.
+ */
+import { apiRequest } from './api';
+
+// Types for chat
+export interface ChatMessage {
+  id: string;
+  roomId: string;
+  userId: string;
+  body: string;
+  createdAt: string;
+  user: {
+    id: string;
+    name: string;
+  };
+}
+
+export interface RecordingChatMessage extends ChatMessage {
+  // Seconds into the recording's playback when the message was sent
+  offset: number;
+}
+
+/**
+ * List the chat messages sent in the call while a recording was made
+ * @param recordingId Recording ID
+ * @returns Promise with the messages, oldest first; empty for recordings made outside a room
+ */
+export async function getRecordingChat(recordingId: string): Promise<RecordingChatMessage[]> {
+  return apiRequest<RecordingChatMessage[]>(
+    `/api/recordings/${encodeURIComponent(recordingId)}/chat`
+  );
+}
+
+// Links pasted into messages, up to the next whitespace
+const LINK_PATTERN = /(https?:\/\/[^\s]+)/g;
+
+/**
+ * Split a message into plain text and the links in it, so links can be made clickable
+ * @param body Message text
+ * @returns The parts of the message in order; links carry their URL
+ */
+export function splitMessageLinks(body: string): { text: string; href?: string }[] {
+  return body
+    .split(LINK_PATTERN)
+    .filter(Boolean)
+    .map((part) => (/^https?:\/\//.test(part) ? { text: part, href: part } : { text: part }));
+}
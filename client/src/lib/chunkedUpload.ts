@@ -0,0 +1,261 @@
+/**
+ * Streaming upload of a recording while it is in progress. Each timeslice
+ * chunk is uploaded as soon as the recorder emits it, and the server joins
+ * the chunks into one recording when recording stops. An upload cut short,
+ * e.g. by the tab closing, can be resumed from the local copy of the chunks.
+ */
+import { apiRequest } from './api';
+import { getCurrentWorkspaceId } from './workspaces';
+import { uploadToS3, UploadProgress, UploadResult } from './s3';
+import type { Recording } from './recordings';
+import type { TranscriptSegment } from './transcripts';
+
+const MAX_CHUNK_RETRIES = 3;
+
+// Types for streaming uploads
+export interface ChunkedUpload {
+  sessionId: Promise<string>;
+  addChunk: (chunk: Blob) => void;
+  replaceChunk: (index: number, chunk: Blob) => void;
+  finish: (duration?: number, captions?: TranscriptSegment[]) => Promise<UploadResult>;
+}
+
+interface RecordingSession {
+  id: string;
+  chunks: { index: number; size: number }[];
+}
+
+/**
+ * Wait before retrying
+ * @param ms Milliseconds to wait
+ */
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Upload one chunk and add it to the session's manifest, retrying with backoff
+ * @param sessionId Recording session ID
+ * @param index Zero-based chunk index
+ * @param chunk Chunk data
+ */
+async function uploadChunk(sessionId: string, index: number, chunk: Blob): Promise<void> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const { uploadUrl } = await apiRequest<{ uploadUrl: string; key: string }>(
+        `/api/recording-sessions/${sessionId}/chunks/upload-url`,
+        {
+          method: 'POST',
+          body: JSON.stringify({ index }),
+        }
+      );
+
+      const result = await uploadToS3(uploadUrl, chunk);
+      if (!result.success) {
+        throw new Error(result.error || `Chunk ${index} upload failed`);
+      }
+
+      await apiRequest(`/api/recording-sessions/${sessionId}/chunks`, {
+        method: 'POST',
+        body: JSON.stringify({ index }),
+      });
+      return;
+    } catch (error) {
+      if (attempt >= MAX_CHUNK_RETRIES) {
+        throw error;
+      }
+
+      console.warn(`Retrying chunk ${index} after error:`, error);
+      await delay(1000 * 2 ** attempt);
+    }
+  }
+}
+
+/**
+ * Finalize a session into a recording
+ * @param sessionId Recording session ID
+ * @param chunkCount Number of chunks in the recording
+ * @param duration Optional duration in seconds
+ * @param captions Optional captions spoken in the call while recording
+ * @returns Promise with the upload result
+ */
+async function finalizeSession(
+  sessionId: string,
+  chunkCount: number,
+  duration?: number,
+  captions?: TranscriptSegment[]
+): Promise<UploadResult> {
+  const recording = await apiRequest<Recording>(`/api/recording-sessions/${sessionId}/finalize`, {
+    method: 'POST',
+    body: JSON.stringify({ duration, chunkCount, captions }),
+  });
+
+  return { success: true, key: recording.s3Key, recordingId: recording.id };
+}
+
+/**
+ * Start uploading a recording in chunks while it is being recorded
+ * @param filename Filename for the recording
+ * @param mimeType MIME type of the recorder
+ * @param onProgress Progress callback, reported while the upload is finishing
+ * @param roomId Optional ID of the room being recorded
+ * @returns Handle to feed chunks to and finish the upload
+ */
+export function startChunkedUpload(
+  filename: string,
+  mimeType: string,
+  onProgress?: (progress: UploadProgress) => void,
+  roomId?: string
+): ChunkedUpload {
+  // Chunks are accepted right away and queued until the session exists
+  const sessionPromise = apiRequest<RecordingSession>('/api/recording-sessions', {
+    method: 'POST',
+    body: JSON.stringify({
+      filename,
+      mimeType,
+      workspaceId: getCurrentWorkspaceId() ?? undefined,
+      roomId,
+    }),
+  });
+
+  // Chunks that still need uploading, kept in memory until they reach storage
+  const pending = new Map<number, Blob>();
+  const chunkSizes = new Map<number, number>();
+  let chunkCount = 0;
+  let isFinishing = false;
+
+  const reportProgress = () => {
+    if (!onProgress || !isFinishing) return;
+
+    let total = 0;
+    let loaded = 0;
+    chunkSizes.forEach((size, index) => {
+      total += size;
+      if (!pending.has(index)) loaded += size;
+    });
+
+    onProgress({
+      loaded,
+      total,
+      percentage: total > 0 ? Math.round((loaded / total) * 100) : 100,
+      partsCompleted: chunkCount - pending.size,
+      partsTotal: chunkCount,
+    });
+  };
+
+  // Upload a queued chunk; failures stay queued and are retried when finishing
+  const uploadQueued = async (index: number) => {
+    const chunk = pending.get(index);
+    if (!chunk) return;
+
+    const session = await sessionPromise;
+    await uploadChunk(session.id, index, chunk);
+
+    // The chunk may have been replaced while it was uploading
+    if (pending.get(index) === chunk) {
+      pending.delete(index);
+    }
+    reportProgress();
+  };
+
+  // Chunks go up one at a time, in order, so they don't compete with the call for bandwidth
+  let queue: Promise<void> = Promise.resolve();
+  const enqueue = (index: number, chunk: Blob) => {
+    chunkSizes.set(index, chunk.size);
+    pending.set(index, new Blob([chunk], { type: mimeType }));
+
+    queue = queue
+      .then(() => uploadQueued(index))
+      .catch((error) => console.error(`Error uploading chunk ${index}:`, error));
+  };
+
+  return {
+    sessionId: sessionPromise.then((session) => session.id),
+
+    addChunk: (chunk) => {
+      if (chunk.size === 0) return;
+      enqueue(chunkCount++, chunk);
+    },
+
+    // Used to swap in a rewritten header once recording has stopped
+    replaceChunk: (index, chunk) => {
+      if (index < chunkCount) {
+        enqueue(index, chunk);
+      }
+    },
+
+    finish: async (duration, captions) => {
+      isFinishing = true;
+      reportProgress();
+
+      try {
+        // Wait for the queue, then give any failed chunks one more round
+        await queue;
+        for (const index of Array.from(pending.keys())) {
+          await uploadQueued(index);
+        }
+
+        const session = await sessionPromise;
+        return await finalizeSession(session.id, chunkCount, duration, captions);
+      } catch (error) {
+        console.error('Error finishing streamed upload:', error);
+        return {
+          success: false,
+          error: `Upload failed: ${error instanceof Error ? error.message : String(error)}`,
+        };
+      }
+    },
+  };
+}
+
+/**
+ * Resume a streamed upload that was cut short, sending the chunks the server
+ * is missing and finalizing the session. The first chunk is always sent again,
+ * since its header is rewritten once recording stops.
+ * @param sessionId Recording session ID
+ * @param chunks Every chunk of the recording, in order
+ * @param onProgress Progress callback
+ * @param duration Optional duration in seconds
+ * @returns Promise with the upload result
+ */
+export async function resumeChunkedUpload(
+  sessionId: string,
+  chunks: Blob[],
+  onProgress?: (progress: UploadProgress) => void,
+  duration?: number
+): Promise<UploadResult> {
+  try {
+    const session = await apiRequest<RecordingSession>(`/api/recording-sessions/${sessionId}`);
+    const uploaded = new Set(session.chunks.map((chunk) => chunk.index));
+    const missing = chunks
+      .map((_, index) => index)
+      .filter((index) => index === 0 || !uploaded.has(index));
+
+    const total = missing.reduce((sum, index) => sum + chunks[index].size, 0);
+    let loaded = 0;
+    const reportProgress = (partsCompleted: number) =>
+      onProgress?.({
+        loaded,
+        total,
+        percentage: total > 0 ? Math.round((loaded / total) * 100) : 100,
+        partsCompleted,
+        partsTotal: missing.length,
+      });
+
+    reportProgress(0);
+    for (let position = 0; position < missing.length; position++) {
+      const index = missing[position];
+      await uploadChunk(sessionId, index, chunks[index]);
+      loaded += chunks[index].size;
+      reportProgress(position + 1);
+    }
+
+    return await finalizeSession(sessionId, chunks.length, duration);
+  } catch (error) {
+    console.error('Error resuming streamed upload:', error);
+    return {
+      success: false,
+      error: `Upload failed: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+}
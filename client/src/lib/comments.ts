@@ -0,0 +1,105 @@
+/**
+ * Recording comment API functions
+ */
+import { apiRequest } from './api';
+
+// Types for comments
+export interface Comment {
+  id: string;
+  recordingId: string;
+  userId: string;
+  parentId: string | null;
+  timestamp: number;
+  body: string;
+  createdAt: string;
+  updatedAt: string;
+  user: {
+    id: string;
+    name: string;
+  };
+}
+
+/**
+ * Build the comments endpoint for a recording
+ * @param recordingId Recording ID
+ * @param commentId Optional comment ID
+ * @returns The endpoint path
+ */
+function commentsPath(recordingId: string, commentId?: string): string {
+  const base = `/api/recordings/${encodeURIComponent(recordingId)}/comments`;
+  return commentId ? `${base}/${encodeURIComponent(commentId)}` : base;
+}
+
+/**
+ * List a recording's comments
+ * @param recordingId Recording ID
+ * @returns Promise with the comments, by timestamp
+ */
+export async function listComments(recordingId: string): Promise<Comment[]> {
+  return apiRequest<Comment[]>(commentsPath(recordingId));
+}
+
+/**
+ * Add a comment at a point in the recording
+ * @param recordingId Recording ID
+ * @param body Comment text
+ * @param timestamp Position in the recording, in seconds
+ * @returns Promise with the created comment
+ */
+export async function createComment(
+  recordingId: string,
+  body: string,
+  timestamp: number
+): Promise<Comment> {
+  return apiRequest<Comment>(commentsPath(recordingId), {
+    method: 'POST',
+    body: JSON.stringify({ body, timestamp }),
+  });
+}
+
+/**
+ * Reply to a comment
+ * @param recordingId Recording ID
+ * @param parentId ID of the comment being replied to
+ * @param body Reply text
+ * @returns Promise with the created reply
+ */
+export async function replyToComment(
+  recordingId: string,
+  parentId: string,
+  body: string
+): Promise<Comment> {
+  return apiRequest<Comment>(commentsPath(recordingId), {
+    method: 'POST',
+    body: JSON.stringify({ body, parentId }),
+  });
+}
+
+/**
+ * Edit a comment
+ * @param recordingId Recording ID
+ * @param commentId Comment ID
+ * @param body New comment text
+ * @returns Promise with the updated comment
+ */
+export async function updateComment(
+  recordingId: string,
+  commentId: string,
+  body: string
+): Promise<Comment> {
+  return apiRequest<Comment>(commentsPath(recordingId, commentId), {
+    method: 'PATCH',
+    body: JSON.stringify({ body }),
+  });
+}
+
+/**
+ * Delete a comment and its replies
+ * @param recordingId Recording ID
+ * @param commentId Comment ID
+ */
+export async function deleteComment(recordingId: string, commentId: string): Promise<void> {
+  return apiRequest<void>(commentsPath(recordingId, commentId), {
+    method: 'DELETE',
+  });
+}
@@ -0,0 +1,344 @@
+/**
+ * Peer-to-peer file transfer over a WebRTC data channel. Files go straight to
+ * the other participant; the signaling server never sees their contents.
+ *
+ * Each channel carries one file at a time, in order:
+ *   { type: 'file-start', id, name, size, mimeType, sha256 }  as JSON text
+ *   the file's bytes, in binary chunks of up to CHUNK_SIZE
+ *   { type: 'file-end', id }  as JSON text, after which the receiver checks the hash
+ * A { type: 'file-cancel', id } message in place of file-end abandons the file.
+ */
+
+// Types for file transfers
+export type FileTransferStatus = 'transferring' | 'complete' | 'failed' | 'cancelled';
+
+export interface FileTransfer {
+  id: string;
+  peerId: string;
+  direction: 'send' | 'receive';
+  name: string;
+  size: number;
+  transferred: number;  // Bytes sent or received so far
+  status: FileTransferStatus;
+  error?: string;
+  url?: string;  // Object URL of a received file, once its hash has been checked
+}
+
+export interface SendFileOptions {
+  // Identifies the file to the receiver
+  id: string;
+  signal?: AbortSignal;
+  // Called with the number of bytes sent so far
+  onProgress?: (sent: number) => void;
+}
+
+export interface IncomingFile {
+  id: string;
+  name: string;
+  size: number;
+  mimeType: string;
+}
+
+export interface FileReceiverHandlers {
+  onStart: (file: IncomingFile) => void;
+  onProgress: (id: string, received: number) => void;
+  onComplete: (id: string, blob: Blob) => void;
+  onFail: (id: string, error: string) => void;
+  onCancel: (id: string) => void;
+}
+
+type ControlMessage =
+  | { type: 'file-start'; id: string; name: string; size: number; mimeType: string; sha256: string }
+  | { type: 'file-end'; id: string }
+  | { type: 'file-cancel'; id: string };
+
+// Files are hashed and held in memory whole, so their size is capped
+export const MAX_FILE_SIZE = 100 * 1024 * 1024;
+// Chunks this size are delivered by every browser's SCTP stack
+const CHUNK_SIZE = 16 * 1024;
+// Stop queueing chunks above this much unsent data, and resume once it drops below the low mark
+const MAX_BUFFERED_AMOUNT = 4 * 1024 * 1024;
+const BUFFERED_AMOUNT_LOW_MARK = 1024 * 1024;
+
+// One file at a time per channel, so chunks of different files never interleave
+const sendQueues = new WeakMap<RTCDataChannel, Promise<void>>();
+
+/**
+ * Compute the SHA-256 hash of some data
+ * @param data The data to hash
+ * @returns The hash as lowercase hex
+ */
+async function sha256Hex(data: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Wait for a channel to open
+ * @param channel Data channel
+ */
+function waitForOpen(channel: RTCDataChannel): Promise<void> {
+  if (channel.readyState === 'open') return Promise.resolve();
+  if (channel.readyState !== 'connecting') {
+    return Promise.reject(new Error('The connection to this participant is closed'));
+  }
+
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      channel.removeEventListener('open', handleOpen);
+      channel.removeEventListener('close', handleClose);
+    };
+    const handleOpen = () => {
+      cleanup();
+      resolve();
+    };
+    const handleClose = () => {
+      cleanup();
+      reject(new Error('The connection to this participant closed'));
+    };
+
+    channel.addEventListener('open', handleOpen);
+    channel.addEventListener('close', handleClose);
+  });
+}
+
+/**
+ * Wait until the channel has sent its queued data down to some amount
+ * @param channel Data channel
+ * @param amount Bytes that may still be queued
+ */
+function waitForBufferedAmount(channel: RTCDataChannel, amount: number): Promise<void> {
+  channel.bufferedAmountLowThreshold = amount;
+  if (channel.bufferedAmount <= amount) return Promise.resolve();
+
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      channel.removeEventListener('bufferedamountlow', handleLow);
+      channel.removeEventListener('close', handleClose);
+    };
+    const handleLow = () => {
+      cleanup();
+      resolve();
+    };
+    const handleClose = () => {
+      cleanup();
+      reject(new Error('The connection to this participant closed'));
+    };
+
+    channel.addEventListener('bufferedamountlow', handleLow);
+    channel.addEventListener('close', handleClose);
+  });
+}
+
+/**
+ * Send a control message
+ * @param channel Data channel
+ * @param message The message
+ */
+function sendControl(channel: RTCDataChannel, message: ControlMessage): void {
+  channel.send(JSON.stringify(message));
+}
+
+/**
+ * Send one file over an open channel
+ * @param channel Data channel
+ * @param file The file
+ * @param options Transfer ID, abort signal and progress callback
+ */
+async function transferFile(
+  channel: RTCDataChannel,
+  file: File,
+  { id, signal, onProgress }: SendFileOptions
+): Promise<void> {
+  if (file.size > MAX_FILE_SIZE) {
+    throw new Error(`Files can be at most ${Math.round(MAX_FILE_SIZE / (1024 * 1024))} MB`);
+  }
+
+  const data = await file.arrayBuffer();
+  const sha256 = await sha256Hex(data);
+  await waitForOpen(channel);
+
+  if (signal?.aborted) {
+    throw new Error('Cancelled');
+  }
+
+  sendControl(channel, {
+    type: 'file-start',
+    id,
+    name: file.name,
+    size: file.size,
+    mimeType: file.type || 'application/octet-stream',
+    sha256,
+  });
+
+  for (let offset = 0; offset < data.byteLength; offset += CHUNK_SIZE) {
+    if (signal?.aborted) {
+      sendControl(channel, { type: 'file-cancel', id });
+      throw new Error('Cancelled');
+    }
+
+    // Backpressure: let the channel drain instead of queueing the whole file in memory
+    if (channel.bufferedAmount > MAX_BUFFERED_AMOUNT) {
+      await waitForBufferedAmount(channel, BUFFERED_AMOUNT_LOW_MARK);
+    }
+
+    const chunk = data.slice(offset, offset + CHUNK_SIZE);
+    channel.send(chunk);
+    onProgress?.(Math.max(0, offset + chunk.byteLength - channel.bufferedAmount));
+  }
+
+  sendControl(channel, { type: 'file-end', id });
+
+  // The file has been sent once nothing is left queued
+  await waitForBufferedAmount(channel, 0);
+  onProgress?.(data.byteLength);
+}
+
+/**
+ * Send a file to a peer. Files sent on the same channel go one after another.
+ * @param channel The peer's file channel
+ * @param file The file
+ * @param options Transfer ID, abort signal and progress callback
+ * @returns Promise that resolves once the whole file has been sent
+ */
+export function sendFile(channel: RTCDataChannel, file: File, options: SendFileOptions): Promise<void> {
+  const previous = sendQueues.get(channel) ?? Promise.resolve();
+  const transfer = previous.then(() => transferFile(channel, file, options));
+
+  // A failed file doesn't hold up the next one
+  sendQueues.set(channel, transfer.catch(() => {}));
+  return transfer;
+}
+
+/**
+ * Parse a control message, ignoring anything malformed
+ * @param text The message text
+ * @returns The message, or null if it isn't a valid control message
+ */
+function parseControl(text: string): ControlMessage | null {
+  try {
+    const message = JSON.parse(text);
+    if (typeof message?.id !== 'string') return null;
+
+    if (message.type === 'file-start') {
+      const { name, size, mimeType, sha256 } = message;
+      const isValid =
+        typeof name === 'string' &&
+        typeof mimeType === 'string' &&
+        typeof sha256 === 'string' &&
+        Number.isInteger(size) &&
+        size >= 0;
+      return isValid ? message : null;
+    }
+
+    return message.type === 'file-end' || message.type === 'file-cancel' ? message : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Receive the files a peer sends on a channel
+ * @param channel The peer's file channel
+ * @param handlers Called as files start, progress, finish or fail
+ */
+export function receiveFiles(channel: RTCDataChannel, handlers: FileReceiverHandlers): void {
+  // The file being received, if any; a rejected file's chunks are dropped until it ends
+  let incoming: {
+    id: string;
+    size: number;
+    mimeType: string;
+    sha256: string;
+    chunks: ArrayBuffer[];
+    received: number;
+    isRejected: boolean;
+  } | null = null;
+
+  const fail = (error: string) => {
+    if (!incoming || incoming.isRejected) return;
+
+    incoming.isRejected = true;
+    incoming.chunks = [];
+    handlers.onFail(incoming.id, error);
+  };
+
+  // Check the finished file against the sender's hash
+  const verify = async (file: NonNullable<typeof incoming>) => {
+    if (file.received !== file.size) {
+      handlers.onFail(file.id, 'The file arrived incomplete');
+      return;
+    }
+
+    const blob = new Blob(file.chunks, { type: file.mimeType });
+    const sha256 = await sha256Hex(await blob.arrayBuffer());
+
+    if (sha256 === file.sha256) {
+      handlers.onComplete(file.id, blob);
+    } else {
+      handlers.onFail(file.id, 'The file was corrupted in transit');
+    }
+  };
+
+  channel.addEventListener('message', (event: MessageEvent) => {
+    // Binary messages are chunks of the current file
+    if (typeof event.data !== 'string') {
+      if (!incoming || incoming.isRejected) return;
+
+      const chunk = event.data as ArrayBuffer;
+      incoming.chunks.push(chunk);
+      incoming.received += chunk.byteLength;
+
+      if (incoming.received > incoming.size) {
+        fail('The file was larger than announced');
+      } else {
+        handlers.onProgress(incoming.id, incoming.received);
+      }
+      return;
+    }
+
+    const message = parseControl(event.data);
+    if (!message) return;
+
+    if (message.type === 'file-start') {
+      // A new file means the previous one was abandoned without notice
+      fail('The sender stopped sending');
+
+      incoming = {
+        id: message.id,
+        size: message.size,
+        mimeType: message.mimeType,
+        sha256: message.sha256.toLowerCase(),
+        chunks: [],
+        received: 0,
+        isRejected: false,
+      };
+      handlers.onStart({ id: message.id, name: message.name, size: message.size, mimeType: message.mimeType });
+
+      if (message.size > MAX_FILE_SIZE) {
+        fail('The file is too large');
+      }
+      return;
+    }
+
+    if (!incoming || incoming.id !== message.id) return;
+
+    const file = incoming;
+    incoming = null;
+
+    if (file.isRejected) return;
+
+    if (message.type === 'file-cancel') {
+      handlers.onCancel(file.id);
+    } else {
+      verify(file).catch((error) => {
+        console.error('Error verifying received file:', error);
+        handlers.onFail(file.id, 'The file could not be checked');
+      });
+    }
+  });
+
+  channel.addEventListener('close', () => {
+    fail('The connection to this participant closed');
+    incoming = null;
+  });
+}
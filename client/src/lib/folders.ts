@@ -0,0 +1,81 @@
+/**
+ * Folder API functions, for organizing a workspace's recordings
+ */
+import { apiRequest } from './api';
+
+// Types for folders
+export interface Folder {
+  id: string;
+  workspaceId: string;
+  parentId: string | null;
+  name: string;
+  createdById: string;
+  createdAt: string;
+}
+
+/**
+ * Build the folders endpoint for a workspace
+ * @param workspaceId Workspace ID
+ * @param folderId Optional folder ID
+ * @returns The endpoint path
+ */
+function foldersPath(workspaceId: string, folderId?: string): string {
+  const base = `/api/workspaces/${encodeURIComponent(workspaceId)}/folders`;
+  return folderId ? `${base}/${encodeURIComponent(folderId)}` : base;
+}
+
+/**
+ * List all folders in a workspace
+ * @param workspaceId Workspace ID
+ * @returns Promise with the folders, by name; nesting is given by parentId
+ */
+export async function listFolders(workspaceId: string): Promise<Folder[]> {
+  return apiRequest<Folder[]>(foldersPath(workspaceId));
+}
+
+/**
+ * Create a folder
+ * @param workspaceId Workspace ID
+ * @param name Folder name
+ * @param parentId Parent folder ID, or null for a top-level folder
+ * @returns Promise with the created folder
+ */
+export async function createFolder(
+  workspaceId: string,
+  name: string,
+  parentId: string | null = null
+): Promise<Folder> {
+  return apiRequest<Folder>(foldersPath(workspaceId), {
+    method: 'POST',
+    body: JSON.stringify({ name, parentId }),
+  });
+}
+
+/**
+ * Rename a folder or move it under another parent
+ * @param workspaceId Workspace ID
+ * @param folderId Folder ID
+ * @param update New name and/or parent; a null parent moves it to the top level
+ * @returns Promise with the updated folder
+ */
+export async function updateFolder(
+  workspaceId: string,
+  folderId: string,
+  update: { name?: string; parentId?: string | null }
+): Promise<Folder> {
+  return apiRequest<Folder>(foldersPath(workspaceId, folderId), {
+    method: 'PATCH',
+    body: JSON.stringify(update),
+  });
+}
+
+/**
+ * Delete a folder. Its recordings and subfolders move up into its parent.
+ * @param workspaceId Workspace ID
+ * @param folderId Folder ID
+ */
+export async function deleteFolder(workspaceId: string, folderId: string): Promise<void> {
+  return apiRequest<void>(foldersPath(workspaceId, folderId), {
+    method: 'DELETE',
+  });
+}
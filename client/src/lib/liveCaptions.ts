@@ -0,0 +1,137 @@
+/**
+ * Live captions for calls. Each participant's speech is recognized in their
+ * own browser and the text is shared with the room over the socket.
+ */
+
+// Types for live captions
+export interface LiveCaption {
+  // Shared by the interim lines of an utterance and the final line that replaces them
+  id: string;
+  userId: string;
+  speaker: string;
+  text: string;
+  isFinal: boolean;
+}
+
+export interface CaptionRecognizer {
+  stop: () => void;
+}
+
+// The parts of the Web Speech API used here; TypeScript's DOM types don't include it
+interface SpeechRecognitionResultLike {
+  isFinal: boolean;
+  0: { transcript: string };
+}
+
+interface SpeechRecognitionEventLike {
+  resultIndex: number;
+  results: ArrayLike<SpeechRecognitionResultLike>;
+}
+
+interface SpeechRecognitionLike {
+  continuous: boolean;
+  interimResults: boolean;
+  lang: string;
+  onresult: ((event: SpeechRecognitionEventLike) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start: () => void;
+  stop: () => void;
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognitionLike;
+
+// Errors after which restarting recognition would only fail again
+const FATAL_RECOGNITION_ERRORS = ['not-allowed', 'service-not-allowed', 'audio-capture'];
+
+/**
+ * Get the browser's speech recognition, if it has one
+ * @returns The SpeechRecognition constructor, or null if unsupported
+ */
+function getSpeechRecognition(): SpeechRecognitionConstructor | null {
+  if (typeof window === 'undefined') return null;
+
+  const speechWindow = window as unknown as {
+    SpeechRecognition?: SpeechRecognitionConstructor;
+    webkitSpeechRecognition?: SpeechRecognitionConstructor;
+  };
+  return speechWindow.SpeechRecognition ?? speechWindow.webkitSpeechRecognition ?? null;
+}
+
+/**
+ * Check whether this browser can caption the user's speech
+ * @returns True if speech recognition is available
+ */
+export function isCaptioningSupported(): boolean {
+  return getSpeechRecognition() !== null;
+}
+
+/**
+ * Recognize the user's speech from their default microphone until stopped.
+ * Browsers end recognition after a pause in speech, so it is restarted.
+ * @param onCaption Called with each interim and final line, keyed by utterance ID
+ * @param onError Called when recognition cannot continue, e.g. microphone access was denied
+ * @returns The recognizer, to stop it
+ */
+export function startCaptioning(
+  onCaption: (caption: { id: string; text: string; isFinal: boolean }) => void,
+  onError: (message: string) => void
+): CaptionRecognizer {
+  const SpeechRecognition = getSpeechRecognition();
+  if (!SpeechRecognition) {
+    onError('Your browser cannot caption your speech');
+    return { stop: () => {} };
+  }
+
+  let isStopped = false;
+  // Each recognition session numbers its results from zero, so IDs include the session
+  const createSessionId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  let sessionId = createSessionId();
+
+  const recognition = new SpeechRecognition();
+  recognition.continuous = true;
+  recognition.interimResults = true;
+  recognition.lang = navigator.language || 'en-US';
+
+  recognition.onresult = (event) => {
+    for (let index = event.resultIndex; index < event.results.length; index++) {
+      const result = event.results[index];
+      const text = result[0].transcript.trim();
+
+      if (text) {
+        onCaption({ id: `${sessionId}-${index}`, text, isFinal: result.isFinal });
+      }
+    }
+  };
+
+  recognition.onerror = (event) => {
+    if (FATAL_RECOGNITION_ERRORS.includes(event.error)) {
+      isStopped = true;
+      onError(
+        event.error === 'audio-capture'
+          ? 'No microphone was found for captions'
+          : 'Microphone access for captions was denied'
+      );
+    }
+  };
+
+  recognition.onend = () => {
+    if (isStopped) return;
+
+    sessionId = createSessionId();
+    try {
+      recognition.start();
+    } catch (error) {
+      console.error('Error restarting captions:', error);
+    }
+  };
+
+  recognition.start();
+
+  return {
+    stop: () => {
+      isStopped = true;
+      recognition.stop();
+    },
+  };
+}
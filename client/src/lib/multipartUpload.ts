@@ -0,0 +1,285 @@
+/**
+ * S3 multipart upload with parallel parts, retries and resume
+ */
+import { apiRequest } from './api';
+import { getCurrentWorkspaceId } from './workspaces';
+import type { UploadProgress } from './s3';
+
+// Files at or above this size are uploaded in parts
+export const MULTIPART_THRESHOLD = 20 * 1024 * 1024; // 20 MB
+
+// S3 requires every part except the last to be at least 5 MB
+const PART_SIZE = 10 * 1024 * 1024; // 10 MB
+const MAX_CONCURRENT_PARTS = 4;
+const MAX_PART_RETRIES = 3;
+
+// Unfinished uploads are remembered in localStorage so they can resume after a reload
+const RESUME_STORAGE_PREFIX = 'clipz-multipart:';
+
+// Types for multipart uploads
+interface StoredUpload {
+  key: string;
+  uploadId: string;
+  partSize: number;
+}
+
+interface UploadedPart {
+  partNumber: number;
+  etag: string;
+  size?: number;
+}
+
+/**
+ * Build the localStorage key identifying an upload of this file
+ */
+function getResumeKey(file: Blob, filename: string): string {
+  return `${RESUME_STORAGE_PREFIX}${filename}:${file.size}:${file.type}`;
+}
+
+function loadStoredUpload(resumeKey: string): StoredUpload | null {
+  try {
+    const value = window.localStorage.getItem(resumeKey);
+    return value ? (JSON.parse(value) as StoredUpload) : null;
+  } catch {
+    return null;
+  }
+}
+
+function saveStoredUpload(resumeKey: string, upload: StoredUpload): void {
+  window.localStorage.setItem(resumeKey, JSON.stringify(upload));
+}
+
+function clearStoredUpload(resumeKey: string): void {
+  window.localStorage.removeItem(resumeKey);
+}
+
+/**
+ * Wait before retrying
+ * @param ms Milliseconds to wait
+ */
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * PUT a single part to its pre-signed URL
+ * @param url Pre-signed part URL
+ * @param body Part data
+ * @param onProgress Called with the bytes of this part sent so far
+ * @returns Promise with the part's ETag
+ */
+function putPart(
+  url: string,
+  body: Blob,
+  onProgress: (loaded: number) => void
+): Promise<string> {
+  return new Promise<string>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+
+    xhr.upload.addEventListener('progress', (event) => {
+      if (event.lengthComputable) {
+        onProgress(event.loaded);
+      }
+    });
+
+    xhr.addEventListener('load', () => {
+      // The bucket's CORS config must expose the ETag header
+      const etag = xhr.getResponseHeader('ETag');
+      if (xhr.status >= 200 && xhr.status < 300 && etag) {
+        resolve(etag);
+      } else if (xhr.status >= 200 && xhr.status < 300) {
+        reject(new Error('Part uploaded but ETag header is not exposed by the bucket CORS config'));
+      } else {
+        reject(new Error(`Part upload failed with status ${xhr.status}: ${xhr.statusText}`));
+      }
+    });
+
+    xhr.addEventListener('error', () => reject(new Error('Network error occurred during part upload')));
+    xhr.addEventListener('abort', () => reject(new Error('Part upload was aborted')));
+
+    xhr.open('PUT', url, true);
+    xhr.send(body);
+  });
+}
+
+/**
+ * Start a new multipart upload, or pick up an unfinished one for the same file
+ * @returns The upload and the parts S3 already has
+ */
+async function startOrResumeUpload(
+  file: Blob,
+  filename: string,
+  resumeKey: string
+): Promise<{ upload: StoredUpload; uploadedParts: UploadedPart[] }> {
+  const stored = loadStoredUpload(resumeKey);
+
+  if (stored) {
+    try {
+      const query = new URLSearchParams({ key: stored.key, uploadId: stored.uploadId });
+      const { parts } = await apiRequest<{ parts: UploadedPart[] }>(`/api/s3/multipart/parts?${query}`);
+      return { upload: stored, uploadedParts: parts };
+    } catch (error) {
+      // The upload expired or was aborted; start over
+      console.warn('Could not resume multipart upload, starting a new one:', error);
+      clearStoredUpload(resumeKey);
+    }
+  }
+
+  const { key, uploadId } = await apiRequest<{ key: string; uploadId: string }>(
+    '/api/s3/multipart/initiate',
+    {
+      method: 'POST',
+      body: JSON.stringify({
+        filename,
+        fileType: file.type,
+        workspaceId: getCurrentWorkspaceId() ?? undefined,
+      }),
+    }
+  );
+
+  const upload = { key, uploadId, partSize: PART_SIZE };
+  saveStoredUpload(resumeKey, upload);
+
+  return { upload, uploadedParts: [] };
+}
+
+/**
+ * Upload a large file to S3 in parts
+ * @param file File to upload
+ * @param filename Filename for the upload
+ * @param onProgress Aggregate progress callback
+ * @returns Promise with the S3 key of the completed object
+ */
+export async function uploadMultipart(
+  file: Blob,
+  filename: string,
+  onProgress?: (progress: UploadProgress) => void
+): Promise<{ key: string }> {
+  const resumeKey = getResumeKey(file, filename);
+  const { upload, uploadedParts } = await startOrResumeUpload(file, filename, resumeKey);
+  const { key, uploadId, partSize } = upload;
+
+  const partsTotal = Math.max(1, Math.ceil(file.size / partSize));
+  const partBlob = (partNumber: number) =>
+    file.slice((partNumber - 1) * partSize, Math.min(partNumber * partSize, file.size));
+
+  // Parts S3 already has (with the expected size) are skipped
+  const completed = new Map<number, string>();
+  for (const part of uploadedParts) {
+    if (part.partNumber <= partsTotal && part.size === partBlob(part.partNumber).size) {
+      completed.set(part.partNumber, part.etag);
+    }
+  }
+
+  // Aggregate progress across all parts
+  const inFlight = new Map<number, number>();
+  const reportProgress = () => {
+    if (!onProgress) return;
+
+    let loaded = 0;
+    completed.forEach((_, partNumber) => {
+      loaded += partBlob(partNumber).size;
+    });
+    inFlight.forEach((bytes) => {
+      loaded += bytes;
+    });
+
+    onProgress({
+      loaded,
+      total: file.size,
+      percentage: file.size > 0 ? Math.round((loaded / file.size) * 100) : 100,
+      partsCompleted: completed.size,
+      partsTotal,
+    });
+  };
+  reportProgress();
+
+  // Upload one part, re-signing and retrying with backoff on failure
+  const uploadPart = async (partNumber: number) => {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const { urls } = await apiRequest<{ urls: Record<number, string> }>(
+          '/api/s3/multipart/sign-parts',
+          {
+            method: 'POST',
+            body: JSON.stringify({ key, uploadId, partNumbers: [partNumber] }),
+          }
+        );
+
+        const etag = await putPart(urls[partNumber], partBlob(partNumber), (loaded) => {
+          inFlight.set(partNumber, loaded);
+          reportProgress();
+        });
+
+        inFlight.delete(partNumber);
+        completed.set(partNumber, etag);
+        reportProgress();
+        return;
+      } catch (error) {
+        inFlight.delete(partNumber);
+        reportProgress();
+
+        if (attempt >= MAX_PART_RETRIES) {
+          throw error;
+        }
+
+        console.warn(`Retrying part ${partNumber} after error:`, error);
+        await delay(1000 * 2 ** attempt);
+      }
+    }
+  };
+
+  // Run a fixed number of workers over the remaining parts
+  const remaining: number[] = [];
+  for (let partNumber = 1; partNumber <= partsTotal; partNumber++) {
+    if (!completed.has(partNumber)) {
+      remaining.push(partNumber);
+    }
+  }
+
+  const worker = async () => {
+    let partNumber = remaining.shift();
+    while (partNumber !== undefined) {
+      await uploadPart(partNumber);
+      partNumber = remaining.shift();
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(MAX_CONCURRENT_PARTS, remaining.length) }, worker)
+  );
+
+  // Assemble the object
+  await apiRequest('/api/s3/multipart/complete', {
+    method: 'POST',
+    body: JSON.stringify({
+      key,
+      uploadId,
+      parts: Array.from(completed, ([partNumber, etag]) => ({ partNumber, etag })),
+    }),
+  });
+
+  clearStoredUpload(resumeKey);
+
+  return { key };
+}
+
+/**
+ * Abort an unfinished multipart upload for a file and forget it
+ * @param file File that was being uploaded
+ * @param filename Filename used for the upload
+ */
+export async function abortMultipartUpload(file: Blob, filename: string): Promise<void> {
+  const resumeKey = getResumeKey(file, filename);
+  const stored = loadStoredUpload(resumeKey);
+  if (!stored) return;
+
+  try {
+    await apiRequest<void>('/api/s3/multipart/abort', {
+      method: 'POST',
+      body: JSON.stringify({ key: stored.key, uploadId: stored.uploadId }),
+    });
+  } finally {
+    clearStoredUpload(resumeKey);
+  }
+}
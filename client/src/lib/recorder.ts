@@ -19,6 +19,9 @@ export const DEFAULT_RECORDER_OPTIONS: RecorderOptions = {
   bitsPerSecond: 2500000, // 2.5 Mbps
 };
 
+// How often the recorder emits a chunk; at most this much footage is lost on a crash
+export const RECORDING_TIMESLICE_MS = 4000;
+
 /**
  * Create a MediaRecorder instance
  * @param stream MediaStream to record
@@ -102,6 +105,29 @@ export function stopRecording(recorder: MediaRecorder): Promise<Blob> {
   });
 }
 
+/**
+ * Stop a recording started with a timeslice, whose chunks were collected as they arrived
+ * @param recorder MediaRecorder instance
+ * @param chunks Chunks collected from dataavailable events
+ * @returns Promise that resolves with the recorded Blob, once the final chunk has arrived
+ */
+export function stopTimeslicedRecording(recorder: MediaRecorder, chunks: Blob[]): Promise<Blob> {
+  return new Promise<Blob>((resolve) => {
+    // The final dataavailable event fires before stop
+    const handleStop = () => {
+      recorder.removeEventListener('stop', handleStop);
+      resolve(new Blob(chunks, { type: recorder.mimeType }));
+    };
+
+    if (recorder.state !== 'inactive') {
+      recorder.addEventListener('stop', handleStop);
+      recorder.stop();
+    } else {
+      resolve(new Blob(chunks, { type: recorder.mimeType }));
+    }
+  });
+}
+
 /**
  * Create a download link for a recorded blob
  * @param blob Recorded blob
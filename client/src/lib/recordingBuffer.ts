@@ -0,0 +1,214 @@
+/**
+ * Crash-safe local buffer for recordings, backed by IndexedDB. Chunks are
+ * written as the recorder emits them, so a recording survives the tab closing
+ * or a failed upload and can be recovered on the next visit.
+ */
+
+const DB_NAME = 'clipz-recordings';
+const DB_VERSION = 1;
+const RECORDINGS_STORE = 'recordings';
+const CHUNKS_STORE = 'chunks';
+
+// Types for buffered recordings
+export interface BufferedRecording {
+  id: string;
+  filename: string;
+  mimeType: string;
+  createdAt: number;
+  size: number;
+  // Set when the recording was also being streamed, so its upload can be resumed
+  sessionId?: string;
+}
+
+interface BufferedChunk {
+  recordingId: string;
+  index: number;
+  data: Blob;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Open (and create on first use) the recordings database
+ * @returns Promise with the database connection
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(RECORDINGS_STORE, { keyPath: 'id' });
+        const chunks = db.createObjectStore(CHUNKS_STORE, { keyPath: ['recordingId', 'index'] });
+        chunks.createIndex('recordingId', 'recordingId');
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+
+  return dbPromise;
+}
+
+/**
+ * Wrap an IndexedDB request in a promise
+ */
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Wait for a transaction to commit
+ */
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Start buffering a new recording
+ * @param filename Filename for the recording
+ * @param mimeType MIME type of the recorder
+ * @returns Promise with the buffered recording's ID
+ */
+export async function createBufferedRecording(filename: string, mimeType: string): Promise<string> {
+  const db = await openDatabase();
+  const id = `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
+  const transaction = db.transaction(RECORDINGS_STORE, 'readwrite');
+  transaction.objectStore(RECORDINGS_STORE).put({
+    id,
+    filename,
+    mimeType,
+    createdAt: Date.now(),
+    size: 0,
+  } satisfies BufferedRecording);
+  await transactionDone(transaction);
+
+  return id;
+}
+
+/**
+ * Persist one chunk of a buffered recording
+ * @param recordingId Buffered recording ID
+ * @param index Zero-based chunk index
+ * @param data Chunk data
+ */
+export async function appendBufferedChunk(recordingId: string, index: number, data: Blob): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([RECORDINGS_STORE, CHUNKS_STORE], 'readwrite');
+
+  transaction.objectStore(CHUNKS_STORE).put({ recordingId, index, data } satisfies BufferedChunk);
+
+  // Keep the total size on the recording so listings don't have to read every chunk
+  const recordings = transaction.objectStore(RECORDINGS_STORE);
+  const recording = await promisifyRequest<BufferedRecording | undefined>(recordings.get(recordingId));
+  if (recording) {
+    recordings.put({ ...recording, size: recording.size + data.size });
+  }
+
+  await transactionDone(transaction);
+}
+
+/**
+ * Remember the streaming upload session of a buffered recording
+ * @param recordingId Buffered recording ID
+ * @param sessionId Recording session ID on the server
+ */
+export async function setBufferedRecordingSession(recordingId: string, sessionId: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(RECORDINGS_STORE, 'readwrite');
+
+  const recordings = transaction.objectStore(RECORDINGS_STORE);
+  const recording = await promisifyRequest<BufferedRecording | undefined>(recordings.get(recordingId));
+  if (recording) {
+    recordings.put({ ...recording, sessionId });
+  }
+
+  await transactionDone(transaction);
+}
+
+/**
+ * List recordings left in the buffer
+ * @returns Promise with buffered recordings, newest first
+ */
+export async function listBufferedRecordings(): Promise<BufferedRecording[]> {
+  const db = await openDatabase();
+  const transaction = db.transaction(RECORDINGS_STORE, 'readonly');
+  const recordings = await promisifyRequest<BufferedRecording[]>(
+    transaction.objectStore(RECORDINGS_STORE).getAll()
+  );
+
+  return recordings.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Read a buffered recording's chunks
+ * @param recordingId Buffered recording ID
+ * @returns Promise with the chunks in recording order, or null if the recording is not in the buffer
+ */
+export async function getBufferedRecordingChunks(recordingId: string): Promise<Blob[] | null> {
+  const db = await openDatabase();
+  const transaction = db.transaction([RECORDINGS_STORE, CHUNKS_STORE], 'readonly');
+
+  const recording = await promisifyRequest<BufferedRecording | undefined>(
+    transaction.objectStore(RECORDINGS_STORE).get(recordingId)
+  );
+  if (!recording) {
+    return null;
+  }
+
+  // Entries with the same index key come back in primary key order, i.e. by chunk index
+  const chunks = await promisifyRequest<BufferedChunk[]>(
+    transaction.objectStore(CHUNKS_STORE).index('recordingId').getAll(recordingId)
+  );
+
+  return chunks.map((chunk) => chunk.data);
+}
+
+/**
+ * Reassemble a buffered recording from its chunks
+ * @param recordingId Buffered recording ID
+ * @returns Promise with the recording blob, or null if it is not in the buffer
+ */
+export async function getBufferedRecordingBlob(recordingId: string): Promise<Blob | null> {
+  const db = await openDatabase();
+  const transaction = db.transaction(RECORDINGS_STORE, 'readonly');
+
+  const recording = await promisifyRequest<BufferedRecording | undefined>(
+    transaction.objectStore(RECORDINGS_STORE).get(recordingId)
+  );
+  const chunks = recording && (await getBufferedRecordingChunks(recordingId));
+  if (!recording || !chunks) {
+    return null;
+  }
+
+  return new Blob(chunks, { type: recording.mimeType });
+}
+
+/**
+ * Remove a recording and its chunks from the buffer
+ * @param recordingId Buffered recording ID
+ */
+export async function deleteBufferedRecording(recordingId: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([RECORDINGS_STORE, CHUNKS_STORE], 'readwrite');
+
+  transaction.objectStore(RECORDINGS_STORE).delete(recordingId);
+  transaction
+    .objectStore(CHUNKS_STORE)
+    .delete(IDBKeyRange.bound([recordingId, 0], [recordingId, Infinity]));
+
+  await transactionDone(transaction);
+}
@@ -0,0 +1,256 @@
+/**
+ * Recording API functions
+ */
+import { apiRequest } from './api';
+import type { TranscriptSegment } from './transcripts';
+
+// Types for recordings
+export interface Recording {
+  id: string;
+  userId: string;
+  workspaceId: string | null;
+  folderId: string | null;
+  filename: string;
+  s3Key: string;
+  uploadedAt: string;
+  duration: number | null;
+  size: number | null;
+  roomId: string | null;
+  description: string | null;
+  tags: string[];
+  processingStatus: ProcessingStatus;
+  processingError: string | null;
+  mp4Key: string | null;
+  hlsKey: string | null;
+  thumbnailKey: string | null;
+  spriteKey: string | null;
+  spriteVttKey: string | null;
+  // Clips: the recording this one was cut from
+  sourceRecordingId: string | null;
+  // Part of the input kept when processing, in seconds; null keeps all of it
+  clipStart: number | null;
+  clipEnd: number | null;
+  // Signed preview URLs; null until processing has generated them
+  thumbnailUrl?: string | null;
+  spriteUrl?: string | null;
+  spriteVttUrl?: string | null;
+  // Whether the current user may edit, share and delete it; sent with single recordings
+  canManage?: boolean;
+  // Where a library search was said in the recording; sent with search results
+  transcriptMatches?: TranscriptSegment[];
+}
+
+export type ProcessingStatus = 'queued' | 'processing' | 'ready' | 'failed';
+
+export interface PlaybackUrl {
+  url: string;
+  expiresAt: string;
+}
+
+// A part of a recording, in seconds
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+export type RecordingSort = 'uploadedAt' | 'filename' | 'duration' | 'size';
+
+export interface RecordingListParams {
+  q?: string;
+  from?: string;
+  to?: string;
+  roomId?: string;
+  tag?: string;
+  // A folder's ID, or 'root' for recordings not in any folder
+  folderId?: string;
+  sort?: RecordingSort;
+  order?: 'asc' | 'desc';
+  cursor?: string;
+  limit?: number;
+}
+
+export interface RecordingPage {
+  recordings: Recording[];
+  nextCursor: string | null;
+}
+
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+export interface RecordingUpdate {
+  filename?: string;
+  description?: string | null;
+  tags?: string[];
+}
+
+/**
+ * Format a duration or position for display
+ * @param seconds Time in seconds
+ * @returns Time in M:SS or H:MM:SS form
+ */
+export function formatDuration(seconds: number): string {
+  const total = Math.floor(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, '0');
+
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}`
+    : `${minutes}:${secs}`;
+}
+
+/**
+ * List one page of a workspace's recordings
+ * @param workspaceId Workspace ID
+ * @param params Search, filters, sort order and the cursor of the page to load
+ * @returns Promise with the page of recordings and the cursor of the next page
+ */
+export async function listRecordings(
+  workspaceId: string,
+  params: RecordingListParams = {}
+): Promise<RecordingPage> {
+  // Leave out empty parameters so the server applies its defaults
+  const query = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') query.set(key, String(value));
+  });
+
+  return apiRequest<RecordingPage>(
+    `/api/recordings/workspace/${encodeURIComponent(workspaceId)}?${query.toString()}`
+  );
+}
+
+/**
+ * Get a recording by ID
+ * @param recordingId Recording ID
+ * @returns Promise with the recording
+ */
+export async function getRecording(recordingId: string): Promise<Recording> {
+  return apiRequest<Recording>(`/api/recordings/${encodeURIComponent(recordingId)}`);
+}
+
+/**
+ * Get a short-lived URL for playing back a recording
+ * @param recordingId Recording ID
+ * @returns Promise with the signed URL and its expiry time
+ */
+export async function getPlaybackUrl(recordingId: string): Promise<PlaybackUrl> {
+  return apiRequest<PlaybackUrl>(
+    `/api/recordings/${encodeURIComponent(recordingId)}/playback-url`
+  );
+}
+
+/**
+ * Get a signed URL for a recording's adaptive (HLS) stream. Fails until the
+ * recording has finished processing.
+ * @param recordingId Recording ID
+ * @returns Promise with the master playlist URL and its expiry time
+ */
+export async function getStreamUrl(recordingId: string): Promise<PlaybackUrl> {
+  return apiRequest<PlaybackUrl>(`/api/recordings/${encodeURIComponent(recordingId)}/stream`);
+}
+
+/**
+ * Rename a recording or update its description and tags
+ * @param recordingId Recording ID
+ * @param update Fields to update
+ * @returns Promise with the updated recording
+ */
+export async function updateRecording(
+  recordingId: string,
+  update: RecordingUpdate
+): Promise<Recording> {
+  return apiRequest<Recording>(`/api/recordings/${encodeURIComponent(recordingId)}`, {
+    method: 'PATCH',
+    body: JSON.stringify(update),
+  });
+}
+
+/**
+ * List the tags used in a workspace
+ * @param workspaceId Workspace ID
+ * @returns Promise with the tags and how many recordings have each, most used first
+ */
+export async function listTags(workspaceId: string): Promise<TagCount[]> {
+  return apiRequest<TagCount[]>(
+    `/api/recordings/workspace/${encodeURIComponent(workspaceId)}/tags`
+  );
+}
+
+/**
+ * Move recordings into a folder
+ * @param recordingIds Recording IDs
+ * @param folderId Folder ID, or null for the top level
+ */
+export async function moveRecordings(
+  recordingIds: string[],
+  folderId: string | null
+): Promise<void> {
+  return apiRequest<void>('/api/recordings/move', {
+    method: 'POST',
+    body: JSON.stringify({ recordingIds, folderId }),
+  });
+}
+
+/**
+ * Add and remove tags on several recordings at once
+ * @param recordingIds Recording IDs
+ * @param changes Tags to add and tags to remove
+ * @returns Promise with each recording's new tags
+ */
+export async function tagRecordings(
+  recordingIds: string[],
+  changes: { add?: string[]; remove?: string[] }
+): Promise<{ id: string; tags: string[] }[]> {
+  return apiRequest<{ id: string; tags: string[] }[]>('/api/recordings/tags', {
+    method: 'POST',
+    body: JSON.stringify({ recordingIds, ...changes }),
+  });
+}
+
+/**
+ * Trim a recording to part of its upload. It is processed again, and the
+ * upload is kept so the trim can be changed later.
+ * @param recordingId Recording ID
+ * @param range Part of the upload to keep, or null to keep all of it
+ * @returns Promise with the updated recording
+ */
+export async function trimRecording(
+  recordingId: string,
+  range: TimeRange | null
+): Promise<Recording> {
+  return apiRequest<Recording>(`/api/recordings/${encodeURIComponent(recordingId)}/trim`, {
+    method: 'POST',
+    body: JSON.stringify({ range }),
+  });
+}
+
+/**
+ * Cut part of a recording out as a new recording
+ * @param recordingId Recording ID
+ * @param range Part of the recording to keep
+ * @param filename Optional name for the clip
+ * @returns Promise with the new recording, which is cut in the background
+ */
+export async function createClip(
+  recordingId: string,
+  range: TimeRange,
+  filename?: string
+): Promise<Recording> {
+  return apiRequest<Recording>(`/api/recordings/${encodeURIComponent(recordingId)}/clips`, {
+    method: 'POST',
+    body: JSON.stringify({ range, filename }),
+  });
+}
+
+/**
+ * Delete a recording and its stored file
+ * @param recordingId Recording ID
+ */
+export async function deleteRecording(recordingId: string): Promise<void> {
+  return apiRequest<void>(`/api/recordings/${encodeURIComponent(recordingId)}`, {
+    method: 'DELETE',
+  });
+}
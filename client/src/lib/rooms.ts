@@ -0,0 +1,109 @@
+/**
+ * Room API functions
+ */
+import { apiRequest } from './api';
+
+// Types for rooms
+export interface Room {
+  id: string;
+  ownerId: string;
+  title: string;
+  isPrivate: boolean;
+  isLocked: boolean;
+  waitingRoomEnabled: boolean;
+  createdAt: string;
+  endedAt: string | null;
+  owner?: {
+    id: string;
+    name: string;
+  };
+}
+
+export interface RoomParticipant {
+  id: string;
+  userId: string;
+  joinedAt: string;
+  leftAt: string | null;
+  user: {
+    id: string;
+    name: string;
+  };
+}
+
+export interface RoomDetails extends Room {
+  participants?: RoomParticipant[];
+}
+
+// Who may join a room's call, set by its owner as host
+export type RoomAccess = Pick<Room, 'isLocked' | 'waitingRoomEnabled'>;
+
+// Media the host has turned off for a participant, who can't turn it back on
+export interface ForcedMute {
+  audio: boolean;
+  video: boolean;
+}
+
+// Someone in the call
+export interface RoomUser {
+  userId: string;
+  name: string;
+}
+
+// Someone waiting for the host to let them into the call
+export interface WaitingUser {
+  userId: string;
+  name: string;
+}
+
+/**
+ * Get the name to show for someone in the call
+ * @param participantNames Names of everyone in the call, keyed by userId
+ * @param userId The participant's user ID
+ * @returns Their name, or part of their ID until the name arrives
+ */
+export function getParticipantName(participantNames: Record<string, string>, userId: string): string {
+  return participantNames[userId] || `Participant ${userId.slice(-6)}`;
+}
+
+/**
+ * Create a new room
+ * @param title Room title
+ * @param isPrivate Whether the room is hidden from public listings
+ * @returns Promise with the created room
+ */
+export async function createRoom(title: string, isPrivate = false): Promise<Room> {
+  return apiRequest<Room>('/api/rooms', {
+    method: 'POST',
+    body: JSON.stringify({ title, isPrivate }),
+  });
+}
+
+/**
+ * Get a room by ID
+ * @param roomId Room ID
+ * @returns Promise with the room; owners also receive participant history
+ */
+export async function getRoom(roomId: string): Promise<RoomDetails> {
+  return apiRequest<RoomDetails>(`/api/rooms/${encodeURIComponent(roomId)}`);
+}
+
+/**
+ * List rooms
+ * @param scope 'mine' for rooms the user owns or joined, 'public' for open public rooms
+ * @returns Promise with rooms, newest first
+ */
+export async function listRooms(scope: 'mine' | 'public' = 'mine'): Promise<Room[]> {
+  const query = scope === 'public' ? '?scope=public' : '';
+  return apiRequest<Room[]>(`/api/rooms${query}`);
+}
+
+/**
+ * Close a room so it can no longer be joined
+ * @param roomId Room ID
+ * @returns Promise with the closed room
+ */
+export async function closeRoom(roomId: string): Promise<Room> {
+  return apiRequest<Room>(`/api/rooms/${encodeURIComponent(roomId)}/close`, {
+    method: 'POST',
+  });
+}
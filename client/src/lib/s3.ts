@@ -7,11 +7,14 @@ export interface UploadProgress {
   loaded: number;
   total: number;
   percentage: number;
+  partsCompleted?: number;
+  partsTotal?: number;
 }
 
 export interface UploadResult {
   success: boolean;
-  url?: string;
+  key?: string;
+  recordingId?: string;
   error?: string;
 }
 
@@ -48,7 +51,6 @@ export async function uploadToS3(
       if (xhr.status >= 200 && xhr.status < 300) {
         resolve({
           success: true,
-          url: presignedUrl.split("?")[0], // Remove query parameters to get the actual file URL
         });
       } else {
         resolve({
@@ -81,22 +83,22 @@ export async function uploadToS3(
 }
 
 import { apiRequest } from "./api";
-import { getUserId } from "./auth";
+import { getCurrentWorkspaceId } from "./workspaces";
+import { MULTIPART_THRESHOLD, uploadMultipart } from "./multipartUpload";
+import type { Recording, TimeRange } from "./recordings";
+import type { TranscriptSegment } from "./transcripts";
 
 /**
  * Get a pre-signed URL from the backend
  * @param filename Filename for the upload
  * @param contentType Content type of the file
- * @returns Promise with pre-signed URL
+ * @returns Promise with pre-signed URL and the S3 key it uploads to
  */
 export async function getPresignedUrl(
   filename: string,
   contentType: string
-): Promise<string> {
+): Promise<{ uploadUrl: string; key: string }> {
   try {
-    // Get the current user ID from auth system
-    const userId = await getUserId();
-
     // Call the backend API to get a pre-signed URL
     const data = await apiRequest<{ uploadUrl: string; key: string }>(
       "/api/s3/upload-url",
@@ -105,12 +107,12 @@ export async function getPresignedUrl(
         body: JSON.stringify({
           filename,
           fileType: contentType,
-          userId,
+          workspaceId: getCurrentWorkspaceId() ?? undefined,
         }),
       }
     );
 
-    return data.uploadUrl;
+    return data;
   } catch (error) {
     console.error("Error getting pre-signed URL:", error);
     throw error;
@@ -123,57 +125,70 @@ export async function getPresignedUrl(
  * @param filename Filename for the recording
  * @param onProgress Progress callback
  * @param duration Optional duration of the recording in seconds
+ * @param roomId Optional ID of the room the recording was made in
+ * @param trim Optional part of the recording to keep when it is processed
+ * @param captions Optional captions spoken in the call, timed from the start of the recording
+ * @param recordedAt Optional time recording started and stopped in the call, to show its chat alongside
  * @returns Promise with upload result
  */
 export async function uploadRecording(
   blob: Blob,
   filename: string,
   onProgress?: (progress: UploadProgress) => void,
-  duration?: number
+  duration?: number,
+  roomId?: string,
+  trim?: TimeRange,
+  captions?: TranscriptSegment[],
+  recordedAt?: { from: Date; until: Date }
 ): Promise<UploadResult> {
   try {
-    // Get the current user ID from auth system
-    const userId = await getUserId();
-
-    // Create file from blob
-    const file = new File([blob], filename, { type: blob.type });
-
-    // Get pre-signed URL
-    const presignedUrl = await getPresignedUrl(filename, blob.type);
-
-    // Upload to S3
-    const uploadResult = await uploadToS3(presignedUrl, file, onProgress);
-
-    // If upload was successful, save metadata to the backend
-    if (uploadResult.success && uploadResult.url) {
-      try {
-        const response = await fetch("/api/recordings", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            userId,
-            filename,
-            s3Url: uploadResult.url,
-            duration,
-          }),
-        });
+    let key: string;
+
+    if (blob.size >= MULTIPART_THRESHOLD) {
+      // Large recordings go up in parallel parts and can resume after a failure
+      ({ key } = await uploadMultipart(blob, filename, onProgress));
+    } else {
+      // Create file from blob
+      const file = new File([blob], filename, { type: blob.type });
+
+      // Get pre-signed URL
+      const presigned = await getPresignedUrl(filename, blob.type);
+      key = presigned.key;
 
-        if (!response.ok) {
-          console.warn(
-            "Failed to save recording metadata, but file was uploaded successfully"
-          );
-        }
-      } catch (metadataError) {
-        console.warn(
-          "Error saving recording metadata, but file was uploaded successfully:",
-          metadataError
-        );
+      // Upload to S3
+      const uploadResult = await uploadToS3(presigned.uploadUrl, file, onProgress);
+
+      if (!uploadResult.success) {
+        return uploadResult;
       }
     }
 
-    return uploadResult;
+    // Save metadata to the backend. The bucket is private, so the recording
+    // is only reachable through its record.
+    try {
+      const recording = await apiRequest<Recording>("/api/recordings", {
+        method: "POST",
+        body: JSON.stringify({
+          filename,
+          s3Key: key,
+          duration,
+          roomId,
+          trim,
+          captions,
+          recordedFrom: recordedAt?.from,
+          recordedUntil: recordedAt?.until,
+        }),
+      });
+
+      return { success: true, key, recordingId: recording.id };
+    } catch (metadataError) {
+      console.error("Error saving recording metadata:", metadataError);
+      return {
+        success: false,
+        key,
+        error: "The file was uploaded but the recording could not be saved",
+      };
+    }
   } catch (error) {
     console.error("Error uploading recording:", error);
     return {
@@ -0,0 +1,113 @@
+/**
+ * Share link API functions
+ */
+import { apiRequest } from './api';
+import type { PlaybackUrl } from './recordings';
+
+// Types for share links
+export type ShareLinkScope = 'anyone' | 'team';
+
+export interface ShareLink {
+  id: string;
+  recordingId: string;
+  token: string;
+  scope: ShareLinkScope;
+  hasPassword: boolean;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+export interface ShareLinkOptions {
+  scope: ShareLinkScope;
+  password?: string;
+  expiresAt?: string;
+}
+
+export interface ShareLinkInfo {
+  scope: ShareLinkScope;
+  requiresPassword: boolean;
+  requiresLogin: boolean;
+  expiresAt: string | null;
+  isOpen: boolean;
+}
+
+export interface SharedRecording {
+  recording: {
+    id: string;
+    filename: string;
+    description: string | null;
+    duration: number | null;
+    uploadedAt: string;
+  };
+  playback: PlaybackUrl;
+  stream: PlaybackUrl | null;
+}
+
+/**
+ * Build the public URL for a share link
+ * @param token Share link token
+ * @returns The absolute URL of the viewer page
+ */
+export function getShareUrl(token: string): string {
+  return `${window.location.origin}/share/${encodeURIComponent(token)}`;
+}
+
+/**
+ * Create a share link for a recording
+ * @param recordingId Recording ID
+ * @param options Scope, optional password and optional expiry time
+ * @returns Promise with the created link
+ */
+export async function createShareLink(
+  recordingId: string,
+  options: ShareLinkOptions
+): Promise<ShareLink> {
+  return apiRequest<ShareLink>(`/api/recordings/${encodeURIComponent(recordingId)}/share-links`, {
+    method: 'POST',
+    body: JSON.stringify(options),
+  });
+}
+
+/**
+ * List a recording's share links
+ * @param recordingId Recording ID
+ * @returns Promise with the links, newest first
+ */
+export async function listShareLinks(recordingId: string): Promise<ShareLink[]> {
+  return apiRequest<ShareLink[]>(`/api/recordings/${encodeURIComponent(recordingId)}/share-links`);
+}
+
+/**
+ * Revoke a share link
+ * @param recordingId Recording ID
+ * @param linkId Share link ID
+ */
+export async function revokeShareLink(recordingId: string, linkId: string): Promise<void> {
+  return apiRequest<void>(
+    `/api/recordings/${encodeURIComponent(recordingId)}/share-links/${encodeURIComponent(linkId)}`,
+    { method: 'DELETE' }
+  );
+}
+
+/**
+ * Check a share link before opening it
+ * @param token Share link token
+ * @returns Promise with whether the link is open and what it requires
+ */
+export async function getShareLinkInfo(token: string): Promise<ShareLinkInfo> {
+  return apiRequest<ShareLinkInfo>(`/api/share/${encodeURIComponent(token)}`);
+}
+
+/**
+ * Open a share link and get the recording with playback URLs
+ * @param token Share link token
+ * @param password Password, for protected links
+ * @returns Promise with the shared recording
+ */
+export async function openShareLink(token: string, password?: string): Promise<SharedRecording> {
+  return apiRequest<SharedRecording>(`/api/share/${encodeURIComponent(token)}/playback`, {
+    method: 'POST',
+    body: JSON.stringify({ password }),
+  });
+}
@@ -2,7 +2,16 @@
  * Socket.IO client for WebRTC signaling
  */
 import { io, Socket } from "socket.io-client";
-import { getUserId } from "./auth";
+import { getAuthToken } from "./auth";
+import type { LiveCaption } from "./liveCaptions";
+import type { ChatMessage } from "./chat";
+import type { ForcedMute, RoomAccess, RoomUser, WaitingUser } from "./rooms";
+
+// WebRTC signaling messages exchanged with one peer through the server
+export type SignalData =
+  | { type: "offer"; sdp: RTCSessionDescriptionInit }
+  | { type: "answer"; sdp: RTCSessionDescriptionInit }
+  | { type: "ice-candidate"; candidate: RTCIceCandidateInit };
 
 // Socket instance
 let socket: Socket | null = null;
@@ -17,8 +26,11 @@ export function initializeSocket(): Socket {
   const API_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
   console.log('Connecting to socket server at:', API_URL);
 
-  // Connect to the base URL, not the API endpoint
-  socket = io(API_URL);
+  // Connect to the base URL, not the API endpoint. The session token is read on
+  // every (re)connection attempt so the handshake always carries the latest one.
+  socket = io(API_URL, {
+    auth: (cb) => cb({ token: getAuthToken() }),
+  });
 
   socket.on("connect", () => {
     console.log("Connected to signaling server with ID:", socket?.id);
@@ -35,15 +47,25 @@ export function initializeSocket(): Socket {
   return socket;
 }
 
+/**
+ * Disconnect from the signaling server and drop the connection, so the next
+ * one is made with whichever session token is stored then
+ */
+export function disconnectSocket(): void {
+  if (!socket) return;
+
+  socket.disconnect();
+  socket = null;
+}
+
 /**
  * Join a room
  * @param roomId Room ID to join
  */
 export async function joinRoom(roomId: string): Promise<void> {
   const socket = initializeSocket();
-  const userId = await getUserId();
 
-  socket.emit("join-room", roomId, userId);
+  socket.emit("join-room", roomId);
 }
 
 /**
@@ -52,21 +74,24 @@ export async function joinRoom(roomId: string): Promise<void> {
  */
 export async function leaveRoom(roomId: string): Promise<void> {
   const socket = initializeSocket();
-  const userId = await getUserId();
 
-  socket.emit("leave-room", roomId, userId);
+  socket.emit("leave-room", roomId);
 }
 
 /**
- * Send a WebRTC signal
+ * Send a WebRTC signal to a single peer
  * @param roomId Room ID
+ * @param targetUserId User ID of the peer the signal is addressed to
  * @param signal Signal data
  */
-export async function sendSignal(roomId: string, signal: any): Promise<void> {
+export async function sendSignal(
+  roomId: string,
+  targetUserId: string,
+  signal: SignalData
+): Promise<void> {
   const socket = initializeSocket();
-  const userId = await getUserId();
 
-  socket.emit("signal", roomId, userId, signal);
+  socket.emit("signal", roomId, targetUserId, signal);
 }
 
 /**
@@ -74,7 +99,7 @@ export async function sendSignal(roomId: string, signal: any): Promise<void> {
  * @param callback Callback function for received signals
  */
 export function onSignal(
-  callback: (userId: string, signal: any) => void
+  callback: (userId: string, signal: SignalData) => void
 ): void {
   const socket = initializeSocket();
 
@@ -83,9 +108,9 @@ export function onSignal(
 
 /**
  * Listen for user joined events
- * @param callback Callback function for user joined events
+ * @param callback Callback function for user joined events, with the user's name
  */
-export function onUserJoined(callback: (userId: string) => void): void {
+export function onUserJoined(callback: (userId: string, name: string) => void): void {
   const socket = initializeSocket();
 
   socket.on("user-joined", callback);
@@ -103,10 +128,309 @@ export function onUserLeft(callback: (userId: string) => void): void {
 
 /**
  * Listen for room users events
- * @param callback Callback function for room users events
+ * @param callback Callback function for room users events, with everyone in the call
  */
-export function onRoomUsers(callback: (users: string[]) => void): void {
+export function onRoomUsers(callback: (users: RoomUser[]) => void): void {
   const socket = initializeSocket();
 
   socket.on("room-users", callback);
 }
+
+/**
+ * Listen for join errors (unknown or closed rooms)
+ * @param callback Callback function for join errors
+ */
+export function onJoinError(
+  callback: (roomId: string, message: string) => void
+): void {
+  const socket = initializeSocket();
+
+  socket.on("join-error", callback);
+}
+
+/**
+ * Listen for the room being closed by its owner
+ * @param callback Callback function for room closed events
+ */
+export function onRoomClosed(callback: (roomId: string) => void): void {
+  const socket = initializeSocket();
+
+  socket.on("room-closed", callback);
+}
+
+/**
+ * Turn live captions on or off for everyone in a room
+ * @param roomId Room ID
+ * @param enabled Whether participants should caption their speech
+ */
+export async function setRoomCaptions(roomId: string, enabled: boolean): Promise<void> {
+  const socket = initializeSocket();
+
+  socket.emit("set-captions", roomId, enabled);
+}
+
+/**
+ * Share a line of the user's speech with the room. The server adds who said it.
+ * @param roomId Room ID
+ * @param caption Utterance ID, text and whether the line is final
+ */
+export async function sendCaption(
+  roomId: string,
+  caption: Pick<LiveCaption, "id" | "text" | "isFinal">
+): Promise<void> {
+  const socket = initializeSocket();
+
+  socket.emit("caption", roomId, caption);
+}
+
+/**
+ * Listen for live captions being turned on or off in the room
+ * @param callback Callback function with the new state and, if changed by a participant, who changed it
+ */
+export function onCaptionsState(
+  callback: (enabled: boolean, changedBy?: string) => void
+): void {
+  const socket = initializeSocket();
+
+  socket.on("captions-state", callback);
+}
+
+/**
+ * Listen for lines of other participants' speech
+ * @param callback Callback function for caption events
+ */
+export function onCaption(callback: (caption: LiveCaption) => void): void {
+  const socket = initializeSocket();
+
+  socket.on("caption", callback);
+}
+
+/**
+ * Send a chat message to the room
+ * @param roomId Room ID
+ * @param body Message text
+ * @returns Promise with the saved message
+ */
+export async function sendChatMessage(roomId: string, body: string): Promise<ChatMessage> {
+  const socket = initializeSocket();
+
+  const response: { message?: ChatMessage; error?: string } = await socket
+    .timeout(10000)
+    .emitWithAck("chat-message", roomId, body);
+
+  if (!response.message) {
+    throw new Error(response.error || "Failed to send message");
+  }
+  return response.message;
+}
+
+/**
+ * Tell the room whether the user is typing a message
+ * @param roomId Room ID
+ * @param isTyping Whether the user is typing
+ */
+export async function sendTyping(roomId: string, isTyping: boolean): Promise<void> {
+  const socket = initializeSocket();
+
+  socket.emit("typing", roomId, isTyping);
+}
+
+/**
+ * Listen for the chat sent before joining the room
+ * @param callback Callback function with the latest messages, oldest first
+ */
+export function onChatHistory(
+  callback: (roomId: string, messages: ChatMessage[]) => void
+): void {
+  const socket = initializeSocket();
+
+  socket.on("chat-history", callback);
+}
+
+/**
+ * Listen for chat messages from other participants
+ * @param callback Callback function for chat messages
+ */
+export function onChatMessage(callback: (message: ChatMessage) => void): void {
+  const socket = initializeSocket();
+
+  socket.on("chat-message", callback);
+}
+
+/**
+ * Listen for other participants starting or stopping typing
+ * @param callback Callback function with who is typing and whether they still are
+ */
+export function onTyping(
+  callback: (userId: string, name: string, isTyping: boolean) => void
+): void {
+  const socket = initializeSocket();
+
+  socket.on("typing", callback);
+}
+
+/**
+ * Listen for being told to wait until the host lets us in
+ * @param callback Callback function for the room being waited on
+ */
+export function onWaitingForAdmission(callback: (roomId: string) => void): void {
+  const socket = initializeSocket();
+
+  socket.on("waiting-for-admission", callback);
+}
+
+/**
+ * Listen for the host letting us in from the waiting room
+ * @param callback Callback function for admission
+ */
+export function onAdmitted(callback: (roomId: string) => void): void {
+  const socket = initializeSocket();
+
+  socket.on("admitted", callback);
+}
+
+/**
+ * Listen for the host removing us from the call
+ * @param callback Callback function for removal
+ */
+export function onRemovedFromRoom(callback: (roomId: string) => void): void {
+  const socket = initializeSocket();
+
+  socket.on("removed-from-room", callback);
+}
+
+/**
+ * Listen for what the host has turned off for us
+ * @param callback Callback function with our forced mute
+ */
+export function onForcedMute(
+  callback: (roomId: string, forcedMute: ForcedMute) => void
+): void {
+  const socket = initializeSocket();
+
+  socket.on("forced-mute", callback);
+}
+
+/**
+ * Listen for the room being locked or its waiting room turned on or off
+ * @param callback Callback function with the room's access settings
+ */
+export function onRoomAccess(
+  callback: (roomId: string, access: RoomAccess) => void
+): void {
+  const socket = initializeSocket();
+
+  socket.on("room-access", callback);
+}
+
+/**
+ * Listen for what the host has turned off for each participant. Only sent to the host.
+ * @param callback Callback function with forced mutes keyed by userId
+ */
+export function onForcedMutes(
+  callback: (roomId: string, forcedMutes: Record<string, ForcedMute>) => void
+): void {
+  const socket = initializeSocket();
+
+  socket.on("forced-mutes", callback);
+}
+
+/**
+ * Listen for changes to who is in the waiting room. Only sent to the host.
+ * @param callback Callback function with the waiting users, in the order they arrived
+ */
+export function onWaitingUsers(
+  callback: (roomId: string, users: WaitingUser[]) => void
+): void {
+  const socket = initializeSocket();
+
+  socket.on("waiting-users", callback);
+}
+
+/**
+ * As host, turn a participant's microphone or camera off, or let them turn it back on
+ * @param roomId Room ID
+ * @param userId The participant
+ * @param kind Microphone (audio) or camera (video)
+ * @param muted Whether to keep it off
+ */
+export async function setForcedMute(
+  roomId: string,
+  userId: string,
+  kind: keyof ForcedMute,
+  muted: boolean
+): Promise<void> {
+  const socket = initializeSocket();
+
+  socket.emit("set-forced-mute", roomId, userId, kind, muted);
+}
+
+/**
+ * As host, remove a participant from the call
+ * @param roomId Room ID
+ * @param userId The participant
+ */
+export async function removeParticipant(roomId: string, userId: string): Promise<void> {
+  const socket = initializeSocket();
+
+  socket.emit("remove-participant", roomId, userId);
+}
+
+/**
+ * As host, lock the room or turn its waiting room on or off
+ * @param roomId Room ID
+ * @param access The settings to change
+ */
+export async function setRoomAccess(roomId: string, access: Partial<RoomAccess>): Promise<void> {
+  const socket = initializeSocket();
+
+  socket.emit("set-room-access", roomId, access);
+}
+
+/**
+ * As host, let someone in from the waiting room
+ * @param roomId Room ID
+ * @param userId The waiting user
+ */
+export async function admitUser(roomId: string, userId: string): Promise<void> {
+  const socket = initializeSocket();
+
+  socket.emit("admit-user", roomId, userId);
+}
+
+/**
+ * As host, turn someone in the waiting room away
+ * @param roomId Room ID
+ * @param userId The waiting user
+ */
+export async function denyUser(roomId: string, userId: string): Promise<void> {
+  const socket = initializeSocket();
+
+  socket.emit("deny-user", roomId, userId);
+}
+
+/**
+ * Remove all room event listeners registered by the on* helpers
+ */
+export function removeRoomListeners(): void {
+  const socket = initializeSocket();
+
+  socket.off("signal");
+  socket.off("user-joined");
+  socket.off("user-left");
+  socket.off("room-users");
+  socket.off("join-error");
+  socket.off("room-closed");
+  socket.off("captions-state");
+  socket.off("caption");
+  socket.off("chat-history");
+  socket.off("chat-message");
+  socket.off("typing");
+  socket.off("waiting-for-admission");
+  socket.off("admitted");
+  socket.off("removed-from-room");
+  socket.off("forced-mute");
+  socket.off("room-access");
+  socket.off("forced-mutes");
+  socket.off("waiting-users");
+}
@@ -3,6 +3,23 @@
  */
 import { create } from 'zustand';
 import { UploadProgress } from './s3';
+import type { LiveCaption } from './liveCaptions';
+import type { TranscriptSegment } from './transcripts';
+import type { ChatMessage } from './chat';
+import type { FileTransfer } from './fileTransfer';
+import type { ForcedMute, RoomAccess, WaitingUser } from './rooms';
+
+// Recent caption lines kept for the overlay
+const MAX_CAPTION_LINES = 20;
+
+// Nothing turned off by the host
+const NO_FORCED_MUTE: ForcedMute = { audio: false, video: false };
+
+// Anyone can join, until the host says otherwise
+const OPEN_ROOM_ACCESS: RoomAccess = { isLocked: false, waitingRoomEnabled: false };
+
+// Abort controllers for files being sent, keyed by transfer ID
+const fileSendControllers = new Map<string, AbortController>();
 
 // Types for media state
 export interface MediaState {
@@ -12,14 +29,17 @@ export interface MediaState {
   cameraStream: MediaStream | null;
   screenStream: MediaStream | null;
   canvasStream: MediaStream | null;
-  remoteStream: MediaStream | null;
+  remoteStreams: Record<string, MediaStream>;  // Remote streams keyed by userId
 }
 
 // Types for recording state
 export interface RecordingState {
   isRecording: boolean;
+  isPaused: boolean;
   recordingStartTime: number | null;
-  recordingDuration: number;
+  pausedAt: number | null;  // When the current pause started
+  pausedDuration: number;  // Total time spent paused in completed pauses, in ms
+  recordingDuration: number;  // Recorded time excluding pauses, in ms
   recordedBlob: Blob | null;
   recordingPreviewUrl: string | null;
 }
@@ -28,8 +48,9 @@ export interface RecordingState {
 export interface UploadState {
   isUploading: boolean;
   uploadProgress: UploadProgress | null;
-  uploadedUrl: string | null;
+  uploadedRecordingId: string | null;
   uploadError: string | null;
+  streamingUpload: boolean;  // Upload chunks while recording instead of after it stops
 }
 
 // Types for connection state
@@ -38,37 +59,167 @@ export interface ConnectionState {
   isConnected: boolean;
   isConnecting: boolean;
   connectionError: string | null;
-  peerConnection: RTCPeerConnection | null;
+  peerConnections: Record<string, RTCPeerConnection>;  // One connection per remote userId
+  participantNames: Record<string, string>;  // Display name of everyone in the call, keyed by userId
+}
+
+// A caption line as shown in the call, updated until it is final
+export interface CaptionLine extends LiveCaption {
+  startedAt: number;  // When the utterance was first heard, in ms
+  updatedAt: number;
+}
+
+// Types for live caption state
+export interface CaptionState {
+  captionsEnabled: boolean;  // Whether everyone in the room captions their speech
+  captions: CaptionLine[];  // Recent lines from everyone, oldest first
+  recordedCaptions: TranscriptSegment[];  // Final lines said while recording, timed from its start
+}
+
+// Types for call chat state
+export interface ChatState {
+  chatMessages: ChatMessage[];  // Oldest first
+  typingUsers: Record<string, string>;  // Names of others typing, keyed by userId
+  isChatOpen: boolean;
+  unreadChatCount: number;  // Messages from others since the chat was last open
+}
+
+// Types for file sharing state
+export interface FileShareState {
+  fileChannels: Record<string, RTCDataChannel>;  // File channel to each peer, keyed by userId
+  fileTransfers: FileTransfer[];  // Files sent and received in this call, oldest first
+}
+
+// Types for host controls state
+export interface HostControlsState {
+  isWaitingForAdmission: boolean;  // In the lobby until the host lets us in
+  forcedMute: ForcedMute;  // What the host has turned off for us
+  roomAccess: RoomAccess;
+  forcedMutes: Record<string, ForcedMute>;  // Host only: what is turned off for each participant
+  waitingUsers: WaitingUser[];  // Host only: people waiting to be let in
 }
 
 // Combined state interface
-export interface AppState extends MediaState, RecordingState, UploadState, ConnectionState {
+export interface AppState
+  extends MediaState,
+    RecordingState,
+    UploadState,
+    ConnectionState,
+    CaptionState,
+    ChatState,
+    FileShareState,
+    HostControlsState {
   // Media actions
   toggleCamera: () => Promise<void>;
   toggleMic: () => Promise<void>;
   toggleScreenShare: () => Promise<void>;
-  setMediaStream: (type: 'camera' | 'screen' | 'canvas' | 'remote', stream: MediaStream | null) => void;
+  setMediaStream: (type: 'camera' | 'screen' | 'canvas', stream: MediaStream | null) => void;
 
   // Recording actions
   startRecording: () => Promise<void>;
   stopRecording: () => Promise<void>;
+  pauseRecording: () => void;
+  resumeRecording: () => void;
   setRecordedBlob: (blob: Blob | null) => void;
 
   // Upload actions
   startUpload: () => Promise<void>;
   updateUploadProgress: (progress: UploadProgress) => void;
-  setUploadedUrl: (url: string | null) => void;
+  setUploadedRecordingId: (recordingId: string | null) => void;
   setUploadError: (error: string | null) => void;
+  setStreamingUpload: (enabled: boolean) => void;
 
   // Connection actions
   joinRoom: (roomId: string) => Promise<void>;
   leaveRoom: () => Promise<void>;
   setConnectionError: (error: string | null) => void;
 
+  // Caption actions
+  setCaptionsEnabled: (enabled: boolean) => Promise<void>;
+  addCaption: (caption: LiveCaption) => void;
+
+  // Chat actions
+  sendChatMessage: (body: string) => Promise<void>;
+  setTyping: (isTyping: boolean) => void;
+  setChatOpen: (open: boolean) => void;
+
+  // File sharing actions
+  shareFile: (file: File) => Promise<void>;
+  cancelFileTransfer: (id: string) => void;
+  dismissFileTransfer: (id: string) => void;
+
+  // Host actions
+  setForcedMute: (userId: string, kind: keyof ForcedMute, muted: boolean) => Promise<void>;
+  removeParticipant: (userId: string) => Promise<void>;
+  setRoomAccess: (access: Partial<RoomAccess>) => Promise<void>;
+  admitUser: (userId: string) => Promise<void>;
+  denyUser: (userId: string) => Promise<void>;
+
   // Reset actions
   resetState: () => void;
 }
 
+/**
+ * Get how much has been recorded so far, excluding time spent paused
+ * @param state Recording state
+ * @param now Current time in ms
+ * @returns Recorded time in ms
+ */
+export function getRecordedTime(
+  state: Pick<RecordingState, 'recordingStartTime' | 'pausedAt' | 'pausedDuration'>,
+  now: number
+): number {
+  const { recordingStartTime, pausedAt, pausedDuration } = state;
+  if (!recordingStartTime) return 0;
+
+  const currentPause = pausedAt ? now - pausedAt : 0;
+  return Math.max(0, now - recordingStartTime - pausedDuration - currentPause);
+}
+
+/**
+ * Apply changes to one file transfer
+ * @param transfers Current transfers
+ * @param peerId The peer the file is going to or coming from
+ * @param id The transfer ID
+ * @param changes Fields to update
+ * @returns The updated transfers
+ */
+function updateFileTransfer(
+  transfers: FileTransfer[],
+  peerId: string,
+  id: string,
+  changes: Partial<FileTransfer>
+): FileTransfer[] {
+  return transfers.map((transfer) =>
+    transfer.id === id && transfer.peerId === peerId ? { ...transfer, ...changes } : transfer
+  );
+}
+
+/**
+ * Whether a transfer's progress has moved enough to be worth re-rendering.
+ * Chunks are small, so updating on every one would re-render thousands of times.
+ * @param transfer The transfer
+ * @param transferred Bytes transferred now
+ * @returns True if the whole percentage changed
+ */
+function hasVisibleProgress(transfer: FileTransfer | undefined, transferred: number): boolean {
+  if (!transfer || transfer.status !== 'transferring') return false;
+  if (transfer.size === 0) return true;
+
+  const percent = (bytes: number) => Math.floor((bytes / transfer.size) * 100);
+  return percent(transferred) !== percent(transfer.transferred);
+}
+
+/**
+ * Release the downloads of received files
+ * @param transfers The transfers
+ */
+function revokeFileTransferUrls(transfers: FileTransfer[]): void {
+  transfers.forEach((transfer) => {
+    if (transfer.url) URL.revokeObjectURL(transfer.url);
+  });
+}
+
 // Create store
 export const useAppStore = create<AppState>((set, get) => ({
   // Initial media state
@@ -78,11 +229,14 @@ export const useAppStore = create<AppState>((set, get) => ({
   cameraStream: null,
   screenStream: null,
   canvasStream: null,
-  remoteStream: null,
+  remoteStreams: {},
 
   // Initial recording state
   isRecording: false,
+  isPaused: false,
   recordingStartTime: null,
+  pausedAt: null,
+  pausedDuration: 0,
   recordingDuration: 0,
   recordedBlob: null,
   recordingPreviewUrl: null,
@@ -90,24 +244,50 @@ export const useAppStore = create<AppState>((set, get) => ({
   // Initial upload state
   isUploading: false,
   uploadProgress: null,
-  uploadedUrl: null,
+  uploadedRecordingId: null,
   uploadError: null,
+  streamingUpload: true,
 
   // Initial connection state
   roomId: null,
   isConnected: false,
   isConnecting: false,
   connectionError: null,
-  peerConnection: null,
+  peerConnections: {},
+  participantNames: {},
+
+  // Initial caption state
+  captionsEnabled: false,
+  captions: [],
+  recordedCaptions: [],
+
+  // Initial chat state
+  chatMessages: [],
+  typingUsers: {},
+  isChatOpen: false,
+  unreadChatCount: 0,
+
+  // Initial file sharing state
+  fileChannels: {},
+  fileTransfers: [],
+
+  // Initial host controls state
+  isWaitingForAdmission: false,
+  forcedMute: NO_FORCED_MUTE,
+  roomAccess: OPEN_ROOM_ACCESS,
+  forcedMutes: {},
+  waitingUsers: [],
 
   // Media actions
   toggleCamera: async () => {
-    const { cameraEnabled, cameraStream } = get();
+    const { cameraEnabled, cameraStream, forcedMute } = get();
 
     if (cameraEnabled && cameraStream) {
       // Stop camera
       cameraStream.getTracks().forEach((track) => track.stop());
       set({ cameraEnabled: false, cameraStream: null });
+    } else if (forcedMute.video) {
+      console.warn('The host has turned your camera off');
     } else {
       try {
         // Start camera
@@ -120,7 +300,7 @@ export const useAppStore = create<AppState>((set, get) => ({
   },
 
   toggleMic: async () => {
-    const { micEnabled, cameraStream } = get();
+    const { micEnabled, cameraStream, forcedMute } = get();
 
     if (micEnabled && cameraStream) {
       // Mute microphone
@@ -128,6 +308,8 @@ export const useAppStore = create<AppState>((set, get) => ({
         track.enabled = false;
       });
       set({ micEnabled: false });
+    } else if (forcedMute.audio) {
+      console.warn('The host has muted you');
     } else {
       try {
         // If no camera stream with audio, get new audio stream
@@ -193,9 +375,6 @@ export const useAppStore = create<AppState>((set, get) => ({
       case 'canvas':
         set({ canvasStream: stream });
         break;
-      case 'remote':
-        set({ remoteStream: stream });
-        break;
     }
   },
 
@@ -203,17 +382,42 @@ export const useAppStore = create<AppState>((set, get) => ({
   startRecording: async () => {
     set({
       isRecording: true,
+      isPaused: false,
       recordingStartTime: Date.now(),
+      pausedAt: null,
+      pausedDuration: 0,
       recordingDuration: 0,
+      recordedCaptions: [],
     });
   },
 
   stopRecording: async () => {
-    const { recordingStartTime } = get();
-
     set({
       isRecording: false,
-      recordingDuration: recordingStartTime ? Date.now() - recordingStartTime : 0,
+      isPaused: false,
+      pausedAt: null,
+      recordingDuration: getRecordedTime(get(), Date.now()),
+    });
+  },
+
+  pauseRecording: () => {
+    const { isRecording, isPaused } = get();
+    if (!isRecording || isPaused) return;
+
+    set({
+      isPaused: true,
+      pausedAt: Date.now(),
+    });
+  },
+
+  resumeRecording: () => {
+    const { isPaused, pausedAt, pausedDuration } = get();
+    if (!isPaused) return;
+
+    set({
+      isPaused: false,
+      pausedAt: null,
+      pausedDuration: pausedDuration + (pausedAt ? Date.now() - pausedAt : 0),
     });
   },
 
@@ -246,10 +450,10 @@ export const useAppStore = create<AppState>((set, get) => ({
     set({ uploadProgress: progress });
   },
 
-  setUploadedUrl: (url) => {
+  setUploadedRecordingId: (recordingId) => {
     set({
       isUploading: false,
-      uploadedUrl: url,
+      uploadedRecordingId: recordingId,
     });
   },
 
@@ -260,12 +464,17 @@ export const useAppStore = create<AppState>((set, get) => ({
     });
   },
 
+  setStreamingUpload: (enabled) => {
+    set({ streamingUpload: enabled });
+  },
+
   // Connection actions
   joinRoom: async (roomId) => {
     try {
       // Import socket functions
-      const { joinRoom: socketJoinRoom, onSignal, onUserJoined, onUserLeft } = await import('./socket');
-      const { createPeerConnection, addStreamToPeerConnection, createOffer, setRemoteDescription, addIceCandidate } = await import('./webrtc');
+      const { joinRoom: socketJoinRoom, sendSignal, onSignal, onUserJoined, onUserLeft, onRoomUsers, onJoinError, onRoomClosed, onCaptionsState, onCaption, onChatHistory, onChatMessage, onTyping, onWaitingForAdmission, onAdmitted, onRemovedFromRoom, onForcedMute, onRoomAccess, onForcedMutes, onWaitingUsers } = await import('./socket');
+      const { createPeerConnection, addStreamToPeerConnection, createFileChannel, createOffer, createAnswer, setRemoteDescription, addIceCandidate } = await import('./webrtc');
+      const { receiveFiles } = await import('./fileTransfer');
 
       // Set initial state
       set({
@@ -274,99 +483,297 @@ export const useAppStore = create<AppState>((set, get) => ({
         connectionError: null,
       });
 
-      // Create peer connection
-      const peerConnection = createPeerConnection();
-      set({ peerConnection });
+      // ICE candidates that arrive before the remote description is set, per peer
+      const pendingCandidates: Record<string, RTCIceCandidateInit[]> = {};
 
-      // Add local stream to peer connection if available
-      const { cameraStream, screenStream, canvasStream } = get();
-      const localStream = canvasStream || screenStream || cameraStream;
-      if (localStream) {
-        addStreamToPeerConnection(peerConnection, localStream);
-      }
+      // Recompute the aggregate connection state from all peers
+      const updateConnectionState = () => {
+        const peers = Object.values(get().peerConnections);
+        set({ isConnected: peers.some((pc) => pc.connectionState === 'connected') });
+      };
 
-      // Set up ICE candidate event
-      peerConnection.onicecandidate = async (event) => {
-        if (event.candidate) {
-          // Send ICE candidate to peers
-          const { sendSignal } = await import('./socket');
-          await sendSignal(roomId, {
-            type: 'ice-candidate',
-            candidate: event.candidate,
-          });
-        }
+      // Close and forget the connection to a single peer
+      const removePeer = (userId: string) => {
+        const { peerConnections, remoteStreams, fileChannels } = get();
+        const peerConnection = peerConnections[userId];
+
+        // Only close the connection; the local tracks are shared with other peers.
+        // Closing it closes the file channel, which fails any files in flight.
+        peerConnection?.close();
+        delete pendingCandidates[userId];
+
+        const remainingPeers = { ...peerConnections };
+        const remainingStreams = { ...remoteStreams };
+        const remainingChannels = { ...fileChannels };
+        delete remainingPeers[userId];
+        delete remainingStreams[userId];
+        delete remainingChannels[userId];
+        set({ peerConnections: remainingPeers, remoteStreams: remainingStreams, fileChannels: remainingChannels });
+        updateConnectionState();
       };
 
-      // Set up track event to receive remote streams
-      peerConnection.ontrack = (event) => {
-        if (event.streams && event.streams[0]) {
-          set({ remoteStream: event.streams[0] });
-        }
+      // Track the files a peer sends us
+      const receiveFilesFrom = (userId: string, channel: RTCDataChannel) => {
+        const update = (id: string, changes: Partial<FileTransfer>) => {
+          set({ fileTransfers: updateFileTransfer(get().fileTransfers, userId, id, changes) });
+        };
+
+        receiveFiles(channel, {
+          onStart: (file) => {
+            const transfer: FileTransfer = {
+              id: file.id,
+              peerId: userId,
+              direction: 'receive',
+              name: file.name,
+              size: file.size,
+              transferred: 0,
+              status: 'transferring',
+            };
+            set({ fileTransfers: [...get().fileTransfers, transfer] });
+          },
+          onProgress: (id, received) => {
+            const transfer = get().fileTransfers.find((t) => t.id === id && t.peerId === userId);
+            if (hasVisibleProgress(transfer, received)) update(id, { transferred: received });
+          },
+          onComplete: (id, blob) => {
+            update(id, { status: 'complete', transferred: blob.size, url: URL.createObjectURL(blob) });
+          },
+          onFail: (id, error) => update(id, { status: 'failed', error }),
+          onCancel: (id) => update(id, { status: 'cancelled' }),
+        });
       };
 
-      // Set up connection state change event
-      peerConnection.onconnectionstatechange = () => {
-        const state = peerConnection.connectionState;
-        console.log('Connection state changed:', state);
+      // Get the connection to a peer, creating it on first contact
+      const getOrCreatePeer = (userId: string): RTCPeerConnection => {
+        const existing = get().peerConnections[userId];
+        if (existing) return existing;
+
+        const peerConnection = createPeerConnection();
 
-        if (state === 'connected') {
-          set({ isConnected: true, isConnecting: false });
-        } else if (state === 'disconnected' || state === 'failed' || state === 'closed') {
-          set({ isConnected: false, isConnecting: false });
+        // The file channel is part of the first offer and answer, so it must exist before either
+        const fileChannel = createFileChannel(peerConnection);
+        receiveFilesFrom(userId, fileChannel);
+
+        // Add local stream to peer connection if available
+        const { cameraStream, screenStream, canvasStream } = get();
+        const localStream = canvasStream || screenStream || cameraStream;
+        if (localStream) {
+          addStreamToPeerConnection(peerConnection, localStream);
         }
+
+        // Send ICE candidates to this peer only
+        peerConnection.onicecandidate = (event) => {
+          if (event.candidate) {
+            sendSignal(roomId, userId, {
+              type: 'ice-candidate',
+              candidate: event.candidate,
+            });
+          }
+        };
+
+        // Receive the peer's remote stream
+        peerConnection.ontrack = (event) => {
+          if (event.streams && event.streams[0]) {
+            set({ remoteStreams: { ...get().remoteStreams, [userId]: event.streams[0] } });
+          }
+        };
+
+        // Track connection state changes
+        peerConnection.onconnectionstatechange = () => {
+          const state = peerConnection.connectionState;
+          console.log(`Connection state with ${userId} changed:`, state);
+
+          if (state === 'connected') {
+            set({ isConnecting: false });
+          } else if (state === 'failed' || state === 'closed') {
+            removePeer(userId);
+            return;
+          }
+          updateConnectionState();
+        };
+
+        set({
+          peerConnections: { ...get().peerConnections, [userId]: peerConnection },
+          fileChannels: { ...get().fileChannels, [userId]: fileChannel },
+        });
+        return peerConnection;
       };
 
-      // Join room via socket
-      await socketJoinRoom(roomId);
+      // Apply the remote description and flush any queued ICE candidates
+      const applyRemoteDescription = async (userId: string, peerConnection: RTCPeerConnection, sdp: RTCSessionDescriptionInit) => {
+        await setRemoteDescription(peerConnection, sdp);
+
+        const queued = pendingCandidates[userId] || [];
+        delete pendingCandidates[userId];
+        for (const candidate of queued) {
+          await addIceCandidate(peerConnection, candidate);
+        }
+      };
 
       // Set up signal event listener
       onSignal(async (userId, signal) => {
         try {
-          if (signal.type === 'offer') {
-            await setRemoteDescription(peerConnection, signal.sdp);
+          const peerConnection = getOrCreatePeer(userId);
 
-            // Create answer
-            const answer = await peerConnection.createAnswer();
-            await peerConnection.setLocalDescription(answer);
+          if (signal.type === 'offer') {
+            await applyRemoteDescription(userId, peerConnection, signal.sdp);
 
-            // Send answer
-            const { sendSignal } = await import('./socket');
-            await sendSignal(roomId, {
+            // Create and send answer back to the offering peer
+            const answer = await createAnswer(peerConnection);
+            await sendSignal(roomId, userId, {
               type: 'answer',
               sdp: answer,
             });
           } else if (signal.type === 'answer') {
-            await setRemoteDescription(peerConnection, signal.sdp);
+            await applyRemoteDescription(userId, peerConnection, signal.sdp);
           } else if (signal.type === 'ice-candidate') {
-            await addIceCandidate(peerConnection, signal.candidate);
+            if (peerConnection.remoteDescription) {
+              await addIceCandidate(peerConnection, signal.candidate);
+            } else {
+              pendingCandidates[userId] = [...(pendingCandidates[userId] || []), signal.candidate];
+            }
           }
         } catch (error) {
-          console.error('Error handling signal:', error);
+          console.error(`Error handling signal from ${userId}:`, error);
         }
       });
 
-      // Set up user joined event listener
-      onUserJoined(async (userId) => {
+      // Existing participants offer to each newcomer, so every pair negotiates exactly once
+      onUserJoined(async (userId, name) => {
+        set({ participantNames: { ...get().participantNames, [userId]: name } });
+
         try {
-          // Create and send offer when new user joins
+          // A rejoining peer needs a fresh connection
+          if (get().peerConnections[userId]) {
+            removePeer(userId);
+          }
+
+          const peerConnection = getOrCreatePeer(userId);
           const offer = await createOffer(peerConnection);
 
-          // Send offer
-          const { sendSignal } = await import('./socket');
-          await sendSignal(roomId, {
+          await sendSignal(roomId, userId, {
             type: 'offer',
             sdp: offer,
           });
         } catch (error) {
-          console.error('Error creating offer:', error);
+          console.error(`Error creating offer for ${userId}:`, error);
         }
       });
 
-      // Set up user left event listener
+      // Tear down the connection when a peer leaves
       onUserLeft((userId) => {
         console.log('User left:', userId);
+        removePeer(userId);
+
+        const typingUsers = { ...get().typingUsers };
+        delete typingUsers[userId];
+        set({ typingUsers });
+      });
+
+      // Everyone's names, to label their video; sent whenever someone joins or leaves
+      onRoomUsers((users) => {
+        set({ participantNames: Object.fromEntries(users.map((user) => [user.userId, user.name])) });
+      });
+
+      // The server rejects unknown, closed or locked rooms, and the host may turn us away
+      onJoinError((_, message) => {
+        set({ connectionError: message, isConnecting: false, isWaitingForAdmission: false });
+      });
+
+      // Drop every connection when we are shut out of the call
+      const disconnectFromCall = (reason: string) => {
+        Object.values(get().peerConnections).forEach((peerConnection) => peerConnection.close());
+        set({
+          peerConnections: {},
+          participantNames: {},
+          remoteStreams: {},
+          fileChannels: {},
+          isConnected: false,
+          isConnecting: false,
+          connectionError: reason,
+          captionsEnabled: false,
+          isWaitingForAdmission: false,
+          waitingUsers: [],
+        });
+      };
+
+      // The owner closed the room while we were in it
+      onRoomClosed(() => disconnectFromCall('The room was closed by its owner'));
+
+      // The host removed us; the server has already taken us out of the room
+      onRemovedFromRoom(() => disconnectFromCall('The host removed you from this call'));
+
+      // With the waiting room on, we wait in the lobby until the host lets us in
+      onWaitingForAdmission(() => {
+        set({ isWaitingForAdmission: true, isConnecting: false });
+      });
+
+      onAdmitted(() => {
+        set({ isWaitingForAdmission: false, isConnecting: true });
+      });
+
+      // The host turned our microphone or camera off; keep it off until they allow it again
+      onForcedMute(async (_, forcedMute) => {
+        set({ forcedMute });
+
+        const { micEnabled, cameraEnabled, toggleMic, toggleCamera } = get();
+        if (forcedMute.audio && micEnabled) await toggleMic();
+        if (forcedMute.video && cameraEnabled) await toggleCamera();
+      });
+
+      onRoomAccess((_, roomAccess) => {
+        set({ roomAccess });
+      });
+
+      onForcedMutes((_, forcedMutes) => {
+        set({ forcedMutes });
+      });
+
+      onWaitingUsers((_, waitingUsers) => {
+        set({ waitingUsers });
+      });
+
+      // Captions are turned on or off for the whole room
+      onCaptionsState((enabled) => {
+        set({ captionsEnabled: enabled, captions: enabled ? get().captions : [] });
+      });
+
+      // Other participants' speech, attributed by the server
+      onCaption((caption) => {
+        get().addCaption(caption);
+      });
+
+      // The chat so far is sent on joining; it has been seen before or is history
+      onChatHistory((_, messages) => {
+        set({ chatMessages: messages });
+      });
+
+      // Our own messages come back from sendChatMessage, so these are from others
+      onChatMessage((message) => {
+        const { chatMessages, typingUsers, isChatOpen, unreadChatCount } = get();
+        const remainingTyping = { ...typingUsers };
+        delete remainingTyping[message.userId];
+
+        set({
+          chatMessages: [...chatMessages, message],
+          typingUsers: remainingTyping,
+          unreadChatCount: isChatOpen ? 0 : unreadChatCount + 1,
+        });
+      });
+
+      onTyping((userId, name, isTyping) => {
+        const typingUsers = { ...get().typingUsers };
+        if (isTyping) {
+          typingUsers[userId] = name;
+        } else {
+          delete typingUsers[userId];
+        }
+        set({ typingUsers });
       });
 
+      // Join room via socket once listeners are in place
+      await socketJoinRoom(roomId);
+
     } catch (error) {
       console.error('Error joining room:', error);
       set({
@@ -379,27 +786,27 @@ export const useAppStore = create<AppState>((set, get) => ({
   leaveRoom: async () => {
     const {
       roomId,
-      peerConnection,
+      peerConnections,
       cameraStream,
       screenStream,
       canvasStream,
-      recordingPreviewUrl
+      recordingPreviewUrl,
+      fileTransfers,
     } = get();
 
     // Notify server that user is leaving the room
     if (roomId) {
       try {
-        const { leaveRoom: socketLeaveRoom } = await import('./socket');
+        const { leaveRoom: socketLeaveRoom, removeRoomListeners } = await import('./socket');
+        removeRoomListeners();
         await socketLeaveRoom(roomId);
       } catch (error) {
         console.error('Error leaving room via socket:', error);
       }
     }
 
-    // Close peer connection if exists
-    if (peerConnection) {
-      peerConnection.close();
-    }
+    // Close all peer connections
+    Object.values(peerConnections).forEach((peerConnection) => peerConnection.close());
 
     // Stop all media streams
     [cameraStream, screenStream, canvasStream].forEach((stream) => {
@@ -413,12 +820,18 @@ export const useAppStore = create<AppState>((set, get) => ({
       URL.revokeObjectURL(recordingPreviewUrl);
     }
 
+    // Stop sending files and release received ones
+    fileSendControllers.forEach((controller) => controller.abort());
+    fileSendControllers.clear();
+    revokeFileTransferUrls(fileTransfers);
+
     set({
       // Reset connection state
       roomId: null,
       isConnected: false,
       isConnecting: false,
-      peerConnection: null,
+      peerConnections: {},
+      participantNames: {},
 
       // Reset media state
       cameraEnabled: false,
@@ -427,7 +840,28 @@ export const useAppStore = create<AppState>((set, get) => ({
       cameraStream: null,
       screenStream: null,
       canvasStream: null,
-      remoteStream: null,
+      remoteStreams: {},
+
+      // Reset caption state
+      captionsEnabled: false,
+      captions: [],
+
+      // Reset chat state
+      chatMessages: [],
+      typingUsers: {},
+      isChatOpen: false,
+      unreadChatCount: 0,
+
+      // Reset file sharing state
+      fileChannels: {},
+      fileTransfers: [],
+
+      // Reset host controls state
+      isWaitingForAdmission: false,
+      forcedMute: NO_FORCED_MUTE,
+      roomAccess: OPEN_ROOM_ACCESS,
+      forcedMutes: {},
+      waitingUsers: [],
     });
   },
 
@@ -438,14 +872,195 @@ export const useAppStore = create<AppState>((set, get) => ({
     });
   },
 
+  // Caption actions
+  setCaptionsEnabled: async (enabled) => {
+    const { roomId } = get();
+    if (!roomId) return;
+
+    // The room's new state comes back to everyone, including us
+    const { setRoomCaptions } = await import('./socket');
+    await setRoomCaptions(roomId, enabled);
+  },
+
+  addCaption: (caption) => {
+    const now = Date.now();
+    const { captions, recordedCaptions, isRecording, isPaused } = get();
+
+    // Interim lines are replaced in place as the utterance is recognized
+    const existing = captions.find((line) => line.id === caption.id && line.userId === caption.userId);
+    const line: CaptionLine = { ...caption, startedAt: existing?.startedAt ?? now, updatedAt: now };
+    const updatedCaptions = existing
+      ? captions.map((current) => (current === existing ? line : current))
+      : [...captions, line].slice(-MAX_CAPTION_LINES);
+
+    // Keep what was said while recording, timed like the recording, to save with it
+    let updatedRecordedCaptions = recordedCaptions;
+    if (caption.isFinal && isRecording && !isPaused) {
+      const end = getRecordedTime(get(), now) / 1000;
+      const start = Math.min(end, getRecordedTime(get(), line.startedAt) / 1000);
+      updatedRecordedCaptions = [
+        ...recordedCaptions,
+        { start, end, text: caption.text, speaker: caption.speaker },
+      ];
+    }
+
+    set({ captions: updatedCaptions, recordedCaptions: updatedRecordedCaptions });
+  },
+
+  // Chat actions
+  sendChatMessage: async (body) => {
+    const { roomId } = get();
+    if (!roomId) throw new Error('You are not in a room');
+
+    const { sendChatMessage: socketSendChatMessage } = await import('./socket');
+    const message = await socketSendChatMessage(roomId, body);
+    set({ chatMessages: [...get().chatMessages, message] });
+  },
+
+  setTyping: (isTyping) => {
+    const { roomId } = get();
+    if (!roomId) return;
+
+    import('./socket')
+      .then(({ sendTyping }) => sendTyping(roomId, isTyping))
+      .catch((error) => console.error('Error sending typing state:', error));
+  },
+
+  setChatOpen: (open) => {
+    set({ isChatOpen: open, unreadChatCount: open ? 0 : get().unreadChatCount });
+  },
+
+  // File sharing actions
+  shareFile: async (file) => {
+    const { sendFile, MAX_FILE_SIZE } = await import('./fileTransfer');
+    const peers = Object.entries(get().fileChannels);
+
+    if (peers.length === 0) {
+      throw new Error('There is no one else in the call to send files to');
+    }
+    if (file.size > MAX_FILE_SIZE) {
+      throw new Error(`Files can be at most ${Math.round(MAX_FILE_SIZE / (1024 * 1024))} MB`);
+    }
+
+    // Each participant gets their own copy, with its own progress
+    const sends = peers.map(([peerId, channel]) => {
+      const id = crypto.randomUUID();
+      const controller = new AbortController();
+      fileSendControllers.set(id, controller);
+
+      const transfer: FileTransfer = {
+        id,
+        peerId,
+        direction: 'send',
+        name: file.name,
+        size: file.size,
+        transferred: 0,
+        status: 'transferring',
+      };
+      set({ fileTransfers: [...get().fileTransfers, transfer] });
+
+      const update = (changes: Partial<FileTransfer>) => {
+        set({ fileTransfers: updateFileTransfer(get().fileTransfers, peerId, id, changes) });
+      };
+
+      return sendFile(channel, file, {
+        id,
+        signal: controller.signal,
+        onProgress: (sent) => {
+          const current = get().fileTransfers.find((t) => t.id === id && t.peerId === peerId);
+          if (hasVisibleProgress(current, sent)) update({ transferred: sent });
+        },
+      })
+        .then(() => update({ status: 'complete', transferred: file.size }))
+        .catch((error) => {
+          // Cancelled transfers were already marked by cancelFileTransfer
+          if (controller.signal.aborted) return;
+
+          console.error(`Error sending ${file.name} to ${peerId}:`, error);
+          update({ status: 'failed', error: error instanceof Error ? error.message : String(error) });
+        })
+        .finally(() => fileSendControllers.delete(id));
+    });
+
+    await Promise.all(sends);
+  },
+
+  cancelFileTransfer: (id) => {
+    // Only files we are sending can be cancelled
+    const controller = fileSendControllers.get(id);
+    if (!controller) return;
+
+    controller.abort();
+    set({
+      fileTransfers: get().fileTransfers.map((transfer) =>
+        transfer.id === id && transfer.direction === 'send' && transfer.status === 'transferring'
+          ? { ...transfer, status: 'cancelled' }
+          : transfer
+      ),
+    });
+  },
+
+  dismissFileTransfer: (id) => {
+    const { fileTransfers } = get();
+    const dismissed = fileTransfers.filter((transfer) => transfer.id === id);
+
+    // Cancel it first if it is still being sent
+    get().cancelFileTransfer(id);
+    revokeFileTransferUrls(dismissed);
+    set({ fileTransfers: get().fileTransfers.filter((transfer) => transfer.id !== id) });
+  },
+
+  // Host actions; the server ignores them from anyone but the host
+  setForcedMute: async (userId, kind, muted) => {
+    const { roomId } = get();
+    if (!roomId) return;
+
+    const { setForcedMute: socketSetForcedMute } = await import('./socket');
+    await socketSetForcedMute(roomId, userId, kind, muted);
+  },
+
+  removeParticipant: async (userId) => {
+    const { roomId } = get();
+    if (!roomId) return;
+
+    const { removeParticipant: socketRemoveParticipant } = await import('./socket');
+    await socketRemoveParticipant(roomId, userId);
+  },
+
+  setRoomAccess: async (access) => {
+    const { roomId } = get();
+    if (!roomId) return;
+
+    // The new settings come back to everyone, including us
+    const { setRoomAccess: socketSetRoomAccess } = await import('./socket');
+    await socketSetRoomAccess(roomId, access);
+  },
+
+  admitUser: async (userId) => {
+    const { roomId } = get();
+    if (!roomId) return;
+
+    const { admitUser: socketAdmitUser } = await import('./socket');
+    await socketAdmitUser(roomId, userId);
+  },
+
+  denyUser: async (userId) => {
+    const { roomId } = get();
+    if (!roomId) return;
+
+    const { denyUser: socketDenyUser } = await import('./socket');
+    await socketDenyUser(roomId, userId);
+  },
+
   // Reset state
   resetState: () => {
     const {
       cameraStream,
       screenStream,
       canvasStream,
-      peerConnection,
+      peerConnections,
       recordingPreviewUrl,
+      fileTransfers,
     } = get();
 
     // Stop all media streams
@@ -455,16 +1070,19 @@ export const useAppStore = create<AppState>((set, get) => ({
       }
     });
 
-    // Close peer connection
-    if (peerConnection) {
-      peerConnection.close();
-    }
+    // Close all peer connections
+    Object.values(peerConnections).forEach((peerConnection) => peerConnection.close());
 
     // Revoke object URL
     if (recordingPreviewUrl) {
       URL.revokeObjectURL(recordingPreviewUrl);
     }
 
+    // Stop sending files and release received ones
+    fileSendControllers.forEach((controller) => controller.abort());
+    fileSendControllers.clear();
+    revokeFileTransferUrls(fileTransfers);
+
     // Reset to initial state
     set({
       // Media state
@@ -474,11 +1092,14 @@ export const useAppStore = create<AppState>((set, get) => ({
       cameraStream: null,
       screenStream: null,
       canvasStream: null,
-      remoteStream: null,
+      remoteStreams: {},
 
       // Recording state
       isRecording: false,
+      isPaused: false,
       recordingStartTime: null,
+      pausedAt: null,
+      pausedDuration: 0,
       recordingDuration: 0,
       recordedBlob: null,
       recordingPreviewUrl: null,
@@ -486,7 +1107,7 @@ export const useAppStore = create<AppState>((set, get) => ({
       // Upload state
       isUploading: false,
       uploadProgress: null,
-      uploadedUrl: null,
+      uploadedRecordingId: null,
       uploadError: null,
 
       // Connection state
@@ -494,7 +1115,30 @@ export const useAppStore = create<AppState>((set, get) => ({
       isConnected: false,
       isConnecting: false,
       connectionError: null,
-      peerConnection: null,
+      peerConnections: {},
+      participantNames: {},
+
+      // Caption state
+      captionsEnabled: false,
+      captions: [],
+      recordedCaptions: [],
+
+      // Chat state
+      chatMessages: [],
+      typingUsers: {},
+      isChatOpen: false,
+      unreadChatCount: 0,
+
+      // File sharing state
+      fileChannels: {},
+      fileTransfers: [],
+
+      // Host controls state
+      isWaitingForAdmission: false,
+      forcedMute: NO_FORCED_MUTE,
+      roomAccess: OPEN_ROOM_ACCESS,
+      forcedMutes: {},
+      waitingUsers: [],
     });
   },
 }));
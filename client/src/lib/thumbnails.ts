@@ -0,0 +1,94 @@
+/**
+ * Preview sprite helpers. The server stores a WebVTT track whose cues point
+ * at regions of a sprite sheet, e.g. "sprite.jpg#xywh=0,0,160,90".
+ */
+
+export interface SpriteCue {
+  start: number;
+  end: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Cues are cached per track, since the signed URL changes on every listing
+const cueCache = new Map<string, Promise<SpriteCue[]>>();
+
+/**
+ * Parse a WebVTT timestamp
+ * @param timestamp Timestamp in [HH:]MM:SS.mmm form
+ * @returns Time in seconds
+ */
+function parseVttTime(timestamp: string): number {
+  return timestamp
+    .trim()
+    .split(':')
+    .reduce((total, part) => total * 60 + parseFloat(part), 0);
+}
+
+/**
+ * Parse a sprite thumbnails track
+ * @param vtt WebVTT file contents
+ * @returns The cues with their sprite regions
+ */
+export function parseSpriteVtt(vtt: string): SpriteCue[] {
+  const cues: SpriteCue[] = [];
+  const lines = vtt.split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    if (!lines[i].includes('-->')) continue;
+
+    const [start, end] = lines[i].split('-->');
+    const match = lines[i + 1]?.match(/#xywh=(\d+),(\d+),(\d+),(\d+)/);
+    if (!match) continue;
+
+    cues.push({
+      start: parseVttTime(start),
+      end: parseVttTime(end),
+      x: Number(match[1]),
+      y: Number(match[2]),
+      width: Number(match[3]),
+      height: Number(match[4]),
+    });
+  }
+
+  return cues;
+}
+
+/**
+ * Load and parse a recording's sprite thumbnails track
+ * @param recordingId Recording ID, used as the cache key
+ * @param vttUrl Signed URL of the track
+ * @returns Promise with the cues
+ */
+export function loadSpriteCues(recordingId: string, vttUrl: string): Promise<SpriteCue[]> {
+  let cues = cueCache.get(recordingId);
+
+  if (!cues) {
+    cues = fetch(vttUrl)
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error(`Failed to load thumbnails track: ${response.status}`);
+        }
+        return response.text();
+      })
+      .then(parseSpriteVtt);
+
+    // Let a failed load be retried
+    cues.catch(() => cueCache.delete(recordingId));
+    cueCache.set(recordingId, cues);
+  }
+
+  return cues;
+}
+
+/**
+ * Find the cue covering a point in time
+ * @param cues Sprite cues in time order
+ * @param time Time in seconds
+ * @returns The cue, or the last one if the time is past the end
+ */
+export function findSpriteCue(cues: SpriteCue[], time: number): SpriteCue | null {
+  return cues.find((cue) => time >= cue.start && time < cue.end) ?? cues[cues.length - 1] ?? null;
+}
@@ -0,0 +1,66 @@
+/**
+ * Transcript API functions
+ */
+import { apiRequest, apiRequestText } from './api';
+
+// Types for transcripts
+export type TranscriptStatus = 'queued' | 'processing' | 'ready' | 'failed';
+
+export type CaptionFormat = 'vtt' | 'srt';
+
+export interface TranscriptSegment {
+  // Seconds from the start of the recording
+  start: number;
+  end: number;
+  text: string;
+  // Who said it, for captions from a call
+  speaker?: string | null;
+}
+
+export interface Transcript {
+  id: string;
+  recordingId: string;
+  status: TranscriptStatus;
+  error: string | null;
+  language: string | null;
+  segments: TranscriptSegment[];
+  updatedAt: string;
+}
+
+/**
+ * Build the transcript endpoint for a recording
+ * @param recordingId Recording ID
+ * @returns The endpoint path
+ */
+function transcriptPath(recordingId: string): string {
+  return `/api/recordings/${encodeURIComponent(recordingId)}/transcript`;
+}
+
+/**
+ * Get a recording's transcript. Fails if the recording has none yet.
+ * @param recordingId Recording ID
+ * @returns Promise with the transcript's status and, once ready, its segments
+ */
+export async function getTranscript(recordingId: string): Promise<Transcript> {
+  return apiRequest<Transcript>(transcriptPath(recordingId));
+}
+
+/**
+ * Transcribe a recording again, e.g. after a failure
+ * @param recordingId Recording ID
+ */
+export async function requestTranscript(recordingId: string): Promise<void> {
+  await apiRequest<{ status: TranscriptStatus }>(transcriptPath(recordingId), {
+    method: 'POST',
+  });
+}
+
+/**
+ * Get a recording's transcript as a caption file
+ * @param recordingId Recording ID
+ * @param format 'vtt' for WebVTT or 'srt' for SubRip
+ * @returns Promise with the file contents
+ */
+export async function getCaptions(recordingId: string, format: CaptionFormat): Promise<string> {
+  return apiRequestText(`${transcriptPath(recordingId)}/captions.${format}`);
+}
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { makeWebmSeekable } from './webm';
+
+const UNKNOWN_SIZE = [0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff];
+
+/**
+ * Encode an element with a one-byte size, which every element here fits in
+ */
+function element(id: number[], children: number[][]): number[] {
+  const payload = children.flat();
+  return [...id, 0x80 | payload.length, ...payload];
+}
+
+/**
+ * Encode a live element whose size is unknown, as MediaRecorder writes segments and clusters
+ */
+function liveElement(id: number[], children: number[][]): number[] {
+  return [...id, ...UNKNOWN_SIZE, ...children.flat()];
+}
+
+function simpleBlock(relativeTimestamp: number): number[] {
+  // Track 1, a 16-bit relative timestamp, keyframe flags, then a few bytes of frame data
+  return element([0xa3], [[0x81, relativeTimestamp >> 8, relativeTimestamp & 0xff, 0x80, 1, 2, 3]]);
+}
+
+function cluster(timecode: number, relativeTimestamps: number[]): number[] {
+  return liveElement(
+    [0x1f, 0x43, 0xb6, 0x75],
+    [element([0xe7], [[timecode >> 8, timecode & 0xff]]), ...relativeTimestamps.map(simpleBlock)]
+  );
+}
+
+/**
+ * Build a live recording like MediaRecorder's: two clusters, at 0 s and 1 s, with blocks up to 1.2 s
+ */
+function buildLiveRecording(): { bytes: Uint8Array; headerSize: number } {
+  const ebmlHeader = element([0x1a, 0x45, 0xdf, 0xa3], [element([0x42, 0x82], [[0x77, 0x65, 0x62, 0x6d]])]);
+  const info = element([0x15, 0x49, 0xa9, 0x66], [element([0x2a, 0xd7, 0xb1], [[0x0f, 0x42, 0x40]])]);
+  const tracks = element(
+    [0x16, 0x54, 0xae, 0x6b],
+    [element([0xae], [element([0xd7], [[1]]), element([0x83], [[1]])])]
+  );
+  const clusters = [...cluster(0, [0, 500]), ...cluster(1000, [0, 200])];
+
+  const segmentHeader = [0x18, 0x53, 0x80, 0x67, ...UNKNOWN_SIZE, ...info, ...tracks];
+  return {
+    bytes: new Uint8Array([...ebmlHeader, ...segmentHeader, ...clusters]),
+    headerSize: ebmlHeader.length + segmentHeader.length,
+  };
+}
+
+async function toBytes(blob: Blob): Promise<Uint8Array> {
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+describe('makeWebmSeekable', () => {
+  it('reports the duration up to the last block', async () => {
+    const { bytes } = buildLiveRecording();
+
+    const result = await makeWebmSeekable(new Blob([bytes], { type: 'video/webm' }));
+
+    expect(result?.durationMs).toBe(1200);
+  });
+
+  it('replaces only the header and leaves the clusters untouched', async () => {
+    const { bytes, headerSize } = buildLiveRecording();
+
+    const result = await makeWebmSeekable(new Blob([bytes], { type: 'video/webm' }));
+
+    expect(result?.originalHeaderSize).toBe(headerSize);
+    const output = await toBytes(result!.blob);
+    const header = await toBytes(result!.header);
+    expect(output.slice(0, header.length)).toEqual(header);
+    expect(output.slice(header.length)).toEqual(bytes.slice(headerSize));
+  });
+
+  it('writes a segment size that covers the rest of the file', async () => {
+    const { bytes } = buildLiveRecording();
+
+    const result = await makeWebmSeekable(new Blob([bytes], { type: 'video/webm' }));
+
+    // The segment ID follows the EBML header, whose size fits in one byte here
+    const output = await toBytes(result!.blob);
+    const sizePosition = 5 + (output[4] & 0x7f) + 4;
+    const sizeLength = Math.clz32(output[sizePosition]) - 23;
+    let size = output[sizePosition] & (0xff >> sizeLength);
+    for (let i = 1; i < sizeLength; i++) {
+      size = size * 256 + output[sizePosition + i];
+    }
+    expect(size).toBe(output.length - sizePosition - sizeLength);
+  });
+
+  it('produces a file that reads back with the same duration', async () => {
+    const { bytes } = buildLiveRecording();
+    const result = await makeWebmSeekable(new Blob([bytes], { type: 'video/webm' }));
+
+    const reread = await makeWebmSeekable(result!.blob);
+
+    expect(reread?.durationMs).toBe(1200);
+    expect(await toBytes(reread!.blob)).toEqual(await toBytes(result!.blob));
+  });
+
+  it('reads recordings cut off partway through a block', async () => {
+    const { bytes } = buildLiveRecording();
+
+    // Drop the end of the last block, as a crash mid-write would
+    const result = await makeWebmSeekable(new Blob([bytes.slice(0, bytes.length - 3)], { type: 'video/webm' }));
+
+    expect(result?.durationMs).toBe(1000);
+  });
+
+  it('returns null for files that are not WebM', async () => {
+    const result = await makeWebmSeekable(new Blob([new Uint8Array([0x00, 0x00, 0x00, 0x18, 0x66, 0x74, 0x79, 0x70])]));
+
+    expect(result).toBeNull();
+  });
+});
@@ -0,0 +1,480 @@
+/**
+ * WebM post-processing for MediaRecorder output. MediaRecorder writes live
+ * WebM: no duration, no cues and an unknown segment size, so most players
+ * cannot seek it. This rewrites the header in front of the first cluster with
+ * a duration, a seek head and cues. The clusters themselves are left
+ * byte-for-byte unchanged, so only the header needs replacing.
+ */
+
+// EBML element IDs used here
+const EBML_ID = 0x1a45dfa3;
+const SEGMENT_ID = 0x18538067;
+const SEEK_HEAD_ID = 0x114d9b74;
+const SEEK_ID = 0x4dbb;
+const SEEK_ID_ID = 0x53ab;
+const SEEK_POSITION_ID = 0x53ac;
+const INFO_ID = 0x1549a966;
+const TIMECODE_SCALE_ID = 0x2ad7b1;
+const DURATION_ID = 0x4489;
+const TRACKS_ID = 0x1654ae6b;
+const TRACK_ENTRY_ID = 0xae;
+const TRACK_NUMBER_ID = 0xd7;
+const TRACK_TYPE_ID = 0x83;
+const CLUSTER_ID = 0x1f43b675;
+const TIMECODE_ID = 0xe7;
+const SIMPLE_BLOCK_ID = 0xa3;
+const BLOCK_GROUP_ID = 0xa0;
+const BLOCK_ID = 0xa1;
+const CUES_ID = 0x1c53bb6b;
+const CUE_POINT_ID = 0xbb;
+const CUE_TIME_ID = 0xb3;
+const CUE_TRACK_POSITIONS_ID = 0xb7;
+const CUE_TRACK_ID = 0xf7;
+const CUE_CLUSTER_POSITION_ID = 0xf1;
+const VOID_ID = 0xec;
+
+// Elements that can follow a cluster at the top level of the segment
+const SEGMENT_CHILD_IDS = new Set([
+  SEEK_HEAD_ID,
+  INFO_ID,
+  TRACKS_ID,
+  CLUSTER_ID,
+  CUES_ID,
+  0x1254c367, // Tags
+  0x1043a770, // Chapters
+  0x1941a469, // Attachments
+]);
+
+const VIDEO_TRACK_TYPE = 1;
+const DEFAULT_TIMECODE_SCALE = 1000000; // 1 ms per tick
+const READ_WINDOW_SIZE = 1024 * 1024;
+
+// Result of making a recording seekable
+export interface SeekableWebm {
+  blob: Blob;
+  durationMs: number;
+  header: Blob;  // Replaces the first originalHeaderSize bytes of the recording
+  originalHeaderSize: number;
+}
+
+interface ElementHeader {
+  id: number;
+  size: number | null;  // null when the size is unknown (live streams)
+  headerSize: number;
+}
+
+interface BlobReader {
+  size: number;
+  read: (position: number, length: number) => Promise<Uint8Array>;
+}
+
+/**
+ * Read a blob in windows, so large recordings are never loaded into memory at once
+ * @param blob Blob to read
+ * @returns Reader over the blob
+ */
+function createBlobReader(blob: Blob): BlobReader {
+  let windowStart = 0;
+  let windowBytes = new Uint8Array(0);
+
+  return {
+    size: blob.size,
+    read: async (position, length) => {
+      const end = Math.min(position + length, blob.size);
+
+      if (position < windowStart || end > windowStart + windowBytes.length) {
+        windowStart = position;
+        windowBytes = new Uint8Array(
+          await blob.slice(position, Math.max(end, position + READ_WINDOW_SIZE)).arrayBuffer()
+        );
+      }
+
+      return windowBytes.subarray(position - windowStart, end - windowStart);
+    },
+  };
+}
+
+/**
+ * Get the length of a variable-length integer from its first byte
+ */
+function vintLength(firstByte: number): number {
+  for (let length = 1; length <= 8; length++) {
+    if (firstByte & (0x80 >> (length - 1))) {
+      return length;
+    }
+  }
+  throw new Error('Invalid EBML variable-length integer');
+}
+
+/**
+ * Read an element's ID and size at a position
+ * @param reader Blob reader
+ * @param position Byte offset of the element
+ * @returns The element header
+ */
+async function readElementHeader(reader: BlobReader, position: number): Promise<ElementHeader> {
+  const bytes = await reader.read(position, 12);
+  if (bytes.length < 2) {
+    throw new Error('Unexpected end of WebM data');
+  }
+
+  // IDs keep their length marker bits
+  const idLength = vintLength(bytes[0]);
+  if (bytes.length <= idLength || bytes.length < idLength + vintLength(bytes[idLength])) {
+    throw new Error('Unexpected end of WebM data');
+  }
+  let id = 0;
+  for (let i = 0; i < idLength; i++) {
+    id = id * 256 + bytes[i];
+  }
+
+  // Sizes drop them; all value bits set means unknown
+  const sizeLength = vintLength(bytes[idLength]);
+  const mask = 0xff >> sizeLength;
+  let size = bytes[idLength] & mask;
+  let isUnknown = size === mask;
+  for (let i = 1; i < sizeLength; i++) {
+    const byte = bytes[idLength + i];
+    size = size * 256 + byte;
+    isUnknown = isUnknown && byte === 0xff;
+  }
+
+  return {
+    id,
+    size: isUnknown ? null : size,
+    headerSize: idLength + sizeLength,
+  };
+}
+
+/**
+ * Read an unsigned integer element payload
+ */
+function readUint(bytes: Uint8Array): number {
+  let value = 0;
+  for (const byte of bytes) {
+    value = value * 256 + byte;
+  }
+  return value;
+}
+
+/**
+ * Encode an element ID
+ */
+function encodeId(id: number): Uint8Array {
+  const bytes: number[] = [];
+  for (let value = id; value > 0; value = Math.floor(value / 256)) {
+    bytes.unshift(value & 0xff);
+  }
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Encode an element size in 8 bytes, so the header length never depends on the size
+ */
+function encodeSize(size: number): Uint8Array {
+  const bytes = new Uint8Array(8);
+  let value = size;
+  for (let i = 7; i > 0; i--) {
+    bytes[i] = value & 0xff;
+    value = Math.floor(value / 256);
+  }
+  bytes[0] = 0x01;
+  return bytes;
+}
+
+/**
+ * Encode an unsigned integer payload in 8 bytes, so element sizes don't depend on values
+ */
+function encodeUint(value: number): Uint8Array {
+  const bytes = new Uint8Array(8);
+  let remaining = value;
+  for (let i = 7; i >= 0; i--) {
+    bytes[i] = remaining & 0xff;
+    remaining = Math.floor(remaining / 256);
+  }
+  return bytes;
+}
+
+/**
+ * Encode a 64-bit float payload
+ */
+function encodeFloat(value: number): Uint8Array {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return bytes;
+}
+
+/**
+ * Join byte arrays
+ */
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+/**
+ * Build an element from its ID and payload
+ */
+function encodeElement(id: number, payload: Uint8Array[]): Uint8Array {
+  const body = concatBytes(payload);
+  return concatBytes([encodeId(id), encodeSize(body.length), body]);
+}
+
+/**
+ * Read the children of a known-size element as raw bytes
+ * @returns Each child's ID, raw bytes (header included) and payload
+ */
+async function readChildren(
+  reader: BlobReader,
+  start: number,
+  end: number
+): Promise<{ id: number; raw: Uint8Array; payload: Uint8Array }[]> {
+  const children: { id: number; raw: Uint8Array; payload: Uint8Array }[] = [];
+
+  for (let position = start; position < end; ) {
+    const header = await readElementHeader(reader, position);
+    if (header.size === null) {
+      throw new Error('Unexpected unknown-size element');
+    }
+
+    const raw = (await reader.read(position, header.headerSize + header.size)).slice();
+    children.push({ id: header.id, raw, payload: raw.subarray(header.headerSize) });
+    position += header.headerSize + header.size;
+  }
+
+  return children;
+}
+
+/**
+ * Find the track cues should point at, preferring video
+ * @param reader Blob reader
+ * @param start Start of the Tracks element's payload
+ * @param end End of the Tracks element's payload
+ * @returns Track number
+ */
+async function findCueTrack(reader: BlobReader, start: number, end: number): Promise<number> {
+  let firstTrack: number | null = null;
+
+  for (const entry of await readChildren(reader, start, end)) {
+    if (entry.id !== TRACK_ENTRY_ID) continue;
+
+    let trackNumber: number | null = null;
+    let trackType: number | null = null;
+    const entryReader = createBlobReader(new Blob([entry.payload]));
+    for (const field of await readChildren(entryReader, 0, entry.payload.length)) {
+      if (field.id === TRACK_NUMBER_ID) trackNumber = readUint(field.payload);
+      if (field.id === TRACK_TYPE_ID) trackType = readUint(field.payload);
+    }
+
+    if (trackNumber === null) continue;
+    if (trackType === VIDEO_TRACK_TYPE) return trackNumber;
+    firstTrack ??= trackNumber;
+  }
+
+  return firstTrack ?? 1;
+}
+
+/**
+ * Rewrite a MediaRecorder WebM recording so it can be seeked and reports its duration
+ * @param blob Recorded WebM blob
+ * @returns Promise with the seekable recording, or null if the blob is not WebM
+ */
+export async function makeWebmSeekable(blob: Blob): Promise<SeekableWebm | null> {
+  const reader = createBlobReader(blob);
+
+  // EBML header, kept as is; other formats may not even start with a valid element
+  const ebml = await readElementHeader(reader, 0).catch(() => null);
+  if (!ebml || ebml.id !== EBML_ID || ebml.size === null) {
+    return null;
+  }
+  const ebmlEnd = ebml.headerSize + ebml.size;
+  const ebmlBytes = (await reader.read(0, ebmlEnd)).slice();
+
+  const segment = await readElementHeader(reader, ebmlEnd);
+  if (segment.id !== SEGMENT_ID) {
+    return null;
+  }
+  const segmentDataStart = ebmlEnd + segment.headerSize;
+
+  let timecodeScale = DEFAULT_TIMECODE_SCALE;
+  let infoChildren: Uint8Array[] = [];
+  let tracksBytes: Uint8Array | null = null;
+  let cueTrack = 1;
+  const otherHeaderElements: Uint8Array[] = [];
+  let firstClusterPosition: number | null = null;
+  const clusters: { position: number; timecode: number }[] = [];
+  let lastTimestamp = 0;
+
+  for (let position = segmentDataStart; position < reader.size; ) {
+    const header = await readElementHeader(reader, position);
+    const dataStart = position + header.headerSize;
+
+    if (header.id === CLUSTER_ID) {
+      firstClusterPosition ??= position;
+
+      // Walk the cluster's children; live clusters have an unknown size and end
+      // where the next top-level element begins
+      const clusterEnd = header.size === null ? reader.size : dataStart + header.size;
+      let timecode = 0;
+      let childPosition = dataStart;
+
+      while (childPosition < clusterEnd) {
+        // A recording recovered after a crash may end partway through an element
+        const child = await readElementHeader(reader, childPosition).catch(() => null);
+        if (!child || childPosition + child.headerSize + (child.size ?? 0) > reader.size) {
+          childPosition = reader.size;
+          break;
+        }
+        if (header.size === null && SEGMENT_CHILD_IDS.has(child.id)) {
+          break;
+        }
+        if (child.size === null) {
+          throw new Error('Unexpected unknown-size element in cluster');
+        }
+
+        const childData = childPosition + child.headerSize;
+        if (child.id === TIMECODE_ID) {
+          timecode = readUint(await reader.read(childData, child.size));
+        } else if (child.id === SIMPLE_BLOCK_ID || child.id === BLOCK_GROUP_ID) {
+          // A BlockGroup's Block is normally its first child
+          let blockData = childData;
+          if (child.id === BLOCK_GROUP_ID) {
+            const block = await readElementHeader(reader, childData);
+            if (block.id !== BLOCK_ID) {
+              childPosition = childData + child.size;
+              continue;
+            }
+            blockData = childData + block.headerSize;
+          }
+
+          // Block: track number (vint), then a signed 16-bit timestamp relative to the cluster
+          const blockHeader = await reader.read(blockData, 11);
+          const trackLength = vintLength(blockHeader[0]);
+          const relative = new DataView(
+            blockHeader.buffer,
+            blockHeader.byteOffset + trackLength,
+            2
+          ).getInt16(0);
+          lastTimestamp = Math.max(lastTimestamp, timecode + relative);
+        }
+
+        childPosition = childData + child.size;
+      }
+
+      clusters.push({ position, timecode });
+      position = childPosition;
+      continue;
+    }
+
+    if (header.size === null) {
+      throw new Error('Unexpected unknown-size element in segment');
+    }
+    const end = dataStart + header.size;
+
+    // Anything after the first cluster stays where it is
+    if (firstClusterPosition === null) {
+      if (header.id === INFO_ID) {
+        const children = await readChildren(reader, dataStart, end);
+        for (const child of children) {
+          if (child.id === TIMECODE_SCALE_ID) timecodeScale = readUint(child.payload);
+        }
+        infoChildren = children.filter((child) => child.id !== DURATION_ID).map((child) => child.raw);
+      } else if (header.id === TRACKS_ID) {
+        tracksBytes = (await reader.read(position, end - position)).slice();
+        cueTrack = await findCueTrack(reader, dataStart, end);
+      } else if (header.id !== SEEK_HEAD_ID && header.id !== CUES_ID && header.id !== VOID_ID) {
+        otherHeaderElements.push((await reader.read(position, end - position)).slice());
+      }
+    }
+
+    position = end;
+  }
+
+  if (firstClusterPosition === null || !tracksBytes) {
+    return null;
+  }
+
+  // Duration in timecode-scale ticks, from the last block timestamp
+  const durationTicks = lastTimestamp;
+  const durationMs = (durationTicks * timecodeScale) / 1000000;
+
+  const info = encodeElement(INFO_ID, [
+    ...infoChildren,
+    encodeElement(DURATION_ID, [encodeFloat(durationTicks)]),
+  ]);
+
+  // Every size in the seek head and cues is fixed, so the layout can be computed up front
+  const buildSeekHead = (positions: { id: number; position: number }[]) =>
+    encodeElement(
+      SEEK_HEAD_ID,
+      positions.map(({ id, position }) =>
+        encodeElement(SEEK_ID, [
+          encodeElement(SEEK_ID_ID, [encodeId(id)]),
+          encodeElement(SEEK_POSITION_ID, [encodeUint(position)]),
+        ])
+      )
+    );
+
+  const buildCues = (clusterOffset: number) =>
+    encodeElement(
+      CUES_ID,
+      clusters.map((cluster) =>
+        encodeElement(CUE_POINT_ID, [
+          encodeElement(CUE_TIME_ID, [encodeUint(cluster.timecode)]),
+          encodeElement(CUE_TRACK_POSITIONS_ID, [
+            encodeElement(CUE_TRACK_ID, [encodeUint(cueTrack)]),
+            encodeElement(CUE_CLUSTER_POSITION_ID, [
+              encodeUint(cluster.position - firstClusterPosition! + clusterOffset),
+            ]),
+          ]),
+        ])
+      )
+    );
+
+  const seekHeadSize = buildSeekHead([
+    { id: INFO_ID, position: 0 },
+    { id: TRACKS_ID, position: 0 },
+    { id: CUES_ID, position: 0 },
+  ]).length;
+  const cuesSize = buildCues(0).length;
+  const others = concatBytes(otherHeaderElements);
+
+  // Positions are relative to the start of the segment's data
+  const infoPosition = seekHeadSize;
+  const tracksPosition = infoPosition + info.length;
+  const cuesPosition = tracksPosition + tracksBytes.length + others.length;
+  const clusterOffset = cuesPosition + cuesSize;
+
+  const seekHead = buildSeekHead([
+    { id: INFO_ID, position: infoPosition },
+    { id: TRACKS_ID, position: tracksPosition },
+    { id: CUES_ID, position: cuesPosition },
+  ]);
+  const cues = buildCues(clusterOffset);
+
+  const segmentSize = clusterOffset + (blob.size - firstClusterPosition);
+  const headerBytes = concatBytes([
+    ebmlBytes,
+    encodeId(SEGMENT_ID),
+    encodeSize(segmentSize),
+    seekHead,
+    info,
+    tracksBytes,
+    others,
+    cues,
+  ]);
+
+  const header = new Blob([headerBytes], { type: blob.type });
+
+  return {
+    blob: new Blob([header, blob.slice(firstClusterPosition)], { type: blob.type }),
+    durationMs,
+    header,
+    originalHeaderSize: firstClusterPosition,
+  };
+}
@@ -66,6 +66,27 @@ export function addStreamToPeerConnection(
   return senders;
 }
 
+// Data channel used to send files directly between peers
+const FILE_CHANNEL_LABEL = 'files';
+const FILE_CHANNEL_ID = 0;
+
+/**
+ * Create the data channel for sending files to a peer. Both peers create it
+ * with the same ID before negotiating, so neither waits for the other to open it.
+ * @param peerConnection RTCPeerConnection instance
+ * @returns The file data channel, receiving binary data as ArrayBuffers
+ */
+export function createFileChannel(peerConnection: RTCPeerConnection): RTCDataChannel {
+  const channel = peerConnection.createDataChannel(FILE_CHANNEL_LABEL, {
+    negotiated: true,
+    id: FILE_CHANNEL_ID,
+    ordered: true,
+  });
+  channel.binaryType = 'arraybuffer';
+
+  return channel;
+}
+
 /**
  * Create and set local offer
  * @param peerConnection RTCPeerConnection instance
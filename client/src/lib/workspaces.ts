@@ -0,0 +1,255 @@
+/**
+ * Workspace API functions
+ */
+import { apiRequest } from './api';
+
+// Storage key for the workspace new recordings are uploaded to
+const WORKSPACE_STORAGE_KEY = 'clipz-workspace-id';
+
+// Types for workspaces
+export type WorkspaceRole = 'owner' | 'admin' | 'member' | 'viewer';
+
+// Roles that can be given to members; each workspace has exactly one owner
+export type AssignableRole = Exclude<WorkspaceRole, 'owner'>;
+
+export interface Workspace {
+  id: string;
+  name: string;
+  createdAt: string;
+  // The current user's role
+  role: WorkspaceRole;
+}
+
+export interface WorkspaceMember {
+  id: string;
+  workspaceId: string;
+  userId: string;
+  role: WorkspaceRole;
+  joinedAt: string;
+  user: {
+    id: string;
+    name: string;
+    email: string;
+  };
+}
+
+export interface WorkspaceInvite {
+  id: string;
+  workspaceId: string;
+  invitedById: string;
+  email: string;
+  role: AssignableRole;
+  token: string;
+  createdAt: string;
+  expiresAt: string;
+  acceptedAt: string | null;
+  // Included when listing the current user's invites
+  workspace?: {
+    id: string;
+    name: string;
+  };
+}
+
+// The current user's own invites come without their token; they are accepted from the link that was sent
+export type ReceivedInvite = Omit<WorkspaceInvite, 'token'>;
+
+// Each role can do everything the roles below it can
+const ROLE_RANKS: Record<WorkspaceRole, number> = {
+  viewer: 0,
+  member: 1,
+  admin: 2,
+  owner: 3,
+};
+
+/**
+ * Check whether a role grants at least the permissions of another
+ * @param role Role to check
+ * @param minimum Lowest role that is allowed
+ * @returns True if the role is at least the minimum
+ */
+export function hasRole(role: WorkspaceRole, minimum: WorkspaceRole): boolean {
+  return ROLE_RANKS[role] >= ROLE_RANKS[minimum];
+}
+
+/**
+ * Get the workspace new recordings are uploaded to
+ * @returns Workspace ID, or null to use the personal workspace
+ */
+export function getCurrentWorkspaceId(): string | null {
+  if (typeof window === 'undefined') return null;
+  return window.localStorage.getItem(WORKSPACE_STORAGE_KEY);
+}
+
+/**
+ * Choose the workspace new recordings are uploaded to
+ * @param workspaceId Workspace ID, or null to use the personal workspace
+ */
+export function setCurrentWorkspaceId(workspaceId: string | null): void {
+  if (typeof window === 'undefined') return;
+
+  if (workspaceId) {
+    window.localStorage.setItem(WORKSPACE_STORAGE_KEY, workspaceId);
+  } else {
+    window.localStorage.removeItem(WORKSPACE_STORAGE_KEY);
+  }
+}
+
+/**
+ * Build the URL for accepting an invite
+ * @param token Invite token
+ * @returns The absolute URL of the invite page
+ */
+export function getInviteUrl(token: string): string {
+  return `${window.location.origin}/invites/${encodeURIComponent(token)}`;
+}
+
+/**
+ * List the current user's workspaces
+ * @returns Promise with the workspaces, each with the user's role
+ */
+export async function listWorkspaces(): Promise<Workspace[]> {
+  return apiRequest<Workspace[]>('/api/workspaces');
+}
+
+/**
+ * Create a workspace owned by the current user
+ * @param name Workspace name
+ * @returns Promise with the created workspace
+ */
+export async function createWorkspace(name: string): Promise<Workspace> {
+  return apiRequest<Workspace>('/api/workspaces', {
+    method: 'POST',
+    body: JSON.stringify({ name }),
+  });
+}
+
+/**
+ * Get a workspace by ID
+ * @param workspaceId Workspace ID
+ * @returns Promise with the workspace and the user's role in it
+ */
+export async function getWorkspace(workspaceId: string): Promise<Workspace> {
+  return apiRequest<Workspace>(`/api/workspaces/${encodeURIComponent(workspaceId)}`);
+}
+
+/**
+ * Rename a workspace
+ * @param workspaceId Workspace ID
+ * @param name New name
+ * @returns Promise with the updated workspace
+ */
+export async function renameWorkspace(workspaceId: string, name: string): Promise<Workspace> {
+  return apiRequest<Workspace>(`/api/workspaces/${encodeURIComponent(workspaceId)}`, {
+    method: 'PATCH',
+    body: JSON.stringify({ name }),
+  });
+}
+
+/**
+ * List a workspace's members
+ * @param workspaceId Workspace ID
+ * @returns Promise with the members, oldest first
+ */
+export async function listWorkspaceMembers(workspaceId: string): Promise<WorkspaceMember[]> {
+  return apiRequest<WorkspaceMember[]>(`/api/workspaces/${encodeURIComponent(workspaceId)}/members`);
+}
+
+/**
+ * Change a member's role
+ * @param workspaceId Workspace ID
+ * @param userId The member's user ID
+ * @param role New role
+ * @returns Promise with the updated membership
+ */
+export async function updateWorkspaceMemberRole(
+  workspaceId: string,
+  userId: string,
+  role: AssignableRole
+): Promise<WorkspaceMember> {
+  return apiRequest<WorkspaceMember>(
+    `/api/workspaces/${encodeURIComponent(workspaceId)}/members/${encodeURIComponent(userId)}`,
+    {
+      method: 'PATCH',
+      body: JSON.stringify({ role }),
+    }
+  );
+}
+
+/**
+ * Remove a member from a workspace, or leave it when given the current user's ID
+ * @param workspaceId Workspace ID
+ * @param userId The member's user ID
+ */
+export async function removeWorkspaceMember(workspaceId: string, userId: string): Promise<void> {
+  return apiRequest<void>(
+    `/api/workspaces/${encodeURIComponent(workspaceId)}/members/${encodeURIComponent(userId)}`,
+    { method: 'DELETE' }
+  );
+}
+
+/**
+ * List a workspace's pending invites
+ * @param workspaceId Workspace ID
+ * @returns Promise with the invites, newest first
+ */
+export async function listWorkspaceInvites(workspaceId: string): Promise<WorkspaceInvite[]> {
+  return apiRequest<WorkspaceInvite[]>(`/api/workspaces/${encodeURIComponent(workspaceId)}/invites`);
+}
+
+/**
+ * Invite someone to a workspace
+ * @param workspaceId Workspace ID
+ * @param email Email address of the person to invite
+ * @param role Role they get on accepting
+ * @returns Promise with the created invite
+ */
+export async function inviteToWorkspace(
+  workspaceId: string,
+  email: string,
+  role: AssignableRole
+): Promise<WorkspaceInvite> {
+  return apiRequest<WorkspaceInvite>(`/api/workspaces/${encodeURIComponent(workspaceId)}/invites`, {
+    method: 'POST',
+    body: JSON.stringify({ email, role }),
+  });
+}
+
+/**
+ * Cancel an invite
+ * @param workspaceId Workspace ID
+ * @param inviteId Invite ID
+ */
+export async function cancelWorkspaceInvite(workspaceId: string, inviteId: string): Promise<void> {
+  return apiRequest<void>(
+    `/api/workspaces/${encodeURIComponent(workspaceId)}/invites/${encodeURIComponent(inviteId)}`,
+    { method: 'DELETE' }
+  );
+}
+
+/**
+ * List the invites sent to the current user
+ * @returns Promise with the pending invites, newest first
+ */
+export async function listMyInvites(): Promise<ReceivedInvite[]> {
+  return apiRequest<ReceivedInvite[]>('/api/invites');
+}
+
+/**
+ * Get an invite sent to the current user
+ * @param token Invite token
+ * @returns Promise with the invite and its workspace
+ */
+export async function getInvite(token: string): Promise<WorkspaceInvite> {
+  return apiRequest<WorkspaceInvite>(`/api/invites/${encodeURIComponent(token)}`);
+}
+
+/**
+ * Accept an invite and join its workspace
+ * @param token Invite token
+ * @returns Promise with the joined workspace
+ */
+export async function acceptInvite(token: string): Promise<Workspace> {
+  return apiRequest<Workspace>(`/api/invites/${encodeURIComponent(token)}/accept`, {
+    method: 'POST',
+  });
+}
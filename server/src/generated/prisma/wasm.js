@@ -116,10 +116,161 @@ Prisma.NullTypes = {
 exports.Prisma.RecordingScalarFieldEnum = {
   id: 'id',
   userId: 'userId',
+  workspaceId: 'workspaceId',
+  folderId: 'folderId',
   filename: 'filename',
-  s3Url: 's3Url',
+  s3Key: 's3Key',
   uploadedAt: 'uploadedAt',
-  duration: 'duration'
+  duration: 'duration',
+  size: 'size',
+  roomId: 'roomId',
+  description: 'description',
+  tags: 'tags',
+  processingStatus: 'processingStatus',
+  processingError: 'processingError',
+  mp4Key: 'mp4Key',
+  hlsKey: 'hlsKey',
+  thumbnailKey: 'thumbnailKey',
+  spriteKey: 'spriteKey',
+  spriteVttKey: 'spriteVttKey',
+  sourceRecordingId: 'sourceRecordingId',
+  clipStart: 'clipStart',
+  clipEnd: 'clipEnd',
+  recordedFrom: 'recordedFrom',
+  recordedUntil: 'recordedUntil'
+};
+
+exports.Prisma.TranscriptScalarFieldEnum = {
+  id: 'id',
+  recordingId: 'recordingId',
+  status: 'status',
+  error: 'error',
+  language: 'language',
+  text: 'text',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.UserScalarFieldEnum = {
+  id: 'id',
+  email: 'email',
+  name: 'name',
+  passwordHash: 'passwordHash',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.SessionScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  tokenHash: 'tokenHash',
+  createdAt: 'createdAt',
+  expiresAt: 'expiresAt'
+};
+
+exports.Prisma.RoomScalarFieldEnum = {
+  id: 'id',
+  ownerId: 'ownerId',
+  title: 'title',
+  isPrivate: 'isPrivate',
+  isLocked: 'isLocked',
+  waitingRoomEnabled: 'waitingRoomEnabled',
+  createdAt: 'createdAt',
+  endedAt: 'endedAt'
+};
+
+exports.Prisma.ChatMessageScalarFieldEnum = {
+  id: 'id',
+  roomId: 'roomId',
+  userId: 'userId',
+  body: 'body',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.RoomParticipantScalarFieldEnum = {
+  id: 'id',
+  roomId: 'roomId',
+  userId: 'userId',
+  joinedAt: 'joinedAt',
+  leftAt: 'leftAt'
+};
+
+exports.Prisma.RecordingSessionScalarFieldEnum = {
+  id: 'id',
+  userId: 'userId',
+  filename: 'filename',
+  mimeType: 'mimeType',
+  workspaceId: 'workspaceId',
+  roomId: 'roomId',
+  createdAt: 'createdAt',
+  finalizedAt: 'finalizedAt',
+  recordingId: 'recordingId'
+};
+
+exports.Prisma.RecordingChunkScalarFieldEnum = {
+  id: 'id',
+  sessionId: 'sessionId',
+  index: 'index',
+  s3Key: 's3Key',
+  size: 'size',
+  uploadedAt: 'uploadedAt'
+};
+
+exports.Prisma.CommentScalarFieldEnum = {
+  id: 'id',
+  recordingId: 'recordingId',
+  userId: 'userId',
+  parentId: 'parentId',
+  timestamp: 'timestamp',
+  body: 'body',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+exports.Prisma.ShareLinkScalarFieldEnum = {
+  id: 'id',
+  recordingId: 'recordingId',
+  createdById: 'createdById',
+  token: 'token',
+  scope: 'scope',
+  passwordHash: 'passwordHash',
+  expiresAt: 'expiresAt',
+  revokedAt: 'revokedAt',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.WorkspaceScalarFieldEnum = {
+  id: 'id',
+  name: 'name',
+  createdAt: 'createdAt'
+};
+
+exports.Prisma.WorkspaceMemberScalarFieldEnum = {
+  id: 'id',
+  workspaceId: 'workspaceId',
+  userId: 'userId',
+  role: 'role',
+  joinedAt: 'joinedAt'
+};
+
+exports.Prisma.WorkspaceInviteScalarFieldEnum = {
+  id: 'id',
+  workspaceId: 'workspaceId',
+  invitedById: 'invitedById',
+  email: 'email',
+  role: 'role',
+  token: 'token',
+  createdAt: 'createdAt',
+  expiresAt: 'expiresAt',
+  acceptedAt: 'acceptedAt'
+};
+
+exports.Prisma.FolderScalarFieldEnum = {
+  id: 'id',
+  workspaceId: 'workspaceId',
+  parentId: 'parentId',
+  name: 'name',
+  createdById: 'createdById',
+  createdAt: 'createdAt'
 };
 
 exports.Prisma.SortOrder = {
@@ -134,7 +285,21 @@ exports.Prisma.QueryMode = {
 
 
 exports.Prisma.ModelName = {
-  Recording: 'Recording'
+  Recording: 'Recording',
+  Transcript: 'Transcript',
+  User: 'User',
+  Session: 'Session',
+  Room: 'Room',
+  ChatMessage: 'ChatMessage',
+  RoomParticipant: 'RoomParticipant',
+  RecordingSession: 'RecordingSession',
+  RecordingChunk: 'RecordingChunk',
+  Comment: 'Comment',
+  ShareLink: 'ShareLink',
+  Workspace: 'Workspace',
+  WorkspaceMember: 'WorkspaceMember',
+  WorkspaceInvite: 'WorkspaceInvite',
+  Folder: 'Folder'
 };
 
 /**
@@ -3,10 +3,30 @@ import dotenv from "dotenv";
 import cors from "cors";
 import http from "http";
 import morgan from "morgan";
+import authRoutes from "./routes/authRoutes";
 import s3Routes from "./routes/s3Routes";
 import recordingRoutes from "./routes/recordingRoutes";
+import recordingSessionRoutes from "./routes/recordingSessionRoutes";
+import roomRoutes from "./routes/roomRoutes";
+import commentRoutes from "./routes/commentRoutes";
+import shareLinkRoutes from "./routes/shareLinkRoutes";
+import shareRoutes from "./routes/shareRoutes";
+import workspaceRoutes from "./routes/workspaceRoutes";
+import inviteRoutes from "./routes/inviteRoutes";
+import folderRoutes from "./routes/folderRoutes";
+import transcriptRoutes from "./routes/transcriptRoutes";
+import recordingChatRoutes from "./routes/recordingChatRoutes";
 import { errorHandler } from "./middleware/errorHandler";
+import {
+  MAX_LIVE_CAPTIONS,
+  MAX_LIVE_CAPTION_LENGTH,
+  MAX_LIVE_CAPTION_SPEAKER_LENGTH,
+} from "./types";
 import { initializeSocketServer } from "./services/socketService";
+import { resumePendingTranscodes } from "./services/transcodeService";
+import { resumePendingTranscriptions } from "./services/transcriptionService";
+import { expireStaleRecordingSessions } from "./services/recordingSessionService";
+import { assignLegacyRecordings } from "./services/workspaceService";
 import { PrismaClient } from "./generated/prisma";
 
 // Load environment variables
@@ -20,9 +40,33 @@ const prisma = new PrismaClient();
 // Connect to database and log
 prisma
   .$connect()
-  .then(() => console.log("Database connected successfully"))
+  .then(() => {
+    console.log("Database connected successfully");
+
+    // Recordings from before workspaces go into their uploader's personal workspace
+    return assignLegacyRecordings();
+  })
+  .then((moved) => {
+    if (moved > 0) {
+      console.log(`Moved ${moved} recordings into personal workspaces`);
+    }
+
+    // Pick up background jobs interrupted by a restart
+    return Promise.all([
+      resumePendingTranscodes(),
+      resumePendingTranscriptions(),
+      expireStaleRecordingSessions(),
+    ]);
+  })
   .catch((err) => console.error("Database connection error:", err));
 
+// Clean up recording sessions abandoned mid-upload every hour
+setInterval(() => {
+  expireStaleRecordingSessions().catch((err) =>
+    console.error("Error expiring recording sessions:", err)
+  );
+}, 60 * 60 * 1000).unref();
+
 // Create HTTP server
 const server = http.createServer(app);
 
@@ -33,7 +77,7 @@ initializeSocketServer(server);
 app.use(
   cors({
     origin: process.env.CLIENT_URL || "http://localhost:3000",
-    methods: ["GET", "POST", "PUT", "DELETE", "OPTIONS"],
+    methods: ["GET", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"],
     allowedHeaders: ["Content-Type", "Authorization"],
   })
 );
@@ -41,12 +85,29 @@ app.use(
 // Request logging middleware
 app.use(morgan("dev")); // 'dev' format: :method :url :status :response-time ms
 
-// Middleware
+// Middleware. Recordings are created with every live caption from the call in
+// the body, so those two routes accept as many as the schema allows; allowing
+// 6 bytes per character covers JSON escapes, plus room for timings.
+const captionsBodyLimit =
+  MAX_LIVE_CAPTIONS * ((MAX_LIVE_CAPTION_LENGTH + MAX_LIVE_CAPTION_SPEAKER_LENGTH) * 6 + 256);
+app.post("/api/recordings", express.json({ limit: captionsBodyLimit }));
+app.post("/api/recording-sessions/:id/finalize", express.json({ limit: captionsBodyLimit }));
 app.use(express.json());
 
 // Routes
+app.use("/api/auth", authRoutes);
 app.use("/api/s3", s3Routes);
+app.use("/api/recordings/:recordingId/comments", commentRoutes);
+app.use("/api/recordings/:recordingId/share-links", shareLinkRoutes);
+app.use("/api/recordings/:recordingId/transcript", transcriptRoutes);
+app.use("/api/recordings/:recordingId/chat", recordingChatRoutes);
 app.use("/api/recordings", recordingRoutes);
+app.use("/api/recording-sessions", recordingSessionRoutes);
+app.use("/api/rooms", roomRoutes);
+app.use("/api/share", shareRoutes);
+app.use("/api/workspaces/:workspaceId/folders", folderRoutes);
+app.use("/api/workspaces", workspaceRoutes);
+app.use("/api/invites", inviteRoutes);
 
 // Health check endpoint
 app.get("/health", (req, res) => {
@@ -0,0 +1,81 @@
+import { Request, Response, NextFunction } from 'express';
+import { getUserBySessionToken } from '../services/authService';
+import { ApiError } from './errorHandler';
+import { AuthUser } from '../types';
+
+// Make the authenticated user available on every request
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace Express {
+    interface Request {
+      user?: AuthUser;
+      sessionToken?: string;
+    }
+  }
+}
+
+/**
+ * Extract a bearer token from an Authorization header
+ * @param header The raw Authorization header value
+ * @returns The token or null if the header is missing or malformed
+ */
+export function getBearerToken(header: string | undefined): string | null {
+  if (!header) {
+    return null;
+  }
+
+  const [scheme, token] = header.split(' ');
+  if (scheme !== 'Bearer' || !token) {
+    return null;
+  }
+
+  return token;
+}
+
+/**
+ * Require a valid session token and attach the user to the request
+ */
+export async function requireAuth(req: Request, res: Response, next: NextFunction) {
+  try {
+    const token = getBearerToken(req.headers.authorization);
+
+    if (!token) {
+      throw new ApiError('Authentication required', 401);
+    }
+
+    const user = await getUserBySessionToken(token);
+
+    if (!user) {
+      throw new ApiError('Invalid or expired session', 401);
+    }
+
+    req.user = user;
+    req.sessionToken = token;
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Attach the user to the request when a valid session token is sent, but let
+ * anonymous requests through
+ */
+export async function optionalAuth(req: Request, res: Response, next: NextFunction) {
+  try {
+    const token = getBearerToken(req.headers.authorization);
+
+    if (token) {
+      const user = await getUserBySessionToken(token);
+
+      if (user) {
+        req.user = user;
+        req.sessionToken = token;
+      }
+    }
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
@@ -23,23 +23,35 @@ export function errorHandler(
 
   // Handle Zod validation errors
   if (err instanceof ZodError) {
-    return res.status(400).json({
+    res.status(400).json({
       message: 'Validation error',
       errors: err.errors,
       status: 400,
     });
+    return;
   }
 
   // Handle custom API errors
   if (err instanceof ApiError) {
-    return res.status(err.status).json({
+    res.status(err.status).json({
       message: err.message,
       status: err.status,
     });
+    return;
+  }
+
+  // Handle body parser errors, e.g. malformed JSON or a body over the size limit
+  const { status, expose } = err as Error & { status?: number; expose?: boolean };
+  if (expose && typeof status === 'number' && status >= 400 && status < 500) {
+    res.status(status).json({
+      message: err.message,
+      status,
+    });
+    return;
   }
 
   // Handle other errors
-  return res.status(500).json({
+  res.status(500).json({
     message: 'Internal server error',
     status: 500,
   });
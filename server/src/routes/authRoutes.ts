@@ -0,0 +1,68 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { createUser, authenticateUser, createSession, deleteSession } from '../services/authService';
+import { SignupRequestSchema, LoginRequestSchema } from '../types';
+import { requireAuth } from '../middleware/auth';
+
+const router = Router();
+
+/**
+ * POST /api/auth/signup
+ * Create a new account and start a session
+ */
+router.post('/signup', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    // Validate request body
+    const { email, name, password } = SignupRequestSchema.parse(req.body);
+
+    // Create the user and log them in
+    const user = await createUser(email, name, password);
+    const token = await createSession(user.id);
+
+    res.status(201).json({ token, user });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/auth/login
+ * Exchange credentials for a session token
+ */
+router.post('/login', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    // Validate request body
+    const { email, password } = LoginRequestSchema.parse(req.body);
+
+    // Verify credentials and start a session
+    const user = await authenticateUser(email, password);
+    const token = await createSession(user.id);
+
+    res.status(200).json({ token, user });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/auth/logout
+ * End the current session
+ */
+router.post('/logout', requireAuth, async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await deleteSession(req.sessionToken!);
+
+    res.status(204).end();
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/auth/me
+ * Get the currently authenticated user
+ */
+router.get('/me', requireAuth, (req: Request, res: Response) => {
+  res.status(200).json(req.user);
+});
+
+export default router;
@@ -0,0 +1,161 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import {
+  createComment,
+  getCommentsByRecordingId,
+  getCommentById,
+  updateComment,
+  deleteComment,
+} from '../services/commentService';
+import { getRecordingById } from '../services/recordingService';
+import { canManageRecording, getRecordingRole } from '../services/workspaceService';
+import { CommentCreationRequestSchema, CommentUpdateRequestSchema } from '../types';
+import { ApiError } from '../middleware/errorHandler';
+import { requireAuth } from '../middleware/auth';
+
+// Mounted under /api/recordings/:recordingId/comments
+const router = Router({ mergeParams: true });
+
+/**
+ * Load a recording and make sure the given user may comment on it
+ * @param id The ID of the recording
+ * @param userId The ID of the user requesting access
+ * @returns The recording record and whether the user may moderate its comments
+ */
+async function getCommentableRecording(id: string, userId: string) {
+  const recording = await getRecordingById(id);
+
+  if (!recording) {
+    throw new ApiError('Recording not found', 404);
+  }
+
+  // Every workspace member, viewers included, may comment
+  const role = await getRecordingRole(recording, userId);
+
+  if (!role) {
+    throw new ApiError('You do not have access to this recording', 403);
+  }
+
+  return { recording, canModerate: canManageRecording(role, recording, userId) };
+}
+
+/**
+ * Load a comment and make sure it belongs to the given recording
+ * @param id The ID of the comment
+ * @param recordingId The ID of the recording from the URL
+ * @returns The comment record
+ */
+async function getRecordingComment(id: string, recordingId: string) {
+  const comment = await getCommentById(id);
+
+  if (!comment || comment.recordingId !== recordingId) {
+    throw new ApiError('Comment not found', 404);
+  }
+
+  return comment;
+}
+
+// All comment routes require an authenticated user
+router.use(requireAuth);
+
+/**
+ * GET /api/recordings/:recordingId/comments
+ * List a recording's comments; replies carry the ID of their parent
+ */
+router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { recordingId } = req.params;
+
+    await getCommentableRecording(recordingId, req.user!.id);
+
+    const comments = await getCommentsByRecordingId(recordingId);
+
+    res.status(200).json(comments);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/recordings/:recordingId/comments
+ * Add a comment at a timestamp, or a reply to a top-level comment
+ */
+router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { recordingId } = req.params;
+
+    // Validate request body
+    const { body, timestamp, parentId } = CommentCreationRequestSchema.parse(req.body);
+
+    await getCommentableRecording(recordingId, req.user!.id);
+
+    // Replies are anchored to their parent's timestamp, and threads are one level deep
+    let anchor = timestamp!;
+    if (parentId) {
+      const parent = await getRecordingComment(parentId, recordingId);
+
+      if (parent.parentId) {
+        throw new ApiError('Replies cannot be replied to', 400);
+      }
+      anchor = parent.timestamp;
+    }
+
+    const comment = await createComment(recordingId, req.user!.id, body, anchor, parentId);
+
+    res.status(201).json(comment);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PATCH /api/recordings/:recordingId/comments/:id
+ * Edit a comment's text
+ */
+router.patch('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { recordingId, id } = req.params;
+
+    // Validate request body
+    const { body } = CommentUpdateRequestSchema.parse(req.body);
+
+    await getCommentableRecording(recordingId, req.user!.id);
+    const comment = await getRecordingComment(id, recordingId);
+
+    // Only the author may edit a comment
+    if (comment.userId !== req.user!.id) {
+      throw new ApiError('You can only edit your own comments', 403);
+    }
+
+    const updated = await updateComment(id, body);
+
+    res.status(200).json(updated);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/recordings/:recordingId/comments/:id
+ * Delete a comment and its replies
+ */
+router.delete('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { recordingId, id } = req.params;
+
+    const { canModerate } = await getCommentableRecording(recordingId, req.user!.id);
+    const comment = await getRecordingComment(id, recordingId);
+
+    // The author, or anyone who may manage the recording, may delete a comment
+    if (comment.userId !== req.user!.id && !canModerate) {
+      throw new ApiError('You can only delete your own comments', 403);
+    }
+
+    await deleteComment(id);
+
+    res.status(204).end();
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,148 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import {
+  createFolder,
+  deleteFolder,
+  getFolderById,
+  getFoldersByWorkspaceId,
+  isFolderWithin,
+  updateFolder,
+} from '../services/folderService';
+import { getMemberRole, hasRole } from '../services/workspaceService';
+import { FolderCreationRequestSchema, FolderUpdateRequestSchema, WorkspaceRole } from '../types';
+import { ApiError } from '../middleware/errorHandler';
+import { requireAuth } from '../middleware/auth';
+
+// Mounted under /api/workspaces/:workspaceId/folders
+const router = Router({ mergeParams: true });
+
+/**
+ * Make sure the given user has at least the given role in a workspace
+ * @param workspaceId The ID of the workspace
+ * @param userId The ID of the user requesting access
+ * @param minimum The lowest role allowed
+ */
+async function assertWorkspaceRole(workspaceId: string, userId: string, minimum: WorkspaceRole) {
+  const role = await getMemberRole(workspaceId, userId);
+
+  if (!role) {
+    throw new ApiError('Workspace not found', 404);
+  }
+
+  if (!hasRole(role, minimum)) {
+    throw new ApiError('Viewers cannot organize recordings', 403);
+  }
+}
+
+/**
+ * Load a folder and make sure it belongs to the given workspace
+ * @param id The ID of the folder
+ * @param workspaceId The ID of the workspace from the URL
+ * @returns The folder record
+ */
+async function getWorkspaceFolder(id: string, workspaceId: string) {
+  const folder = await getFolderById(id);
+
+  if (!folder || folder.workspaceId !== workspaceId) {
+    throw new ApiError('Folder not found', 404);
+  }
+
+  return folder;
+}
+
+// All folder routes require an authenticated user
+router.use(requireAuth);
+
+/**
+ * GET /api/workspaces/:workspaceId/folders
+ * List all folders in a workspace; each carries its parent's ID
+ */
+router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { workspaceId } = req.params;
+
+    await assertWorkspaceRole(workspaceId, req.user!.id, 'viewer');
+
+    const folders = await getFoldersByWorkspaceId(workspaceId);
+
+    res.status(200).json(folders);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/workspaces/:workspaceId/folders
+ * Create a folder, at the top level or inside another folder
+ */
+router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { workspaceId } = req.params;
+
+    // Validate request body
+    const { name, parentId } = FolderCreationRequestSchema.parse(req.body);
+
+    await assertWorkspaceRole(workspaceId, req.user!.id, 'member');
+
+    if (parentId) {
+      await getWorkspaceFolder(parentId, workspaceId);
+    }
+
+    const folder = await createFolder(workspaceId, req.user!.id, name, parentId);
+
+    res.status(201).json(folder);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PATCH /api/workspaces/:workspaceId/folders/:id
+ * Rename a folder or move it under another parent
+ */
+router.patch('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { workspaceId, id } = req.params;
+
+    // Validate request body
+    const { name, parentId } = FolderUpdateRequestSchema.parse(req.body);
+
+    await assertWorkspaceRole(workspaceId, req.user!.id, 'member');
+    await getWorkspaceFolder(id, workspaceId);
+
+    if (parentId) {
+      await getWorkspaceFolder(parentId, workspaceId);
+
+      // A folder can't end up inside itself
+      if (await isFolderWithin(parentId, id)) {
+        throw new ApiError('A folder cannot be moved into itself or one of its subfolders', 400);
+      }
+    }
+
+    const folder = await updateFolder(id, { name, parentId });
+
+    res.status(200).json(folder);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/workspaces/:workspaceId/folders/:id
+ * Delete a folder. Its recordings and subfolders move up into its parent.
+ */
+router.delete('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { workspaceId, id } = req.params;
+
+    await assertWorkspaceRole(workspaceId, req.user!.id, 'member');
+    const folder = await getWorkspaceFolder(id, workspaceId);
+
+    await deleteFolder(folder);
+
+    res.status(204).end();
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
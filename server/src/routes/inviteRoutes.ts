@@ -0,0 +1,96 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import {
+  getPendingInvitesByEmail,
+  getWorkspaceInviteByToken,
+  markWorkspaceInviteAccepted,
+} from '../services/workspaceInviteService';
+import { addWorkspaceMember, getMemberRole, hasRole } from '../services/workspaceService';
+import { WorkspaceRole } from '../types';
+import { ApiError } from '../middleware/errorHandler';
+import { requireAuth } from '../middleware/auth';
+
+const router = Router();
+
+/**
+ * Load an invite and make sure it can still be accepted by the given user
+ * @param token The token from the invite URL
+ * @param email The email address of the user opening the invite
+ * @returns The invite record with the workspace name
+ */
+async function getOpenInvite(token: string, email: string) {
+  const invite = await getWorkspaceInviteByToken(token);
+
+  if (!invite) {
+    throw new ApiError('Invite not found', 404);
+  }
+
+  if (invite.acceptedAt) {
+    throw new ApiError('This invite has already been accepted', 410);
+  }
+
+  if (invite.expiresAt.getTime() <= Date.now()) {
+    throw new ApiError('This invite has expired', 410);
+  }
+
+  // Invites are personal; the link alone is not enough, and neither is the address alone
+  if (invite.email !== email.toLowerCase()) {
+    throw new ApiError('This invite was sent to a different email address', 403);
+  }
+
+  return invite;
+}
+
+// All invite routes require an authenticated user
+router.use(requireAuth);
+
+/**
+ * GET /api/invites
+ * List the current user's pending workspace invites
+ */
+router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const invites = await getPendingInvitesByEmail(req.user!.email);
+
+    res.status(200).json(invites);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/invites/:token
+ * Get an invite, to show the workspace and role before accepting
+ */
+router.get('/:token', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const invite = await getOpenInvite(req.params.token, req.user!.email);
+
+    res.status(200).json(invite);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/invites/:token/accept
+ * Accept an invite and join the workspace
+ */
+router.post('/:token/accept', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const invite = await getOpenInvite(req.params.token, req.user!.email);
+    const inviteRole = invite.role as WorkspaceRole;
+
+    // Accepting never lowers the role of an existing member
+    const currentRole = await getMemberRole(invite.workspaceId, req.user!.id);
+    const role = currentRole && hasRole(currentRole, inviteRole) ? currentRole : inviteRole;
+
+    await addWorkspaceMember(invite.workspaceId, req.user!.id, role);
+    await markWorkspaceInviteAccepted(invite.id);
+
+    res.status(200).json({ ...invite.workspace, role });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,53 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { getChatMessagesBetween } from '../services/chatService';
+import { getRecordingById, getRecordingCallPeriod } from '../services/recordingService';
+import { getRecordingRole } from '../services/workspaceService';
+import { ApiError } from '../middleware/errorHandler';
+import { requireAuth } from '../middleware/auth';
+
+// Mounted under /api/recordings/:recordingId/chat
+const router = Router({ mergeParams: true });
+
+// All recording chat routes require an authenticated user
+router.use(requireAuth);
+
+/**
+ * GET /api/recordings/:recordingId/chat
+ * List the chat messages sent in the call while a recording was made, each
+ * with its offset into playback in seconds. Empty for recordings made outside a room.
+ */
+router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { recordingId } = req.params;
+
+    const recording = await getRecordingById(recordingId);
+
+    if (!recording) {
+      throw new ApiError('Recording not found', 404);
+    }
+
+    if (!(await getRecordingRole(recording, req.user!.id))) {
+      throw new ApiError('You do not have access to this recording', 403);
+    }
+
+    const period = getRecordingCallPeriod(recording);
+
+    if (!period || !recording.roomId) {
+      res.status(200).json([]);
+      return;
+    }
+
+    const messages = await getChatMessagesBetween(recording.roomId, period.from, period.until);
+
+    res.status(200).json(
+      messages.map((message) => ({
+        ...message,
+        offset: (message.createdAt.getTime() - period.from.getTime()) / 1000,
+      }))
+    );
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,146 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import recordingRoutes from './recordingRoutes';
+import { startTestServer, TestServer } from '../test/testServer';
+import { createRecording, getRecordingsByUserId, isS3KeyInUse } from '../services/recordingService';
+import { canRecordRoom, clampToRoomVisit } from '../services/roomService';
+import { enqueueTranscode } from '../services/transcodeService';
+import { buildUploadKey } from '../services/s3Service';
+import { getMemberRole, getWorkspacesForUser } from '../services/workspaceService';
+
+const OWNER = { id: '64b000000000000000000001', email: 'owner@example.com', name: 'Owner' };
+const OTHER = { id: '64b000000000000000000002', email: 'other@example.com', name: 'Other' };
+const WORKSPACE_ID = '64b0000000000000000000bb';
+const ROOM_ID = '64b0000000000000000000cc';
+
+// Services the route doesn't stub here never reach the database
+vi.mock('../generated/prisma', () => ({ PrismaClient: vi.fn() }));
+vi.mock('../services/authService', () => ({
+  getUserBySessionToken: vi.fn(async (token: string) => ({ owner: OWNER, other: OTHER })[token] ?? null),
+}));
+vi.mock('../services/recordingService', () => ({
+  createRecording: vi.fn(),
+  getRecordingsByUserId: vi.fn(),
+  isS3KeyInUse: vi.fn(),
+}));
+vi.mock('../services/roomService', () => ({ canRecordRoom: vi.fn(), clampToRoomVisit: vi.fn() }));
+vi.mock('../services/transcodeService', () => ({ enqueueTranscode: vi.fn() }));
+vi.mock('../services/s3Service', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../services/s3Service')>()),
+  getObjectSize: vi.fn(async () => 1024),
+}));
+vi.mock('../services/workspaceService', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../services/workspaceService')>()),
+  getMemberRole: vi.fn(),
+  getWorkspacesForUser: vi.fn(),
+}));
+
+describe('recording routes', () => {
+  let server: TestServer;
+
+  beforeAll(async () => {
+    server = await startTestServer('/api/recordings', recordingRoutes);
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.mocked(getMemberRole).mockResolvedValue('member');
+    vi.mocked(isS3KeyInUse).mockResolvedValue(false);
+    vi.mocked(canRecordRoom).mockResolvedValue(true);
+    vi.mocked(createRecording).mockResolvedValue({ id: 'recording-1' } as never);
+  });
+
+  const create = (body: Record<string, unknown>) =>
+    server.request('POST', '/api/recordings', {
+      token: 'owner',
+      body: { filename: 'call.webm', s3Key: buildUploadKey('call.webm', WORKSPACE_ID, OWNER.id), ...body },
+    });
+
+  describe('POST /', () => {
+    it('refuses keys issued to another user', async () => {
+      const response = await create({ s3Key: buildUploadKey('call.webm', WORKSPACE_ID, OTHER.id) });
+
+      expect(response.status).toBe(403);
+      expect(createRecording).not.toHaveBeenCalled();
+    });
+
+    it('refuses uploaders who are now only viewers of the workspace', async () => {
+      vi.mocked(getMemberRole).mockResolvedValue('viewer');
+
+      const response = await create({});
+
+      expect(response.status).toBe(403);
+      expect(createRecording).not.toHaveBeenCalled();
+    });
+
+    it('refuses a file that already backs another recording', async () => {
+      vi.mocked(isS3KeyInUse).mockResolvedValue(true);
+
+      const response = await create({});
+
+      expect(response.status).toBe(409);
+      expect(createRecording).not.toHaveBeenCalled();
+    });
+
+    it('refuses rooms the uploader has not been in', async () => {
+      vi.mocked(canRecordRoom).mockResolvedValue(false);
+
+      const response = await create({ roomId: ROOM_ID });
+
+      expect(response.status).toBe(403);
+      expect(canRecordRoom).toHaveBeenCalledWith(ROOM_ID, OWNER.id);
+      expect(createRecording).not.toHaveBeenCalled();
+    });
+
+    it('keeps the recorded span within the uploader’s visit and processes the upload', async () => {
+      const from = new Date('2025-01-01T10:05:00Z');
+      const until = new Date('2025-01-01T10:30:00Z');
+      vi.mocked(clampToRoomVisit).mockResolvedValue({ from, until });
+
+      const response = await create({
+        roomId: ROOM_ID,
+        recordedFrom: '2025-01-01T09:00:00Z',
+        recordedUntil: '2025-01-01T11:00:00Z',
+      });
+
+      expect(response.status).toBe(201);
+      expect(clampToRoomVisit).toHaveBeenCalledWith(
+        ROOM_ID,
+        OWNER.id,
+        new Date('2025-01-01T09:00:00Z'),
+        new Date('2025-01-01T11:00:00Z')
+      );
+      expect(createRecording).toHaveBeenCalledWith(
+        OWNER.id,
+        WORKSPACE_ID,
+        'call.webm',
+        expect.any(String),
+        expect.objectContaining({ size: 1024, roomId: ROOM_ID, recordedFrom: from, recordedUntil: until })
+      );
+      expect(enqueueTranscode).toHaveBeenCalledWith('recording-1');
+    });
+  });
+
+  describe('GET /user/:userId', () => {
+    it('refuses to list another user’s recordings', async () => {
+      const response = await server.request('GET', `/api/recordings/user/${OTHER.id}`, { token: 'owner' });
+
+      expect(response.status).toBe(403);
+      expect(getRecordingsByUserId).not.toHaveBeenCalled();
+    });
+
+    it('lists only recordings from workspaces the user still belongs to', async () => {
+      vi.mocked(getWorkspacesForUser).mockResolvedValue([{ id: WORKSPACE_ID }] as never);
+      vi.mocked(getRecordingsByUserId).mockResolvedValue({ recordings: [], nextCursor: null });
+
+      const response = await server.request('GET', `/api/recordings/user/${OWNER.id}`, { token: 'owner' });
+
+      expect(response.status).toBe(200);
+      expect(getRecordingsByUserId).toHaveBeenCalledWith(OWNER.id, [WORKSPACE_ID], expect.any(Object));
+    });
+  });
+});
@@ -1,10 +1,176 @@
 import { Router, Request, Response, NextFunction } from 'express';
-import { createRecording, getRecordingsByUserId, getRecordingById } from '../services/recordingService';
-import { RecordingCreationRequestSchema } from '../types';
+import {
+  createRecording,
+  createClip,
+  getRecordingsByUserId,
+  getRecordingsByWorkspaceId,
+  getRecordingById,
+  getRecordingsByIds,
+  getTagsByWorkspaceId,
+  updateRecording,
+  updateRecordingTags,
+  trimRecording,
+  moveRecordings,
+  deleteRecording,
+  isS3KeyInUse,
+} from '../services/recordingService';
+import {
+  buildRenditionPrefix,
+  buildUploadKey,
+  deleteObject,
+  deleteObjectsWithPrefix,
+  generateDownloadUrl,
+  getObjectSize,
+  parseUploadKey,
+} from '../services/s3Service';
+import { enqueueTranscode } from '../services/transcodeService';
+import { buildStreamUrl, getSignedPlaylist, verifyStreamQuery } from '../services/hlsService';
+import { canRecordRoom, clampToRoomVisit } from '../services/roomService';
+import { deleteCommentsByRecordingId } from '../services/commentService';
+import { deleteShareLinksByRecordingId } from '../services/shareLinkService';
+import { getFolderById } from '../services/folderService';
+import {
+  canManageRecording,
+  getMemberRole,
+  getRecordingRole,
+  getWorkspacesForUser,
+  hasRole,
+  resolveUploadWorkspace,
+} from '../services/workspaceService';
+import {
+  ClipCreationRequestSchema,
+  RecordingCreationRequestSchema,
+  RecordingListQuerySchema,
+  RecordingMoveRequestSchema,
+  RecordingTagRequestSchema,
+  RecordingTrimRequestSchema,
+  RecordingUpdateRequestSchema,
+} from '../types';
 import { ApiError } from '../middleware/errorHandler';
+import { requireAuth } from '../middleware/auth';
 
 const router = Router();
 
+interface RecordingPreviewKeys {
+  thumbnailKey: string | null;
+  spriteKey: string | null;
+  spriteVttKey: string | null;
+}
+
+/**
+ * Load a recording and make sure the given user may view it, or manage it when asked
+ * @param id The ID of the recording
+ * @param userId The ID of the user requesting access
+ * @param access 'view' for any workspace member, 'manage' to edit or delete
+ * @returns The recording record and whether the user may manage it
+ */
+async function getAccessibleRecording(id: string, userId: string, access: 'view' | 'manage' = 'view') {
+  const recording = await getRecordingById(id);
+
+  if (!recording) {
+    throw new ApiError('Recording not found', 404);
+  }
+
+  const role = await getRecordingRole(recording, userId);
+
+  if (!role) {
+    throw new ApiError('You do not have access to this recording', 403);
+  }
+
+  const canManage = canManageRecording(role, recording, userId);
+
+  if (access === 'manage' && !canManage) {
+    throw new ApiError('You do not have permission to change this recording', 403);
+  }
+
+  return { recording, canManage };
+}
+
+/**
+ * Load several recordings and make sure the given user may manage all of them
+ * @param ids The IDs of the recordings
+ * @param userId The ID of the user requesting access
+ * @returns The recording records
+ */
+async function getManageableRecordings(ids: string[], userId: string) {
+  const recordings = await getRecordingsByIds(ids);
+
+  if (recordings.length !== new Set(ids).size) {
+    throw new ApiError('Recording not found', 404);
+  }
+
+  for (const recording of recordings) {
+    if (!canManageRecording(await getRecordingRole(recording, userId), recording, userId)) {
+      throw new ApiError('You do not have permission to change these recordings', 403);
+    }
+  }
+
+  return recordings;
+}
+
+/**
+ * Add short-lived pre-signed URLs for a recording's preview images to its record
+ * @param recording The recording record
+ * @returns The recording with thumbnailUrl, spriteUrl and spriteVttUrl, each null until generated
+ */
+async function withPreviewUrls<T extends RecordingPreviewKeys>(recording: T) {
+  const signKey = async (key: string | null) => (key ? (await generateDownloadUrl(key)).url : null);
+
+  const [thumbnailUrl, spriteUrl, spriteVttUrl] = await Promise.all([
+    signKey(recording.thumbnailKey),
+    signKey(recording.spriteKey),
+    signKey(recording.spriteVttKey),
+  ]);
+
+  return { ...recording, thumbnailUrl, spriteUrl, spriteVttUrl };
+}
+
+/**
+ * GET /api/recordings/:id/stream/:playlist
+ * Serve one of a recording's HLS playlists. Players can't send the session
+ * token, so this route is authorized by the signature from GET /:id/stream.
+ */
+router.get('/:id/stream/:playlist', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id, playlist } = req.params;
+
+    if (!verifyStreamQuery(id, req.query.expires, req.query.signature)) {
+      throw new ApiError('Invalid or expired stream signature', 403);
+    }
+
+    if (!/^[\w-]+\.m3u8$/.test(playlist)) {
+      throw new ApiError('Playlist not found', 404);
+    }
+
+    const recording = await getRecordingById(id);
+
+    if (!recording?.hlsKey) {
+      throw new ApiError('Playlist not found', 404);
+    }
+
+    const query = new URLSearchParams({
+      expires: String(req.query.expires),
+      signature: String(req.query.signature),
+    }).toString();
+    const contents = await getSignedPlaylist(recording.hlsKey, playlist, query);
+
+    res
+      .status(200)
+      .set('Content-Type', 'application/vnd.apple.mpegurl')
+      .set('Cache-Control', 'private, no-store')
+      .send(contents);
+  } catch (error) {
+    if (error instanceof Error && error.name === 'NoSuchKey') {
+      next(new ApiError('Playlist not found', 404));
+    } else {
+      next(error);
+    }
+  }
+});
+
+// All other recording routes require an authenticated user
+router.use(requireAuth);
+
 /**
  * POST /api/recordings
  * Create a new recording record
@@ -13,13 +179,59 @@ router.post('/', async (req: Request, res: Response, next: NextFunction) => {
   try {
     // Validate request body
     const validatedData = RecordingCreationRequestSchema.parse(req.body);
-    const { userId, filename, s3Url, duration } = validatedData;
+    const { filename, s3Key, duration, roomId, trim, captions, recordedFrom, recordedUntil } =
+      validatedData;
+
+    // Only keys issued to this user, for a workspace they may still upload to, can be claimed
+    const upload = parseUploadKey(s3Key);
+    if (
+      !upload ||
+      upload.userId !== req.user!.id ||
+      !hasRole(await getMemberRole(upload.workspaceId, req.user!.id), 'member')
+    ) {
+      throw new ApiError('Invalid S3 key for this user', 403);
+    }
+    const { workspaceId } = upload;
+
+    // Each uploaded file backs one recording, so deleting one can't remove another's file
+    if (await isS3KeyInUse(s3Key)) {
+      throw new ApiError('This file already belongs to a recording', 409);
+    }
+
+    // Recordings can only be attached to rooms the uploader owns or has been in
+    if (roomId && !(await canRecordRoom(roomId, req.user!.id))) {
+      throw new ApiError('You have not been in this room', 403);
+    }
 
-    // Create recording record
-    const recording = await createRecording(userId, filename, s3Url, duration);
+    // The span decides which of the call's chat is shown, so it is kept within the uploader's visit
+    const callPeriod =
+      roomId && recordedFrom && recordedUntil
+        ? await clampToRoomVisit(roomId, req.user!.id, recordedFrom, recordedUntil)
+        : null;
+
+    // The stored size comes from S3, not the client
+    const size = await getObjectSize(s3Key);
+
+    if (size === null) {
+      throw new ApiError('Recording file has not been uploaded', 409);
+    }
+
+    // Create recording record uploaded by the authenticated user
+    const recording = await createRecording(req.user!.id, workspaceId, filename, s3Key, {
+      duration,
+      size,
+      roomId,
+      trim,
+      captions,
+      recordedFrom: callPeriod?.from,
+      recordedUntil: callPeriod?.until,
+    });
+
+    // Produce an MP4 rendition in the background
+    enqueueTranscode(recording.id);
 
     // Return the created recording
-    return res.status(201).json(recording);
+    res.status(201).json(recording);
   } catch (error) {
     next(error);
   }
@@ -27,7 +239,8 @@ router.post('/', async (req: Request, res: Response, next: NextFunction) => {
 
 /**
  * GET /api/recordings/user/:userId
- * Get all recordings for a specific user
+ * Get one page of a user's recordings. Accepts q (search), from and to (upload
+ * date range), roomId, sort, order, limit and cursor (the previous page's nextCursor).
  */
 router.get('/user/:userId', async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -37,11 +250,127 @@ router.get('/user/:userId', async (req: Request, res: Response, next: NextFuncti
       throw new ApiError('User ID is required', 400);
     }
 
+    // Users may only list their own recordings
+    if (userId !== req.user!.id) {
+      throw new ApiError('You do not have access to these recordings', 403);
+    }
+
+    // Validate query parameters
+    const query = RecordingListQuerySchema.parse(req.query);
+
+    // Recordings in workspaces the user has since left are no longer theirs to see
+    const workspaces = await getWorkspacesForUser(userId);
+
     // Get recordings for the user
-    const recordings = await getRecordingsByUserId(userId);
+    const { recordings, nextCursor } = await getRecordingsByUserId(
+      userId,
+      workspaces.map((workspace) => workspace.id),
+      query
+    );
+
+    // Return the page of recordings
+    res.status(200).json({
+      recordings: await Promise.all(recordings.map(withPreviewUrls)),
+      nextCursor,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/recordings/workspace/:workspaceId
+ * Get one page of a workspace's recordings. Accepts the same query as
+ * /user/:userId, plus tag and folderId ("root" for recordings not in a folder).
+ */
+router.get('/workspace/:workspaceId', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { workspaceId } = req.params;
+
+    // Any member, including viewers, may browse the library
+    if (!(await getMemberRole(workspaceId, req.user!.id))) {
+      throw new ApiError('You do not have access to these recordings', 403);
+    }
+
+    // Validate query parameters
+    const query = RecordingListQuerySchema.parse(req.query);
+
+    const { recordings, nextCursor } = await getRecordingsByWorkspaceId(workspaceId, query);
+
+    res.status(200).json({
+      recordings: await Promise.all(recordings.map(withPreviewUrls)),
+      nextCursor,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/recordings/workspace/:workspaceId/tags
+ * List the tags used in a workspace, with how many recordings have each
+ */
+router.get('/workspace/:workspaceId/tags', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { workspaceId } = req.params;
+
+    if (!(await getMemberRole(workspaceId, req.user!.id))) {
+      throw new ApiError('You do not have access to these recordings', 403);
+    }
+
+    const tags = await getTagsByWorkspaceId(workspaceId);
+
+    res.status(200).json(tags);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/recordings/move
+ * Move recordings into a folder, or to the top level with a null folderId
+ */
+router.post('/move', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    // Validate request body
+    const { recordingIds, folderId } = RecordingMoveRequestSchema.parse(req.body);
+
+    const recordings = await getManageableRecordings(recordingIds, req.user!.id);
+
+    if (folderId) {
+      const folder = await getFolderById(folderId);
+
+      if (!folder) {
+        throw new ApiError('Folder not found', 404);
+      }
+
+      if (recordings.some((recording) => recording.workspaceId !== folder.workspaceId)) {
+        throw new ApiError('Recordings can only be moved to folders in their own workspace', 400);
+      }
+    }
+
+    await moveRecordings(recordingIds, folderId);
+
+    res.status(204).end();
+  } catch (error) {
+    next(error);
+  }
+});
 
-    // Return the recordings
-    return res.status(200).json(recordings);
+/**
+ * POST /api/recordings/tags
+ * Add and remove tags on several recordings at once
+ */
+router.post('/tags', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    // Validate request body
+    const { recordingIds, add, remove } = RecordingTagRequestSchema.parse(req.body);
+
+    const recordings = await getManageableRecordings(recordingIds, req.user!.id);
+
+    const updated = await updateRecordingTags(recordings, add, remove);
+
+    res.status(200).json(updated.map(({ id, tags }) => ({ id, tags })));
   } catch (error) {
     next(error);
   }
@@ -49,7 +378,7 @@ router.get('/user/:userId', async (req: Request, res: Response, next: NextFuncti
 
 /**
  * GET /api/recordings/:id
- * Get a recording by its ID
+ * Get a recording by its ID, with whether the current user may manage it
  */
 router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -60,14 +389,178 @@ router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
     }
 
     // Get the recording
-    const recording = await getRecordingById(id);
+    const { recording, canManage } = await getAccessibleRecording(id, req.user!.id);
+
+    // Return the recording
+    res.status(200).json({ ...(await withPreviewUrls(recording)), canManage });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/recordings/:id/playback-url
+ * Get a short-lived pre-signed URL for playing back a recording
+ */
+router.get('/:id/playback-url', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+
+    // Any member of the recording's workspace may play it back
+    const { recording } = await getAccessibleRecording(id, req.user!.id);
+
+    // Serve the MP4 rendition once it is ready, since it plays everywhere
+    const { url, expiresAt } = await generateDownloadUrl(recording.mp4Key ?? recording.s3Key);
+
+    res.status(200).json({ url, expiresAt: expiresAt.toISOString() });
+  } catch (error) {
+    next(error);
+  }
+});
 
-    if (!recording) {
-      throw new ApiError('Recording not found', 404);
+/**
+ * GET /api/recordings/:id/stream
+ * Get a signed URL for the recording's adaptive (HLS) master playlist
+ */
+router.get('/:id/stream', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+
+    // Any member of the recording's workspace may play it back
+    const { recording } = await getAccessibleRecording(id, req.user!.id);
+
+    if (!recording.hlsKey) {
+      throw new ApiError('Adaptive stream is not available for this recording', 404);
     }
 
-    // Return the recording
-    return res.status(200).json(recording);
+    const { url, expiresAt } = buildStreamUrl(
+      `${req.protocol}://${req.get('host')}${req.baseUrl}`,
+      recording.id
+    );
+
+    res.status(200).json({ url, expiresAt: expiresAt.toISOString() });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PATCH /api/recordings/:id
+ * Rename a recording or update its description and tags
+ */
+router.patch('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+
+    // Validate request body
+    const validatedData = RecordingUpdateRequestSchema.parse(req.body);
+
+    // Admins, or the member who uploaded it, may edit a recording
+    await getAccessibleRecording(id, req.user!.id, 'manage');
+
+    const recording = await updateRecording(id, validatedData);
+
+    res.status(200).json(await withPreviewUrls(recording));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/recordings/:id/trim
+ * Keep only part of a recording's upload, or all of it again with a null
+ * range, and process it again
+ */
+router.post('/:id/trim', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+
+    // Validate request body
+    const { range } = RecordingTrimRequestSchema.parse(req.body);
+
+    const { recording } = await getAccessibleRecording(id, req.user!.id, 'manage');
+
+    // A clip's times refer to its source, so a shorter clip is cut from there instead
+    if (recording.sourceRecordingId) {
+      throw new ApiError('Clips cannot be trimmed; create a new clip from the original instead', 400);
+    }
+
+    const updated = await trimRecording(id, range);
+
+    enqueueTranscode(id);
+
+    res.status(200).json(await withPreviewUrls(updated));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/recordings/:id/clips
+ * Cut part of a recording out as a new recording in the same workspace and folder
+ */
+router.post('/:id/clips', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+
+    // Validate request body
+    const { range, filename } = ClipCreationRequestSchema.parse(req.body);
+
+    const { recording } = await getAccessibleRecording(id, req.user!.id);
+
+    // Creating a clip adds a recording, which viewers cannot do
+    if (!hasRole(await getRecordingRole(recording, req.user!.id), 'member')) {
+      throw new ApiError('Viewers cannot create clips', 403);
+    }
+
+    if (recording.processingStatus !== 'ready' || !recording.mp4Key) {
+      throw new ApiError('Clips can be created once the recording has been processed', 409);
+    }
+
+    if (recording.duration !== null && range.start >= recording.duration) {
+      throw new ApiError('The clip starts after the end of the recording', 400);
+    }
+
+    const workspaceId = recording.workspaceId ?? (await resolveUploadWorkspace(req.user!.id));
+    const clipName = filename ?? `${recording.filename.replace(/\.[^.]+$/, '')} (clip).mp4`;
+
+    const clip = await createClip(
+      req.user!.id,
+      recording,
+      workspaceId,
+      clipName,
+      buildUploadKey(clipName, workspaceId, req.user!.id),
+      range
+    );
+
+    // The clip's file is cut from the source in the background
+    enqueueTranscode(clip.id);
+
+    res.status(201).json(clip);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/recordings/:id
+ * Delete a recording and its files in S3
+ */
+router.delete('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+
+    // Admins, or the member who uploaded it, may delete a recording
+    const { recording } = await getAccessibleRecording(id, req.user!.id, 'manage');
+
+    // Remove the files first, so a failure leaves the record in place to retry
+    await deleteObject(recording.s3Key);
+    await deleteObjectsWithPrefix(buildRenditionPrefix(recording.id));
+    await deleteCommentsByRecordingId(id);
+    await deleteShareLinksByRecordingId(id);
+    await deleteRecording(id);
+
+    res.status(204).end();
   } catch (error) {
     next(error);
   }
@@ -0,0 +1,158 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import recordingSessionRoutes from './recordingSessionRoutes';
+import { startTestServer, TestServer } from '../test/testServer';
+import {
+  claimRecordingSession,
+  finalizeRecordingSession,
+  getRecordingSessionById,
+  releaseRecordingSession,
+} from '../services/recordingSessionService';
+import { createRecording } from '../services/recordingService';
+import { enqueueTranscode } from '../services/transcodeService';
+import { deleteObject } from '../services/s3Service';
+
+const OWNER = { id: '64b000000000000000000001', email: 'owner@example.com', name: 'Owner' };
+const OTHER = { id: '64b000000000000000000002', email: 'other@example.com', name: 'Other' };
+const SESSION_ID = '64b0000000000000000000aa';
+const WORKSPACE_ID = '64b0000000000000000000bb';
+
+vi.mock('../services/authService', () => ({
+  getUserBySessionToken: vi.fn(async (token: string) => ({ owner: OWNER, other: OTHER })[token] ?? null),
+}));
+vi.mock('../services/recordingSessionService', () => ({
+  createRecordingSession: vi.fn(),
+  getRecordingSessionById: vi.fn(),
+  recordChunk: vi.fn(),
+  claimRecordingSession: vi.fn(),
+  releaseRecordingSession: vi.fn(),
+  finalizeRecordingSession: vi.fn(),
+}));
+vi.mock('../services/recordingService', () => ({ createRecording: vi.fn() }));
+vi.mock('../services/transcodeService', () => ({ enqueueTranscode: vi.fn() }));
+vi.mock('../services/roomService', () => ({ canRecordRoom: vi.fn(), clampToRoomVisit: vi.fn() }));
+vi.mock('../services/workspaceService', () => ({
+  resolveUploadWorkspace: vi.fn(async () => WORKSPACE_ID),
+}));
+vi.mock('../services/s3Service', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../services/s3Service')>()),
+  deleteObject: vi.fn(async () => undefined),
+  generateChunkUploadUrl: vi.fn(),
+  getObjectSize: vi.fn(),
+}));
+
+/**
+ * Build an open session owned by OWNER with the given chunks in its manifest
+ */
+function buildSession(chunkIndexes: number[]) {
+  return {
+    id: SESSION_ID,
+    userId: OWNER.id,
+    workspaceId: WORKSPACE_ID,
+    filename: 'recording.webm',
+    mimeType: 'video/webm',
+    roomId: null,
+    createdAt: new Date(),
+    finalizedAt: null,
+    recordingId: null,
+    chunks: chunkIndexes.map((index) => ({
+      id: `chunk-${index}`,
+      sessionId: SESSION_ID,
+      index,
+      s3Key: `uploads/${WORKSPACE_ID}/sessions/${SESSION_ID}/${index}`,
+      size: 100,
+      uploadedAt: new Date(),
+    })),
+  };
+}
+
+describe('recording session routes', () => {
+  let server: TestServer;
+
+  beforeAll(async () => {
+    server = await startTestServer('/api/recording-sessions', recordingSessionRoutes);
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.mocked(claimRecordingSession).mockResolvedValue(true);
+    vi.mocked(createRecording).mockResolvedValue({ id: 'recording-1' } as never);
+  });
+
+  const finalize = (body: unknown, token = 'owner') =>
+    server.request('POST', `/api/recording-sessions/${SESSION_ID}/finalize`, { token, body });
+
+  it('returns the caller’s open session, so an interrupted upload can resume', async () => {
+    vi.mocked(getRecordingSessionById).mockResolvedValue(buildSession([0, 1]) as never);
+
+    const response = await server.request('GET', `/api/recording-sessions/${SESSION_ID}`, {
+      token: 'owner',
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body.chunks.map((chunk: { index: number }) => chunk.index)).toEqual([0, 1]);
+  });
+
+  it('refuses other users’ sessions', async () => {
+    vi.mocked(getRecordingSessionById).mockResolvedValue(buildSession([0]) as never);
+
+    const response = await finalize({ chunkCount: 1 }, 'other');
+
+    expect(response.status).toBe(403);
+    expect(claimRecordingSession).not.toHaveBeenCalled();
+  });
+
+  it('refuses to finalize a session with a missing chunk', async () => {
+    vi.mocked(getRecordingSessionById).mockResolvedValue(buildSession([0, 2]) as never);
+
+    const response = await finalize({ chunkCount: 3 });
+
+    expect(response.status).toBe(409);
+    expect(claimRecordingSession).not.toHaveBeenCalled();
+    expect(createRecording).not.toHaveBeenCalled();
+  });
+
+  it('creates one recording when the same session is finalized twice at once', async () => {
+    vi.mocked(getRecordingSessionById).mockResolvedValue(buildSession([0, 1]) as never);
+    vi.mocked(claimRecordingSession).mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+
+    const responses = await Promise.all([finalize({ chunkCount: 2 }), finalize({ chunkCount: 2 })]);
+
+    expect(responses.map((response) => response.status).sort()).toEqual([201, 409]);
+    expect(createRecording).toHaveBeenCalledTimes(1);
+  });
+
+  it('releases the session when the recording cannot be created, so finalizing can be retried', async () => {
+    vi.mocked(getRecordingSessionById).mockResolvedValue(buildSession([0]) as never);
+    vi.mocked(createRecording).mockRejectedValue(new Error('Database unavailable'));
+
+    const response = await finalize({ chunkCount: 1 });
+
+    expect(response.status).toBe(500);
+    expect(releaseRecordingSession).toHaveBeenCalledWith(SESSION_ID);
+    expect(finalizeRecordingSession).not.toHaveBeenCalled();
+  });
+
+  it('leaves joining the chunks to the processing job and drops chunks past the end', async () => {
+    vi.mocked(getRecordingSessionById).mockResolvedValue(buildSession([0, 1, 2]) as never);
+
+    const response = await finalize({ chunkCount: 2, duration: 10 });
+
+    expect(response.status).toBe(201);
+    expect(createRecording).toHaveBeenCalledWith(
+      OWNER.id,
+      WORKSPACE_ID,
+      'recording.webm',
+      expect.stringMatching(`^uploads/${WORKSPACE_ID}/${OWNER.id}/`),
+      expect.objectContaining({ duration: 10, size: 200 })
+    );
+    expect(finalizeRecordingSession).toHaveBeenCalledWith(SESSION_ID, 'recording-1', 2);
+    expect(enqueueTranscode).toHaveBeenCalledWith('recording-1');
+    expect(deleteObject).toHaveBeenCalledTimes(1);
+    expect(deleteObject).toHaveBeenCalledWith(`uploads/${WORKSPACE_ID}/sessions/${SESSION_ID}/2`);
+  });
+});
@@ -0,0 +1,237 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import {
+  createRecordingSession,
+  getRecordingSessionById,
+  recordChunk,
+  claimRecordingSession,
+  releaseRecordingSession,
+  finalizeRecordingSession,
+} from '../services/recordingSessionService';
+import { createRecording } from '../services/recordingService';
+import { enqueueTranscode } from '../services/transcodeService';
+import { canRecordRoom, clampToRoomVisit } from '../services/roomService';
+import { resolveUploadWorkspace } from '../services/workspaceService';
+import {
+  buildChunkKey,
+  buildUploadKey,
+  deleteObject,
+  generateChunkUploadUrl,
+  getObjectSize,
+} from '../services/s3Service';
+import {
+  RecordingSessionCreationRequestSchema,
+  RecordingChunkRequestSchema,
+  RecordingSessionFinalizeRequestSchema,
+} from '../types';
+import { ApiError } from '../middleware/errorHandler';
+import { requireAuth } from '../middleware/auth';
+
+const router = Router();
+
+/**
+ * Load a recording session that is still accepting chunks and make sure the given user owns it
+ * @param id The ID of the session
+ * @param userId The ID of the user requesting access
+ * @returns The session record with its chunks
+ */
+async function getOpenOwnedSession(id: string, userId: string) {
+  const session = await getRecordingSessionById(id);
+
+  if (!session) {
+    throw new ApiError('Recording session not found', 404);
+  }
+
+  if (session.userId !== userId) {
+    throw new ApiError('You do not have access to this recording session', 403);
+  }
+
+  if (session.finalizedAt) {
+    throw new ApiError('Recording session has already been finalized', 409);
+  }
+
+  return session;
+}
+
+/**
+ * Get the workspace a session records into, making sure its user may still upload there
+ * @param session The session's user and workspace
+ * @returns The ID of the workspace
+ */
+async function getSessionWorkspaceId(session: { userId: string; workspaceId: string | null }) {
+  // Sessions started before workspaces existed record into the personal workspace
+  return resolveUploadWorkspace(session.userId, session.workspaceId ?? undefined);
+}
+
+// All recording session routes require an authenticated user
+router.use(requireAuth);
+
+/**
+ * POST /api/recording-sessions
+ * Start a recording session whose chunks are uploaded while recording
+ */
+router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    // Validate request body
+    const { filename, mimeType, workspaceId, roomId } = RecordingSessionCreationRequestSchema.parse(
+      req.body
+    );
+
+    // Recordings can only be attached to rooms the uploader owns or has been in
+    if (roomId && !(await canRecordRoom(roomId, req.user!.id))) {
+      throw new ApiError('You have not been in this room', 403);
+    }
+
+    const uploadWorkspaceId = await resolveUploadWorkspace(req.user!.id, workspaceId);
+    const session = await createRecordingSession(
+      req.user!.id,
+      uploadWorkspaceId,
+      filename,
+      mimeType,
+      roomId
+    );
+
+    res.status(201).json(session);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/recording-sessions/:id
+ * Get an open session with its chunk manifest, so an interrupted upload can
+ * send the chunks that are missing and finalize it
+ */
+router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const session = await getOpenOwnedSession(req.params.id, req.user!.id);
+
+    res.status(200).json(session);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/recording-sessions/:id/chunks/upload-url
+ * Generate a pre-signed URL for uploading one chunk
+ */
+router.post('/:id/chunks/upload-url', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+
+    // Validate request body
+    const { index } = RecordingChunkRequestSchema.parse(req.body);
+
+    const session = await getOpenOwnedSession(id, req.user!.id);
+
+    const key = buildChunkKey(await getSessionWorkspaceId(session), session.id, index);
+    const uploadUrl = await generateChunkUploadUrl(key, session.mimeType);
+
+    res.status(200).json({ uploadUrl, key });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/recording-sessions/:id/chunks
+ * Add an uploaded chunk to the session's manifest
+ */
+router.post('/:id/chunks', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+
+    // Validate request body
+    const { index } = RecordingChunkRequestSchema.parse(req.body);
+
+    const session = await getOpenOwnedSession(id, req.user!.id);
+
+    // Only chunks that actually reached S3 go into the manifest
+    const key = buildChunkKey(await getSessionWorkspaceId(session), session.id, index);
+    const size = await getObjectSize(key);
+
+    if (size === null) {
+      throw new ApiError(`Chunk ${index} has not been uploaded`, 409);
+    }
+
+    const chunk = await recordChunk(session.id, index, key, size);
+
+    res.status(201).json(chunk);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/recording-sessions/:id/finalize
+ * Create the session's recording; its chunks are joined into one file when it is processed
+ */
+router.post('/:id/finalize', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+
+    // Validate request body
+    const { duration, chunkCount, captions } = RecordingSessionFinalizeRequestSchema.parse(req.body);
+
+    const session = await getOpenOwnedSession(id, req.user!.id);
+
+    if (session.chunks.length === 0) {
+      throw new ApiError('Recording session has no chunks', 409);
+    }
+
+    // Chunks only play back as one file if none are missing
+    const expectedCount = chunkCount ?? session.chunks.length;
+    for (let index = 0; index < expectedCount; index++) {
+      if (session.chunks[index]?.index !== index) {
+        throw new ApiError(`Chunk ${index} is missing from the recording session`, 409);
+      }
+    }
+
+    const workspaceId = await getSessionWorkspaceId(session);
+
+    // Retried or overlapping requests would otherwise each create a recording
+    if (!(await claimRecordingSession(session.id))) {
+      throw new ApiError('Recording session has already been finalized', 409);
+    }
+
+    // The session started when recording did and ends now, kept within the uploader's visit
+    const callPeriod = session.roomId
+      ? await clampToRoomVisit(session.roomId, session.userId, session.createdAt, new Date())
+      : null;
+
+    const chunks = session.chunks.slice(0, expectedCount);
+    let recording;
+    try {
+      const s3Key = buildUploadKey(session.filename, workspaceId, session.userId);
+
+      recording = await createRecording(session.userId, workspaceId, session.filename, s3Key, {
+        duration,
+        size: chunks.reduce((total, chunk) => total + chunk.size, 0),
+        roomId: session.roomId,
+        captions,
+        recordedFrom: callPeriod?.from,
+        recordedUntil: callPeriod?.until,
+      });
+    } catch (error) {
+      await releaseRecordingSession(session.id).catch((releaseError) =>
+        console.error(`Error releasing recording session ${session.id}:`, releaseError)
+      );
+      throw error;
+    }
+    await finalizeRecordingSession(session.id, recording.id, expectedCount);
+
+    // Join the chunks and produce an MP4 rendition in the background
+    enqueueTranscode(recording.id);
+
+    // Chunks past the end of the recording are not needed
+    Promise.all(session.chunks.slice(expectedCount).map((chunk) => deleteObject(chunk.s3Key))).catch(
+      (error) => console.error(`Error deleting extra chunks of recording session ${session.id}:`, error)
+    );
+
+    res.status(201).json(recording);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,115 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import {
+  createRoom,
+  getRoomById,
+  getRoomsForUser,
+  getOpenPublicRooms,
+  closeRoom,
+  getRoomParticipants,
+} from '../services/roomService';
+import { closeRoomSessions } from '../services/socketService';
+import { RoomCreationRequestSchema } from '../types';
+import { ApiError } from '../middleware/errorHandler';
+import { requireAuth } from '../middleware/auth';
+
+const router = Router();
+
+// All room routes require an authenticated user
+router.use(requireAuth);
+
+/**
+ * POST /api/rooms
+ * Create a new room owned by the current user
+ */
+router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    // Validate request body
+    const { title, isPrivate } = RoomCreationRequestSchema.parse(req.body);
+
+    // Create room record
+    const room = await createRoom(req.user!.id, title, isPrivate);
+
+    res.status(201).json(room);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/rooms
+ * List rooms the current user owns or joined, or open public rooms with ?scope=public
+ */
+router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const rooms = req.query.scope === 'public'
+      ? await getOpenPublicRooms()
+      : await getRoomsForUser(req.user!.id);
+
+    res.status(200).json(rooms);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/rooms/:id
+ * Get a room by its ID. The owner also receives the participant history.
+ */
+router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+
+    // Get the room
+    const room = await getRoomById(id);
+
+    if (!room) {
+      throw new ApiError('Room not found', 404);
+    }
+
+    if (room.ownerId !== req.user!.id) {
+      res.status(200).json(room);
+      return;
+    }
+
+    const participants = await getRoomParticipants(id);
+
+    res.status(200).json({ ...room, participants });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/rooms/:id/close
+ * Close a room and disconnect everyone in it. Only the owner may do this.
+ */
+router.post('/:id/close', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+
+    // Get the room
+    const room = await getRoomById(id);
+
+    if (!room) {
+      throw new ApiError('Room not found', 404);
+    }
+
+    if (room.ownerId !== req.user!.id) {
+      throw new ApiError('Only the room owner can close it', 403);
+    }
+
+    if (room.endedAt) {
+      throw new ApiError('Room is already closed', 409);
+    }
+
+    // Close the room and disconnect anyone still in the call
+    const closedRoom = await closeRoom(id);
+    closeRoomSessions(id);
+
+    res.status(200).json(closedRoom);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
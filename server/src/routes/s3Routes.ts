@@ -1,10 +1,47 @@
 import { Router, Request, Response, NextFunction } from 'express';
-import { generateUploadUrl } from '../services/s3Service';
-import { S3UploadUrlRequestSchema } from '../types';
+import {
+  generateUploadUrl,
+  initiateMultipartUpload,
+  generatePartUploadUrls,
+  listUploadedParts,
+  completeMultipartUpload,
+  abortMultipartUpload,
+  parseUploadKey,
+} from '../services/s3Service';
+import { getMemberRole, hasRole, resolveUploadWorkspace } from '../services/workspaceService';
+import {
+  S3UploadUrlRequestSchema,
+  MultipartInitiateRequestSchema,
+  MultipartSignPartsRequestSchema,
+  MultipartListPartsQuerySchema,
+  MultipartCompleteRequestSchema,
+  MultipartAbortRequestSchema,
+} from '../types';
 import { ApiError } from '../middleware/errorHandler';
+import { requireAuth } from '../middleware/auth';
 
 const router = Router();
 
+// All S3 routes require an authenticated user
+router.use(requireAuth);
+
+/**
+ * Make sure an S3 key was issued to the given user, for a workspace they may still upload to
+ * @param key The S3 key
+ * @param userId The ID of the user
+ */
+async function assertUploadKeyAccess(key: string, userId: string) {
+  const upload = parseUploadKey(key);
+
+  if (
+    !upload ||
+    upload.userId !== userId ||
+    !hasRole(await getMemberRole(upload.workspaceId, userId), 'member')
+  ) {
+    throw new ApiError('Invalid S3 key for this user', 403);
+  }
+}
+
 /**
  * POST /api/s3/upload-url
  * Generate a pre-signed URL for uploading a file to S3
@@ -13,13 +50,110 @@ router.post('/upload-url', async (req: Request, res: Response, next: NextFunctio
   try {
     // Validate request body
     const validatedData = S3UploadUrlRequestSchema.parse(req.body);
-    const { filename, fileType, userId } = validatedData;
+    const { filename, fileType } = validatedData;
+
+    const workspaceId = await resolveUploadWorkspace(req.user!.id, validatedData.workspaceId);
 
     // Generate pre-signed URL
-    const { uploadUrl, key } = await generateUploadUrl(filename, fileType, userId);
+    const { uploadUrl, key } = await generateUploadUrl(filename, fileType, workspaceId, req.user!.id);
 
     // Return the URL and key
-    return res.status(200).json({ uploadUrl, key });
+    res.status(200).json({ uploadUrl, key });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/s3/multipart/initiate
+ * Start a multipart upload for a large file
+ */
+router.post('/multipart/initiate', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    // Validate request body
+    const { filename, fileType, workspaceId } = MultipartInitiateRequestSchema.parse(req.body);
+
+    const uploadWorkspaceId = await resolveUploadWorkspace(req.user!.id, workspaceId);
+    const { uploadId, key } = await initiateMultipartUpload(
+      filename,
+      fileType,
+      uploadWorkspaceId,
+      req.user!.id
+    );
+
+    res.status(201).json({ uploadId, key });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/s3/multipart/sign-parts
+ * Generate pre-signed URLs for a batch of parts
+ */
+router.post('/multipart/sign-parts', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    // Validate request body
+    const { key, uploadId, partNumbers } = MultipartSignPartsRequestSchema.parse(req.body);
+    await assertUploadKeyAccess(key, req.user!.id);
+
+    const urls = await generatePartUploadUrls(key, uploadId, partNumbers);
+
+    res.status(200).json({ urls });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/s3/multipart/parts?key=...&uploadId=...
+ * List the parts already uploaded, so an interrupted upload can resume
+ */
+router.get('/multipart/parts', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    // Validate query parameters
+    const { key, uploadId } = MultipartListPartsQuerySchema.parse(req.query);
+    await assertUploadKeyAccess(key, req.user!.id);
+
+    const parts = await listUploadedParts(key, uploadId);
+
+    res.status(200).json({ parts });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/s3/multipart/complete
+ * Assemble the uploaded parts into the final object
+ */
+router.post('/multipart/complete', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    // Validate request body
+    const { key, uploadId, parts } = MultipartCompleteRequestSchema.parse(req.body);
+    await assertUploadKeyAccess(key, req.user!.id);
+
+    await completeMultipartUpload(key, uploadId, parts);
+
+    res.status(200).json({ key });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/s3/multipart/abort
+ * Abort a multipart upload and discard its parts
+ */
+router.post('/multipart/abort', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    // Validate request body
+    const { key, uploadId } = MultipartAbortRequestSchema.parse(req.body);
+    await assertUploadKeyAccess(key, req.user!.id);
+
+    await abortMultipartUpload(key, uploadId);
+
+    res.status(204).end();
   } catch (error) {
     next(error);
   }
@@ -0,0 +1,107 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import {
+  createShareLink,
+  getShareLinksByRecordingId,
+  getShareLinkById,
+  revokeShareLink,
+  toShareLinkResponse,
+} from '../services/shareLinkService';
+import { getRecordingById } from '../services/recordingService';
+import { canManageRecording, getRecordingRole } from '../services/workspaceService';
+import { ShareLinkCreationRequestSchema } from '../types';
+import { ApiError } from '../middleware/errorHandler';
+import { requireAuth } from '../middleware/auth';
+
+// Mounted under /api/recordings/:recordingId/share-links
+const router = Router({ mergeParams: true });
+
+/**
+ * Make sure a recording exists and the given user may share it
+ * @param id The ID of the recording
+ * @param userId The ID of the user requesting access
+ * @returns The recording record
+ */
+async function getShareableRecording(id: string, userId: string) {
+  const recording = await getRecordingById(id);
+
+  if (!recording) {
+    throw new ApiError('Recording not found', 404);
+  }
+
+  // Sharing is managing: admins, or the member who uploaded the recording
+  if (!canManageRecording(await getRecordingRole(recording, userId), recording, userId)) {
+    throw new ApiError('You do not have permission to share this recording', 403);
+  }
+
+  return recording;
+}
+
+// All share link management routes require an authenticated user
+router.use(requireAuth);
+
+/**
+ * POST /api/recordings/:recordingId/share-links
+ * Create a share link with an optional password and expiry time
+ */
+router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { recordingId } = req.params;
+
+    // Validate request body
+    const options = ShareLinkCreationRequestSchema.parse(req.body);
+
+    await getShareableRecording(recordingId, req.user!.id);
+
+    const link = await createShareLink(recordingId, req.user!.id, options);
+
+    res.status(201).json(toShareLinkResponse(link));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/recordings/:recordingId/share-links
+ * List a recording's share links, including revoked and expired ones
+ */
+router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { recordingId } = req.params;
+
+    await getShareableRecording(recordingId, req.user!.id);
+
+    const links = await getShareLinksByRecordingId(recordingId);
+
+    res.status(200).json(links.map(toShareLinkResponse));
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/recordings/:recordingId/share-links/:id
+ * Revoke a share link. The record is kept so it still shows as revoked.
+ */
+router.delete('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { recordingId, id } = req.params;
+
+    await getShareableRecording(recordingId, req.user!.id);
+
+    const link = await getShareLinkById(id);
+
+    if (!link || link.recordingId !== recordingId) {
+      throw new ApiError('Share link not found', 404);
+    }
+
+    if (!link.revokedAt) {
+      await revokeShareLink(id);
+    }
+
+    res.status(204).end();
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,177 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { getShareLinkByToken } from '../services/shareLinkService';
+import { getRecordingById } from '../services/recordingService';
+import { verifyPassword } from '../services/authService';
+import { generateDownloadUrl } from '../services/s3Service';
+import { buildStreamUrl } from '../services/hlsService';
+import { getRecordingRole } from '../services/workspaceService';
+import { ShareLinkAccessRequestSchema } from '../types';
+import { ApiError } from '../middleware/errorHandler';
+import { optionalAuth } from '../middleware/auth';
+
+const router = Router();
+
+// Wrong passwords allowed per share link before it stops accepting any for a while
+const MAX_PASSWORD_ATTEMPTS = 5;
+const PASSWORD_ATTEMPT_WINDOW_MS = 15 * 60 * 1000;
+
+// Wrong password attempts per share link ID, counted from the first in the window
+const failedPasswordAttempts = new Map<string, { count: number; windowStart: number }>();
+
+/**
+ * Check whether a share link has had too many wrong passwords recently
+ * @param linkId The ID of the share link
+ * @returns True if password attempts are blocked for now
+ */
+function isPasswordLocked(linkId: string): boolean {
+  const attempts = failedPasswordAttempts.get(linkId);
+  return !!attempts && attempts.count >= MAX_PASSWORD_ATTEMPTS && !hasWindowEnded(attempts.windowStart);
+}
+
+/**
+ * Count a wrong password for a share link
+ * @param linkId The ID of the share link
+ */
+function recordFailedPassword(linkId: string): void {
+  // Forget windows that have ended, so the map only holds recent attempts
+  failedPasswordAttempts.forEach((attempts, id) => {
+    if (hasWindowEnded(attempts.windowStart)) failedPasswordAttempts.delete(id);
+  });
+
+  const attempts = failedPasswordAttempts.get(linkId);
+  if (attempts) {
+    attempts.count++;
+  } else {
+    failedPasswordAttempts.set(linkId, { count: 1, windowStart: Date.now() });
+  }
+}
+
+/**
+ * Check whether an attempt window is over
+ * @param windowStart When the window started, in ms
+ * @returns True if the window has ended
+ */
+function hasWindowEnded(windowStart: number): boolean {
+  return Date.now() - windowStart >= PASSWORD_ATTEMPT_WINDOW_MS;
+}
+
+/**
+ * Load a share link and make sure it can still be opened by the requester
+ * @param token The token from the share URL
+ * @param req The request, for the optional logged in user
+ * @returns The share link record
+ */
+async function getOpenShareLink(token: string, req: Request) {
+  const link = await getShareLinkByToken(token);
+
+  if (!link) {
+    throw new ApiError('Share link not found', 404);
+  }
+
+  if (link.revokedAt) {
+    throw new ApiError('This share link has been revoked', 410);
+  }
+
+  if (link.expiresAt && link.expiresAt.getTime() <= Date.now()) {
+    throw new ApiError('This share link has expired', 410);
+  }
+
+  // Team links are for workspace members, so the viewer must be signed in
+  if (link.scope === 'team' && !req.user) {
+    throw new ApiError('Log in to view this recording', 401);
+  }
+
+  return link;
+}
+
+// Share links work without an account, but team links need to know who is asking
+router.use(optionalAuth);
+
+/**
+ * GET /api/share/:token
+ * Check a share link, and whether a password or login is needed to open it
+ */
+router.get('/:token', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const link = await getShareLinkByToken(req.params.token);
+
+    if (!link) {
+      throw new ApiError('Share link not found', 404);
+    }
+
+    // Report the login requirement up front instead of failing with 401
+    const isOpen =
+      !link.revokedAt && (!link.expiresAt || link.expiresAt.getTime() > Date.now());
+
+    res.status(200).json({
+      scope: link.scope,
+      requiresPassword: link.passwordHash !== null,
+      requiresLogin: link.scope === 'team' && !req.user,
+      expiresAt: link.expiresAt,
+      isOpen,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/share/:token/playback
+ * Open a share link, with its password if it has one, and get the recording
+ * with short-lived playback URLs
+ */
+router.post('/:token/playback', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    // Validate request body
+    const { password } = ShareLinkAccessRequestSchema.parse(req.body ?? {});
+
+    const link = await getOpenShareLink(req.params.token, req);
+
+    if (link.passwordHash) {
+      // Passwords are throttled per link, so they can't be guessed from many addresses at once
+      if (isPasswordLocked(link.id)) {
+        throw new ApiError('Too many incorrect passwords. Try again later.', 429);
+      }
+
+      if (!password) {
+        throw new ApiError('Password required', 401);
+      }
+
+      if (!(await verifyPassword(password, link.passwordHash))) {
+        recordFailedPassword(link.id);
+        throw new ApiError('Incorrect password', 401);
+      }
+    }
+
+    const recording = await getRecordingById(link.recordingId);
+
+    if (!recording) {
+      throw new ApiError('Recording not found', 404);
+    }
+
+    if (link.scope === 'team' && !(await getRecordingRole(recording, req.user!.id))) {
+      throw new ApiError('Only members of this workspace can view this recording', 403);
+    }
+
+    const playback = await generateDownloadUrl(recording.mp4Key ?? recording.s3Key);
+    const stream = recording.hlsKey
+      ? buildStreamUrl(`${req.protocol}://${req.get('host')}/api/recordings`, recording.id)
+      : null;
+
+    res.status(200).json({
+      recording: {
+        id: recording.id,
+        filename: recording.filename,
+        description: recording.description,
+        duration: recording.duration,
+        uploadedAt: recording.uploadedAt,
+      },
+      playback: { url: playback.url, expiresAt: playback.expiresAt.toISOString() },
+      stream: stream && { url: stream.url, expiresAt: stream.expiresAt.toISOString() },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,133 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { getTranscriptByRecordingId } from '../services/transcriptService';
+import { enqueueTranscription } from '../services/transcriptionService';
+import { getRecordingById } from '../services/recordingService';
+import { canManageRecording, getRecordingRole } from '../services/workspaceService';
+import { formatSrt, formatWebVtt } from '../utils/captions';
+import { ApiError } from '../middleware/errorHandler';
+import { requireAuth } from '../middleware/auth';
+
+// Mounted under /api/recordings/:recordingId/transcript
+const router = Router({ mergeParams: true });
+
+// Caption formats that can be exported, with their content types
+const CAPTION_FORMATS = {
+  vtt: { contentType: 'text/vtt', format: formatWebVtt },
+  srt: { contentType: 'application/x-subrip', format: formatSrt },
+} as const;
+
+/**
+ * Load a recording and make sure the given user may view it
+ * @param id The ID of the recording
+ * @param userId The ID of the user requesting access
+ * @returns The recording record and whether the user may manage it
+ */
+async function getViewableRecording(id: string, userId: string) {
+  const recording = await getRecordingById(id);
+
+  if (!recording) {
+    throw new ApiError('Recording not found', 404);
+  }
+
+  const role = await getRecordingRole(recording, userId);
+
+  if (!role) {
+    throw new ApiError('You do not have access to this recording', 403);
+  }
+
+  return { recording, canManage: canManageRecording(role, recording, userId) };
+}
+
+// All transcript routes require an authenticated user
+router.use(requireAuth);
+
+/**
+ * GET /api/recordings/:recordingId/transcript
+ * Get a recording's transcript: its status and, once ready, its timed segments
+ */
+router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { recordingId } = req.params;
+
+    await getViewableRecording(recordingId, req.user!.id);
+
+    const transcript = await getTranscriptByRecordingId(recordingId);
+
+    if (!transcript) {
+      throw new ApiError('This recording has no transcript yet', 404);
+    }
+
+    // The joined text is only kept for search
+    res.status(200).json({
+      id: transcript.id,
+      recordingId: transcript.recordingId,
+      status: transcript.status,
+      error: transcript.error,
+      language: transcript.language,
+      segments: transcript.segments,
+      updatedAt: transcript.updatedAt,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/recordings/:recordingId/transcript
+ * Transcribe a recording again, e.g. after a failure
+ */
+router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { recordingId } = req.params;
+
+    const { recording, canManage } = await getViewableRecording(recordingId, req.user!.id);
+
+    if (!canManage) {
+      throw new ApiError('You do not have permission to change this recording', 403);
+    }
+
+    if (recording.processingStatus !== 'ready') {
+      throw new ApiError('The recording is transcribed once it has been processed', 409);
+    }
+
+    await enqueueTranscription(recordingId);
+
+    res.status(202).json({ status: 'queued' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/recordings/:recordingId/transcript/captions.:format
+ * Export the transcript as a WebVTT (vtt) or SRT (srt) caption file.
+ * Add ?download=1 to save it as a file.
+ */
+router.get('/captions.:format', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { recordingId, format } = req.params;
+
+    if (format !== 'vtt' && format !== 'srt') {
+      throw new ApiError('Captions are available as vtt or srt', 400);
+    }
+    const captions = CAPTION_FORMATS[format];
+
+    const { recording } = await getViewableRecording(recordingId, req.user!.id);
+    const transcript = await getTranscriptByRecordingId(recordingId);
+
+    if (!transcript || transcript.status !== 'ready') {
+      throw new ApiError('The transcript is not ready yet', 409);
+    }
+
+    if (req.query.download) {
+      const basename = recording.filename.replace(/\.[^.]+$/, '');
+      res.attachment(`${basename}.${format}`);
+    }
+
+    res.type(captions.contentType).send(captions.format(transcript.segments));
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
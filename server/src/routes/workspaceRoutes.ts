@@ -0,0 +1,292 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import {
+  createWorkspace,
+  getMemberRole,
+  getOrCreatePersonalWorkspace,
+  getWorkspaceById,
+  getWorkspaceMember,
+  getWorkspaceMembers,
+  getWorkspacesForUser,
+  hasRole,
+  removeWorkspaceMember,
+  updateWorkspace,
+  updateWorkspaceMemberRole,
+} from '../services/workspaceService';
+import {
+  createWorkspaceInvite,
+  deleteWorkspaceInvite,
+  getPendingInvitesByWorkspaceId,
+  getWorkspaceInviteById,
+} from '../services/workspaceInviteService';
+import {
+  WorkspaceCreationRequestSchema,
+  WorkspaceInviteRequestSchema,
+  WorkspaceMemberUpdateRequestSchema,
+  WorkspaceRole,
+  WorkspaceUpdateRequestSchema,
+} from '../types';
+import { ApiError } from '../middleware/errorHandler';
+import { requireAuth } from '../middleware/auth';
+
+const router = Router();
+
+/**
+ * Load a workspace and make sure the given user has at least the given role in it
+ * @param id The ID of the workspace
+ * @param userId The ID of the user requesting access
+ * @param minimum The lowest role allowed
+ * @returns The workspace record and the user's role
+ */
+async function getWorkspaceWithRole(id: string, userId: string, minimum: WorkspaceRole) {
+  const workspace = await getWorkspaceById(id);
+  const role = workspace ? await getMemberRole(id, userId) : null;
+
+  // Non-members can't tell whether the workspace exists
+  if (!workspace || !role) {
+    throw new ApiError('Workspace not found', 404);
+  }
+
+  if (!hasRole(role, minimum)) {
+    throw new ApiError('You do not have permission to do this in this workspace', 403);
+  }
+
+  return { workspace, role };
+}
+
+/**
+ * Make sure a user with the given role may change or remove a member
+ * @param actorRole The role of the user making the change
+ * @param targetRole The member's current role
+ * @param newRole The member's new role, when changing it
+ */
+function assertCanManageMember(actorRole: WorkspaceRole, targetRole: WorkspaceRole, newRole?: WorkspaceRole) {
+  if (targetRole === 'owner') {
+    throw new ApiError('The workspace owner cannot be changed or removed', 403);
+  }
+
+  // Admins manage members and viewers; only the owner manages admins
+  if (actorRole !== 'owner' && (targetRole === 'admin' || newRole === 'admin')) {
+    throw new ApiError('Only the owner can manage admins', 403);
+  }
+}
+
+// All workspace routes require an authenticated user
+router.use(requireAuth);
+
+/**
+ * POST /api/workspaces
+ * Create a new workspace owned by the current user
+ */
+router.post('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    // Validate request body
+    const { name } = WorkspaceCreationRequestSchema.parse(req.body);
+
+    const workspace = await createWorkspace(name, req.user!.id);
+
+    res.status(201).json({ ...workspace, role: 'owner' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/workspaces
+ * List the workspaces the current user belongs to, with their role in each
+ */
+router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    let workspaces = await getWorkspacesForUser(req.user!.id);
+
+    // Everyone has somewhere to put their recordings
+    if (workspaces.length === 0) {
+      await getOrCreatePersonalWorkspace(req.user!.id);
+      workspaces = await getWorkspacesForUser(req.user!.id);
+    }
+
+    res.status(200).json(workspaces);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/workspaces/:id
+ * Get a workspace with the current user's role in it
+ */
+router.get('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { workspace, role } = await getWorkspaceWithRole(req.params.id, req.user!.id, 'viewer');
+
+    res.status(200).json({ ...workspace, role });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PATCH /api/workspaces/:id
+ * Rename a workspace. Admins and the owner may do this.
+ */
+router.patch('/:id', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    // Validate request body
+    const { name } = WorkspaceUpdateRequestSchema.parse(req.body);
+
+    const { role } = await getWorkspaceWithRole(req.params.id, req.user!.id, 'admin');
+
+    const workspace = await updateWorkspace(req.params.id, name);
+
+    res.status(200).json({ ...workspace, role });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/workspaces/:id/members
+ * List a workspace's members
+ */
+router.get('/:id/members', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await getWorkspaceWithRole(req.params.id, req.user!.id, 'viewer');
+
+    const members = await getWorkspaceMembers(req.params.id);
+
+    res.status(200).json(members);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * PATCH /api/workspaces/:id/members/:userId
+ * Change a member's role
+ */
+router.patch('/:id/members/:userId', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id, userId } = req.params;
+
+    // Validate request body
+    const { role: newRole } = WorkspaceMemberUpdateRequestSchema.parse(req.body);
+
+    const { role } = await getWorkspaceWithRole(id, req.user!.id, 'admin');
+    const member = await getWorkspaceMember(id, userId);
+
+    if (!member) {
+      throw new ApiError('Member not found', 404);
+    }
+
+    assertCanManageMember(role, member.role as WorkspaceRole, newRole);
+
+    const updated = await updateWorkspaceMemberRole(member.id, newRole);
+
+    res.status(200).json(updated);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/workspaces/:id/members/:userId
+ * Remove a member from a workspace. Members other than the owner may also remove themselves.
+ */
+router.delete('/:id/members/:userId', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id, userId } = req.params;
+    const isLeaving = userId === req.user!.id;
+
+    const { role } = await getWorkspaceWithRole(id, req.user!.id, isLeaving ? 'viewer' : 'admin');
+    const member = await getWorkspaceMember(id, userId);
+
+    if (!member) {
+      throw new ApiError('Member not found', 404);
+    }
+
+    if (isLeaving && role === 'owner') {
+      throw new ApiError('The workspace owner cannot leave it', 403);
+    }
+
+    if (!isLeaving) {
+      assertCanManageMember(role, member.role as WorkspaceRole);
+    }
+
+    await removeWorkspaceMember(member.id);
+
+    res.status(204).end();
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * GET /api/workspaces/:id/invites
+ * List a workspace's invites that have not been accepted or expired
+ */
+router.get('/:id/invites', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await getWorkspaceWithRole(req.params.id, req.user!.id, 'admin');
+
+    const invites = await getPendingInvitesByWorkspaceId(req.params.id);
+
+    res.status(200).json(invites);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /api/workspaces/:id/invites
+ * Invite someone to a workspace by email. The invite is accepted through its
+ * token, which the inviter shares as a link.
+ */
+router.post('/:id/invites', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+
+    // Validate request body
+    const { email, role: inviteRole } = WorkspaceInviteRequestSchema.parse(req.body);
+
+    const { role } = await getWorkspaceWithRole(id, req.user!.id, 'admin');
+
+    if (inviteRole === 'admin' && role !== 'owner') {
+      throw new ApiError('Only the owner can invite admins', 403);
+    }
+
+    const members = await getWorkspaceMembers(id);
+    if (members.some((member) => member.user.email === email.trim().toLowerCase())) {
+      throw new ApiError('This person is already a member', 409);
+    }
+
+    const invite = await createWorkspaceInvite(id, req.user!.id, email, inviteRole);
+
+    res.status(201).json(invite);
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * DELETE /api/workspaces/:id/invites/:inviteId
+ * Cancel an invite
+ */
+router.delete('/:id/invites/:inviteId', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { id, inviteId } = req.params;
+
+    await getWorkspaceWithRole(id, req.user!.id, 'admin');
+    const invite = await getWorkspaceInviteById(inviteId);
+
+    if (!invite || invite.workspaceId !== id) {
+      throw new ApiError('Invite not found', 404);
+    }
+
+    await deleteWorkspaceInvite(invite.id);
+
+    res.status(204).end();
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,175 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+import { PrismaClient } from '../generated/prisma';
+import { ApiError } from '../middleware/errorHandler';
+import { AuthUser } from '../types';
+
+const prisma = new PrismaClient();
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: string,
+  salt: string,
+  keylen: number
+) => Promise<Buffer>;
+
+// Sessions stay valid for 30 days
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+const KEY_LENGTH = 64;
+
+/**
+ * Hash a password with a random salt using scrypt
+ * @param password The plain-text password
+ * @returns The salt and derived key, encoded as "salt:hash"
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const derivedKey = await scrypt(password, salt, KEY_LENGTH);
+  return `${salt}:${derivedKey.toString('hex')}`;
+}
+
+/**
+ * Check a password against a stored hash
+ * @param password The plain-text password
+ * @param storedHash The "salt:hash" string produced by hashPassword
+ * @returns True if the password matches
+ */
+export async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+  const [salt, hash] = storedHash.split(':');
+  if (!salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, 'hex');
+  const derivedKey = await scrypt(password, salt, expected.length);
+  return crypto.timingSafeEqual(derivedKey, expected);
+}
+
+/**
+ * Hash a session token for storage, so a database leak does not leak live tokens
+ * @param token The raw session token
+ * @returns The SHA-256 hex digest of the token
+ */
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Strip private fields from a user record
+ */
+function toAuthUser(user: { id: string; email: string; name: string }): AuthUser {
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+  };
+}
+
+/**
+ * Create a new user account
+ * @param email The user's email address
+ * @param name The user's display name
+ * @param password The plain-text password
+ * @returns The created user
+ */
+export async function createUser(email: string, name: string, password: string): Promise<AuthUser> {
+  const normalizedEmail = email.trim().toLowerCase();
+
+  const existing = await prisma.user.findUnique({
+    where: {
+      email: normalizedEmail,
+    },
+  });
+
+  if (existing) {
+    throw new ApiError('An account with this email already exists', 409);
+  }
+
+  const user = await prisma.user.create({
+    data: {
+      email: normalizedEmail,
+      name,
+      passwordHash: await hashPassword(password),
+    },
+  });
+
+  return toAuthUser(user);
+}
+
+/**
+ * Verify a user's credentials
+ * @param email The user's email address
+ * @param password The plain-text password
+ * @returns The authenticated user
+ */
+export async function authenticateUser(email: string, password: string): Promise<AuthUser> {
+  const user = await prisma.user.findUnique({
+    where: {
+      email: email.trim().toLowerCase(),
+    },
+  });
+
+  if (!user || !(await verifyPassword(password, user.passwordHash))) {
+    throw new ApiError('Invalid email or password', 401);
+  }
+
+  return toAuthUser(user);
+}
+
+/**
+ * Create a session for a user
+ * @param userId The ID of the user
+ * @returns The raw session token to hand to the client
+ */
+export async function createSession(userId: string): Promise<string> {
+  const token = crypto.randomBytes(32).toString('hex');
+
+  await prisma.session.create({
+    data: {
+      userId,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + SESSION_TTL_MS),
+    },
+  });
+
+  return token;
+}
+
+/**
+ * Resolve a session token to its user
+ * @param token The raw session token
+ * @returns The user, or null if the token is unknown or expired
+ */
+export async function getUserBySessionToken(token: string): Promise<AuthUser | null> {
+  const session = await prisma.session.findUnique({
+    where: {
+      tokenHash: hashToken(token),
+    },
+    include: {
+      user: true,
+    },
+  });
+
+  if (!session) {
+    return null;
+  }
+
+  if (session.expiresAt.getTime() <= Date.now()) {
+    await prisma.session.delete({ where: { id: session.id } }).catch(() => undefined);
+    return null;
+  }
+
+  return toAuthUser(session.user);
+}
+
+/**
+ * Delete a session, logging the token out
+ * @param token The raw session token
+ */
+export async function deleteSession(token: string): Promise<void> {
+  await prisma.session.deleteMany({
+    where: {
+      tokenHash: hashToken(token),
+    },
+  });
+}
@@ -0,0 +1,69 @@
+import { PrismaClient } from '../generated/prisma';
+
+const prisma = new PrismaClient();
+
+// Senders are returned with every message
+const includeSender = {
+  user: {
+    select: { id: true, name: true },
+  },
+};
+
+/**
+ * Save a message sent in a room's chat
+ * @param roomId The ID of the room
+ * @param userId The ID of the sender
+ * @param body The message text
+ * @returns The created message with its sender
+ */
+export async function createChatMessage(roomId: string, userId: string, body: string) {
+  return prisma.chatMessage.create({
+    data: {
+      roomId,
+      userId,
+      body,
+    },
+    include: includeSender,
+  });
+}
+
+/**
+ * Get the latest messages in a room's chat
+ * @param roomId The ID of the room
+ * @param limit The most messages to return
+ * @returns An array of messages with their senders, oldest first
+ */
+export async function getRecentChatMessages(roomId: string, limit: number) {
+  const messages = await prisma.chatMessage.findMany({
+    where: {
+      roomId,
+    },
+    include: includeSender,
+    orderBy: {
+      createdAt: 'desc',
+    },
+    take: limit,
+  });
+
+  return messages.reverse();
+}
+
+/**
+ * Get the messages sent in a room's chat during a period
+ * @param roomId The ID of the room
+ * @param from The start of the period
+ * @param until The end of the period
+ * @returns An array of messages with their senders, oldest first
+ */
+export async function getChatMessagesBetween(roomId: string, from: Date, until: Date) {
+  return prisma.chatMessage.findMany({
+    where: {
+      roomId,
+      createdAt: { gte: from, lte: until },
+    },
+    include: includeSender,
+    orderBy: {
+      createdAt: 'asc',
+    },
+  });
+}
@@ -0,0 +1,113 @@
+import { PrismaClient } from '../generated/prisma';
+import { isValidObjectId } from '../utils/objectId';
+
+const prisma = new PrismaClient();
+
+// Comment authors are returned with every comment
+const includeAuthor = {
+  user: {
+    select: { id: true, name: true },
+  },
+};
+
+/**
+ * Create a comment on a recording
+ * @param recordingId The ID of the recording
+ * @param userId The ID of the author
+ * @param body The comment text
+ * @param timestamp Position in the recording, in seconds
+ * @param parentId Optional ID of the top-level comment being replied to
+ * @returns The created comment with its author
+ */
+export async function createComment(
+  recordingId: string,
+  userId: string,
+  body: string,
+  timestamp: number,
+  parentId?: string
+) {
+  return prisma.comment.create({
+    data: {
+      recordingId,
+      userId,
+      body,
+      timestamp,
+      parentId,
+    },
+    include: includeAuthor,
+  });
+}
+
+/**
+ * Get all comments on a recording
+ * @param recordingId The ID of the recording
+ * @returns An array of comments with their authors, by timestamp then creation time
+ */
+export async function getCommentsByRecordingId(recordingId: string) {
+  return prisma.comment.findMany({
+    where: {
+      recordingId,
+    },
+    include: includeAuthor,
+    orderBy: [{ timestamp: 'asc' }, { createdAt: 'asc' }],
+  });
+}
+
+/**
+ * Get a comment by its ID
+ * @param id The ID of the comment
+ * @returns The comment record or null if not found
+ */
+export async function getCommentById(id: string) {
+  if (!isValidObjectId(id)) {
+    return null;
+  }
+
+  return prisma.comment.findUnique({
+    where: {
+      id,
+    },
+  });
+}
+
+/**
+ * Edit a comment's text
+ * @param id The ID of the comment
+ * @param body The new comment text
+ * @returns The updated comment with its author
+ */
+export async function updateComment(id: string, body: string) {
+  return prisma.comment.update({
+    where: {
+      id,
+    },
+    data: {
+      body,
+    },
+    include: includeAuthor,
+  });
+}
+
+/**
+ * Delete a comment and its replies
+ * @param id The ID of the comment
+ */
+export async function deleteComment(id: string) {
+  await prisma.comment.deleteMany({
+    where: {
+      OR: [{ id }, { parentId: id }],
+    },
+  });
+}
+
+/**
+ * Delete all comments on a recording
+ * @param recordingId The ID of the recording
+ */
+export async function deleteCommentsByRecordingId(recordingId: string) {
+  await prisma.comment.deleteMany({
+    where: {
+      recordingId,
+    },
+  });
+}
@@ -0,0 +1,134 @@
+import { PrismaClient } from '../generated/prisma';
+import { isValidObjectId } from '../utils/objectId';
+
+const prisma = new PrismaClient();
+
+/**
+ * Create a folder
+ * @param workspaceId The ID of the workspace
+ * @param createdById The ID of the user creating the folder
+ * @param name The folder name
+ * @param parentId The ID of the parent folder, or null for a top-level folder
+ * @returns The created folder record
+ */
+export async function createFolder(
+  workspaceId: string,
+  createdById: string,
+  name: string,
+  parentId: string | null = null
+) {
+  return prisma.folder.create({
+    data: {
+      workspaceId,
+      createdById,
+      name,
+      parentId,
+    },
+  });
+}
+
+/**
+ * Get all folders in a workspace. Clients build the tree from the parent IDs.
+ * @param workspaceId The ID of the workspace
+ * @returns An array of folder records, sorted by name
+ */
+export async function getFoldersByWorkspaceId(workspaceId: string) {
+  return prisma.folder.findMany({
+    where: {
+      workspaceId,
+    },
+    orderBy: {
+      name: 'asc',
+    },
+  });
+}
+
+/**
+ * Get a folder by its ID
+ * @param id The ID of the folder
+ * @returns The folder record or null if not found
+ */
+export async function getFolderById(id: string) {
+  if (!isValidObjectId(id)) {
+    return null;
+  }
+
+  return prisma.folder.findUnique({
+    where: {
+      id,
+    },
+  });
+}
+
+/**
+ * Check whether a folder is inside another, at any depth
+ * @param folderId The ID of the folder to check
+ * @param ancestorId The ID of the possible ancestor
+ * @returns True if the folder is the ancestor or nested in it
+ */
+export async function isFolderWithin(folderId: string, ancestorId: string) {
+  let currentId: string | null = folderId;
+
+  // Walk up the parents; folders can't form loops, since moves into a descendant are refused
+  while (currentId) {
+    if (currentId === ancestorId) {
+      return true;
+    }
+
+    const folder: { parentId: string | null } | null = await prisma.folder.findUnique({
+      where: { id: currentId },
+      select: { parentId: true },
+    });
+    currentId = folder?.parentId ?? null;
+  }
+
+  return false;
+}
+
+/**
+ * Rename a folder or move it under another parent
+ * @param id The ID of the folder
+ * @param data The new name and/or parent; a null parent moves it to the top level
+ * @returns The updated folder record
+ */
+export async function updateFolder(id: string, data: { name?: string; parentId?: string | null }) {
+  return prisma.folder.update({
+    where: {
+      id,
+    },
+    data: {
+      name: data.name,
+      parentId: data.parentId,
+    },
+  });
+}
+
+/**
+ * Delete a folder. Its recordings and subfolders move up into its parent.
+ * @param folder The folder's ID and parent
+ */
+export async function deleteFolder(folder: { id: string; parentId: string | null }) {
+  await prisma.recording.updateMany({
+    where: {
+      folderId: folder.id,
+    },
+    data: {
+      folderId: folder.parentId,
+    },
+  });
+
+  await prisma.folder.updateMany({
+    where: {
+      parentId: folder.id,
+    },
+    data: {
+      parentId: folder.parentId,
+    },
+  });
+
+  await prisma.folder.delete({
+    where: {
+      id: folder.id,
+    },
+  });
+}
@@ -0,0 +1,216 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { mkdir, readdir } from 'fs/promises';
+import path from 'path';
+import { buildRenditionKey, generateDownloadUrl, getObjectText, uploadFileToObject } from './s3Service';
+import { probeVideo, runFfmpeg } from '../utils/ffmpeg';
+
+// Bitrate ladder, highest first; rungs taller than the source are skipped
+const HLS_LADDER = [
+  { name: '1080p', height: 1080, videoBitrate: 5000, audioBitrate: 128 },
+  { name: '720p', height: 720, videoBitrate: 2800, audioBitrate: 128 },
+  { name: '480p', height: 480, videoBitrate: 1400, audioBitrate: 96 },
+  { name: '360p', height: 360, videoBitrate: 800, audioBitrate: 96 },
+];
+
+// Segment length; keyframes are forced on this boundary so every rung switches cleanly
+const HLS_SEGMENT_SECONDS = 6;
+
+// Signed stream URLs, and the segment URLs in their playlists, must outlast a long viewing
+const STREAM_URL_TTL_SECONDS = 6 * 60 * 60;
+
+// Signs stream URLs; without a configured secret, URLs stop working when the server restarts
+const streamSigningSecret = process.env.STREAM_SIGNING_SECRET || randomBytes(32).toString('hex');
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.m3u8': 'application/vnd.apple.mpegurl',
+  '.ts': 'video/mp2t',
+};
+
+/**
+ * Package a video into HLS with one variant per ladder rung and store it
+ * alongside the recording
+ * @param recordingId The ID of the recording
+ * @param videoPath Path to a local H.264 copy of the video
+ * @param workDir Directory for intermediate files
+ * @returns The S3 key of the master playlist, or null for recordings without video
+ */
+export async function packageHls(
+  recordingId: string,
+  videoPath: string,
+  workDir: string
+): Promise<string | null> {
+  const { height, hasAudio } = await probeVideo(videoPath);
+
+  if (!height) {
+    console.log(`Recording ${recordingId} has no video; skipping HLS`);
+    return null;
+  }
+
+  // Keep every rung that fits the source, and always at least the smallest
+  const fitting = HLS_LADDER.filter((rung) => rung.height <= height);
+  const ladder = fitting.length > 0
+    ? fitting
+    : [{ ...HLS_LADDER[HLS_LADDER.length - 1], height: height - (height % 2) }];
+
+  const hlsDir = path.join(workDir, 'hls');
+  await mkdir(hlsDir);
+
+  const filter = [
+    `[0:v]split=${ladder.length}${ladder.map((_, i) => `[v${i}]`).join('')}`,
+    ...ladder.map((rung, i) => `[v${i}]scale=-2:${rung.height}[v${i}out]`),
+  ].join(';');
+
+  const args = ['-i', videoPath, '-filter_complex', filter];
+
+  ladder.forEach((rung, i) => {
+    args.push(
+      '-map', `[v${i}out]`,
+      `-c:v:${i}`, 'libx264',
+      `-b:v:${i}`, `${rung.videoBitrate}k`,
+      `-maxrate:v:${i}`, `${Math.round(rung.videoBitrate * 1.07)}k`,
+      `-bufsize:v:${i}`, `${rung.videoBitrate * 1.5}k`
+    );
+
+    if (hasAudio) {
+      args.push('-map', '0:a:0', `-c:a:${i}`, 'aac', `-b:a:${i}`, `${rung.audioBitrate}k`);
+    }
+  });
+
+  const streamMap = ladder
+    .map((rung, i) => (hasAudio ? `v:${i},a:${i},name:${rung.name}` : `v:${i},name:${rung.name}`))
+    .join(' ');
+
+  args.push(
+    '-preset', 'veryfast',
+    '-pix_fmt', 'yuv420p',
+    '-force_key_frames', `expr:gte(t,n_forced*${HLS_SEGMENT_SECONDS})`,
+    '-f', 'hls',
+    '-hls_time', String(HLS_SEGMENT_SECONDS),
+    '-hls_playlist_type', 'vod',
+    '-hls_segment_filename', path.join(hlsDir, '%v_%04d.ts'),
+    '-master_pl_name', 'master.m3u8',
+    '-var_stream_map', streamMap,
+    path.join(hlsDir, '%v.m3u8')
+  );
+
+  await runFfmpeg(args);
+
+  // Upload segments before playlists, so a playlist never points at a missing segment
+  const files = (await readdir(hlsDir)).sort(
+    (a, b) => Number(a.endsWith('.m3u8')) - Number(b.endsWith('.m3u8'))
+  );
+
+  for (const file of files) {
+    await uploadFileToObject(
+      path.join(hlsDir, file),
+      buildRenditionKey(recordingId, `hls/${file}`),
+      CONTENT_TYPES[path.extname(file)] || 'application/octet-stream'
+    );
+  }
+
+  return buildRenditionKey(recordingId, 'hls/master.m3u8');
+}
+
+/**
+ * Compute the signature that authorizes fetching a recording's playlists
+ * @param recordingId The ID of the recording
+ * @param expires Expiry time, in seconds since the epoch
+ * @returns The signature
+ */
+function signStream(recordingId: string, expires: number): string {
+  return createHmac('sha256', streamSigningSecret)
+    .update(`${recordingId}:${expires}`)
+    .digest('base64url');
+}
+
+/**
+ * Create the signed query string for a recording's playlists. Players can't
+ * send the session token, so playlist requests carry this signature instead.
+ * @param recordingId The ID of the recording
+ * @returns The query string and its expiry time
+ */
+export function createStreamQuery(recordingId: string): { query: string; expiresAt: Date } {
+  const expires = Math.floor(Date.now() / 1000) + STREAM_URL_TTL_SECONDS;
+  const query = new URLSearchParams({
+    expires: String(expires),
+    signature: signStream(recordingId, expires),
+  }).toString();
+
+  return { query, expiresAt: new Date(expires * 1000) };
+}
+
+/**
+ * Build a signed URL for a recording's master playlist
+ * @param baseUrl Absolute URL the recording routes are mounted at
+ * @param recordingId The ID of the recording
+ * @returns The URL and its expiry time
+ */
+export function buildStreamUrl(baseUrl: string, recordingId: string): { url: string; expiresAt: Date } {
+  const { query, expiresAt } = createStreamQuery(recordingId);
+
+  return { url: `${baseUrl}/${recordingId}/stream/master.m3u8?${query}`, expiresAt };
+}
+
+/**
+ * Check a playlist request's signature
+ * @param recordingId The ID of the recording
+ * @param expires The expires query parameter
+ * @param signature The signature query parameter
+ * @returns Whether the signature is valid and unexpired
+ */
+export function verifyStreamQuery(recordingId: string, expires: unknown, signature: unknown): boolean {
+  const expiresAt = Number(expires);
+  if (!Number.isInteger(expiresAt) || typeof signature !== 'string') {
+    return false;
+  }
+
+  if (expiresAt * 1000 < Date.now()) {
+    return false;
+  }
+
+  const expected = Buffer.from(signStream(recordingId, expiresAt));
+  const actual = Buffer.from(signature);
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Load one of a recording's playlists, rewritten so it can be played from
+ * private storage: the master playlist's variant URIs carry the stream
+ * signature, and a variant playlist's segment URIs become pre-signed S3 URLs.
+ * Browsers without native HLS fetch segments with XHR, so the bucket's CORS
+ * config must allow GET from the client.
+ * @param hlsKey The S3 key of the recording's master playlist
+ * @param playlist The playlist's file name
+ * @param query The signed query string of the request
+ * @returns The playlist contents
+ */
+export async function getSignedPlaylist(
+  hlsKey: string,
+  playlist: string,
+  query: string
+): Promise<string> {
+  const folder = hlsKey.slice(0, hlsKey.lastIndexOf('/') + 1);
+  const isMaster = folder + playlist === hlsKey;
+  const contents = await getObjectText(folder + playlist);
+
+  const lines = await Promise.all(
+    contents.split('\n').map(async (line) => {
+      const uri = line.trim();
+
+      // Tags, comments and blank lines pass through unchanged
+      if (!uri || uri.startsWith('#')) {
+        return line;
+      }
+
+      if (isMaster) {
+        return `${uri}?${query}`;
+      }
+
+      const { url } = await generateDownloadUrl(folder + uri, STREAM_URL_TTL_SECONDS);
+      return url;
+    })
+  );
+
+  return lines.join('\n');
+}
@@ -0,0 +1,48 @@
+/**
+ * In-process background job queue. Jobs run in the order they were added,
+ * with a fixed number running at once. Job state that must survive a restart
+ * belongs in the database; callers re-enqueue unfinished work on startup.
+ */
+export interface JobQueue<T> {
+  enqueue: (job: T) => void;
+  size: () => number;
+}
+
+/**
+ * Create a job queue
+ * @param name Name used in logs
+ * @param handler Function that runs one job
+ * @param concurrency How many jobs may run at once
+ * @returns The job queue
+ */
+export function createJobQueue<T>(
+  name: string,
+  handler: (job: T) => Promise<void>,
+  concurrency = 1
+): JobQueue<T> {
+  const waiting: T[] = [];
+  let running = 0;
+
+  // Start jobs until the concurrency limit is reached
+  const drain = () => {
+    while (running < concurrency && waiting.length > 0) {
+      const job = waiting.shift()!;
+      running++;
+
+      handler(job)
+        .catch((error) => console.error(`Job in queue ${name} failed:`, error))
+        .finally(() => {
+          running--;
+          drain();
+        });
+    }
+  };
+
+  return {
+    enqueue: (job) => {
+      waiting.push(job);
+      drain();
+    },
+    size: () => waiting.length + running,
+  };
+}
@@ -0,0 +1,138 @@
+import { writeFile } from 'fs/promises';
+import path from 'path';
+import { buildRenditionKey, uploadFileToObject } from './s3Service';
+import { probeVideo, runFfmpeg } from '../utils/ffmpeg';
+
+// Width of the poster frame; height follows the aspect ratio
+const THUMBNAIL_WIDTH = 640;
+
+// Width of each sprite tile
+const SPRITE_TILE_WIDTH = 160;
+
+// Sprite sheets hold at most this many tiles, so long recordings get wider intervals
+const SPRITE_MAX_TILES = 100;
+const SPRITE_COLUMNS = 10;
+const SPRITE_MIN_INTERVAL_SECONDS = 2;
+
+export interface PreviewKeys {
+  thumbnailKey: string;
+  spriteKey: string;
+  spriteVttKey: string;
+}
+
+/**
+ * Format seconds as a WebVTT timestamp
+ * @param seconds Time in seconds
+ * @returns Timestamp in HH:MM:SS.mmm form
+ */
+function formatVttTime(seconds: number): string {
+  const totalMs = Math.round(seconds * 1000);
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}.${String(ms).padStart(3, '0')}`;
+}
+
+/**
+ * Build the WebVTT thumbnails track for a sprite sheet. Cues point at the
+ * sprite by file name with a media fragment, e.g. sprite.jpg#xywh=0,0,160,90;
+ * clients resolve the name against the sprite's signed URL.
+ * @param spriteName File name of the sprite sheet
+ * @param tileCount Number of tiles in the sprite sheet
+ * @param interval Seconds of video covered by each tile
+ * @param durationSeconds Duration of the video
+ * @param tileWidth Width of each tile in pixels
+ * @param tileHeight Height of each tile in pixels
+ * @returns The WebVTT file contents
+ */
+function buildSpriteVtt(
+  spriteName: string,
+  tileCount: number,
+  interval: number,
+  durationSeconds: number,
+  tileWidth: number,
+  tileHeight: number
+): string {
+  const cues = ['WEBVTT', ''];
+
+  for (let i = 0; i < tileCount; i++) {
+    const start = i * interval;
+    const end = Math.min((i + 1) * interval, durationSeconds);
+    const x = (i % SPRITE_COLUMNS) * tileWidth;
+    const y = Math.floor(i / SPRITE_COLUMNS) * tileHeight;
+
+    cues.push(`${formatVttTime(start)} --> ${formatVttTime(end)}`);
+    cues.push(`${spriteName}#xywh=${x},${y},${tileWidth},${tileHeight}`);
+    cues.push('');
+  }
+
+  return cues.join('\n');
+}
+
+/**
+ * Extract a poster frame and a hover-scrub sprite sheet with its WebVTT track
+ * from a video, and store them alongside the recording
+ * @param recordingId The ID of the recording
+ * @param videoPath Path to a local copy of the video
+ * @param workDir Directory for intermediate files
+ * @returns The S3 keys of the stored images and track, or null for recordings without video
+ */
+export async function generatePreviews(
+  recordingId: string,
+  videoPath: string,
+  workDir: string
+): Promise<PreviewKeys | null> {
+  const { durationSeconds, width, height } = await probeVideo(videoPath);
+
+  if (!width || !height) {
+    console.log(`Recording ${recordingId} has no video; skipping previews`);
+    return null;
+  }
+
+  // Poster frame from a second in, to skip the black first frames
+  const thumbnailPath = path.join(workDir, 'thumbnail.jpg');
+  await runFfmpeg([
+    '-ss', String(Math.min(1, durationSeconds / 2)),
+    '-i', videoPath,
+    '-frames:v', '1',
+    '-vf', `scale=${Math.min(THUMBNAIL_WIDTH, width)}:-2`,
+    '-q:v', '3',
+    thumbnailPath,
+  ]);
+
+  // One tile every interval, laid out in rows of SPRITE_COLUMNS
+  const interval = Math.max(SPRITE_MIN_INTERVAL_SECONDS, durationSeconds / SPRITE_MAX_TILES);
+  const tileCount = Math.max(1, Math.ceil(durationSeconds / interval));
+  const columns = Math.min(SPRITE_COLUMNS, tileCount);
+  const rows = Math.ceil(tileCount / SPRITE_COLUMNS);
+  const tileHeight = Math.round((SPRITE_TILE_WIDTH * height) / width / 2) * 2;
+
+  const spritePath = path.join(workDir, 'sprite.jpg');
+  await runFfmpeg([
+    '-i', videoPath,
+    '-vf', `fps=1/${interval},scale=${SPRITE_TILE_WIDTH}:${tileHeight},tile=${columns}x${rows}`,
+    '-frames:v', '1',
+    '-q:v', '5',
+    spritePath,
+  ]);
+
+  const spriteVttPath = path.join(workDir, 'sprite.vtt');
+  await writeFile(
+    spriteVttPath,
+    buildSpriteVtt('sprite.jpg', tileCount, interval, durationSeconds, SPRITE_TILE_WIDTH, tileHeight)
+  );
+
+  const keys: PreviewKeys = {
+    thumbnailKey: buildRenditionKey(recordingId, 'thumbnail.jpg'),
+    spriteKey: buildRenditionKey(recordingId, 'sprite.jpg'),
+    spriteVttKey: buildRenditionKey(recordingId, 'sprite.vtt'),
+  };
+
+  await uploadFileToObject(thumbnailPath, keys.thumbnailKey, 'image/jpeg');
+  await uploadFileToObject(spritePath, keys.spriteKey, 'image/jpeg');
+  await uploadFileToObject(spriteVttPath, keys.spriteVttKey, 'text/vtt');
+
+  return keys;
+}
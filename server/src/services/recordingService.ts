@@ -1,54 +1,513 @@
-import { PrismaClient } from '../generated/prisma';
+import { Prisma, PrismaClient } from '../generated/prisma';
+import {
+  LiveCaption,
+  ProcessingStatus,
+  RecordingListQuery,
+  RecordingUpdateRequest,
+  TimeRange,
+} from '../types';
+import { isValidObjectId } from '../utils/objectId';
+import { fitCuesToRange } from '../utils/captions';
+import { ApiError } from '../middleware/errorHandler';
+import { getTranscriptMatches } from './transcriptService';
 
-const prisma = new PrismaClient();
+// Live captions are only read when a recording is processed or clipped, so
+// they are left out of the records returned to clients
+const prisma = new PrismaClient({
+  omit: {
+    recording: {
+      liveCaptions: true,
+    },
+  },
+});
+
+// Matches the limit on tags in a recording update
+const MAX_TAGS_PER_RECORDING = 20;
+
+/**
+ * Normalize tags: no duplicates, stored lowercase
+ * @param tags The tags as entered
+ * @returns The normalized tags
+ */
+function normalizeTags(tags: string[]): string[] {
+  return Array.from(new Set(tags.map((tag) => tag.toLowerCase())));
+}
 
 /**
  * Create a new recording record in the database
  * @param userId The ID of the user who uploaded the recording
+ * @param workspaceId The ID of the workspace the recording belongs to
  * @param filename The name of the recording file
- * @param s3Url The S3 URL where the recording is stored
- * @param duration Optional duration of the recording in seconds
+ * @param s3Key The S3 key where the recording is stored
+ * @param details Optional duration in seconds, size in bytes, room the recording was made in,
+ * the part of the upload to keep, the captions spoken in the call while it was recorded and when
+ * recording started and stopped
  * @returns The created recording record
  */
 export async function createRecording(
   userId: string,
+  workspaceId: string,
+  filename: string,
+  s3Key: string,
+  details: {
+    duration?: number;
+    size?: number;
+    roomId?: string | null;
+    trim?: TimeRange;
+    captions?: LiveCaption[];
+    recordedFrom?: Date;
+    recordedUntil?: Date;
+  } = {}
+) {
+  return prisma.recording
+    .create({
+      data: {
+        userId,
+        workspaceId,
+        filename,
+        s3Key,
+        duration: details.trim ? Math.round(details.trim.end - details.trim.start) : details.duration,
+        size: details.size,
+        roomId: details.roomId,
+        clipStart: details.trim?.start,
+        clipEnd: details.trim?.end,
+        liveCaptions: details.captions?.slice().sort((a, b) => a.start - b.start),
+        recordedFrom: details.recordedFrom,
+        recordedUntil: details.recordedUntil,
+      },
+    })
+    .catch((error) => {
+      // The unique index catches a key claimed between the route's check and here
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new ApiError('This file already belongs to a recording', 409);
+      }
+      throw error;
+    });
+}
+
+/**
+ * Get the captions spoken in the call while a recording was made
+ * @param id The ID of the recording
+ * @returns The captions, timed from the start of the recording's processing input
+ */
+export async function getRecordingLiveCaptions(id: string) {
+  const recording = await prisma.recording.findUnique({
+    where: {
+      id,
+    },
+    select: {
+      liveCaptions: true,
+    },
+  });
+
+  return recording?.liveCaptions ?? [];
+}
+
+/**
+ * Get the period of its room's call that a recording plays back, to match up chat messages.
+ * Times are wall-clock, so any pauses while recording put later messages slightly early.
+ * @param recording The recording's room, span and kept range
+ * @returns When playback starts and ends in the call, or null if it was not recorded in a room
+ */
+export function getRecordingCallPeriod(recording: {
+  roomId: string | null;
+  sourceRecordingId: string | null;
+  recordedFrom: Date | null;
+  recordedUntil: Date | null;
+  clipStart: number | null;
+  clipEnd: number | null;
+}) {
+  const { roomId, recordedFrom, recordedUntil } = recording;
+  if (!roomId || !recordedFrom || !recordedUntil) {
+    return null;
+  }
+
+  // A clip's span is already cut to its range when it is created
+  if (recording.sourceRecordingId) {
+    return { from: recordedFrom, until: recordedUntil };
+  }
+
+  const from = new Date(recordedFrom.getTime() + (recording.clipStart ?? 0) * 1000);
+  const until =
+    recording.clipEnd !== null
+      ? new Date(Math.min(recordedFrom.getTime() + recording.clipEnd * 1000, recordedUntil.getTime()))
+      : recordedUntil;
+
+  return { from, until };
+}
+
+/**
+ * Create a clip of a recording. Its file is cut from the source when it is processed.
+ * @param userId The ID of the user creating the clip
+ * @param source The recording the clip is cut from
+ * @param workspaceId The ID of the workspace the clip belongs to
+ * @param filename The name of the clip
+ * @param s3Key The S3 key the clip's file will be stored at
+ * @param range The part of the source to keep
+ * @returns The created recording record
+ */
+export async function createClip(
+  userId: string,
+  source: {
+    id: string;
+    folderId: string | null;
+    roomId: string | null;
+    tags: string[];
+    sourceRecordingId: string | null;
+    clipStart: number | null;
+    clipEnd: number | null;
+    recordedFrom: Date | null;
+    recordedUntil: Date | null;
+  },
+  workspaceId: string,
   filename: string,
-  s3Url: string,
-  duration?: number
+  s3Key: string,
+  range: TimeRange
 ) {
+  // Clip times refer to the source's MP4, which only has the source's own range
+  const sourceRange =
+    source.clipStart !== null && source.clipEnd !== null
+      ? { start: source.clipStart, end: source.clipEnd }
+      : null;
+  const liveCaptions = fitCuesToRange(await getRecordingLiveCaptions(source.id), sourceRange);
+
+  // The clip covers part of the source's period of the call
+  const sourcePeriod = getRecordingCallPeriod(source);
+  const recordedFrom = sourcePeriod && new Date(sourcePeriod.from.getTime() + range.start * 1000);
+  const recordedUntil =
+    sourcePeriod &&
+    new Date(Math.min(sourcePeriod.from.getTime() + range.end * 1000, sourcePeriod.until.getTime()));
+
   return prisma.recording.create({
     data: {
       userId,
+      workspaceId,
+      folderId: source.folderId,
       filename,
-      s3Url,
-      duration,
+      s3Key,
+      duration: Math.round(range.end - range.start),
+      roomId: source.roomId,
+      tags: source.tags,
+      sourceRecordingId: source.id,
+      clipStart: range.start,
+      clipEnd: range.end,
+      liveCaptions,
+      recordedFrom,
+      recordedUntil,
     },
   });
 }
 
 /**
- * Get all recordings for a specific user
+ * Get one page of a user's recordings in the given workspaces, filtered and sorted
  * @param userId The ID of the user
- * @returns An array of recording records
+ * @param workspaceIds The IDs of the workspaces to include
+ * @param query Search text, date and room filters, sort order and page cursor
+ * @returns The page of recording records and the cursor of the next page, or null on the last page
+ */
+export async function getRecordingsByUserId(
+  userId: string,
+  workspaceIds: string[],
+  query: RecordingListQuery
+) {
+  return getRecordingPage({ userId, workspaceId: { in: workspaceIds } }, query);
+}
+
+/**
+ * Get one page of a workspace's recordings, filtered and sorted
+ * @param workspaceId The ID of the workspace
+ * @param query Search text, date and room filters, sort order and page cursor
+ * @returns The page of recording records and the cursor of the next page, or null on the last page
+ */
+export async function getRecordingsByWorkspaceId(workspaceId: string, query: RecordingListQuery) {
+  return getRecordingPage({ workspaceId }, query);
+}
+
+/**
+ * Get one page of recordings matching a base filter and a list query
+ * @param scope The base filter, e.g. a user or workspace
+ * @param query Search text, date and room filters, sort order and page cursor
+ * @returns The page of recording records, with the transcript segments matching any search,
+ * and the cursor of the next page, or null on the last page
+ */
+async function getRecordingPage(scope: Prisma.RecordingWhereInput, query: RecordingListQuery) {
+  const { q, from, to, roomId, tag, folderId, sort, order, cursor, limit } = query;
+
+  const where: Prisma.RecordingWhereInput = {
+    ...scope,
+    roomId,
+    tags: tag ? { has: tag.toLowerCase() } : undefined,
+    uploadedAt: from || to ? { gte: from, lte: to } : undefined,
+  };
+
+  // Top-level recordings have no folder, either never set or cleared by a move
+  if (folderId === 'root') {
+    where.AND = [{ OR: [{ folderId: null }, { folderId: { isSet: false } }] }];
+  } else if (folderId) {
+    where.folderId = folderId;
+  }
+
+  // Search matches the name, description, an exact tag or anything said in the recording
+  if (q) {
+    where.OR = [
+      { filename: { contains: q, mode: 'insensitive' } },
+      { description: { contains: q, mode: 'insensitive' } },
+      { tags: { has: q.toLowerCase() } },
+      { transcript: { is: { text: { contains: q, mode: 'insensitive' } } } },
+    ];
+  }
+
+  // One extra row tells whether there is another page; the ID breaks ties so pages never overlap
+  const recordings = await prisma.recording.findMany({
+    where,
+    orderBy: [{ [sort]: order }, { id: order }],
+    cursor: cursor ? { id: cursor } : undefined,
+    skip: cursor ? 1 : 0,
+    take: limit + 1,
+  });
+
+  const hasMore = recordings.length > limit;
+  const page = hasMore ? recordings.slice(0, limit) : recordings;
+
+  // Show where in each recording the search text was said
+  const matches = q
+    ? await getTranscriptMatches(page.map((recording) => recording.id), q)
+    : new Map<string, { start: number; end: number; text: string }[]>();
+
+  return {
+    recordings: page.map((recording) => ({
+      ...recording,
+      transcriptMatches: matches.get(recording.id) ?? [],
+    })),
+    nextCursor: hasMore ? page[page.length - 1].id : null,
+  };
+}
+
+/**
+ * Get a recording by its ID
+ * @param id The ID of the recording
+ * @returns The recording record or null if not found
+ */
+export async function getRecordingById(id: string) {
+  if (!isValidObjectId(id)) {
+    return null;
+  }
+
+  return prisma.recording.findUnique({
+    where: {
+      id,
+    },
+  });
+}
+
+/**
+ * Check whether a recording is already stored at an S3 key
+ * @param s3Key The S3 key
+ * @returns True if any recording uses the key
+ */
+export async function isS3KeyInUse(s3Key: string) {
+  const count = await prisma.recording.count({
+    where: {
+      s3Key,
+    },
+  });
+
+  return count > 0;
+}
+
+/**
+ * Get recordings by their IDs
+ * @param ids The IDs of the recordings
+ * @returns An array of the recording records found, in no particular order
  */
-export async function getRecordingsByUserId(userId: string) {
+export async function getRecordingsByIds(ids: string[]) {
   return prisma.recording.findMany({
     where: {
-      userId,
+      id: { in: ids.filter(isValidObjectId) },
+    },
+  });
+}
+
+/**
+ * Get the tags used in a workspace
+ * @param workspaceId The ID of the workspace
+ * @returns An array of tags with how many recordings have each, most used first
+ */
+export async function getTagsByWorkspaceId(workspaceId: string) {
+  const recordings = await prisma.recording.findMany({
+    where: {
+      workspaceId,
+      tags: { isEmpty: false },
+    },
+    select: {
+      tags: true,
+    },
+  });
+
+  const counts = new Map<string, number>();
+  recordings.forEach((recording) =>
+    recording.tags.forEach((tag) => counts.set(tag, (counts.get(tag) ?? 0) + 1))
+  );
+
+  return Array.from(counts, ([tag, count]) => ({ tag, count })).sort(
+    (a, b) => b.count - a.count || a.tag.localeCompare(b.tag)
+  );
+}
+
+/**
+ * Update a recording's editable metadata
+ * @param id The ID of the recording
+ * @param data The fields to update
+ * @returns The updated recording record
+ */
+export async function updateRecording(id: string, data: RecordingUpdateRequest) {
+  return prisma.recording.update({
+    where: {
+      id,
+    },
+    data: {
+      filename: data.filename,
+      description: data.description,
+      tags: data.tags ? normalizeTags(data.tags) : undefined,
+    },
+  });
+}
+
+/**
+ * Trim a recording to part of its upload and queue it to be processed again.
+ * The upload itself is kept, so the trim can be changed later.
+ * @param id The ID of the recording
+ * @param range The part of the upload to keep, or null to keep all of it
+ * @returns The updated recording record
+ */
+export async function trimRecording(id: string, range: TimeRange | null) {
+  return prisma.recording.update({
+    where: {
+      id,
+    },
+    data: {
+      clipStart: range?.start ?? null,
+      clipEnd: range?.end ?? null,
+      // Without a range the length is measured again when processing
+      duration: range ? Math.round(range.end - range.start) : undefined,
+      processingStatus: 'queued',
+      processingError: null,
+    },
+  });
+}
+
+/**
+ * Move recordings into a folder
+ * @param ids The IDs of the recordings
+ * @param folderId The ID of the folder, or null for the top level
+ */
+export async function moveRecordings(ids: string[], folderId: string | null) {
+  await prisma.recording.updateMany({
+    where: {
+      id: { in: ids },
+    },
+    data: {
+      folderId,
+    },
+  });
+}
+
+/**
+ * Add and remove tags on several recordings
+ * @param recordings The recordings' IDs and current tags
+ * @param add Tags to add
+ * @param remove Tags to remove
+ * @returns An array of the updated recording records
+ */
+export async function updateRecordingTags(
+  recordings: { id: string; tags: string[] }[],
+  add: string[],
+  remove: string[]
+) {
+  const removed = new Set(normalizeTags(remove));
+  const updates = recordings.map((recording) => ({
+    id: recording.id,
+    tags: normalizeTags([...recording.tags, ...add]).filter((tag) => !removed.has(tag)),
+  }));
+
+  if (updates.some((update) => update.tags.length > MAX_TAGS_PER_RECORDING)) {
+    throw new ApiError(`Recordings can have at most ${MAX_TAGS_PER_RECORDING} tags`, 400);
+  }
+
+  // Each recording keeps its own other tags, so they are updated one by one
+  return Promise.all(
+    updates.map((update) =>
+      prisma.recording.update({
+        where: {
+          id: update.id,
+        },
+        data: {
+          tags: update.tags,
+        },
+      })
+    )
+  );
+}
+
+/**
+ * Update a recording's background processing state
+ * @param id The ID of the recording
+ * @param processingStatus The new status
+ * @param data Rendition keys and measured duration and size, or the error if processing failed
+ * @returns The updated recording record
+ */
+export async function updateRecordingProcessing(
+  id: string,
+  processingStatus: ProcessingStatus,
+  data: {
+    processingError?: string | null;
+    duration?: number;
+    size?: number;
+    mp4Key?: string;
+    hlsKey?: string;
+    thumbnailKey?: string;
+    spriteKey?: string;
+    spriteVttKey?: string;
+  } = {}
+) {
+  return prisma.recording.update({
+    where: {
+      id,
+    },
+    data: {
+      processingStatus,
+      ...data,
+    },
+  });
+}
+
+/**
+ * Get the IDs of recordings whose processing has not finished
+ * @returns An array of recording IDs, oldest first
+ */
+export async function getUnprocessedRecordingIds() {
+  const recordings = await prisma.recording.findMany({
+    where: {
+      processingStatus: { in: ['queued', 'processing'] },
+    },
+    select: {
+      id: true,
     },
     orderBy: {
-      uploadedAt: 'desc',
+      uploadedAt: 'asc',
     },
   });
+
+  return recordings.map((recording) => recording.id);
 }
 
 /**
- * Get a recording by its ID
+ * Delete a recording record
  * @param id The ID of the recording
- * @returns The recording record or null if not found
+ * @returns The deleted recording record
  */
-export async function getRecordingById(id: string) {
-  return prisma.recording.findUnique({
+export async function deleteRecording(id: string) {
+  return prisma.recording.delete({
     where: {
       id,
     },
@@ -0,0 +1,229 @@
+import { PrismaClient } from '../generated/prisma';
+import { buildChunkPrefix, deleteObject, deleteObjectsWithPrefix } from './s3Service';
+import { isValidObjectId } from '../utils/objectId';
+
+const prisma = new PrismaClient();
+
+// Sessions not turned into a recording within a day are abandoned
+const RECORDING_SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Start a recording session whose chunks are uploaded while recording
+ * @param userId The ID of the user recording
+ * @param workspaceId The ID of the workspace the recording goes into
+ * @param filename The name of the final recording file
+ * @param mimeType The MIME type reported by the recorder
+ * @param roomId Optional ID of the room being recorded
+ * @returns The created session record
+ */
+export async function createRecordingSession(
+  userId: string,
+  workspaceId: string,
+  filename: string,
+  mimeType: string,
+  roomId?: string
+) {
+  return prisma.recordingSession.create({
+    data: {
+      userId,
+      workspaceId,
+      filename,
+      mimeType,
+      roomId,
+    },
+  });
+}
+
+/**
+ * Get a recording session with its chunk manifest
+ * @param id The ID of the session
+ * @returns The session record with chunks in recording order, or null if not found
+ */
+export async function getRecordingSessionById(id: string) {
+  if (!isValidObjectId(id)) {
+    return null;
+  }
+
+  return prisma.recordingSession.findUnique({
+    where: {
+      id,
+    },
+    include: {
+      chunks: {
+        orderBy: { index: 'asc' },
+      },
+    },
+  });
+}
+
+/**
+ * Add a chunk to a session's manifest. Re-uploading a chunk replaces its entry.
+ * @param sessionId The ID of the session
+ * @param index The zero-based chunk index
+ * @param s3Key The S3 key where the chunk is stored
+ * @param size The size of the chunk in bytes
+ * @returns The chunk record
+ */
+export async function recordChunk(sessionId: string, index: number, s3Key: string, size: number) {
+  return prisma.recordingChunk.upsert({
+    where: {
+      sessionId_index: { sessionId, index },
+    },
+    create: {
+      sessionId,
+      index,
+      s3Key,
+      size,
+    },
+    update: {
+      s3Key,
+      size,
+      uploadedAt: new Date(),
+    },
+  });
+}
+
+/**
+ * Claim an open session for finalizing, so only one request turns it into a recording
+ * @param id The ID of the session
+ * @returns True if this call claimed the session, false if it was already claimed or finalized
+ */
+export async function claimRecordingSession(id: string) {
+  const { count } = await prisma.recordingSession.updateMany({
+    where: {
+      id,
+      finalizedAt: null,
+    },
+    data: {
+      finalizedAt: new Date(),
+    },
+  });
+
+  return count === 1;
+}
+
+/**
+ * Give up a claim on a session whose recording could not be created, so finalizing can be retried
+ * @param id The ID of the session
+ */
+export async function releaseRecordingSession(id: string) {
+  await prisma.recordingSession.updateMany({
+    where: {
+      id,
+      recordingId: null,
+    },
+    data: {
+      finalizedAt: null,
+    },
+  });
+}
+
+/**
+ * Mark a session as finalized into a recording. Its chunks stay in the manifest
+ * until the recording's processing job has joined them into one file.
+ * @param id The ID of the session
+ * @param recordingId The ID of the recording created from the chunks
+ * @param chunkCount How many chunks, from the first, make up the recording
+ * @returns The updated session record
+ */
+export async function finalizeRecordingSession(id: string, recordingId: string, chunkCount: number) {
+  const [session] = await prisma.$transaction([
+    prisma.recordingSession.update({
+      where: {
+        id,
+      },
+      data: {
+        finalizedAt: new Date(),
+        recordingId,
+      },
+    }),
+    // Chunks past the end of the recording are not part of it
+    prisma.recordingChunk.deleteMany({
+      where: {
+        sessionId: id,
+        index: { gte: chunkCount },
+      },
+    }),
+  ]);
+
+  return session;
+}
+
+/**
+ * Get the session a recording was streamed in, with the chunks still to be joined
+ * @param recordingId The ID of the recording
+ * @returns The session record with chunks in recording order, or null if the recording was not streamed
+ */
+export async function getRecordingSessionByRecordingId(recordingId: string) {
+  return prisma.recordingSession.findFirst({
+    where: {
+      recordingId,
+    },
+    include: {
+      chunks: {
+        orderBy: { index: 'asc' },
+      },
+    },
+  });
+}
+
+/**
+ * Drop a session's chunk manifest once its chunks have been joined into the recording
+ * @param id The ID of the session
+ */
+export async function markRecordingSessionAssembled(id: string) {
+  await prisma.recordingChunk.deleteMany({
+    where: {
+      sessionId: id,
+    },
+  });
+}
+
+/**
+ * Delete sessions abandoned before becoming a recording, or whose recording was
+ * deleted before its chunks were joined, along with their chunks in S3
+ * @returns The number of sessions deleted
+ */
+export async function expireStaleRecordingSessions() {
+  const sessions = await prisma.recordingSession.findMany({
+    where: {
+      createdAt: { lt: new Date(Date.now() - RECORDING_SESSION_TTL_MS) },
+      OR: [{ recordingId: null }, { chunks: { some: {} } }],
+    },
+    include: {
+      chunks: true,
+    },
+  });
+
+  let expired = 0;
+
+  for (const session of sessions) {
+    // A recording still waiting to be processed needs its chunks
+    if (
+      session.recordingId &&
+      (await prisma.recording.count({ where: { id: session.recordingId } })) > 0
+    ) {
+      continue;
+    }
+
+    // Chunks may have reached S3 without making it into the manifest
+    if (session.workspaceId) {
+      await deleteObjectsWithPrefix(buildChunkPrefix(session.workspaceId, session.id));
+    } else {
+      await Promise.all(session.chunks.map((chunk) => deleteObject(chunk.s3Key)));
+    }
+
+    await prisma.recordingSession.delete({
+      where: {
+        id: session.id,
+      },
+    });
+    expired++;
+  }
+
+  if (expired > 0) {
+    console.log(`Deleted ${expired} abandoned recording session(s)`);
+  }
+
+  return expired;
+}
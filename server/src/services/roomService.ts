@@ -0,0 +1,237 @@
+import { PrismaClient } from '../generated/prisma';
+import { isValidObjectId } from '../utils/objectId';
+
+const prisma = new PrismaClient();
+
+/**
+ * Create a new room
+ * @param ownerId The ID of the user creating the room
+ * @param title The room title
+ * @param isPrivate Whether the room is hidden from public listings
+ * @returns The created room record
+ */
+export async function createRoom(ownerId: string, title: string, isPrivate = false) {
+  return prisma.room.create({
+    data: {
+      ownerId,
+      title,
+      isPrivate,
+    },
+  });
+}
+
+/**
+ * Get a room by its ID
+ * @param id The ID of the room
+ * @returns The room record or null if not found
+ */
+export async function getRoomById(id: string) {
+  if (!isValidObjectId(id)) {
+    return null;
+  }
+
+  return prisma.room.findUnique({
+    where: {
+      id,
+    },
+    include: {
+      owner: {
+        select: { id: true, name: true },
+      },
+    },
+  });
+}
+
+/**
+ * Get rooms a user owns or has participated in
+ * @param userId The ID of the user
+ * @returns An array of room records, newest first
+ */
+export async function getRoomsForUser(userId: string) {
+  return prisma.room.findMany({
+    where: {
+      OR: [
+        { ownerId: userId },
+        { participants: { some: { userId } } },
+      ],
+    },
+    orderBy: {
+      createdAt: 'desc',
+    },
+  });
+}
+
+/**
+ * Get open public rooms
+ * @returns An array of room records that have not ended, newest first
+ */
+export async function getOpenPublicRooms() {
+  return prisma.room.findMany({
+    where: {
+      isPrivate: false,
+      endedAt: null,
+    },
+    orderBy: {
+      createdAt: 'desc',
+    },
+  });
+}
+
+/**
+ * Close a room so it can no longer be joined
+ * @param id The ID of the room
+ * @returns The updated room record
+ */
+export async function closeRoom(id: string) {
+  const endedAt = new Date();
+
+  // Anyone still in the room leaves when it closes
+  await prisma.roomParticipant.updateMany({
+    where: {
+      roomId: id,
+      leftAt: null,
+    },
+    data: {
+      leftAt: endedAt,
+    },
+  });
+
+  return prisma.room.update({
+    where: {
+      id,
+    },
+    data: {
+      endedAt,
+    },
+  });
+}
+
+/**
+ * Update who may join a room's call
+ * @param id The ID of the room
+ * @param access Whether the room is locked and whether newcomers wait to be let in
+ * @returns The updated room record
+ */
+export async function updateRoomAccess(
+  id: string,
+  access: { isLocked?: boolean; waitingRoomEnabled?: boolean }
+) {
+  return prisma.room.update({
+    where: {
+      id,
+    },
+    data: access,
+  });
+}
+
+/**
+ * Get the participant history of a room
+ * @param roomId The ID of the room
+ * @returns An array of participant records with user names, in join order
+ */
+export async function getRoomParticipants(roomId: string) {
+  return prisma.roomParticipant.findMany({
+    where: {
+      roomId,
+    },
+    include: {
+      user: {
+        select: { id: true, name: true },
+      },
+    },
+    orderBy: {
+      joinedAt: 'asc',
+    },
+  });
+}
+
+/**
+ * Check whether a user may attach recordings to a room: its owner, or anyone who has been in its call
+ * @param roomId The ID of the room
+ * @param userId The ID of the user
+ * @returns True if the room exists and the user owns it or has joined it
+ */
+export async function canRecordRoom(roomId: string, userId: string) {
+  const room = await getRoomById(roomId);
+
+  if (!room) {
+    return false;
+  }
+
+  if (room.ownerId === userId) {
+    return true;
+  }
+
+  const visits = await prisma.roomParticipant.count({
+    where: {
+      roomId,
+      userId,
+    },
+  });
+
+  return visits > 0;
+}
+
+/**
+ * Cut a recording's span in a room down to the visit to the call it was made in,
+ * so a recording can't claim chat from while its uploader wasn't there
+ * @param roomId The ID of the room
+ * @param userId The ID of the uploader
+ * @param from When recording started
+ * @param until When recording stopped
+ * @returns The part of the span within the visit that overlaps it most, or null if none does
+ */
+export async function clampToRoomVisit(roomId: string, userId: string, from: Date, until: Date) {
+  const visits = await prisma.roomParticipant.findMany({
+    where: {
+      roomId,
+      userId,
+    },
+  });
+
+  const now = new Date();
+  let best: { from: Date; until: Date } | null = null;
+
+  for (const visit of visits) {
+    const start = Math.max(from.getTime(), visit.joinedAt.getTime());
+    const end = Math.min(until.getTime(), (visit.leftAt ?? now).getTime());
+
+    if (end > start && (!best || end - start > best.until.getTime() - best.from.getTime())) {
+      best = { from: new Date(start), until: new Date(end) };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Record that a user joined a room
+ * @param roomId The ID of the room
+ * @param userId The ID of the user
+ */
+export async function recordParticipantJoin(roomId: string, userId: string) {
+  return prisma.roomParticipant.create({
+    data: {
+      roomId,
+      userId,
+    },
+  });
+}
+
+/**
+ * Record that a user left a room
+ * @param roomId The ID of the room
+ * @param userId The ID of the user
+ */
+export async function recordParticipantLeave(roomId: string, userId: string) {
+  return prisma.roomParticipant.updateMany({
+    where: {
+      roomId,
+      userId,
+      leftAt: null,
+    },
+    data: {
+      leftAt: new Date(),
+    },
+  });
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { buildChunkKey, buildUploadKey, parseUploadKey } from './s3Service';
+
+describe('upload keys', () => {
+  it('records the workspace and uploader a key was issued to', () => {
+    const key = buildUploadKey('clip.webm', 'workspace-1', 'user-1');
+
+    expect(parseUploadKey(key)).toEqual({ workspaceId: 'workspace-1', userId: 'user-1' });
+  });
+
+  it('keeps filenames containing slashes', () => {
+    const key = buildUploadKey('a/b.webm', 'workspace-1', 'user-1');
+
+    expect(parseUploadKey(key)).toEqual({ workspaceId: 'workspace-1', userId: 'user-1' });
+  });
+
+  it('does not treat session chunks or other keys as upload keys', () => {
+    expect(parseUploadKey(buildChunkKey('workspace-1', 'session-1', 0))).toBeNull();
+    expect(parseUploadKey('renditions/recording-1/video.mp4')).toBeNull();
+    expect(parseUploadKey('uploads/workspace-1/user-1/')).toBeNull();
+  });
+});
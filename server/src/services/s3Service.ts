@@ -1,5 +1,22 @@
-import { S3Client, PutObjectCommand } from '@aws-sdk/client-s3';
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  DeleteObjectsCommand,
+  ListObjectsV2Command,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  ListPartsCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+  HeadObjectCommand,
+} from '@aws-sdk/client-s3';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { createReadStream, createWriteStream } from 'fs';
+import { stat } from 'fs/promises';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
 import dotenv from 'dotenv';
 
 dotenv.config();
@@ -15,21 +32,95 @@ const s3Client = new S3Client({
 
 const bucketName = process.env.S3_BUCKET_NAME || '';
 
+// Playback URLs are valid for 15 minutes; clients request a new one when it expires
+const DOWNLOAD_URL_TTL_SECONDS = 15 * 60;
+
+// Part URLs are valid for an hour, since a slow connection may queue many parts
+const PART_URL_TTL_SECONDS = 60 * 60;
+
+/**
+ * Build a unique upload key for a user's file in a workspace
+ * @param filename The name of the file
+ * @param workspaceId The ID of the workspace the file is uploaded to
+ * @param userId The ID of the uploader
+ * @returns The S3 key
+ */
+export function buildUploadKey(filename: string, workspaceId: string, userId: string): string {
+  const timestamp = Date.now();
+  return `uploads/${workspaceId}/${userId}/${timestamp}-${filename}`;
+}
+
+/**
+ * Get who an upload key was issued to. Session chunk keys are not upload keys.
+ * @param key The S3 key
+ * @returns The IDs of the workspace and uploader, or null if the key is not an upload key
+ */
+export function parseUploadKey(key: string): { workspaceId: string; userId: string } | null {
+  const match = /^uploads\/([^/]+)\/([^/]+)\/./.exec(key);
+  if (!match || match[2] === 'sessions') {
+    return null;
+  }
+
+  return { workspaceId: match[1], userId: match[2] };
+}
+
+/**
+ * Build the key for a rendition generated from a recording
+ * @param recordingId The ID of the recording
+ * @param name The rendition's file name
+ * @returns The S3 key
+ */
+export function buildRenditionKey(recordingId: string, name: string): string {
+  return `${buildRenditionPrefix(recordingId)}${name}`;
+}
+
+/**
+ * Build the key prefix shared by all renditions of a recording
+ * @param recordingId The ID of the recording
+ * @returns The S3 key prefix, ending in a slash
+ */
+export function buildRenditionPrefix(recordingId: string): string {
+  return `renditions/${recordingId}/`;
+}
+
+/**
+ * Build the key prefix under which a streamed recording session's chunks are stored
+ * @param workspaceId The ID of the workspace being recorded into
+ * @param sessionId The ID of the recording session
+ * @returns The S3 key prefix
+ */
+export function buildChunkPrefix(workspaceId: string, sessionId: string): string {
+  return `uploads/${workspaceId}/sessions/${sessionId}/`;
+}
+
+/**
+ * Build the key for one chunk of a streamed recording session
+ * @param workspaceId The ID of the workspace being recorded into
+ * @param sessionId The ID of the recording session
+ * @param index The zero-based chunk index
+ * @returns The S3 key
+ */
+export function buildChunkKey(workspaceId: string, sessionId: string, index: number): string {
+  // Zero-padded so the chunks list in recording order
+  return `${buildChunkPrefix(workspaceId, sessionId)}${String(index).padStart(6, '0')}`;
+}
+
 /**
  * Generate a pre-signed URL for uploading a file to S3
  * @param filename The name of the file
  * @param fileType The MIME type of the file
- * @param userId The ID of the user uploading the file
+ * @param workspaceId The ID of the workspace the file is uploaded to
+ * @param userId The ID of the uploader
  * @returns An object containing the pre-signed URL and the S3 key
  */
 export async function generateUploadUrl(
   filename: string,
   fileType: string,
+  workspaceId: string,
   userId: string
 ): Promise<{ uploadUrl: string; key: string }> {
   // Create a unique key for the file
-  const timestamp = Date.now();
-  const key = `uploads/${userId}/${timestamp}-${filename}`;
+  const key = buildUploadKey(filename, workspaceId, userId);
 
   // Create the command to put an object in the S3 bucket
   const command = new PutObjectCommand({
@@ -48,3 +139,423 @@ export async function generateUploadUrl(
     key,
   };
 }
+
+/**
+ * Generate a short-lived pre-signed URL for reading a file from S3
+ * @param key The S3 key of the object
+ * @param expiresIn How long the URL stays valid, in seconds
+ * @returns An object containing the pre-signed URL and its expiry time
+ */
+export async function generateDownloadUrl(
+  key: string,
+  expiresIn: number = DOWNLOAD_URL_TTL_SECONDS
+): Promise<{ url: string; expiresAt: Date }> {
+  // Create the command to get an object from the S3 bucket
+  const command = new GetObjectCommand({
+    Bucket: bucketName,
+    Key: key,
+  });
+
+  const url = await getSignedUrl(s3Client, command, {
+    expiresIn,
+  });
+
+  return {
+    url,
+    expiresAt: new Date(Date.now() + expiresIn * 1000),
+  };
+}
+
+/**
+ * Delete an object from S3
+ * @param key The S3 key of the object
+ */
+export async function deleteObject(key: string): Promise<void> {
+  const command = new DeleteObjectCommand({
+    Bucket: bucketName,
+    Key: key,
+  });
+
+  await s3Client.send(command);
+}
+
+/**
+ * Delete every object whose key starts with a prefix
+ * @param prefix The S3 key prefix
+ */
+export async function deleteObjectsWithPrefix(prefix: string): Promise<void> {
+  let continuationToken: string | undefined;
+
+  // S3 lists, and deletes, at most 1000 objects per request
+  do {
+    const response = await s3Client.send(
+      new ListObjectsV2Command({
+        Bucket: bucketName,
+        Prefix: prefix,
+        ContinuationToken: continuationToken,
+      })
+    );
+
+    const keys = (response.Contents || []).flatMap((object) => (object.Key ? [object.Key] : []));
+
+    if (keys.length > 0) {
+      await s3Client.send(
+        new DeleteObjectsCommand({
+          Bucket: bucketName,
+          Delete: { Objects: keys.map((Key) => ({ Key })), Quiet: true },
+        })
+      );
+    }
+
+    continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+  } while (continuationToken);
+}
+
+/**
+ * Start a multipart upload. Browsers need the bucket's CORS config to expose
+ * the ETag header, since each part's ETag is required to complete the upload.
+ * @param filename The name of the file
+ * @param fileType The MIME type of the file
+ * @param workspaceId The ID of the workspace the file is uploaded to
+ * @param userId The ID of the uploader
+ * @returns An object containing the upload ID and the S3 key
+ */
+export async function initiateMultipartUpload(
+  filename: string,
+  fileType: string,
+  workspaceId: string,
+  userId: string
+): Promise<{ uploadId: string; key: string }> {
+  const key = buildUploadKey(filename, workspaceId, userId);
+
+  const { UploadId } = await s3Client.send(
+    new CreateMultipartUploadCommand({
+      Bucket: bucketName,
+      Key: key,
+      ContentType: fileType,
+    })
+  );
+
+  if (!UploadId) {
+    throw new Error('S3 did not return an upload ID');
+  }
+
+  return {
+    uploadId: UploadId,
+    key,
+  };
+}
+
+/**
+ * Generate pre-signed URLs for uploading parts of a multipart upload
+ * @param key The S3 key of the upload
+ * @param uploadId The multipart upload ID
+ * @param partNumbers The part numbers to sign (1-10000)
+ * @returns A map of part number to pre-signed URL
+ */
+export async function generatePartUploadUrls(
+  key: string,
+  uploadId: string,
+  partNumbers: number[]
+): Promise<Record<number, string>> {
+  const urls: Record<number, string> = {};
+
+  await Promise.all(
+    partNumbers.map(async (partNumber) => {
+      const command = new UploadPartCommand({
+        Bucket: bucketName,
+        Key: key,
+        UploadId: uploadId,
+        PartNumber: partNumber,
+      });
+
+      urls[partNumber] = await getSignedUrl(s3Client, command, {
+        expiresIn: PART_URL_TTL_SECONDS,
+      });
+    })
+  );
+
+  return urls;
+}
+
+/**
+ * List the parts already uploaded for a multipart upload, so a client can resume it
+ * @param key The S3 key of the upload
+ * @param uploadId The multipart upload ID
+ * @returns The uploaded parts with their ETags and sizes
+ */
+export async function listUploadedParts(
+  key: string,
+  uploadId: string
+): Promise<{ partNumber: number; etag: string; size: number }[]> {
+  const parts: { partNumber: number; etag: string; size: number }[] = [];
+  let partNumberMarker: string | undefined;
+
+  // S3 returns at most 1000 parts per page
+  do {
+    const response = await s3Client.send(
+      new ListPartsCommand({
+        Bucket: bucketName,
+        Key: key,
+        UploadId: uploadId,
+        PartNumberMarker: partNumberMarker,
+      })
+    );
+
+    for (const part of response.Parts || []) {
+      if (part.PartNumber && part.ETag) {
+        parts.push({ partNumber: part.PartNumber, etag: part.ETag, size: part.Size || 0 });
+      }
+    }
+
+    partNumberMarker = response.IsTruncated ? response.NextPartNumberMarker : undefined;
+  } while (partNumberMarker);
+
+  return parts;
+}
+
+/**
+ * Complete a multipart upload, assembling the parts into one object
+ * @param key The S3 key of the upload
+ * @param uploadId The multipart upload ID
+ * @param parts The uploaded parts with their ETags
+ */
+export async function completeMultipartUpload(
+  key: string,
+  uploadId: string,
+  parts: { partNumber: number; etag: string }[]
+): Promise<void> {
+  // S3 requires parts in ascending order
+  const sortedParts = [...parts].sort((a, b) => a.partNumber - b.partNumber);
+
+  await s3Client.send(
+    new CompleteMultipartUploadCommand({
+      Bucket: bucketName,
+      Key: key,
+      UploadId: uploadId,
+      MultipartUpload: {
+        Parts: sortedParts.map((part) => ({
+          PartNumber: part.partNumber,
+          ETag: part.etag,
+        })),
+      },
+    })
+  );
+}
+
+/**
+ * Abort a multipart upload and discard its parts
+ * @param key The S3 key of the upload
+ * @param uploadId The multipart upload ID
+ */
+export async function abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+  await s3Client.send(
+    new AbortMultipartUploadCommand({
+      Bucket: bucketName,
+      Key: key,
+      UploadId: uploadId,
+    })
+  );
+}
+
+/**
+ * Generate a pre-signed URL for uploading one chunk of a streamed recording
+ * @param key The S3 key of the chunk
+ * @param fileType The MIME type of the recording
+ * @returns The pre-signed URL
+ */
+export async function generateChunkUploadUrl(key: string, fileType: string): Promise<string> {
+  const command = new PutObjectCommand({
+    Bucket: bucketName,
+    Key: key,
+    ContentType: fileType,
+  });
+
+  return getSignedUrl(s3Client, command, {
+    expiresIn: 600,
+  });
+}
+
+/**
+ * Get the size of an object in S3
+ * @param key The S3 key of the object
+ * @returns The size in bytes, or null if the object does not exist
+ */
+export async function getObjectSize(key: string): Promise<number | null> {
+  try {
+    const { ContentLength } = await s3Client.send(
+      new HeadObjectCommand({
+        Bucket: bucketName,
+        Key: key,
+      })
+    );
+
+    return ContentLength ?? 0;
+  } catch (error) {
+    if (error instanceof Error && error.name === 'NotFound') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+// S3 requires every part except the last to be at least 5 MB
+const MIN_PART_SIZE = 5 * 1024 * 1024;
+
+/**
+ * Concatenate objects, in order, into a new object. The sources are small
+ * chunks, so they are buffered into parts of at least 5 MB on the server.
+ * @param sourceKeys The S3 keys to concatenate, in order
+ * @param key The S3 key of the new object
+ * @param fileType The MIME type of the new object
+ */
+export async function concatenateObjects(
+  sourceKeys: string[],
+  key: string,
+  fileType: string
+): Promise<void> {
+  const { UploadId } = await s3Client.send(
+    new CreateMultipartUploadCommand({
+      Bucket: bucketName,
+      Key: key,
+      ContentType: fileType,
+    })
+  );
+
+  if (!UploadId) {
+    throw new Error('S3 did not return an upload ID');
+  }
+
+  const parts: { PartNumber: number; ETag: string }[] = [];
+  let buffered: Uint8Array[] = [];
+  let bufferedSize = 0;
+
+  // Upload whatever is buffered as the next part
+  const flush = async () => {
+    const PartNumber = parts.length + 1;
+    const { ETag } = await s3Client.send(
+      new UploadPartCommand({
+        Bucket: bucketName,
+        Key: key,
+        UploadId,
+        PartNumber,
+        Body: Buffer.concat(buffered),
+      })
+    );
+
+    if (!ETag) {
+      throw new Error(`S3 did not return an ETag for part ${PartNumber}`);
+    }
+
+    parts.push({ PartNumber, ETag });
+    buffered = [];
+    bufferedSize = 0;
+  };
+
+  try {
+    for (const sourceKey of sourceKeys) {
+      const { Body } = await s3Client.send(
+        new GetObjectCommand({
+          Bucket: bucketName,
+          Key: sourceKey,
+        })
+      );
+
+      if (!Body) {
+        throw new Error(`Object ${sourceKey} has no body`);
+      }
+
+      const bytes = await Body.transformToByteArray();
+      buffered.push(bytes);
+      bufferedSize += bytes.length;
+
+      if (bufferedSize >= MIN_PART_SIZE) {
+        await flush();
+      }
+    }
+
+    // The last part may be smaller than the minimum
+    if (bufferedSize > 0 || parts.length === 0) {
+      await flush();
+    }
+
+    await s3Client.send(
+      new CompleteMultipartUploadCommand({
+        Bucket: bucketName,
+        Key: key,
+        UploadId,
+        MultipartUpload: { Parts: parts },
+      })
+    );
+  } catch (error) {
+    // Don't leave an incomplete upload behind
+    await abortMultipartUpload(key, UploadId).catch((abortError) =>
+      console.error(`Error aborting upload of ${key}:`, abortError)
+    );
+    throw error;
+  }
+}
+
+/**
+ * Download an object from S3 to a local file
+ * @param key The S3 key of the object
+ * @param filePath The local path to write to
+ */
+export async function downloadObjectToFile(key: string, filePath: string): Promise<void> {
+  const { Body } = await s3Client.send(
+    new GetObjectCommand({
+      Bucket: bucketName,
+      Key: key,
+    })
+  );
+
+  if (!Body) {
+    throw new Error(`Object ${key} has no body`);
+  }
+
+  await pipeline(Body as Readable, createWriteStream(filePath));
+}
+
+/**
+ * Read a text object from S3
+ * @param key The S3 key of the object
+ * @returns The object's contents
+ */
+export async function getObjectText(key: string): Promise<string> {
+  const { Body } = await s3Client.send(
+    new GetObjectCommand({
+      Bucket: bucketName,
+      Key: key,
+    })
+  );
+
+  if (!Body) {
+    throw new Error(`Object ${key} has no body`);
+  }
+
+  return Body.transformToString();
+}
+
+/**
+ * Upload a local file to S3
+ * @param filePath The local path to read from
+ * @param key The S3 key to upload to
+ * @param contentType The MIME type of the file
+ */
+export async function uploadFileToObject(
+  filePath: string,
+  key: string,
+  contentType: string
+): Promise<void> {
+  const { size } = await stat(filePath);
+
+  await s3Client.send(
+    new PutObjectCommand({
+      Bucket: bucketName,
+      Key: key,
+      Body: createReadStream(filePath),
+      ContentLength: size,
+      ContentType: contentType,
+    })
+  );
+}
@@ -0,0 +1,122 @@
+import crypto from 'crypto';
+import { PrismaClient, ShareLink } from '../generated/prisma';
+import { hashPassword } from './authService';
+import { ShareLinkCreationRequest, ShareLinkScope } from '../types';
+import { isValidObjectId } from '../utils/objectId';
+
+const prisma = new PrismaClient();
+
+/**
+ * Strip private fields from a share link record
+ */
+export function toShareLinkResponse(link: ShareLink) {
+  return {
+    id: link.id,
+    recordingId: link.recordingId,
+    token: link.token,
+    scope: link.scope as ShareLinkScope,
+    hasPassword: link.passwordHash !== null,
+    expiresAt: link.expiresAt,
+    revokedAt: link.revokedAt,
+    createdAt: link.createdAt,
+  };
+}
+
+/**
+ * Create a share link for a recording
+ * @param recordingId The ID of the recording
+ * @param createdById The ID of the user creating the link
+ * @param options Scope, optional password and optional expiry time
+ * @returns The created share link record
+ */
+export async function createShareLink(
+  recordingId: string,
+  createdById: string,
+  options: ShareLinkCreationRequest
+) {
+  return prisma.shareLink.create({
+    data: {
+      recordingId,
+      createdById,
+      // The token is the only secret in the URL, so it must be unguessable
+      token: crypto.randomBytes(24).toString('base64url'),
+      scope: options.scope,
+      passwordHash: options.password ? await hashPassword(options.password) : null,
+      expiresAt: options.expiresAt,
+    },
+  });
+}
+
+/**
+ * Get all share links for a recording
+ * @param recordingId The ID of the recording
+ * @returns An array of share link records, newest first
+ */
+export async function getShareLinksByRecordingId(recordingId: string) {
+  return prisma.shareLink.findMany({
+    where: {
+      recordingId,
+    },
+    orderBy: {
+      createdAt: 'desc',
+    },
+  });
+}
+
+/**
+ * Get a share link by its ID
+ * @param id The ID of the share link
+ * @returns The share link record or null if not found
+ */
+export async function getShareLinkById(id: string) {
+  if (!isValidObjectId(id)) {
+    return null;
+  }
+
+  return prisma.shareLink.findUnique({
+    where: {
+      id,
+    },
+  });
+}
+
+/**
+ * Get a share link by its token
+ * @param token The token from the share URL
+ * @returns The share link record or null if not found
+ */
+export async function getShareLinkByToken(token: string) {
+  return prisma.shareLink.findUnique({
+    where: {
+      token,
+    },
+  });
+}
+
+/**
+ * Revoke a share link, so it can no longer be opened
+ * @param id The ID of the share link
+ * @returns The updated share link record
+ */
+export async function revokeShareLink(id: string) {
+  return prisma.shareLink.update({
+    where: {
+      id,
+    },
+    data: {
+      revokedAt: new Date(),
+    },
+  });
+}
+
+/**
+ * Delete all share links for a recording
+ * @param recordingId The ID of the recording
+ */
+export async function deleteShareLinksByRecordingId(recordingId: string) {
+  await prisma.shareLink.deleteMany({
+    where: {
+      recordingId,
+    },
+  });
+}
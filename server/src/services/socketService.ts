@@ -1,132 +1,437 @@
 import { Server as HttpServer } from "http";
-import { Server as SocketServer } from "socket.io";
+import { Server as SocketServer, Socket, DefaultEventsMap } from "socket.io";
+import { getUserBySessionToken } from "./authService";
+import { getRoomById, recordParticipantJoin, recordParticipantLeave, updateRoomAccess } from "./roomService";
+import { createChatMessage, getRecentChatMessages } from "./chatService";
+import { AuthUser, MAX_LIVE_CAPTION_LENGTH } from "../types";
+
+// Data bound to each socket once its handshake has been verified
+interface SocketData {
+  user: AuthUser;
+}
+
+type AppSocketServer = SocketServer<DefaultEventsMap, DefaultEventsMap, DefaultEventsMap, SocketData>;
+type AppSocket = Socket<DefaultEventsMap, DefaultEventsMap, DefaultEventsMap, SocketData>;
+
+// Media the host has turned off for a participant, who can't turn it back on
+interface ForcedMute {
+  audio: boolean;
+  video: boolean;
+}
+
+// Someone waiting for the host to let them into the call
+interface WaitingUser {
+  socketId: string;
+  name: string;
+}
 
 // Store room data with user mapping
 interface RoomData {
   socketIds: Set<string>;  // Set of socket IDs in the room
   userMap: Map<string, string>;  // Map of userId to socketId
+  userNames: Map<string, string>;  // Map of userId to display name, for everyone in userMap
+  captionsEnabled: boolean;  // Whether participants caption their speech for everyone
+  hostId: string;  // The room owner, who can mute, remove and admit participants
+  isLocked: boolean;  // Newcomers are refused
+  waitingRoomEnabled: boolean;  // Newcomers wait until the host admits them
+  waitingUsers: Map<string, WaitingUser>;  // Keyed by userId
+  forcedMutes: Map<string, ForcedMute>;  // Keyed by userId; kept if they leave and rejoin
+  removedUserIds: Set<string>;  // Removed by the host, and refused until the call ends
 }
 
+// Nothing turned off by the host
+const NO_FORCED_MUTE: ForcedMute = { audio: false, video: false };
+
+// Longest chat message, and how many earlier messages a newcomer is sent
+const MAX_CHAT_MESSAGE_LENGTH = 2000;
+const CHAT_HISTORY_LIMIT = 50;
+
 // Store active rooms
 const rooms: Record<string, RoomData> = {};
 
 // Store which rooms a socket is in
 const socketRooms: Map<string, Set<string>> = new Map();
 
+// Socket.IO server instance, set once initialized
+let ioServer: AppSocketServer | null = null;
+
+/**
+ * Check whether a socket is currently a member of a room
+ * @param socket Socket to check
+ * @param roomId Room ID
+ * @returns True if the socket joined the room and still holds its user's slot
+ */
+function isSocketInRoom(socket: AppSocket, roomId: string): boolean {
+  const room = rooms[roomId];
+  return !!room && room.userMap.get(socket.data.user.id) === socket.id;
+}
+
+/**
+ * Check whether a socket belongs to the host of a room's call
+ * @param socket Socket to check
+ * @param roomId Room ID
+ * @returns True if the socket is in the room and its user owns the room
+ */
+function isHostSocket(socket: AppSocket, roomId: string): boolean {
+  return isSocketInRoom(socket, roomId) && rooms[roomId].hostId === socket.data.user.id;
+}
+
+/**
+ * Get the forced mutes in a call, to send to its host
+ * @param room Room data
+ * @returns Forced mutes keyed by userId
+ */
+function getForcedMutes(room: RoomData): Record<string, ForcedMute> {
+  return Object.fromEntries(room.forcedMutes);
+}
+
+/**
+ * Get the people in a call, to label their video
+ * @param room Room data
+ * @returns The users in the call with their names
+ */
+function getRoomUsers(room: RoomData): { userId: string; name: string }[] {
+  return Array.from(room.userMap.keys(), (userId) => ({ userId, name: room.userNames.get(userId) ?? "" }));
+}
+
+/**
+ * Get the people waiting to join a call, to send to its host
+ * @param room Room data
+ * @returns The waiting users, in the order they arrived
+ */
+function getWaitingUsers(room: RoomData): { userId: string; name: string }[] {
+  return Array.from(room.waitingUsers, ([userId, { name }]) => ({ userId, name }));
+}
+
 /**
  * Initialize Socket.IO server
  * @param httpServer HTTP server instance
  * @returns Socket.IO server instance
  */
-export function initializeSocketServer(httpServer: HttpServer): SocketServer {
-  const io = new SocketServer(httpServer, {
+export function initializeSocketServer(httpServer: HttpServer): AppSocketServer {
+  const io: AppSocketServer = new SocketServer(httpServer, {
     cors: {
       origin: process.env.CLIENT_URL || "http://localhost:3000",
       methods: ["GET", "POST"],
     },
   });
+  ioServer = io;
+
+  // Verify the session token sent with the handshake and bind the user to the socket
+  io.use(async (socket, next) => {
+    try {
+      const token = socket.handshake.auth?.token;
+
+      if (typeof token !== "string" || !token) {
+        return next(new Error("Authentication required"));
+      }
+
+      const user = await getUserBySessionToken(token);
+
+      if (!user) {
+        return next(new Error("Invalid or expired session"));
+      }
+
+      socket.data.user = user;
+      next();
+    } catch (error) {
+      console.error("Socket authentication error:", error);
+      next(new Error("Authentication failed"));
+    }
+  });
 
   io.on("connection", (socket) => {
-    console.log("New client connected:", socket.id);
+    const userId = socket.data.user.id;
+    console.log(`New client connected: ${socket.id} (user ${userId})`);
 
     // Initialize socket's room set
     socketRooms.set(socket.id, new Set());
 
-    // Join a room
-    socket.on("join-room", (roomId: string, userId: string) => {
-      // Create room if it doesn't exist
+    // Join a room. Newcomers wait for the host's admission while the waiting room is on.
+    socket.on("join-room", async (roomId: string) => {
+      if (typeof roomId !== "string" || !roomId) {
+        return;
+      }
+
+      // Only rooms created through the API that are still open can be joined
+      let room: Awaited<ReturnType<typeof getRoomById>>;
+      try {
+        room = await getRoomById(roomId);
+      } catch (error) {
+        console.error(`Error loading room ${roomId}:`, error);
+        socket.emit("join-error", roomId, "Failed to join room");
+        return;
+      }
+
+      if (!room) {
+        socket.emit("join-error", roomId, "Room not found");
+        return;
+      }
+
+      if (room.endedAt) {
+        socket.emit("join-error", roomId, "This room has been closed");
+        return;
+      }
+
+      // The host is always let in; everyone else is subject to the room's access settings
+      const isHost = room.ownerId === userId;
+      const isAlreadyInCall = !!rooms[roomId]?.userMap.has(userId);
+
+      if (!isHost && rooms[roomId]?.removedUserIds.has(userId)) {
+        socket.emit("join-error", roomId, "The host removed you from this call");
+        return;
+      }
+
+      if (!isHost && room.isLocked && !isAlreadyInCall) {
+        socket.emit("join-error", roomId, "This room is locked");
+        return;
+      }
+
+      // Set up in-memory state for the live call if this is the first participant
       if (!rooms[roomId]) {
         rooms[roomId] = {
           socketIds: new Set(),
-          userMap: new Map()
+          userMap: new Map(),
+          userNames: new Map(),
+          captionsEnabled: false,
+          hostId: room.ownerId,
+          isLocked: room.isLocked,
+          waitingRoomEnabled: room.waitingRoomEnabled,
+          waitingUsers: new Map(),
+          forcedMutes: new Map(),
+          removedUserIds: new Set()
         };
-        console.log(`New room created: ${roomId}`);
+        console.log(`Call started in room ${roomId}`);
       }
 
-      // Check if this user is already in the room with a different socket
-      const existingSocketId = rooms[roomId].userMap.get(userId);
-      if (existingSocketId && existingSocketId !== socket.id) {
-        console.log(`User ${userId} is already in room ${roomId} with socket ${existingSocketId}`);
+      // Someone already in the call, e.g. in another tab, doesn't wait again
+      if (!isHost && room.waitingRoomEnabled && !isAlreadyInCall) {
+        rooms[roomId].waitingUsers.set(userId, { socketId: socket.id, name: socket.data.user.name });
+        socketRooms.get(socket.id)?.add(roomId);
+        socket.emit("waiting-for-admission", roomId);
+        notifyHostOfWaitingUsers(roomId);
 
-        // Remove the old socket from the room
-        if (rooms[roomId].socketIds.has(existingSocketId)) {
-          rooms[roomId].socketIds.delete(existingSocketId);
+        console.log(`User ${userId} is waiting to join room ${roomId}`);
+        return;
+      }
 
-          // Update the socket's room set
-          const socketRoomSet = socketRooms.get(existingSocketId);
-          if (socketRoomSet) {
-            socketRoomSet.delete(roomId);
-          }
+      addToRoom(socket, roomId);
+    });
 
-          // Force the old socket to leave the room
-          const oldSocket = io.sockets.sockets.get(existingSocketId);
-          if (oldSocket) {
-            oldSocket.leave(roomId);
-          }
-        }
+    // Handle WebRTC signaling, addressed to a single peer in the room
+    socket.on("signal", (roomId: string, targetUserId: string, signal: unknown) => {
+      if (!isSocketInRoom(socket, roomId)) {
+        console.log(`Rejected signal from ${userId}: not in room ${roomId}`);
+        return;
+      }
+
+      const targetSocketId = rooms[roomId].userMap.get(targetUserId);
+      if (!targetSocketId) {
+        console.log(`Dropped signal from ${userId}: ${targetUserId} is not in room ${roomId}`);
+        return;
       }
 
-      // Check if this socket is already in this room
-      if (!rooms[roomId].socketIds.has(socket.id)) {
-        // Add socket to room
-        rooms[roomId].socketIds.add(socket.id);
-        rooms[roomId].userMap.set(userId, socket.id);
+      console.log(`Signal from ${userId} to ${targetUserId} in room ${roomId}`);
+      io.to(targetSocketId).emit("signal", userId, signal);
+    });
 
-        // Add room to socket's room set
-        socketRooms.get(socket.id)?.add(roomId);
+    // Turn live captions on or off for everyone in the room
+    socket.on("set-captions", (roomId: string, enabled: unknown) => {
+      if (!isSocketInRoom(socket, roomId) || typeof enabled !== "boolean") {
+        return;
+      }
+
+      rooms[roomId].captionsEnabled = enabled;
+      console.log(`User ${userId} turned captions ${enabled ? "on" : "off"} in room ${roomId}`);
+      io.to(roomId).emit("captions-state", enabled, userId);
+    });
+
+    // Relay a line of the sender's speech, recognized on their device. Interim
+    // lines share an ID with the final line that replaces them.
+    socket.on("caption", (roomId: string, caption: unknown) => {
+      if (!isSocketInRoom(socket, roomId) || !rooms[roomId].captionsEnabled) {
+        return;
+      }
 
-        // Join the Socket.IO room
-        socket.join(roomId);
+      const { id, text, isFinal } = (caption ?? {}) as Record<string, unknown>;
+      if (
+        typeof id !== "string" || !id || id.length > 100 ||
+        typeof text !== "string" || !text.trim() ||
+        typeof isFinal !== "boolean"
+      ) {
+        return;
+      }
+
+      // Speakers are attributed from the verified identity, not the payload
+      socket.to(roomId).emit("caption", {
+        id,
+        userId,
+        speaker: socket.data.user.name,
+        // Relayed lines are no longer than a recording can save
+        text: text.trim().slice(0, MAX_LIVE_CAPTION_LENGTH),
+        isFinal,
+      });
+    });
+
+    // Save a chat message and send it to the others in the room. The sender
+    // gets the saved message, or why it was refused, as the acknowledgement.
+    socket.on("chat-message", async (roomId: string, body: unknown, ack?: unknown) => {
+      const respond = (response: { message?: unknown; error?: string }) => {
+        if (typeof ack === "function") ack(response);
+      };
+
+      if (!isSocketInRoom(socket, roomId) || typeof body !== "string") {
+        respond({ error: "You are not in this room" });
+        return;
+      }
+
+      const text = body.trim();
+      if (!text || text.length > MAX_CHAT_MESSAGE_LENGTH) {
+        respond({ error: `Messages must be 1 to ${MAX_CHAT_MESSAGE_LENGTH} characters` });
+        return;
+      }
+
+      try {
+        const message = await createChatMessage(roomId, userId, text);
+        socket.to(roomId).emit("chat-message", message);
+        respond({ message });
+      } catch (error) {
+        console.error(`Error saving chat message from ${userId} in room ${roomId}:`, error);
+        respond({ error: "Failed to send message" });
+      }
+    });
 
-        // Notify others in the room
-        socket.to(roomId).emit("user-joined", userId);
+    // Tell the others in the room when the user starts or stops typing
+    socket.on("typing", (roomId: string, isTyping: unknown) => {
+      if (!isSocketInRoom(socket, roomId) || typeof isTyping !== "boolean") {
+        return;
+      }
+
+      socket.to(roomId).emit("typing", userId, socket.data.user.name, isTyping);
+    });
 
-        console.log(`User ${userId} joined room ${roomId}`);
-        console.log(`Room ${roomId} now has ${rooms[roomId].socketIds.size} users`);
+    // The host turns a participant's microphone or camera off, or lets them turn it back on
+    socket.on("set-forced-mute", (roomId: string, targetUserId: unknown, kind: unknown, muted: unknown) => {
+      if (
+        !isHostSocket(socket, roomId) ||
+        typeof targetUserId !== "string" || targetUserId === userId ||
+        (kind !== "audio" && kind !== "video") ||
+        typeof muted !== "boolean"
+      ) {
+        return;
+      }
+
+      const room = rooms[roomId];
+      const targetSocketId = room.userMap.get(targetUserId);
+      if (!targetSocketId) {
+        return;
+      }
 
-        // Send list of users in the room
-        io.to(roomId).emit("room-users", Array.from(rooms[roomId].userMap.keys()));
+      const forcedMute = { ...(room.forcedMutes.get(targetUserId) ?? NO_FORCED_MUTE), [kind]: muted };
+      if (forcedMute.audio || forcedMute.video) {
+        room.forcedMutes.set(targetUserId, forcedMute);
       } else {
-        console.log(`Socket ${socket.id} is already in room ${roomId}`);
+        room.forcedMutes.delete(targetUserId);
       }
+
+      // The participant's client turns the media off and keeps it off; the host sees everyone's
+      console.log(`Host ${userId} ${muted ? "muted" : "unmuted"} ${kind} of ${targetUserId} in room ${roomId}`);
+      io.to(targetSocketId).emit("forced-mute", roomId, forcedMute);
+      socket.emit("forced-mutes", roomId, getForcedMutes(room));
     });
 
-    // Handle WebRTC signaling
-    socket.on("signal", (roomId: string, userId: string, signal: any) => {
-      console.log(`Signal from ${userId} in room ${roomId}`);
-      socket.to(roomId).emit("signal", userId, signal);
+    // The host removes a participant, who can't rejoin until the call ends
+    socket.on("remove-participant", (roomId: string, targetUserId: unknown) => {
+      if (!isHostSocket(socket, roomId) || typeof targetUserId !== "string" || targetUserId === userId) {
+        return;
+      }
+
+      const targetSocketId = rooms[roomId].userMap.get(targetUserId);
+      const targetSocket = targetSocketId ? io.sockets.sockets.get(targetSocketId) : undefined;
+      if (!targetSocket) {
+        return;
+      }
+
+      console.log(`Host ${userId} removed ${targetUserId} from room ${roomId}`);
+      rooms[roomId].removedUserIds.add(targetUserId);
+      targetSocket.emit("removed-from-room", roomId);
+      leaveRoom(targetSocket, roomId);
+    });
+
+    // The host locks the room or turns the waiting room on or off. Both are
+    // saved on the room, so they still apply to the next call.
+    socket.on("set-room-access", async (roomId: string, access: unknown) => {
+      const { isLocked, waitingRoomEnabled } = (access ?? {}) as Record<string, unknown>;
+      if (
+        !isHostSocket(socket, roomId) ||
+        (isLocked !== undefined && typeof isLocked !== "boolean") ||
+        (waitingRoomEnabled !== undefined && typeof waitingRoomEnabled !== "boolean")
+      ) {
+        return;
+      }
+
+      try {
+        const updated = await updateRoomAccess(roomId, { isLocked, waitingRoomEnabled });
+
+        const room = rooms[roomId];
+        if (!room) {
+          return;
+        }
+
+        room.isLocked = updated.isLocked;
+        room.waitingRoomEnabled = updated.waitingRoomEnabled;
+        io.to(roomId).emit("room-access", roomId, {
+          isLocked: room.isLocked,
+          waitingRoomEnabled: room.waitingRoomEnabled,
+        });
+
+        // Without a waiting room, anyone still waiting is let in, unless the room is locked
+        if (!room.waitingRoomEnabled) {
+          for (const waitingUserId of Array.from(room.waitingUsers.keys())) {
+            if (room.isLocked) {
+              denyWaitingUser(roomId, waitingUserId, "This room is locked");
+            } else {
+              admitWaitingUser(roomId, waitingUserId);
+            }
+          }
+        }
+      } catch (error) {
+        console.error(`Error updating access to room ${roomId}:`, error);
+      }
+    });
+
+    // The host lets someone in from the waiting room
+    socket.on("admit-user", (roomId: string, targetUserId: unknown) => {
+      if (!isHostSocket(socket, roomId) || typeof targetUserId !== "string") {
+        return;
+      }
+
+      admitWaitingUser(roomId, targetUserId);
+    });
+
+    // The host turns someone in the waiting room away
+    socket.on("deny-user", (roomId: string, targetUserId: unknown) => {
+      if (!isHostSocket(socket, roomId) || typeof targetUserId !== "string") {
+        return;
+      }
+
+      denyWaitingUser(roomId, targetUserId, "The host didn't let you in");
     });
 
     // Leave a room
-    socket.on("leave-room", (roomId: string, userId: string) => {
-      leaveRoom(socket, roomId, userId, io);
+    socket.on("leave-room", (roomId: string) => {
+      leaveRoom(socket, roomId);
     });
 
     // Handle disconnection
     socket.on("disconnect", () => {
       console.log("Client disconnected:", socket.id);
 
-      // Get all rooms this socket was in
+      // Leave every room this socket was in
       const userRooms = socketRooms.get(socket.id);
       if (userRooms) {
-        // Leave each room
-        for (const roomId of userRooms) {
-          // Find userId for this socket in this room
-          let userId: string | undefined;
-          const room = rooms[roomId];
-          if (room) {
-            for (const [uid, sid] of room.userMap.entries()) {
-              if (sid === socket.id) {
-                userId = uid;
-                break;
-              }
-            }
-          }
-
-          // Leave the room
-          if (userId) {
-            leaveRoom(socket, roomId, userId, io);
-          }
+        for (const roomId of Array.from(userRooms)) {
+          leaveRoom(socket, roomId);
         }
       }
 
@@ -135,10 +440,140 @@ export function initializeSocketServer(httpServer: HttpServer): SocketServer {
     });
   });
 
+  /**
+   * Helper function to add a socket to a room's call once it may join
+   */
+  function addToRoom(socket: AppSocket, roomId: string) {
+    const userId = socket.data.user.id;
+    const room = rooms[roomId];
+
+    // The same user may only hold one socket per room. Since the identity is
+    // verified, a previous socket here can only be the user's own (e.g. an old tab).
+    const existingSocketId = room.userMap.get(userId);
+    if (existingSocketId && existingSocketId !== socket.id) {
+      console.log(`User ${userId} is already in room ${roomId} with socket ${existingSocketId}`);
+
+      // Remove the old socket from the room
+      if (room.socketIds.has(existingSocketId)) {
+        room.socketIds.delete(existingSocketId);
+
+        // Update the socket's room set
+        const socketRoomSet = socketRooms.get(existingSocketId);
+        if (socketRoomSet) {
+          socketRoomSet.delete(roomId);
+        }
+
+        // Force the old socket to leave the room
+        const oldSocket = io.sockets.sockets.get(existingSocketId);
+        if (oldSocket) {
+          oldSocket.leave(roomId);
+        }
+      }
+    }
+
+    // Check if this socket is already in this room
+    if (room.socketIds.has(socket.id)) {
+      console.log(`Socket ${socket.id} is already in room ${roomId}`);
+      return;
+    }
+
+    // Add socket to room
+    room.socketIds.add(socket.id);
+    room.userMap.set(userId, socket.id);
+    room.userNames.set(userId, socket.data.user.name);
+
+    // Add room to socket's room set
+    socketRooms.get(socket.id)?.add(roomId);
+
+    // Join the Socket.IO room
+    socket.join(roomId);
+
+    // Notify others in the room
+    socket.to(roomId).emit("user-joined", userId, socket.data.user.name);
+
+    // Record participant history
+    recordParticipantJoin(roomId, userId).catch((error) =>
+      console.error(`Error recording join for ${userId} in room ${roomId}:`, error)
+    );
+
+    console.log(`User ${userId} joined room ${roomId}`);
+    console.log(`Room ${roomId} now has ${room.socketIds.size} users`);
+
+    // Send list of users in the room
+    io.to(roomId).emit("room-users", getRoomUsers(room));
+
+    // Let the newcomer know whether to caption their speech
+    socket.emit("captions-state", room.captionsEnabled);
+
+    // Muting by the host outlasts leaving and rejoining
+    socket.emit("room-access", roomId, { isLocked: room.isLocked, waitingRoomEnabled: room.waitingRoomEnabled });
+    socket.emit("forced-mute", roomId, room.forcedMutes.get(userId) ?? NO_FORCED_MUTE);
+    if (userId === room.hostId) {
+      socket.emit("forced-mutes", roomId, getForcedMutes(room));
+      socket.emit("waiting-users", roomId, getWaitingUsers(room));
+    }
+
+    // Catch the newcomer up on the chat
+    getRecentChatMessages(roomId, CHAT_HISTORY_LIMIT)
+      .then((messages) => socket.emit("chat-history", roomId, messages))
+      .catch((error) => console.error(`Error loading chat history for room ${roomId}:`, error));
+  }
+
+  /**
+   * Helper function to send the host the current waiting room, if they are in the call
+   */
+  function notifyHostOfWaitingUsers(roomId: string) {
+    const room = rooms[roomId];
+    const hostSocketId = room?.userMap.get(room.hostId);
+    if (hostSocketId) {
+      io.to(hostSocketId).emit("waiting-users", roomId, getWaitingUsers(room));
+    }
+  }
+
+  /**
+   * Helper function to let someone in from the waiting room
+   */
+  function admitWaitingUser(roomId: string, waitingUserId: string) {
+    const room = rooms[roomId];
+    const waiting = room?.waitingUsers.get(waitingUserId);
+    if (!waiting) {
+      return;
+    }
+
+    room.waitingUsers.delete(waitingUserId);
+    notifyHostOfWaitingUsers(roomId);
+
+    const waitingSocket = io.sockets.sockets.get(waiting.socketId);
+    if (waitingSocket) {
+      console.log(`User ${waitingUserId} was admitted to room ${roomId}`);
+      waitingSocket.emit("admitted", roomId);
+      addToRoom(waitingSocket, roomId);
+    }
+  }
+
+  /**
+   * Helper function to turn someone in the waiting room away
+   */
+  function denyWaitingUser(roomId: string, waitingUserId: string, message: string) {
+    const room = rooms[roomId];
+    const waiting = room?.waitingUsers.get(waitingUserId);
+    if (!waiting) {
+      return;
+    }
+
+    room.waitingUsers.delete(waitingUserId);
+    socketRooms.get(waiting.socketId)?.delete(roomId);
+    notifyHostOfWaitingUsers(roomId);
+
+    console.log(`User ${waitingUserId} was not admitted to room ${roomId}`);
+    io.to(waiting.socketId).emit("join-error", roomId, message);
+  }
+
   /**
    * Helper function to handle leaving a room
    */
-  function leaveRoom(socket: any, roomId: string, userId: string, io: SocketServer) {
+  function leaveRoom(socket: AppSocket, roomId: string) {
+    const userId = socket.data.user.id;
     console.log(`User ${userId} leaving room ${roomId}`);
 
     // Check if room exists
@@ -147,21 +582,24 @@ export function initializeSocketServer(httpServer: HttpServer): SocketServer {
       return;
     }
 
-    // Check if user is in the room
-    if (!rooms[roomId].userMap.has(userId)) {
-      console.log(`User ${userId} is not in room ${roomId}`);
+    // Someone who gives up waiting just leaves the waiting room
+    if (rooms[roomId].waitingUsers.get(userId)?.socketId === socket.id) {
+      rooms[roomId].waitingUsers.delete(userId);
+      socketRooms.get(socket.id)?.delete(roomId);
+      notifyHostOfWaitingUsers(roomId);
+      endCallIfEmpty(roomId);
       return;
     }
 
-    // Check if this is the correct socket for this user
-    const storedSocketId = rooms[roomId].userMap.get(userId);
-    if (storedSocketId !== socket.id) {
+    // Check if this socket holds the user's slot in the room
+    if (!isSocketInRoom(socket, roomId)) {
       console.log(`Socket ${socket.id} is not the socket for user ${userId} in room ${roomId}`);
       return;
     }
 
     // Remove user from room
     rooms[roomId].userMap.delete(userId);
+    rooms[roomId].userNames.delete(userId);
     rooms[roomId].socketIds.delete(socket.id);
 
     // Remove room from socket's room set
@@ -173,18 +611,62 @@ export function initializeSocketServer(httpServer: HttpServer): SocketServer {
     // Notify others in the room
     socket.to(roomId).emit("user-left", userId);
 
-    // If room is empty, delete it
-    if (rooms[roomId].socketIds.size === 0) {
-      console.log(`Room ${roomId} is now empty, deleting it`);
-      delete rooms[roomId];
-    } else {
+    // Record participant history
+    recordParticipantLeave(roomId, userId).catch((error) =>
+      console.error(`Error recording leave for ${userId} in room ${roomId}:`, error)
+    );
+
+    if (!endCallIfEmpty(roomId)) {
       console.log(`Room ${roomId} now has ${rooms[roomId].socketIds.size} users`);
 
       // Send updated list of users in the room
-      io.to(roomId).emit("room-users", Array.from(rooms[roomId].userMap.keys()));
+      io.to(roomId).emit("room-users", getRoomUsers(rooms[roomId]));
     }
   }
 
+  /**
+   * Helper function to drop a call's in-memory state once no one is in it or
+   * waiting for it; the room itself persists
+   * @returns True if the call ended
+   */
+  function endCallIfEmpty(roomId: string): boolean {
+    const room = rooms[roomId];
+    if (room.socketIds.size > 0 || room.waitingUsers.size > 0) {
+      return false;
+    }
+
+    console.log(`Room ${roomId} is now empty, ending the call`);
+    delete rooms[roomId];
+    return true;
+  }
+
   return io;
 }
 
+/**
+ * Disconnect everyone from a room's live call after it has been closed
+ * @param roomId Room ID
+ */
+export function closeRoomSessions(roomId: string): void {
+  const room = rooms[roomId];
+  if (!ioServer || !room) {
+    return;
+  }
+
+  console.log(`Closing call in room ${roomId}`);
+
+  // Tell participants, and anyone waiting to join, the room is gone, then remove them from it
+  ioServer.to(roomId).emit("room-closed", roomId);
+  ioServer.in(roomId).socketsLeave(roomId);
+
+  for (const { socketId } of room.waitingUsers.values()) {
+    ioServer.to(socketId).emit("room-closed", roomId);
+    socketRooms.get(socketId)?.delete(roomId);
+  }
+
+  for (const socketId of room.socketIds) {
+    socketRooms.get(socketId)?.delete(roomId);
+  }
+
+  delete rooms[roomId];
+}
@@ -0,0 +1,191 @@
+import { mkdtemp, rm, stat } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+  getRecordingById,
+  getRecordingLiveCaptions,
+  getUnprocessedRecordingIds,
+  updateRecordingProcessing,
+} from './recordingService';
+import {
+  getRecordingSessionByRecordingId,
+  markRecordingSessionAssembled,
+} from './recordingSessionService';
+import {
+  buildRenditionKey,
+  concatenateObjects,
+  deleteObject,
+  downloadObjectToFile,
+  uploadFileToObject,
+} from './s3Service';
+import { generatePreviews } from './previewService';
+import { packageHls } from './hlsService';
+import { createJobQueue } from './jobQueue';
+import { enqueueTranscription } from './transcriptionService';
+import { saveLiveTranscript } from './transcriptService';
+import { probeVideo, runFfmpeg } from '../utils/ffmpeg';
+import { fitCuesToRange } from '../utils/captions';
+
+// Encoding is CPU bound, so by default only one recording is transcoded at a time
+const TRANSCODE_CONCURRENCY = Number(process.env.TRANSCODE_CONCURRENCY) || 1;
+
+/**
+ * Join the chunks of a recording streamed while in progress into its file.
+ * Recordings that were not streamed, or are already joined, are left as they are.
+ * @param recordingId The ID of the recording
+ * @param s3Key The S3 key of the recording's file
+ */
+async function assembleStreamedRecording(recordingId: string, s3Key: string): Promise<void> {
+  const session = await getRecordingSessionByRecordingId(recordingId);
+  if (!session || session.chunks.length === 0) {
+    return;
+  }
+
+  await concatenateObjects(session.chunks.map((chunk) => chunk.s3Key), s3Key, session.mimeType);
+  await markRecordingSessionAssembled(session.id);
+
+  // The chunks are no longer needed once joined
+  Promise.all(session.chunks.map((chunk) => deleteObject(chunk.s3Key))).catch((error) =>
+    console.error(`Error deleting chunks of recording session ${session.id}:`, error)
+  );
+}
+
+/**
+ * Transcode a recording to an MP4 (H.264 + AAC) rendition, generate its
+ * preview images, package it for adaptive streaming and store their keys.
+ * Trimmed recordings keep only their clip range; clips are cut from their
+ * source recording's MP4, which becomes their only copy of the video.
+ * @param recordingId The ID of the recording
+ */
+async function transcodeRecording(recordingId: string): Promise<void> {
+  const recording = await getRecordingById(recordingId);
+  if (!recording) {
+    console.log(`Skipping transcode of deleted recording ${recordingId}`);
+    return;
+  }
+
+  await updateRecordingProcessing(recordingId, 'processing', { processingError: null });
+  console.log(`Transcoding recording ${recordingId}`);
+
+  const workDir = await mkdtemp(path.join(os.tmpdir(), 'clipz-transcode-'));
+
+  try {
+    const inputPath = path.join(workDir, 'source');
+    const outputPath = path.join(workDir, 'video.mp4');
+
+    // Recordings streamed in chunks only become one file here
+    await assembleStreamedRecording(recordingId, recording.s3Key);
+
+    // Clip times refer to the source as it plays back, i.e. its processed MP4
+    let inputKey = recording.s3Key;
+    if (recording.sourceRecordingId) {
+      const source = await getRecordingById(recording.sourceRecordingId);
+      if (!source?.mp4Key) {
+        throw new Error('The source recording is no longer available');
+      }
+      inputKey = source.mp4Key;
+    }
+
+    await downloadObjectToFile(inputKey, inputPath);
+
+    // Seeking before the input is fast, and exact since the video is re-encoded
+    const rangeArgs =
+      recording.clipStart !== null && recording.clipEnd !== null
+        ? ['-ss', String(recording.clipStart), '-t', String(recording.clipEnd - recording.clipStart)]
+        : [];
+
+    await runFfmpeg([
+      ...rangeArgs,
+      '-i', inputPath,
+      '-map', '0:v:0?',
+      '-map', '0:a:0?',
+      // H.264 needs even dimensions for yuv420p
+      '-vf', 'scale=trunc(iw/2)*2:trunc(ih/2)*2',
+      '-c:v', 'libx264',
+      '-preset', 'veryfast',
+      '-crf', '23',
+      '-pix_fmt', 'yuv420p',
+      '-c:a', 'aac',
+      '-b:a', '128k',
+      // Put the index at the start so playback can begin before the download finishes
+      '-movflags', '+faststart',
+      outputPath,
+    ]);
+
+    const mp4Key = recording.sourceRecordingId
+      ? recording.s3Key
+      : buildRenditionKey(recordingId, 'video.mp4');
+    await uploadFileToObject(outputPath, mp4Key, 'video/mp4');
+
+    // Trimming and cutting change the length, and a clip's size is only known now
+    const { durationSeconds } = await probeVideo(outputPath);
+    const size = recording.sourceRecordingId ? (await stat(outputPath)).size : undefined;
+
+    // Previews come from the MP4, which always carries its duration
+    const previewKeys = await generatePreviews(recordingId, outputPath, workDir);
+
+    const hlsKey = await packageHls(recordingId, outputPath, workDir);
+
+    await updateRecordingProcessing(recordingId, 'ready', {
+      duration: Math.round(durationSeconds),
+      size,
+      mp4Key,
+      hlsKey: hlsKey ?? undefined,
+      ...previewKeys,
+    });
+    console.log(`Recording ${recordingId} is ready`);
+
+    // Captions from the call already say who spoke, so they are kept as the
+    // transcript; otherwise it is made from the finished MP4, so trims and
+    // clips are transcribed as kept
+    const liveCaptions = await getRecordingLiveCaptions(recordingId);
+    if (liveCaptions.length > 0) {
+      const range =
+        recording.clipStart !== null && recording.clipEnd !== null
+          ? { start: recording.clipStart, end: recording.clipEnd }
+          : null;
+
+      await saveLiveTranscript(recordingId, fitCuesToRange(liveCaptions, range)).catch((error) =>
+        console.error(`Error saving live captions of recording ${recordingId}:`, error)
+      );
+    } else {
+      await enqueueTranscription(recordingId).catch((error) =>
+        console.error(`Error queueing transcription of recording ${recordingId}:`, error)
+      );
+    }
+  } catch (error) {
+    console.error(`Error transcoding recording ${recordingId}:`, error);
+    await updateRecordingProcessing(recordingId, 'failed', {
+      processingError: error instanceof Error ? error.message : String(error),
+    }).catch((updateError) =>
+      console.error(`Error marking recording ${recordingId} as failed:`, updateError)
+    );
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
+
+const transcodeQueue = createJobQueue('transcode', transcodeRecording, TRANSCODE_CONCURRENCY);
+
+/**
+ * Queue a recording for transcoding
+ * @param recordingId The ID of the recording
+ */
+export function enqueueTranscode(recordingId: string): void {
+  transcodeQueue.enqueue(recordingId);
+}
+
+/**
+ * Re-queue recordings left unfinished by a previous run of the server
+ */
+export async function resumePendingTranscodes(): Promise<void> {
+  const recordingIds = await getUnprocessedRecordingIds();
+
+  if (recordingIds.length > 0) {
+    console.log(`Resuming ${recordingIds.length} pending transcode job(s)`);
+  }
+
+  for (const recordingId of recordingIds) {
+    transcodeQueue.enqueue(recordingId);
+  }
+}
@@ -0,0 +1,158 @@
+import { PrismaClient } from '../generated/prisma';
+import { TranscriptStatus } from '../types';
+
+const prisma = new PrismaClient();
+
+// Segments returned per recording when searching transcripts
+const MAX_MATCHES_PER_RECORDING = 3;
+
+/**
+ * Mark a recording's transcript as waiting to be made, creating it if needed.
+ * Any earlier text is kept until the new transcript replaces it.
+ * @param recordingId The ID of the recording
+ * @returns The transcript record
+ */
+export async function queueTranscript(recordingId: string) {
+  return prisma.transcript.upsert({
+    where: {
+      recordingId,
+    },
+    create: {
+      recordingId,
+    },
+    update: {
+      status: 'queued',
+      error: null,
+    },
+  });
+}
+
+/**
+ * Get a recording's transcript
+ * @param recordingId The ID of the recording
+ * @returns The transcript record or null if the recording has none
+ */
+export async function getTranscriptByRecordingId(recordingId: string) {
+  return prisma.transcript.findUnique({
+    where: {
+      recordingId,
+    },
+  });
+}
+
+/**
+ * Update a transcript's state, and its text once it is made
+ * @param recordingId The ID of the recording
+ * @param status The new status
+ * @param data The language and timed segments, or the error if transcription failed
+ * @returns The updated transcript record
+ */
+export async function updateTranscript(
+  recordingId: string,
+  status: TranscriptStatus,
+  data: {
+    error?: string | null;
+    language?: string | null;
+    segments?: { start: number; end: number; text: string }[];
+  } = {}
+) {
+  return prisma.transcript.update({
+    where: {
+      recordingId,
+    },
+    data: {
+      status,
+      error: data.error,
+      language: data.language,
+      segments: data.segments,
+      text: data.segments?.map((segment) => segment.text).join(' '),
+    },
+  });
+}
+
+/**
+ * Store captions spoken in the call as a recording's finished transcript,
+ * in place of transcribing its audio
+ * @param recordingId The ID of the recording
+ * @param segments The captions, in seconds from the start of the processed recording
+ * @returns The transcript record
+ */
+export async function saveLiveTranscript(
+  recordingId: string,
+  segments: { start: number; end: number; text: string; speaker: string | null }[]
+) {
+  const data = {
+    status: 'ready',
+    error: null,
+    language: null,
+    segments,
+    text: segments.map((segment) => segment.text).join(' '),
+  };
+
+  return prisma.transcript.upsert({
+    where: {
+      recordingId,
+    },
+    create: {
+      recordingId,
+      ...data,
+    },
+    update: data,
+  });
+}
+
+/**
+ * Get the IDs of recordings whose transcript has not finished
+ * @returns An array of recording IDs, oldest request first
+ */
+export async function getUnfinishedTranscriptRecordingIds() {
+  const transcripts = await prisma.transcript.findMany({
+    where: {
+      status: { in: ['queued', 'processing'] },
+    },
+    select: {
+      recordingId: true,
+    },
+    orderBy: {
+      updatedAt: 'asc',
+    },
+  });
+
+  return transcripts.map((transcript) => transcript.recordingId);
+}
+
+/**
+ * Find where some text is said in recordings
+ * @param recordingIds The IDs of the recordings to look in
+ * @param q The text to look for, matched case-insensitively
+ * @returns The first few matching segments of each recording, by recording ID
+ */
+export async function getTranscriptMatches(recordingIds: string[], q: string) {
+  const transcripts = await prisma.transcript.findMany({
+    where: {
+      recordingId: { in: recordingIds },
+      status: 'ready',
+      text: { contains: q, mode: 'insensitive' },
+    },
+    select: {
+      recordingId: true,
+      segments: true,
+    },
+  });
+
+  const needle = q.toLowerCase();
+  const matches = new Map<string, { start: number; end: number; text: string }[]>();
+
+  for (const transcript of transcripts) {
+    const segments = transcript.segments
+      .filter((segment) => segment.text.toLowerCase().includes(needle))
+      .slice(0, MAX_MATCHES_PER_RECORDING);
+
+    // The text can match across two segments without either containing it
+    if (segments.length > 0) {
+      matches.set(transcript.recordingId, segments);
+    }
+  }
+
+  return matches;
+}
@@ -0,0 +1,104 @@
+import { mkdtemp, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { getRecordingById } from './recordingService';
+import {
+  getUnfinishedTranscriptRecordingIds,
+  queueTranscript,
+  updateTranscript,
+} from './transcriptService';
+import { downloadObjectToFile } from './s3Service';
+import { createJobQueue } from './jobQueue';
+import { probeVideo, runFfmpeg } from '../utils/ffmpeg';
+import { transcribeAudio } from '../utils/whisper';
+
+// Speech-to-text runs on the CPU and competes with transcoding, so one at a time by default
+const TRANSCRIPTION_CONCURRENCY = Number(process.env.TRANSCRIPTION_CONCURRENCY) || 1;
+
+/**
+ * Transcribe a processed recording's speech and store the timed text
+ * @param recordingId The ID of the recording
+ */
+async function transcribeRecording(recordingId: string): Promise<void> {
+  const recording = await getRecordingById(recordingId);
+  if (!recording) {
+    console.log(`Skipping transcription of deleted recording ${recordingId}`);
+    return;
+  }
+
+  // Transcripts are made from the MP4, which already has any trim applied
+  if (!recording.mp4Key) {
+    await updateTranscript(recordingId, 'failed', { error: 'The recording has not been processed' });
+    return;
+  }
+
+  await updateTranscript(recordingId, 'processing', { error: null });
+  console.log(`Transcribing recording ${recordingId}`);
+
+  const workDir = await mkdtemp(path.join(os.tmpdir(), 'clipz-transcribe-'));
+
+  try {
+    const videoPath = path.join(workDir, 'video.mp4');
+    const audioPath = path.join(workDir, 'audio.wav');
+
+    await downloadObjectToFile(recording.mp4Key, videoPath);
+
+    // Nothing to transcribe without sound
+    const { hasAudio } = await probeVideo(videoPath);
+    if (!hasAudio) {
+      await updateTranscript(recordingId, 'ready', { language: null, segments: [] });
+      return;
+    }
+
+    // whisper.cpp reads 16 kHz mono 16-bit PCM
+    await runFfmpeg([
+      '-i', videoPath,
+      '-vn',
+      '-ac', '1',
+      '-ar', '16000',
+      '-c:a', 'pcm_s16le',
+      audioPath,
+    ]);
+
+    const { language, segments } = await transcribeAudio(audioPath, path.join(workDir, 'transcript'));
+
+    await updateTranscript(recordingId, 'ready', { language, segments });
+    console.log(`Transcript of recording ${recordingId} is ready`);
+  } catch (error) {
+    console.error(`Error transcribing recording ${recordingId}:`, error);
+    await updateTranscript(recordingId, 'failed', {
+      error: error instanceof Error ? error.message : String(error),
+    }).catch((updateError) =>
+      console.error(`Error marking transcript of recording ${recordingId} as failed:`, updateError)
+    );
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
+
+const transcriptionQueue = createJobQueue('transcription', transcribeRecording, TRANSCRIPTION_CONCURRENCY);
+
+/**
+ * Queue a recording for transcription. The queued state is stored first, so
+ * the job survives a restart.
+ * @param recordingId The ID of the recording
+ */
+export async function enqueueTranscription(recordingId: string): Promise<void> {
+  await queueTranscript(recordingId);
+  transcriptionQueue.enqueue(recordingId);
+}
+
+/**
+ * Re-queue transcriptions left unfinished by a previous run of the server
+ */
+export async function resumePendingTranscriptions(): Promise<void> {
+  const recordingIds = await getUnfinishedTranscriptRecordingIds();
+
+  if (recordingIds.length > 0) {
+    console.log(`Resuming ${recordingIds.length} pending transcription job(s)`);
+  }
+
+  for (const recordingId of recordingIds) {
+    transcriptionQueue.enqueue(recordingId);
+  }
+}
@@ -0,0 +1,144 @@
+import crypto from 'crypto';
+import { PrismaClient } from '../generated/prisma';
+import { WorkspaceRole } from '../types';
+import { isValidObjectId } from '../utils/objectId';
+
+const prisma = new PrismaClient();
+
+// Invites can be accepted for 7 days
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Create an invite to join a workspace
+ * @param workspaceId The ID of the workspace
+ * @param invitedById The ID of the user sending the invite
+ * @param email The email address of the person invited
+ * @param role The role the member gets on accepting
+ * @returns The created invite record
+ */
+export async function createWorkspaceInvite(
+  workspaceId: string,
+  invitedById: string,
+  email: string,
+  role: WorkspaceRole
+) {
+  return prisma.workspaceInvite.create({
+    data: {
+      workspaceId,
+      invitedById,
+      email: email.trim().toLowerCase(),
+      role,
+      // The token is the secret in the invite URL
+      token: crypto.randomBytes(24).toString('base64url'),
+      expiresAt: new Date(Date.now() + INVITE_TTL_MS),
+    },
+  });
+}
+
+/**
+ * Get a workspace's invites that can still be accepted
+ * @param workspaceId The ID of the workspace
+ * @returns An array of invite records, newest first
+ */
+export async function getPendingInvitesByWorkspaceId(workspaceId: string) {
+  return prisma.workspaceInvite.findMany({
+    where: {
+      workspaceId,
+      acceptedAt: null,
+      expiresAt: { gt: new Date() },
+    },
+    orderBy: {
+      createdAt: 'desc',
+    },
+  });
+}
+
+/**
+ * Get the invites sent to an email address that can still be accepted. Their tokens are
+ * left out: an invite is accepted from the link sent to the address, not from the listing
+ * @param email The email address
+ * @returns An array of invite records with the workspace name, newest first
+ */
+export async function getPendingInvitesByEmail(email: string) {
+  return prisma.workspaceInvite.findMany({
+    where: {
+      email: email.trim().toLowerCase(),
+      acceptedAt: null,
+      expiresAt: { gt: new Date() },
+    },
+    omit: {
+      token: true,
+    },
+    include: {
+      workspace: {
+        select: { id: true, name: true },
+      },
+    },
+    orderBy: {
+      createdAt: 'desc',
+    },
+  });
+}
+
+/**
+ * Get an invite by its ID
+ * @param id The ID of the invite
+ * @returns The invite record or null if not found
+ */
+export async function getWorkspaceInviteById(id: string) {
+  if (!isValidObjectId(id)) {
+    return null;
+  }
+
+  return prisma.workspaceInvite.findUnique({
+    where: {
+      id,
+    },
+  });
+}
+
+/**
+ * Get an invite by its token
+ * @param token The token from the invite URL
+ * @returns The invite record with the workspace name, or null if not found
+ */
+export async function getWorkspaceInviteByToken(token: string) {
+  return prisma.workspaceInvite.findUnique({
+    where: {
+      token,
+    },
+    include: {
+      workspace: {
+        select: { id: true, name: true },
+      },
+    },
+  });
+}
+
+/**
+ * Mark an invite as accepted, so it cannot be used again
+ * @param id The ID of the invite
+ * @returns The updated invite record
+ */
+export async function markWorkspaceInviteAccepted(id: string) {
+  return prisma.workspaceInvite.update({
+    where: {
+      id,
+    },
+    data: {
+      acceptedAt: new Date(),
+    },
+  });
+}
+
+/**
+ * Delete an invite
+ * @param id The ID of the invite
+ */
+export async function deleteWorkspaceInvite(id: string) {
+  await prisma.workspaceInvite.delete({
+    where: {
+      id,
+    },
+  });
+}
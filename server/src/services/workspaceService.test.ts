@@ -0,0 +1,38 @@
+import { describe, expect, it, vi } from 'vitest';
+import { canManageRecording, hasRole } from './workspaceService';
+
+// Only the role checks are tested here, which never touch the database
+vi.mock('../generated/prisma', () => ({ PrismaClient: vi.fn() }));
+
+describe('hasRole', () => {
+  it('allows roles at or above the minimum', () => {
+    expect(hasRole('owner', 'admin')).toBe(true);
+    expect(hasRole('admin', 'admin')).toBe(true);
+    expect(hasRole('member', 'viewer')).toBe(true);
+  });
+
+  it('refuses roles below the minimum and non-members', () => {
+    expect(hasRole('member', 'admin')).toBe(false);
+    expect(hasRole('viewer', 'member')).toBe(false);
+    expect(hasRole(null, 'viewer')).toBe(false);
+  });
+});
+
+describe('canManageRecording', () => {
+  const recording = { userId: 'uploader' };
+
+  it('lets admins and owners manage anyone’s recording', () => {
+    expect(canManageRecording('admin', recording, 'someone-else')).toBe(true);
+    expect(canManageRecording('owner', recording, 'someone-else')).toBe(true);
+  });
+
+  it('lets members manage only their own recordings', () => {
+    expect(canManageRecording('member', recording, 'uploader')).toBe(true);
+    expect(canManageRecording('member', recording, 'someone-else')).toBe(false);
+  });
+
+  it('never lets viewers or non-members manage recordings', () => {
+    expect(canManageRecording('viewer', recording, 'uploader')).toBe(false);
+    expect(canManageRecording(null, recording, 'uploader')).toBe(false);
+  });
+});
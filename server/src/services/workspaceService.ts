@@ -0,0 +1,341 @@
+import { PrismaClient } from '../generated/prisma';
+import { ApiError } from '../middleware/errorHandler';
+import { WorkspaceRole } from '../types';
+import { isValidObjectId } from '../utils/objectId';
+
+const prisma = new PrismaClient();
+
+// Each role can do everything the roles below it can
+const ROLE_RANKS: Record<WorkspaceRole, number> = {
+  viewer: 0,
+  member: 1,
+  admin: 2,
+  owner: 3,
+};
+
+/**
+ * Check whether a role grants at least the permissions of another
+ * @param role The role to check, or null for non-members
+ * @param minimum The lowest role that is allowed
+ * @returns True if the role is at least the minimum
+ */
+export function hasRole(role: WorkspaceRole | null, minimum: WorkspaceRole): boolean {
+  return role !== null && ROLE_RANKS[role] >= ROLE_RANKS[minimum];
+}
+
+/**
+ * Create a new workspace owned by the given user
+ * @param name The workspace name
+ * @param ownerId The ID of the user creating the workspace
+ * @returns The created workspace record
+ */
+export async function createWorkspace(name: string, ownerId: string) {
+  return prisma.workspace.create({
+    data: {
+      name,
+      members: {
+        create: {
+          userId: ownerId,
+          role: 'owner',
+        },
+      },
+    },
+  });
+}
+
+/**
+ * Get a workspace by its ID
+ * @param id The ID of the workspace
+ * @returns The workspace record or null if not found
+ */
+export async function getWorkspaceById(id: string) {
+  if (!isValidObjectId(id)) {
+    return null;
+  }
+
+  return prisma.workspace.findUnique({
+    where: {
+      id,
+    },
+  });
+}
+
+/**
+ * Get the workspaces a user belongs to, with the user's role in each
+ * @param userId The ID of the user
+ * @returns An array of workspace records with a role, oldest membership first
+ */
+export async function getWorkspacesForUser(userId: string) {
+  const memberships = await prisma.workspaceMember.findMany({
+    where: {
+      userId,
+    },
+    include: {
+      workspace: true,
+    },
+    orderBy: {
+      joinedAt: 'asc',
+    },
+  });
+
+  return memberships.map((membership) => ({
+    ...membership.workspace,
+    role: membership.role as WorkspaceRole,
+  }));
+}
+
+/**
+ * Get the first workspace a user owns, creating one if they have none
+ * @param userId The ID of the user
+ * @returns The workspace record
+ */
+export async function getOrCreatePersonalWorkspace(userId: string) {
+  const membership = await prisma.workspaceMember.findFirst({
+    where: {
+      userId,
+      role: 'owner',
+    },
+    include: {
+      workspace: true,
+    },
+    orderBy: {
+      joinedAt: 'asc',
+    },
+  });
+
+  if (membership) {
+    return membership.workspace;
+  }
+
+  const user = await prisma.user.findUniqueOrThrow({
+    where: {
+      id: userId,
+    },
+  });
+
+  return createWorkspace(`${user.name}'s workspace`, userId);
+}
+
+/**
+ * Rename a workspace
+ * @param id The ID of the workspace
+ * @param name The new name
+ * @returns The updated workspace record
+ */
+export async function updateWorkspace(id: string, name: string) {
+  return prisma.workspace.update({
+    where: {
+      id,
+    },
+    data: {
+      name,
+    },
+  });
+}
+
+/**
+ * Get a user's membership of a workspace
+ * @param workspaceId The ID of the workspace
+ * @param userId The ID of the user
+ * @returns The membership record or null if the user is not a member
+ */
+export async function getWorkspaceMember(workspaceId: string, userId: string) {
+  if (!isValidObjectId(workspaceId) || !isValidObjectId(userId)) {
+    return null;
+  }
+
+  return prisma.workspaceMember.findUnique({
+    where: {
+      workspaceId_userId: { workspaceId, userId },
+    },
+  });
+}
+
+/**
+ * Get a user's role in a workspace
+ * @param workspaceId The ID of the workspace
+ * @param userId The ID of the user
+ * @returns The role, or null if the user is not a member
+ */
+export async function getMemberRole(workspaceId: string, userId: string) {
+  const member = await getWorkspaceMember(workspaceId, userId);
+  return member ? (member.role as WorkspaceRole) : null;
+}
+
+/**
+ * Get the members of a workspace
+ * @param workspaceId The ID of the workspace
+ * @returns An array of membership records with the user's name and email, oldest first
+ */
+export async function getWorkspaceMembers(workspaceId: string) {
+  return prisma.workspaceMember.findMany({
+    where: {
+      workspaceId,
+    },
+    include: {
+      user: {
+        select: { id: true, name: true, email: true },
+      },
+    },
+    orderBy: {
+      joinedAt: 'asc',
+    },
+  });
+}
+
+/**
+ * Add a user to a workspace, or change their role if they are already a member
+ * @param workspaceId The ID of the workspace
+ * @param userId The ID of the user
+ * @param role The member's role
+ * @returns The membership record
+ */
+export async function addWorkspaceMember(workspaceId: string, userId: string, role: WorkspaceRole) {
+  return prisma.workspaceMember.upsert({
+    where: {
+      workspaceId_userId: { workspaceId, userId },
+    },
+    create: {
+      workspaceId,
+      userId,
+      role,
+    },
+    update: {
+      role,
+    },
+  });
+}
+
+/**
+ * Change a member's role
+ * @param id The ID of the membership
+ * @param role The new role
+ * @returns The updated membership record
+ */
+export async function updateWorkspaceMemberRole(id: string, role: WorkspaceRole) {
+  return prisma.workspaceMember.update({
+    where: {
+      id,
+    },
+    data: {
+      role,
+    },
+  });
+}
+
+/**
+ * Remove a member from a workspace
+ * @param id The ID of the membership
+ */
+export async function removeWorkspaceMember(id: string) {
+  await prisma.workspaceMember.delete({
+    where: {
+      id,
+    },
+  });
+}
+
+/**
+ * Pick the workspace a user's upload goes into and make sure they may upload there
+ * @param userId The ID of the user uploading
+ * @param workspaceId The requested workspace, or undefined for the user's personal workspace
+ * @returns The ID of the workspace
+ */
+export async function resolveUploadWorkspace(userId: string, workspaceId?: string) {
+  if (!workspaceId) {
+    return (await getOrCreatePersonalWorkspace(userId)).id;
+  }
+
+  const role = await getMemberRole(workspaceId, userId);
+
+  if (!role) {
+    throw new ApiError('Workspace not found', 404);
+  }
+
+  if (!hasRole(role, 'member')) {
+    throw new ApiError('Viewers cannot upload recordings', 403);
+  }
+
+  return workspaceId;
+}
+
+/**
+ * Get a user's role for a recording
+ * @param recording The recording's uploader and workspace
+ * @param userId The ID of the user
+ * @returns The user's role in the recording's workspace, or null if they have no access
+ */
+export async function getRecordingRole(
+  recording: { userId: string; workspaceId: string | null },
+  userId: string
+) {
+  // Recordings not yet moved into a workspace belong to their uploader alone
+  if (!recording.workspaceId) {
+    return recording.userId === userId ? 'owner' : null;
+  }
+
+  return getMemberRole(recording.workspaceId, userId);
+}
+
+/**
+ * Check whether a user may edit, share and delete a recording. Admins may
+ * manage any recording in the workspace, members only their own.
+ * @param role The user's role for the recording
+ * @param recording The recording's uploader
+ * @param userId The ID of the user
+ * @returns True if the user may manage the recording
+ */
+export function canManageRecording(
+  role: WorkspaceRole | null,
+  recording: { userId: string },
+  userId: string
+): boolean {
+  return hasRole(role, 'admin') || (hasRole(role, 'member') && recording.userId === userId);
+}
+
+/**
+ * Move recordings uploaded before workspaces existed into their uploader's
+ * personal workspace
+ * @returns The number of recordings moved
+ */
+export async function assignLegacyRecordings() {
+  const where = {
+    OR: [{ workspaceId: null }, { workspaceId: { isSet: false } }],
+  };
+
+  const uploaders = await prisma.recording.findMany({
+    where,
+    select: {
+      userId: true,
+    },
+    distinct: ['userId'],
+  });
+
+  let moved = 0;
+
+  for (const { userId } of uploaders) {
+    const user = isValidObjectId(userId)
+      ? await prisma.user.findUnique({ where: { id: userId } })
+      : null;
+
+    // Recordings of deleted or pre-auth users have nowhere to go
+    if (!user) {
+      continue;
+    }
+
+    const workspace = await getOrCreatePersonalWorkspace(userId);
+    const { count } = await prisma.recording.updateMany({
+      where: {
+        ...where,
+        userId,
+      },
+      data: {
+        workspaceId: workspace.id,
+      },
+    });
+
+    moved += count;
+  }
+
+  return moved;
+}
@@ -0,0 +1,61 @@
+/**
+ * Helpers for route tests. A router is served on a free local port behind the
+ * same JSON parsing and error handling as the real server, and requests carry
+ * a session token the test's mocked auth service knows.
+ */
+import express, { Router } from 'express';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { errorHandler } from '../middleware/errorHandler';
+
+export interface TestResponse {
+  status: number;
+  // Parsed JSON, whose shape each test checks
+  body: any;
+}
+
+export interface TestServer {
+  request: (
+    method: string,
+    path: string,
+    options?: { token?: string; body?: unknown }
+  ) => Promise<TestResponse>;
+  close: () => Promise<void>;
+}
+
+/**
+ * Serve a router for a test
+ * @param mountPath Path the router is mounted at, e.g. /api/recordings
+ * @param router The router under test
+ * @returns The running server
+ */
+export async function startTestServer(mountPath: string, router: Router): Promise<TestServer> {
+  const app = express();
+  app.use(express.json());
+  app.use(mountPath, router);
+  app.use(errorHandler);
+
+  const server = http.createServer(app);
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    request: async (method, path, { token, body } = {}) => {
+      const response = await fetch(`http://127.0.0.1:${port}${path}`, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      const text = await response.text();
+
+      return { status: response.status, body: text ? JSON.parse(text) : null };
+    },
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.close((error) => (error ? reject(error) : resolve()));
+      }),
+  };
+}
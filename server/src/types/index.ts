@@ -1,10 +1,14 @@
 import { z } from 'zod';
+import { isValidObjectId } from '../utils/objectId';
+
+const ObjectIdSchema = z.string().refine(isValidObjectId, { message: 'Invalid ID' });
 
 // S3 Upload URL Request Schema
 export const S3UploadUrlRequestSchema = z.object({
   filename: z.string().min(1),
   fileType: z.string().min(1),
-  userId: z.string().min(1),
+  // Defaults to the user's personal workspace
+  workspaceId: ObjectIdSchema.optional(),
 });
 
 export type S3UploadUrlRequest = z.infer<typeof S3UploadUrlRequestSchema>;
@@ -15,16 +19,326 @@ export interface S3UploadUrlResponse {
   key: string;
 }
 
+// Multipart Upload Schemas
+export const MultipartInitiateRequestSchema = z.object({
+  filename: z.string().min(1),
+  fileType: z.string().min(1),
+  workspaceId: ObjectIdSchema.optional(),
+});
+
+export type MultipartInitiateRequest = z.infer<typeof MultipartInitiateRequestSchema>;
+
+const MultipartUploadRefSchema = z.object({
+  key: z.string().min(1),
+  uploadId: z.string().min(1),
+});
+
+export const MultipartSignPartsRequestSchema = MultipartUploadRefSchema.extend({
+  partNumbers: z.array(z.number().int().min(1).max(10000)).min(1).max(100),
+});
+
+export type MultipartSignPartsRequest = z.infer<typeof MultipartSignPartsRequestSchema>;
+
+export const MultipartListPartsQuerySchema = MultipartUploadRefSchema;
+
+export const MultipartCompleteRequestSchema = MultipartUploadRefSchema.extend({
+  parts: z
+    .array(
+      z.object({
+        partNumber: z.number().int().min(1).max(10000),
+        etag: z.string().min(1),
+      })
+    )
+    .min(1),
+});
+
+export type MultipartCompleteRequest = z.infer<typeof MultipartCompleteRequestSchema>;
+
+export const MultipartAbortRequestSchema = MultipartUploadRefSchema;
+
+// A part of a recording, in seconds, to trim it to or cut a clip from
+const TimeRangeSchema = z
+  .object({
+    start: z.number().nonnegative(),
+    end: z.number().positive(),
+  })
+  .refine((range) => range.end - range.start >= 1, {
+    message: 'The end must be at least 1 second after the start',
+    path: ['end'],
+  });
+
+export type TimeRange = z.infer<typeof TimeRangeSchema>;
+
+// Most live caption lines saved with a recording, the longest line and the
+// longest speaker name. Captions are stored in the recording's document, so
+// even at 3 bytes per character the most allowed (under 10 MB) stays well
+// under MongoDB's 16 MB document limit.
+export const MAX_LIVE_CAPTIONS = 5000;
+export const MAX_LIVE_CAPTION_LENGTH = 500;
+export const MAX_LIVE_CAPTION_SPEAKER_LENGTH = 100;
+
+// A line of live captions from a call, in seconds from the start of the recording
+const LiveCaptionSchema = z
+  .object({
+    start: z.number().nonnegative(),
+    end: z.number().nonnegative(),
+    text: z.string().trim().min(1).max(MAX_LIVE_CAPTION_LENGTH),
+    speaker: z.string().trim().max(MAX_LIVE_CAPTION_SPEAKER_LENGTH).nullable().optional(),
+  })
+  .refine((caption) => caption.end >= caption.start, {
+    message: 'The end cannot be before the start',
+    path: ['end'],
+  });
+
+const LiveCaptionsSchema = z.array(LiveCaptionSchema).max(MAX_LIVE_CAPTIONS);
+
+export type LiveCaption = z.infer<typeof LiveCaptionSchema>;
+
 // Recording Creation Request Schema
 export const RecordingCreationRequestSchema = z.object({
-  userId: z.string().min(1),
   filename: z.string().min(1),
-  s3Url: z.string().url(),
-  duration: z.number().optional(),
-});
+  s3Key: z.string().min(1),
+  duration: z.number().int().nonnegative().optional(),
+  roomId: ObjectIdSchema.optional(),
+  // Keep only this part of the upload when it is processed
+  trim: TimeRangeSchema.optional(),
+  // Captions from the call, used as the transcript instead of transcribing the audio
+  captions: LiveCaptionsSchema.optional(),
+  // When recording started and stopped in the room, to show the call's chat alongside it
+  recordedFrom: z.coerce.date().optional(),
+  recordedUntil: z.coerce.date().optional(),
+}).refine(
+  (data) => !data.recordedFrom || !data.recordedUntil || data.recordedFrom <= data.recordedUntil,
+  { message: 'Recording cannot stop before it starts', path: ['recordedUntil'] }
+);
 
 export type RecordingCreationRequest = z.infer<typeof RecordingCreationRequestSchema>;
 
+// Recording Trim Request Schema; a null range keeps the whole upload
+export const RecordingTrimRequestSchema = z.object({
+  range: TimeRangeSchema.nullable(),
+});
+
+// Clip Creation Request Schema
+export const ClipCreationRequestSchema = z.object({
+  range: TimeRangeSchema,
+  filename: z.string().trim().min(1).max(255).optional(),
+});
+
+export type ClipCreationRequest = z.infer<typeof ClipCreationRequestSchema>;
+
+// Background processing status of a recording
+export type ProcessingStatus = 'queued' | 'processing' | 'ready' | 'failed';
+
+// Status of a recording's transcript
+export type TranscriptStatus = 'queued' | 'processing' | 'ready' | 'failed';
+
+// Recording Update Request Schema
+const TagSchema = z.string().trim().min(1).max(50);
+
+export const RecordingUpdateRequestSchema = z
+  .object({
+    filename: z.string().trim().min(1).max(255).optional(),
+    description: z.string().max(2000).nullable().optional(),
+    tags: z.array(TagSchema).max(20).optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided',
+  });
+
+export type RecordingUpdateRequest = z.infer<typeof RecordingUpdateRequestSchema>;
+
+// Recording List Query Schema
+export const RecordingListQuerySchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  roomId: ObjectIdSchema.optional(),
+  tag: TagSchema.optional(),
+  // A folder's ID, or "root" for recordings not in any folder
+  folderId: z.union([ObjectIdSchema, z.literal('root')]).optional(),
+  sort: z.enum(['uploadedAt', 'filename', 'duration', 'size']).default('uploadedAt'),
+  order: z.enum(['asc', 'desc']).default('desc'),
+  cursor: ObjectIdSchema.optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(24),
+});
+
+export type RecordingListQuery = z.infer<typeof RecordingListQuerySchema>;
+
+// Bulk Recording Schemas
+const RecordingIdsSchema = z.array(ObjectIdSchema).min(1).max(100);
+
+export const RecordingMoveRequestSchema = z.object({
+  recordingIds: RecordingIdsSchema,
+  // null moves the recordings to the top level
+  folderId: ObjectIdSchema.nullable(),
+});
+
+export type RecordingMoveRequest = z.infer<typeof RecordingMoveRequestSchema>;
+
+export const RecordingTagRequestSchema = z
+  .object({
+    recordingIds: RecordingIdsSchema,
+    add: z.array(TagSchema).max(20).default([]),
+    remove: z.array(TagSchema).max(20).default([]),
+  })
+  .refine((data) => data.add.length > 0 || data.remove.length > 0, {
+    message: 'At least one tag to add or remove must be provided',
+  });
+
+export type RecordingTagRequest = z.infer<typeof RecordingTagRequestSchema>;
+
+// Folder Schemas
+export const FolderCreationRequestSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  parentId: ObjectIdSchema.nullable().optional(),
+});
+
+export type FolderCreationRequest = z.infer<typeof FolderCreationRequestSchema>;
+
+export const FolderUpdateRequestSchema = FolderCreationRequestSchema.partial().refine(
+  (data) => Object.keys(data).length > 0,
+  { message: 'At least one field must be provided' }
+);
+
+export type FolderUpdateRequest = z.infer<typeof FolderUpdateRequestSchema>;
+
+// Recording Session Schemas, for recordings uploaded in chunks while in progress
+export const RecordingSessionCreationRequestSchema = z.object({
+  filename: z.string().min(1),
+  mimeType: z.string().min(1),
+  workspaceId: ObjectIdSchema.optional(),
+  roomId: ObjectIdSchema.optional(),
+});
+
+export type RecordingSessionCreationRequest = z.infer<typeof RecordingSessionCreationRequestSchema>;
+
+export const RecordingChunkRequestSchema = z.object({
+  index: z.number().int().min(0).max(100000),
+});
+
+export type RecordingChunkRequest = z.infer<typeof RecordingChunkRequestSchema>;
+
+export const RecordingSessionFinalizeRequestSchema = z.object({
+  duration: z.number().int().nonnegative().optional(),
+  chunkCount: z.number().int().min(1).optional(),
+  captions: LiveCaptionsSchema.optional(),
+});
+
+export type RecordingSessionFinalizeRequest = z.infer<typeof RecordingSessionFinalizeRequestSchema>;
+
+// Comment Schemas
+export const CommentCreationRequestSchema = z
+  .object({
+    body: z.string().trim().min(1).max(5000),
+    timestamp: z.number().nonnegative().optional(),
+    parentId: ObjectIdSchema.optional(),
+  })
+  .refine((data) => data.parentId || data.timestamp !== undefined, {
+    message: 'A timestamp is required for top-level comments',
+  });
+
+export type CommentCreationRequest = z.infer<typeof CommentCreationRequestSchema>;
+
+export const CommentUpdateRequestSchema = z.object({
+  body: z.string().trim().min(1).max(5000),
+});
+
+export type CommentUpdateRequest = z.infer<typeof CommentUpdateRequestSchema>;
+
+// Share Link Schemas
+export type ShareLinkScope = 'anyone' | 'team';
+
+export const ShareLinkCreationRequestSchema = z.object({
+  scope: z.enum(['anyone', 'team']).default('anyone'),
+  password: z.string().min(8).max(128).optional(),
+  expiresAt: z.coerce
+    .date()
+    .refine((date) => date.getTime() > Date.now(), { message: 'Expiry must be in the future' })
+    .optional(),
+});
+
+export type ShareLinkCreationRequest = z.infer<typeof ShareLinkCreationRequestSchema>;
+
+export const ShareLinkAccessRequestSchema = z.object({
+  password: z.string().max(128).optional(),
+});
+
+export type ShareLinkAccessRequest = z.infer<typeof ShareLinkAccessRequestSchema>;
+
+// Workspace Schemas
+export type WorkspaceRole = 'owner' | 'admin' | 'member' | 'viewer';
+
+// Roles that can be given to members; each workspace has exactly one owner
+const AssignableRoleSchema = z.enum(['admin', 'member', 'viewer']);
+
+export const WorkspaceCreationRequestSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+});
+
+export type WorkspaceCreationRequest = z.infer<typeof WorkspaceCreationRequestSchema>;
+
+export const WorkspaceUpdateRequestSchema = WorkspaceCreationRequestSchema;
+
+export type WorkspaceUpdateRequest = z.infer<typeof WorkspaceUpdateRequestSchema>;
+
+export const WorkspaceMemberUpdateRequestSchema = z.object({
+  role: AssignableRoleSchema,
+});
+
+export type WorkspaceMemberUpdateRequest = z.infer<typeof WorkspaceMemberUpdateRequestSchema>;
+
+export const WorkspaceInviteRequestSchema = z.object({
+  email: z.string().email(),
+  role: AssignableRoleSchema.default('member'),
+});
+
+export type WorkspaceInviteRequest = z.infer<typeof WorkspaceInviteRequestSchema>;
+
+// Signup Request Schema
+export const SignupRequestSchema = z.object({
+  email: z.string().email(),
+  name: z.string().min(1).max(100),
+  password: z.string().min(8).max(128),
+});
+
+export type SignupRequest = z.infer<typeof SignupRequestSchema>;
+
+// Login Request Schema
+export const LoginRequestSchema = z.object({
+  email: z.string().email(),
+  password: z.string().min(1),
+});
+
+export type LoginRequest = z.infer<typeof LoginRequestSchema>;
+
+// Authenticated user exposed to route handlers and API responses
+export interface AuthUser {
+  id: string;
+  email: string;
+  name: string;
+}
+
+// Auth Response
+export interface AuthResponse {
+  token: string;
+  user: AuthUser;
+}
+
+// Room Creation Request Schema
+export const RoomCreationRequestSchema = z.object({
+  title: z.string().trim().min(1).max(100),
+  isPrivate: z.boolean().optional(),
+});
+
+export type RoomCreationRequest = z.infer<typeof RoomCreationRequestSchema>;
+
+// Playback URL Response
+export interface PlaybackUrlResponse {
+  url: string;
+  expiresAt: string;
+}
+
 // Error Response
 export interface ErrorResponse {
   message: string;
@@ -0,0 +1,107 @@
+// A timed piece of text, in seconds
+export interface CaptionCue {
+  start: number;
+  end: number;
+  text: string;
+  // Who said it, if known
+  speaker?: string | null;
+}
+
+/**
+ * Format a time for a caption file
+ * @param seconds Time in seconds
+ * @param separator Separator before the milliseconds: "." for WebVTT, "," for SRT
+ * @returns Time in HH:MM:SS.mmm form
+ */
+function formatCaptionTime(seconds: number, separator: '.' | ','): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+
+  return (
+    [hours, minutes, secs].map((part) => String(part).padStart(2, '0')).join(':') +
+    separator +
+    String(ms).padStart(3, '0')
+  );
+}
+
+/**
+ * Keep the cues said within a part of a recording, timed from its start
+ * @param cues The cues, in order
+ * @param range The part that is kept, in seconds, or null to keep all of it
+ * @returns The cues that overlap the range, shifted and cut to fit it
+ */
+export function fitCuesToRange<T extends CaptionCue>(
+  cues: T[],
+  range: { start: number; end: number } | null
+): T[] {
+  if (!range) {
+    return cues;
+  }
+
+  return cues
+    .filter((cue) => cue.end > range.start && cue.start < range.end)
+    .map((cue) => ({
+      ...cue,
+      start: Math.max(cue.start, range.start) - range.start,
+      end: Math.min(cue.end, range.end) - range.start,
+    }));
+}
+
+/**
+ * Keep cue text on consecutive lines, since a blank line ends the cue
+ * @param text Cue text
+ * @returns The text without blank lines
+ */
+function removeBlankLines(text: string): string {
+  return text
+    .split(/\r?\n|\r/)
+    .filter((line) => line.trim())
+    .join('\n');
+}
+
+/**
+ * Escape text for a WebVTT cue. Escaping ">" also keeps "-->" out of it.
+ * @param text Cue text
+ * @returns The escaped text
+ */
+function escapeWebVttText(text: string): string {
+  return removeBlankLines(text).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Build a WebVTT caption file
+ * @param cues The cues, in order
+ * @returns The file contents
+ */
+export function formatWebVtt(cues: CaptionCue[]): string {
+  // Speakers are marked with voice spans; their names cannot contain tag characters or line breaks
+  const blocks = cues.map((cue) => {
+    const text = escapeWebVttText(cue.text);
+    const speaker = cue.speaker?.replace(/[<>&\r\n]/g, '').trim();
+
+    return (
+      `${formatCaptionTime(cue.start, '.')} --> ${formatCaptionTime(cue.end, '.')}\n` +
+      (speaker ? `<v ${speaker}>${text}` : text)
+    );
+  });
+
+  return ['WEBVTT', ...blocks].join('\n\n') + '\n';
+}
+
+/**
+ * Build an SRT caption file
+ * @param cues The cues, in order
+ * @returns The file contents
+ */
+export function formatSrt(cues: CaptionCue[]): string {
+  return cues
+    .map(
+      (cue, index) =>
+        `${index + 1}\n${formatCaptionTime(cue.start, ',')} --> ${formatCaptionTime(cue.end, ',')}\n` +
+        `${cue.speaker ? `${cue.speaker}: ` : ''}${removeBlankLines(cue.text)}\n`
+    )
+    .join('\n');
+}
@@ -0,0 +1,101 @@
+import { spawn } from 'child_process';
+
+// Paths to the ffmpeg and ffprobe binaries; default to the ones on PATH
+const ffmpegPath = process.env.FFMPEG_PATH || 'ffmpeg';
+const ffprobePath = process.env.FFPROBE_PATH || 'ffprobe';
+
+// How much of ffmpeg's stderr to keep for error messages
+const STDERR_TAIL_LENGTH = 2000;
+
+/**
+ * Run ffmpeg with the given arguments
+ * @param args Command-line arguments, without the binary
+ * @returns Promise that resolves when ffmpeg exits successfully
+ */
+export function runFfmpeg(args: string[]): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    const child = spawn(ffmpegPath, ['-hide_banner', '-nostdin', '-y', ...args], {
+      stdio: ['ignore', 'ignore', 'pipe'],
+    });
+
+    let stderr = '';
+    child.stderr.on('data', (data: Buffer) => {
+      stderr = (stderr + data.toString()).slice(-STDERR_TAIL_LENGTH);
+    });
+
+    child.on('error', (error) => reject(new Error(`Failed to start ffmpeg: ${error.message}`)));
+    child.on('close', (code) => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`ffmpeg exited with code ${code}: ${stderr.trim()}`));
+      }
+    });
+  });
+}
+
+export interface VideoInfo {
+  durationSeconds: number;
+  // Null when the file has no video stream
+  width: number | null;
+  height: number | null;
+  hasAudio: boolean;
+}
+
+/**
+ * Read the duration, frame size and streams of a video file with ffprobe
+ * @param filePath Path to the video file
+ * @returns The duration of the file, the frame size of its first video stream and whether it has audio
+ */
+export function probeVideo(filePath: string): Promise<VideoInfo> {
+  return new Promise<VideoInfo>((resolve, reject) => {
+    const child = spawn(
+      ffprobePath,
+      [
+        '-v', 'error',
+        '-show_entries', 'stream=codec_type,width,height:format=duration',
+        '-of', 'json',
+        filePath,
+      ],
+      { stdio: ['ignore', 'pipe', 'pipe'] }
+    );
+
+    let stdout = '';
+    let stderr = '';
+    child.stdout.on('data', (data: Buffer) => {
+      stdout += data.toString();
+    });
+    child.stderr.on('data', (data: Buffer) => {
+      stderr = (stderr + data.toString()).slice(-STDERR_TAIL_LENGTH);
+    });
+
+    child.on('error', (error) => reject(new Error(`Failed to start ffprobe: ${error.message}`)));
+    child.on('close', (code) => {
+      if (code !== 0) {
+        reject(new Error(`ffprobe exited with code ${code}: ${stderr.trim()}`));
+        return;
+      }
+
+      try {
+        const output = JSON.parse(stdout);
+        const streams: { codec_type?: string; width?: number; height?: number }[] =
+          output.streams ?? [];
+        const videoStream = streams.find((stream) => stream.codec_type === 'video');
+        const durationSeconds = Number(output.format?.duration);
+
+        if (!Number.isFinite(durationSeconds)) {
+          throw new Error('no duration found');
+        }
+
+        resolve({
+          durationSeconds,
+          width: videoStream?.width ?? null,
+          height: videoStream?.height ?? null,
+          hasAudio: streams.some((stream) => stream.codec_type === 'audio'),
+        });
+      } catch (error) {
+        reject(new Error(`Failed to read ffprobe output: ${error instanceof Error ? error.message : error}`));
+      }
+    });
+  });
+}
@@ -0,0 +1,8 @@
+/**
+ * Check whether a string is a valid MongoDB ObjectId
+ * @param id The string to check
+ * @returns True if the string can be used as an ObjectId
+ */
+export function isValidObjectId(id: string): boolean {
+  return /^[a-f\d]{24}$/i.test(id);
+}
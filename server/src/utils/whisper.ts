@@ -0,0 +1,82 @@
+import { spawn } from 'child_process';
+import { readFile } from 'fs/promises';
+
+// whisper.cpp command-line binary and the offline model it runs on the CPU
+const whisperPath = process.env.WHISPER_PATH || 'whisper-cli';
+const whisperModelPath = process.env.WHISPER_MODEL_PATH || 'models/ggml-base.bin';
+// Language code, or "auto" to detect it; English-only models need "en"
+const whisperLanguage = process.env.WHISPER_LANGUAGE || 'auto';
+const whisperThreads = Number(process.env.WHISPER_THREADS) || 2;
+
+// How much of whisper's stderr to keep for error messages
+const STDERR_TAIL_LENGTH = 2000;
+
+export interface SpeechSegment {
+  // Seconds from the start of the audio
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface SpeechTranscript {
+  language: string | null;
+  segments: SpeechSegment[];
+}
+
+/**
+ * Transcribe speech with whisper.cpp
+ * @param audioPath Path to a 16 kHz mono WAV file
+ * @param outputBase Path, without extension, to write whisper's JSON output to
+ * @returns The detected language and the timed text segments
+ */
+export async function transcribeAudio(audioPath: string, outputBase: string): Promise<SpeechTranscript> {
+  await new Promise<void>((resolve, reject) => {
+    const child = spawn(
+      whisperPath,
+      [
+        '-m', whisperModelPath,
+        '-f', audioPath,
+        '-l', whisperLanguage,
+        '-t', String(whisperThreads),
+        '-oj',
+        '-of', outputBase,
+        '-np',
+      ],
+      { stdio: ['ignore', 'ignore', 'pipe'] }
+    );
+
+    let stderr = '';
+    child.stderr.on('data', (data: Buffer) => {
+      stderr = (stderr + data.toString()).slice(-STDERR_TAIL_LENGTH);
+    });
+
+    child.on('error', (error) => reject(new Error(`Failed to start whisper: ${error.message}`)));
+    child.on('close', (code) => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`whisper exited with code ${code}: ${stderr.trim()}`));
+      }
+    });
+  });
+
+  try {
+    const output = JSON.parse(await readFile(`${outputBase}.json`, 'utf8'));
+    const pieces: { offsets?: { from?: number; to?: number }; text?: string }[] =
+      output.transcription ?? [];
+
+    return {
+      language: output.result?.language ?? null,
+      // Offsets are in milliseconds; silent stretches come back as empty text
+      segments: pieces
+        .map((piece) => ({
+          start: (piece.offsets?.from ?? 0) / 1000,
+          end: (piece.offsets?.to ?? 0) / 1000,
+          text: (piece.text ?? '').trim(),
+        }))
+        .filter((segment) => segment.text.length > 0),
+    };
+  } catch (error) {
+    throw new Error(`Failed to read whisper output: ${error instanceof Error ? error.message : error}`);
+  }
+}